@@ -0,0 +1,42 @@
+/**
+ * AI Usage API — monthly extraction usage and limits for the web app.
+ *
+ * Usage is read server-side so every screen shows the same numbers the quota
+ * check uses (including the lazy monthly reset, see services/aiUsage.ts).
+ *
+ * Request:
+ *   {}                        → {usage}          caller's organization
+ *   {all: true}               → {organizations}  every organization (master admin only)
+ */
+
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {getFirestore} from "firebase-admin/firestore";
+import {AI_TIER_LIMITS, getAiUsage, listAiUsage} from "../services/aiUsage";
+
+export const aiUsageApi = onCall(
+  {
+    timeoutSeconds: 30,
+    memory: "256MiB",
+    maxInstances: 10,
+    cors: true,
+  },
+  async (req) => {
+    if (!req.auth) {
+      throw new HttpsError("unauthenticated", "Authentication required.");
+    }
+    const userSnap = await getFirestore().collection("users").doc(req.auth.uid).get();
+    const user = userSnap.data();
+
+    if ((req.data as {all?: boolean} | undefined)?.all) {
+      if (user?.role !== "master-admin") {
+        throw new HttpsError("permission-denied", "Only master admins can see every organization.");
+      }
+      return {organizations: await listAiUsage(), tiers: AI_TIER_LIMITS};
+    }
+
+    if (!user?.organizationId) {
+      throw new HttpsError("failed-precondition", "No organization for this account.");
+    }
+    return {usage: await getAiUsage(user.organizationId), tiers: AI_TIER_LIMITS};
+  }
+);
@@ -1,41 +1,190 @@
 /**
- * Command Handlers (Updated for simplified WhatsApp integration)
- * Handle /status and /help commands
+ * Command Handlers
+ * WhatsApp slash commands against organizations/{orgId}/orders
+ *
+ * The webhook resolves the sender with findUserByPhone before routing a
+ * command here, so every handler gets the sender's user record and only
+ * touches orders of that user's organization.
  */
 
-import {getFirestore} from "firebase-admin/firestore";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
 import {sendWhatsAppMessage} from "../services/twilioService";
+import {voidPackageNumber} from "../services/packageCounter";
+import {updateOrderWithAudit} from "../services/orderAudit";
+import {resolveConsignee} from "../services/consigneeDirectory";
+import {getCommandHelp} from "../utils/commandParser";
+import {
+  EXPORTABLE_STATUSES,
+  ORDER_STATUS_LABELS,
+  OrderStatus,
+  OrderStatusChange,
+  buildStatusTransition,
+  nextStatuses,
+  normalizeOrderStatus,
+  parseOrderStatus,
+} from "../utils/orderLifecycle";
+import {createExportRequest} from "./exportRequests";
 
 // Lazy load db to avoid initialization issues
 const getDb = () => getFirestore();
 
+const LIST_DEFAULT_COUNT = 10;
+const LIST_MAX_COUNT = 25;
+const LOOKUP_SCAN_LIMIT = 500; // Recent orders compared by sequence when the exact number doesn't match
+const EXPORT_MAX_ORDERS = 100;
+const MARK_MAX_ORDERS = 25;
+const DELETABLE_STATUSES = ["pending-review", "draft"];
+
+export interface CommandUser {
+  id: string;
+  organizationId: string;
+  email?: string;
+  displayName?: string;
+}
+
+const ordersRef = (orgId: string) =>
+  getDb().collection("organizations").doc(orgId).collection("orders");
+
 /**
- * Handle /status command (simplified - shows pending orders)
+ * Trailing sequence of a package number: "Paquete #29" → "29", "2026-0029" → "29"
  */
-export async function handleStatusCommand(
+function packageSequence(value: string): string | null {
+  const match = value.match(/(\d+)\s*$/);
+  return match ? String(parseInt(match[1], 10)) : null;
+}
+
+/**
+ * Split "<package#> rest..." - accepts "29", "#29" and "Paquete #29"
+ */
+function splitPackageArg(args: string[]): {ref: string | null; rest: string[]} {
+  const parts = args[0]?.toLowerCase() === "paquete" ? args.slice(1) : args;
+  return {ref: parts[0] ?? null, rest: parts.slice(1)};
+}
+
+/**
+ * Find an order by the package number the sender typed.
+ * Tries the exact string, then the default "Paquete #N" format, then the
+ * trailing sequence of recent orders (custom prefixes, zero padding).
+ */
+async function findOrderByPackageNumber(
+  orgId: string,
+  ref: string
+): Promise<FirebaseFirestore.QueryDocumentSnapshot | null> {
+  const exact = await ordersRef(orgId).where("packageNumber", "==", ref).limit(1).get();
+  if (!exact.empty) return exact.docs[0];
+
+  const sequence = packageSequence(ref);
+  if (!sequence) return null;
+
+  const legacy = await ordersRef(orgId).where("packageNumber", "==", `Paquete #${sequence}`).limit(1).get();
+  if (!legacy.empty) return legacy.docs[0];
+
+  const recent = await ordersRef(orgId).orderBy("createdAt", "desc").limit(LOOKUP_SCAN_LIMIT).get();
+  return recent.docs.find((doc) => packageSequence(String(doc.data().packageNumber || "")) === sequence) ?? null;
+}
+
+function formatMoney(value: unknown): string {
+  const amount = typeof value === "number" ? value : parseFloat(String(value || 0)) || 0;
+  return `$${amount.toFixed(2)}`;
+}
+
+function auditActor(user: CommandUser): {uid: string; name?: string} {
+  return {uid: user.id, name: user.displayName};
+}
+
+function statusLabel(value: unknown): string {
+  return ORDER_STATUS_LABELS[normalizeOrderStatus(value)];
+}
+
+async function replyPackageNotFound(senderPhone: string, ref: string): Promise<void> {
+  await sendWhatsAppMessage(
+    senderPhone,
+    `❌ Package ${ref} not found\n\nType /list to see your recent orders.`
+  );
+}
+
+/**
+ * Handle /list command - most recent orders
+ * /list
+ * /list 5
+ */
+export async function handleListCommand(
+  user: CommandUser,
   senderPhone: string,
   args: string[]
 ): Promise<void> {
-  // Find user by phone
-  const usersSnapshot = await getDb().collection("users")
-    .where("whatsappPhone", "==", senderPhone)
-    .where("status", "==", "active")
-    .limit(1)
+  const requested = parseInt(args[0] || "", 10);
+  const count = Number.isInteger(requested) && requested > 0 ?
+    Math.min(requested, LIST_MAX_COUNT) :
+    LIST_DEFAULT_COUNT;
+
+  const snapshot = await ordersRef(user.organizationId)
+    .orderBy("createdAt", "desc")
+    .limit(count)
     .get();
 
-  if (usersSnapshot.empty) {
+  if (snapshot.empty) {
     await sendWhatsAppMessage(
       senderPhone,
-      `❌ Phone number not registered\n\nPlease link your WhatsApp in the ImportFlow app.`
+      `📋 No orders yet\n\nSend customer name + screenshots to create one.`
     );
     return;
   }
 
-  const user = {id: usersSnapshot.docs[0].id, ...usersSnapshot.docs[0].data()} as any;
+  const lines = snapshot.docs.map((doc) => {
+    const order = doc.data();
+    return `• ${order.packageNumber || doc.id} — ${order.consignee || "Unknown"} — ` +
+      `${formatMoney(order.value)} (${statusLabel(order.status)})`;
+  });
+
+  await sendWhatsAppMessage(
+    senderPhone,
+    `📋 Last ${snapshot.size} order${snapshot.size !== 1 ? "s" : ""}\n\n${lines.join("\n")}`
+  );
+}
+
+/**
+ * Handle /status command
+ * /status      - pending orders grouped by consignee
+ * /status 29   - details of one package
+ */
+export async function handleStatusCommand(
+  user: CommandUser,
+  senderPhone: string,
+  args: string[]
+): Promise<void> {
+  const {ref} = splitPackageArg(args);
+
+  if (ref) {
+    const orderDoc = await findOrderByPackageNumber(user.organizationId, ref);
+    if (!orderDoc) {
+      await replyPackageNotFound(senderPhone, ref);
+      return;
+    }
 
-  // Get pending orders count
-  const pendingOrdersSnapshot = await getDb().collection("orders")
-    .where("organizationId", "==", user.organizationId)
+    const order = orderDoc.data();
+    const items = Array.isArray(order.items) ? order.items.length : 0;
+    const failures = typeof order.extractionFailures === "number" ? order.extractionFailures : 0;
+    const history = Array.isArray(order.statusHistory) ? order.statusHistory as OrderStatusChange[] : [];
+    const lastChange = history[history.length - 1];
+    const changedLine = lastChange ?
+      `🕒 Since ${lastChange.at.slice(0, 10)} by ${lastChange.byName || "unknown"} (${lastChange.source})\n` :
+      "";
+    await sendWhatsAppMessage(
+      senderPhone,
+      `📦 ${order.packageNumber || orderDoc.id}\n\n` +
+      `👤 ${order.consignee || "Unknown"}\n` +
+      `📊 Status: ${statusLabel(order.status)}\n` +
+      changedLine +
+      `📋 Items: ${items}${failures > 0 ? ` (${failures} screenshot${failures !== 1 ? "s" : ""} unread)` : ""}\n` +
+      `💰 Value: ${formatMoney(order.value)}\n` +
+      `⚖️ Weight: ${order.weight || "not set"}\n` +
+      `📅 Date: ${order.date || "-"}`
+    );
+    return;
+  }
+
+  const pendingOrdersSnapshot = await ordersRef(user.organizationId)
     .where("status", "==", "pending-review")
     .get();
 
@@ -49,32 +198,295 @@ export async function handleStatusCommand(
     return;
   }
 
-  // Group by customer
+  // Group by consignee
   const ordersByCustomer = new Map<string, number>();
   pendingOrdersSnapshot.docs.forEach((doc) => {
-    const order = doc.data();
-    const customerName = order.customerName || "Unknown";
+    const customerName = doc.data().consignee || "Unknown";
     ordersByCustomer.set(customerName, (ordersByCustomer.get(customerName) || 0) + 1);
   });
 
-  // Build message
   const customerList = Array.from(ordersByCustomer.entries())
     .map(([name, count]) => `• ${name}: ${count} order${count > 1 ? "s" : ""}`)
     .join("\n");
 
   await sendWhatsAppMessage(
     senderPhone,
-    `📊 Pending Orders: ${pendingCount}\n\n${customerList}\n\nReview in the ImportFlow app to assign to docs.`
+    `📊 Pending Orders: ${pendingCount}\n\n${customerList}\n\nType /status <package#> for details, or /export to build the Desarrollo sheet.`
+  );
+}
+
+/**
+ * Handle /weight command
+ * /weight 29 4.5kg
+ * /weight 29 10 lb
+ */
+export async function handleWeightCommand(
+  user: CommandUser,
+  senderPhone: string,
+  args: string[]
+): Promise<void> {
+  const {ref, rest} = splitPackageArg(args);
+  const match = rest.join("").match(/^(\d+(?:\.\d+)?)(kg|kgs|lb|lbs)$/i);
+
+  if (!ref || !match) {
+    await sendWhatsAppMessage(senderPhone, `❌ Invalid weight\n\n${getCommandHelp("weight")}`);
+    return;
+  }
+
+  const orderDoc = await findOrderByPackageNumber(user.organizationId, ref);
+  if (!orderDoc) {
+    await replyPackageNotFound(senderPhone, ref);
+    return;
+  }
+
+  const unit = match[2].toLowerCase().startsWith("kg") ? "kg" : "lb";
+  const weight = `${parseFloat(match[1])} ${unit}`;
+
+  await updateOrderWithAudit(orderDoc.ref, orderDoc.data(), {weight}, auditActor(user), "whatsapp");
+
+  await sendWhatsAppMessage(
+    senderPhone,
+    `⚖️ ${orderDoc.data().packageNumber || orderDoc.id} weight set to ${weight}`
+  );
+}
+
+/**
+ * Handle /rename command - change the consignee
+ * /rename 29 Maria Lopez
+ */
+export async function handleRenameCommand(
+  user: CommandUser,
+  senderPhone: string,
+  args: string[]
+): Promise<void> {
+  const {ref, rest} = splitPackageArg(args);
+  const newName = rest.join(" ").trim();
+
+  if (!ref || !newName || newName.length > 100) {
+    await sendWhatsAppMessage(senderPhone, `❌ Invalid rename\n\n${getCommandHelp("rename")}`);
+    return;
+  }
+
+  const orderDoc = await findOrderByPackageNumber(user.organizationId, ref);
+  if (!orderDoc) {
+    await replyPackageNotFound(senderPhone, ref);
+    return;
+  }
+
+  const previousName = orderDoc.data().consignee || "Unknown";
+  const consignee = await resolveConsignee(user.organizationId, newName, user.id);
+  await updateOrderWithAudit(
+    orderDoc.ref,
+    orderDoc.data(),
+    {consignee: consignee.name, consigneeId: consignee.consigneeId},
+    auditActor(user),
+    "whatsapp"
+  );
+
+  await sendWhatsAppMessage(
+    senderPhone,
+    `✏️ ${orderDoc.data().packageNumber || orderDoc.id} renamed\n\n${previousName} → ${consignee.name}` +
+    (consignee.outcome === "created" ? "\n\n👤 Added to the consignee directory" : "")
+  );
+}
+
+/**
+ * Handle /delete command - only orders still pending review
+ * /delete 29
+ */
+export async function handleDeleteCommand(
+  user: CommandUser,
+  senderPhone: string,
+  args: string[]
+): Promise<void> {
+  const {ref} = splitPackageArg(args);
+
+  if (!ref) {
+    await sendWhatsAppMessage(senderPhone, `❌ Missing package number\n\n${getCommandHelp("delete")}`);
+    return;
+  }
+
+  const orderDoc = await findOrderByPackageNumber(user.organizationId, ref);
+  if (!orderDoc) {
+    await replyPackageNotFound(senderPhone, ref);
+    return;
+  }
+
+  const order = orderDoc.data();
+  const packageNumber = order.packageNumber || orderDoc.id;
+  const status = order.status || "pending-review";
+
+  if (!DELETABLE_STATUSES.includes(status)) {
+    await sendWhatsAppMessage(
+      senderPhone,
+      `⚠️ ${packageNumber} is ${status} and can't be deleted from WhatsApp.\n\nUse the ImportFlow app instead.`
+    );
+    return;
+  }
+
+  await orderDoc.ref.delete();
+
+  if (order.packageNumber) {
+    await voidPackageNumber(
+      user.organizationId,
+      {packageNumber: order.packageNumber},
+      "Order deleted via WhatsApp /delete",
+      user.id
+    ).catch((error) => console.warn(`Failed to void ${order.packageNumber}:`, error));
+  }
+
+  await sendWhatsAppMessage(
+    senderPhone,
+    `🗑️ ${packageNumber} deleted (${order.consignee || "Unknown"})`
+  );
+}
+
+/**
+ * Handle /export command - queue a Desarrollo export
+ * /export            - all reviewed orders not yet through customs (EXPORTABLE_STATUSES)
+ * /export 29 30 31   - the packages listed
+ */
+export async function handleExportCommand(
+  user: CommandUser,
+  senderPhone: string,
+  args: string[]
+): Promise<void> {
+  let orderDocs: FirebaseFirestore.QueryDocumentSnapshot[];
+  const wantsPdf = args.some((arg) => arg.toLowerCase() === "pdf");
+  const refArgs = args.filter((arg) => arg.toLowerCase() !== "pdf");
+
+  if (refArgs.length > 0) {
+    const refs = refArgs.filter((arg) => arg.toLowerCase() !== "paquete");
+    const found = await Promise.all(refs.map((ref) => findOrderByPackageNumber(user.organizationId, ref)));
+    const missing = refs.filter((_, i) => !found[i]);
+    if (missing.length > 0) {
+      await replyPackageNotFound(senderPhone, missing.join(", "));
+      return;
+    }
+    const unique = new Map(found.map((doc) => [doc!.id, doc!]));
+    orderDocs = Array.from(unique.values());
+  } else {
+    const snapshot = await ordersRef(user.organizationId)
+      .where("status", "in", EXPORTABLE_STATUSES)
+      .limit(EXPORT_MAX_ORDERS)
+      .get();
+    orderDocs = snapshot.docs;
+  }
+
+  if (orderDocs.length === 0) {
+    await sendWhatsAppMessage(
+      senderPhone,
+      "📄 Nothing to export\n\nNo reviewed orders are waiting for customs. " +
+      "Orders pending review have to be checked in ImportFlow first."
+    );
+    return;
+  }
+
+  if (orderDocs.length > EXPORT_MAX_ORDERS) {
+    await sendWhatsAppMessage(
+      senderPhone,
+      `❌ Too many orders (${orderDocs.length})\n\nExport at most ${EXPORT_MAX_ORDERS} orders at a time.`
+    );
+    return;
+  }
+
+  await createExportRequest(user.organizationId, {
+    orderIds: orderDocs.map((doc) => doc.id),
+    packageNumbers: orderDocs.map((doc) => doc.data().packageNumber || doc.id),
+    requestedBy: user.id,
+    requestedByPhone: senderPhone,
+    source: "whatsapp",
+    format: wantsPdf ? "pdf" : "sheet",
+  });
+
+  await sendWhatsAppMessage(
+    senderPhone,
+    `⏳ Desarrollo export queued (${orderDocs.length} order${orderDocs.length !== 1 ? "s" : ""})\n\n` +
+    `It runs from Order Management in the ImportFlow app — the ${wantsPdf ? "PDF" : "Google Sheet link"} ` +
+    "will be sent here as soon as the app picks it up."
+  );
+}
+
+/**
+ * Handle /mark command - move packages along the order lifecycle
+ * /mark 29 received
+ * /mark 29 30 31 customs cleared
+ */
+export async function handleMarkCommand(
+  user: CommandUser,
+  senderPhone: string,
+  args: string[]
+): Promise<void> {
+  const refArgs = args.filter((arg) => arg.toLowerCase() !== "paquete");
+  // Statuses can be typed as two words ("on hold"), so try the last two first
+  const twoWord = refArgs.length > 2 ? parseOrderStatus(refArgs.slice(-2).join(" ")) : null;
+  const status = twoWord ?? (refArgs.length > 1 ? parseOrderStatus(refArgs[refArgs.length - 1]) : null);
+  const refs = refArgs.slice(0, refArgs.length - (twoWord ? 2 : 1));
+
+  if (!status || refs.length === 0) {
+    await sendWhatsAppMessage(senderPhone, `❌ Invalid status change\n\n${getCommandHelp("mark")}`);
+    return;
+  }
+
+  if (refs.length > MARK_MAX_ORDERS) {
+    await sendWhatsAppMessage(
+      senderPhone,
+      `❌ Too many packages (${refs.length})\n\nMark at most ${MARK_MAX_ORDERS} packages at a time.`
+    );
+    return;
+  }
+
+  const found = await Promise.all(refs.map((ref) => findOrderByPackageNumber(user.organizationId, ref)));
+  const missing = refs.filter((_, i) => !found[i]);
+  if (missing.length > 0) {
+    await replyPackageNotFound(senderPhone, missing.join(", "));
+    return;
+  }
+
+  const unique = new Map(found.map((doc) => [doc!.id, doc!]));
+  const actor = {uid: user.id, name: user.displayName, source: "whatsapp" as const};
+  const lines: string[] = [];
+
+  for (const orderDoc of unique.values()) {
+    const packageNumber = orderDoc.data().packageNumber || orderDoc.id;
+    try {
+      // Re-read inside the transaction so a change made meanwhile in the app is respected
+      await getDb().runTransaction(async (tx) => {
+        const snap = await tx.get(orderDoc.ref);
+        tx.update(orderDoc.ref, {
+          ...buildStatusTransition(snap.data() || {}, status, actor),
+          updatedAt: Timestamp.now(),
+        });
+      });
+      lines.push(`✅ ${packageNumber}`);
+    } catch (error) {
+      const current: OrderStatus = normalizeOrderStatus(orderDoc.data().status);
+      const next = nextStatuses(orderDoc.data()).map((s) => ORDER_STATUS_LABELS[s]).join(", ") || "none";
+      console.warn(`/mark ${packageNumber} → ${status} refused:`, (error as Error).message);
+      lines.push(`⚠️ ${packageNumber} is ${ORDER_STATUS_LABELS[current]} (can move to: ${next})`);
+    }
+  }
+
+  await sendWhatsAppMessage(
+    senderPhone,
+    `📊 Marked ${ORDER_STATUS_LABELS[status]}\n\n${lines.join("\n")}`
   );
 }
 
 /**
  * Handle /help command
+ * /help          - how to add orders + command list
+ * /help weight   - usage of one command
  */
 export async function handleHelpCommand(
   senderPhone: string,
   args: string[]
 ): Promise<void> {
+  if (args.length > 0) {
+    await sendWhatsAppMessage(senderPhone, getCommandHelp(args[0]));
+    return;
+  }
+
   const helpText = `📱 *ImportFlow WhatsApp*
 
 ━━━━━━━━━━━━━━━━━━━━
@@ -97,6 +509,19 @@ export async function handleHelpCommand(
 
 ━━━━━━━━━━━━━━━━━━━━
 
+*Commands:*
+
+/list — recent orders
+/status [package#] — pending orders or one package
+/weight <package#> <weight>kg|lb
+/rename <package#> <new name>
+/mark <package#> [...] <status> — received, customs, cleared, ready, delivered, hold
+/delete <package#> — pending orders only
+/export [package# ...] — Desarrollo sheet
+/help <command> — details for a command
+
+━━━━━━━━━━━━━━━━━━━━
+
 💡 *Tip:* Send name and screenshot together for fastest processing
 
 ━━━━━━━━━━━━━━━━━━━━
@@ -105,15 +530,3 @@ Questions? importflow-app.web.app`;
 
   await sendWhatsAppMessage(senderPhone, helpText);
 }
-
-// Export placeholder for /export command (removed from WhatsApp)
-export async function handleExportCommand(
-  senderPhone: string,
-  args: string[],
-  options: Record<string, string>
-): Promise<void> {
-  await sendWhatsAppMessage(
-    senderPhone,
-    `📱 Export via Web App\n\nPlease use the ImportFlow web app to export docs.\n\nWhatsApp is for uploading screenshots only.`
-  );
-}
@@ -0,0 +1,96 @@
+/**
+ * Export Requests
+ * Desarrollo exports asked for from WhatsApp (/export).
+ *
+ * The Desarrollo sheet is laid out by the web app (orderExcelExportService)
+ * using the organization's Google connection, so the webhook can't build it
+ * itself. /export writes a request to organizations/{orgId}/exportRequests;
+ * Order Management picks up pending requests while it is open, runs the export
+ * and writes the result back. The trigger below sends the sheet link, or the
+ * PDF as an attachment for /export pdf (or the error), to the phone that asked.
+ *
+ * Status flow: pending → processing → completed | failed
+ */
+
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {onDocumentUpdated} from "firebase-functions/v2/firestore";
+import {sendWhatsAppMedia, sendWhatsAppMessage} from "../services/twilioService";
+
+// Lazy load db to avoid initialization issues
+const getDb = () => getFirestore();
+
+export type ExportRequestStatus = "pending" | "processing" | "completed" | "failed";
+export type ExportRequestFormat = "sheet" | "pdf";
+
+export interface ExportRequestParams {
+  orderIds: string[];
+  packageNumbers: string[];
+  requestedBy: string;
+  requestedByPhone?: string;
+  source: "whatsapp";
+  format: ExportRequestFormat;
+}
+
+/**
+ * Queue a Desarrollo export for the web app to run
+ */
+export async function createExportRequest(
+  orgId: string,
+  params: ExportRequestParams
+): Promise<string> {
+  const ref = getDb().collection("organizations").doc(orgId).collection("exportRequests").doc();
+  await ref.set({
+    ...params,
+    organizationId: orgId,
+    status: "pending" as ExportRequestStatus,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+  return ref.id;
+}
+
+/**
+ * Reply on WhatsApp once the web app finishes (or fails) a requested export
+ */
+export const notifyExportRequest = onDocumentUpdated(
+  {
+    document: "organizations/{orgId}/exportRequests/{requestId}",
+    timeoutSeconds: 60,
+    memory: "256MiB",
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after) return;
+    if (before.status === after.status || after.notifiedAt || !after.requestedByPhone) return;
+
+    let message: string;
+    let mediaUrl: string | undefined;
+    if (after.status === "completed" && after.pdfUrl) {
+      const count = Array.isArray(after.orderIds) ? after.orderIds.length : 0;
+      message = `✅ Desarrollo PDF ready\n\n${count} order${count !== 1 ? "s" : ""} - print, sign and submit.`;
+      mediaUrl = after.pdfUrl;
+    } else if (after.status === "completed" && after.sheetUrl) {
+      const count = Array.isArray(after.orderIds) ? after.orderIds.length : 0;
+      message = `✅ Desarrollo export ready\n\n` +
+        `${count} order${count !== 1 ? "s" : ""}\n` +
+        `${after.sheetUrl}`;
+    } else if (after.status === "failed") {
+      message = `❌ Desarrollo export failed\n\n${after.error || "Unknown error"}\n\n` +
+        `Open Order Management in the ImportFlow app to retry.`;
+    } else {
+      return;
+    }
+
+    try {
+      if (mediaUrl) {
+        await sendWhatsAppMedia(after.requestedByPhone, message, mediaUrl);
+      } else {
+        await sendWhatsAppMessage(after.requestedByPhone, message);
+      }
+      await event.data?.after.ref.update({notifiedAt: Timestamp.now()});
+    } catch (error) {
+      console.error(`[notifyExportRequest] ${event.params.requestId} notification failed:`, error);
+    }
+  }
+);
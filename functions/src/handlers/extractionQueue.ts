@@ -0,0 +1,655 @@
+/**
+ * Extraction Queue
+ * Asynchronous screenshot extraction for WhatsApp orders.
+ *
+ * The webhook only persists the screenshots to Storage and writes a job to
+ * `extractionJobs/{jobId}`; it answers Twilio in seconds. The Firestore-triggered
+ * worker below does the Gemini extraction, writes the order and sends the
+ * "✅ Order created" reply.
+ *
+ * Job lifecycle:
+ *   queued → processing → completed
+ *                      ↘ queued (retry, attempts < MAX_ATTEMPTS)
+ *                      ↘ dead-letter (copied to extractionDeadLetters/{jobId})
+ *
+ * A job over the organization's monthly AI quota (services/aiUsage.ts) is
+ * dead-lettered on the first attempt.
+ *
+ * Per-organization concurrency: a worker must take a slot in
+ * `extractionQueueSlots/{orgId}` before processing. Jobs that can't get a slot
+ * stay queued and are woken (wakeCount bump) when a slot frees up. The
+ * scheduled sweeper re-wakes anything that slipped through and reclaims jobs
+ * whose worker died mid-run.
+ */
+
+import {getFirestore, Timestamp, FieldValue} from "firebase-admin/firestore";
+import {getStorage} from "firebase-admin/storage";
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {ExtractedItem, analyzeOrderScreenshot} from "../services/geminiService";
+import {sendWhatsAppMessage} from "../services/twilioService";
+import {recordMessageProgress} from "../services/messageLedger";
+import {reservePackageNumbers, assignPackageNumber, voidPackageNumber} from "../services/packageCounter";
+import {withRetry} from "../utils/retry";
+import {
+  conversionDateFor,
+  convertExtraction,
+  loadExchangeRates,
+  mergeConversions,
+  CurrencyConversion,
+} from "../services/exchangeRates";
+import {
+  mergeExtractionReviews, needsExtractionReview, scoreExtraction, ExtractionReview,
+} from "../utils/extractionReview";
+import {describeDuplicate, findDuplicateOrder, hashImageBuffer, ExistingOrder} from "../utils/duplicateDetection";
+import {AiQuotaExceededError, chargeExtractions, isUnbilledFailure, refundExtractions} from "../services/aiUsage";
+import {ConsigneeResolution, resolveConsignee} from "../services/consigneeDirectory";
+import {EXTRACTED_ORDER_FIELDS, addAuditEntries, addCreatedEntry, diffOrderFields} from "../services/orderAudit";
+
+// Lazy load to avoid initialization issues
+const getDb = () => getFirestore();
+
+const JOBS_COLLECTION = "extractionJobs";
+const SLOTS_COLLECTION = "extractionQueueSlots";
+const DEAD_LETTER_COLLECTION = "extractionDeadLetters";
+
+const MAX_ATTEMPTS = 3;
+const DUPLICATE_LOOKBACK_DAYS = 180; // Same window as the web duplicate check
+const DEFAULT_ORG_CONCURRENCY = 2; // Override per org with organizations/{orgId}.extractionConcurrency
+const SCREENSHOT_CONCURRENCY = 3; // Gemini calls in flight per job
+const JOB_LEASE_MS = 10 * 60 * 1000; // Longer than the worker timeout (540s)
+const STALE_QUEUED_MS = 60 * 1000; // Queued this long without a worker → sweeper wakes it
+
+// A screenshot that couldn't be read from Storage - it never reached Gemini
+class ScreenshotDownloadError extends Error {
+  constructor(readonly storagePath: string, cause: unknown) {
+    super(`Could not download ${storagePath}: ${(cause as Error)?.message || String(cause)}`);
+    this.name = "ScreenshotDownloadError";
+  }
+}
+
+export type ExtractionJobStatus = "queued" | "processing" | "completed" | "dead-letter";
+
+export interface QueuedScreenshot {
+  storagePath: string;
+  downloadUrl: string;
+  mediaContentType: string;
+}
+
+export interface ExtractionJob {
+  organizationId: string;
+  customerName: string;
+  senderPhone: string;
+  uploadedBy: string;
+  uploadedByName: string;
+  messageSid?: string;
+  screenshots: QueuedScreenshot[];
+  status: ExtractionJobStatus;
+  attempts: number;
+  wakeCount: number;
+  packageNumber?: string; // Reserved on the first attempt, reused by retries
+  packageReservationId?: string; // Entry in organizations/{orgId}/packageNumberLog
+  orderId?: string;
+  forceReextract?: boolean; // Ignore cached extractions for these screenshots
+  lastError?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  startedAt?: Timestamp;
+  completedAt?: Timestamp;
+}
+
+const jobsRef = () => getDb().collection(JOBS_COLLECTION);
+
+/**
+ * Queue extraction for screenshots already saved to Storage.
+ *
+ * Using the Twilio MessageSid as the job ID makes this idempotent: a re-delivered
+ * message maps onto the existing job instead of queueing a second one.
+ * Returns the job ID.
+ */
+export async function enqueueExtractionJob(params: {
+  organizationId: string;
+  customerName: string;
+  senderPhone: string;
+  uploadedBy: string;
+  uploadedByName: string;
+  messageSid?: string;
+  screenshots: QueuedScreenshot[];
+}): Promise<string> {
+  const ref = params.messageSid ? jobsRef().doc(params.messageSid) : jobsRef().doc();
+  const job: ExtractionJob = {
+    organizationId: params.organizationId,
+    customerName: params.customerName.trim(),
+    senderPhone: params.senderPhone,
+    uploadedBy: params.uploadedBy,
+    uploadedByName: params.uploadedByName,
+    ...(params.messageSid ? {messageSid: params.messageSid} : {}),
+    screenshots: params.screenshots,
+    status: "queued",
+    attempts: 0,
+    wakeCount: 0,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+
+  try {
+    await ref.create(job);
+    console.log(`Queued extraction job ${ref.id}: ${params.screenshots.length} screenshot(s) for ${job.customerName}`);
+  } catch (error) {
+    // ALREADY_EXISTS - this message was queued by an earlier delivery
+    if ((error as {code?: number})?.code === 6) {
+      console.log(`Extraction job ${ref.id} already queued`);
+    } else {
+      throw error;
+    }
+  }
+  return ref.id;
+}
+
+// ── Concurrency slots ─────────────────────────────────────────────────────────
+
+/**
+ * Move a queued job to processing if its organization has a free slot.
+ * Returns the job (as claimed) or null if it should stay queued.
+ */
+async function claimJob(jobId: string): Promise<ExtractionJob | null> {
+  const db = getDb();
+  const jobRef = jobsRef().doc(jobId);
+
+  return db.runTransaction(async (tx) => {
+    const jobSnap = await tx.get(jobRef);
+    const job = jobSnap.data() as ExtractionJob | undefined;
+    if (!job || job.status !== "queued") return null;
+
+    const slotRef = db.collection(SLOTS_COLLECTION).doc(job.organizationId);
+    const orgRef = db.collection("organizations").doc(job.organizationId);
+    const [slotSnap, orgSnap] = await Promise.all([tx.get(slotRef), tx.get(orgRef)]);
+
+    const limit = Number(orgSnap.data()?.extractionConcurrency) || DEFAULT_ORG_CONCURRENCY;
+    const active = activeSlots(slotSnap.data());
+    if (Object.keys(active).length >= limit) return null;
+
+    const now = Timestamp.now();
+    active[jobId] = now.toMillis();
+    tx.set(slotRef, {active, updatedAt: now});
+    tx.update(jobRef, {
+      status: "processing",
+      attempts: job.attempts + 1,
+      startedAt: now,
+      updatedAt: now,
+    });
+    return {...job, status: "processing" as const, attempts: job.attempts + 1};
+  });
+}
+
+/**
+ * Active slot holders, dropping any whose lease ran out (worker died)
+ */
+function activeSlots(data: FirebaseFirestore.DocumentData | undefined): Record<string, number> {
+  const active: Record<string, number> = {...(data?.active || {})};
+  const cutoff = Date.now() - JOB_LEASE_MS;
+  for (const [id, startedAt] of Object.entries(active)) {
+    if (startedAt < cutoff) delete active[id];
+  }
+  return active;
+}
+
+async function releaseSlot(organizationId: string, jobId: string): Promise<void> {
+  await getDb().collection(SLOTS_COLLECTION).doc(organizationId).set({
+    active: {[jobId]: FieldValue.delete()},
+    updatedAt: Timestamp.now(),
+  }, {merge: true});
+}
+
+/**
+ * Wake the oldest queued jobs for an organization so the trigger re-runs them
+ */
+async function wakeQueuedJobs(organizationId: string, count = 1): Promise<void> {
+  const snap = await jobsRef()
+    .where("organizationId", "==", organizationId)
+    .where("status", "==", "queued")
+    .orderBy("createdAt", "asc")
+    .limit(count)
+    .get();
+
+  await Promise.all(snap.docs.map((doc) =>
+    doc.ref.update({wakeCount: FieldValue.increment(1), updatedAt: Timestamp.now()})
+  ));
+}
+
+// ── Processing ────────────────────────────────────────────────────────────────
+
+/**
+ * Recent orders of the organization, for the duplicate check
+ */
+async function loadDuplicateCandidates(organizationId: string): Promise<ExistingOrder[]> {
+  const since = Timestamp.fromMillis(Date.now() - DUPLICATE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const snap = await getDb().collection("organizations")
+    .doc(organizationId)
+    .collection("orders")
+    .where("createdAt", ">=", since)
+    .get();
+  return snap.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      packageNumber: data.packageNumber || "",
+      consignee: data.consignee || "",
+      screenshotHashes: data.screenshotHashes || [],
+      orderNumber: data.orderNumber || "",
+      merchantTrackingNumber: data.merchantTrackingNumber || "",
+      company: data.company || "",
+      duplicateOf: data.duplicateOf,
+    };
+  });
+}
+
+/**
+ * Extract every screenshot of a job and write ONE order
+ */
+async function runJob(jobId: string, job: ExtractionJob): Promise<void> {
+  const bucket = getStorage().bucket();
+  const {screenshots, customerName, organizationId} = job;
+
+  console.log(`Job ${jobId} attempt ${job.attempts}: extracting ${screenshots.length} screenshot(s) for ${customerName}`);
+
+  // Throws AiQuotaExceededError past the plan's hard limit - handleJobFailure won't retry that
+  const usageMeta = {source: "whatsapp" as const, uid: job.uploadedBy, reference: jobId};
+  const charged = await chargeExtractions(organizationId, screenshots.length, usageMeta);
+  const jobRef = jobsRef().doc(jobId);
+
+  const extractionResults: Array<PromiseSettledResult<Awaited<ReturnType<typeof analyzeOrderScreenshot>>>> = [];
+  const screenshotHashes: string[] = [];
+  for (let i = 0; i < screenshots.length; i += SCREENSHOT_CONCURRENCY) {
+    const slice = screenshots.slice(i, i + SCREENSHOT_CONCURRENCY);
+    const settled = await Promise.allSettled(
+      slice.map(async (screenshot, j) => {
+        const [imageBytes] = await bucket.file(screenshot.storagePath).download().catch((error) => {
+          throw new ScreenshotDownloadError(screenshot.storagePath, error);
+        });
+        // Best-effort - a hashing failure only skips the duplicate check for this image
+        await hashImageBuffer(imageBytes)
+          .then((hash) => screenshotHashes.push(hash))
+          .catch((error) => console.warn(`  Could not hash screenshot ${i + j + 1}:`, error));
+        console.log(`  Extracting screenshot ${i + j + 1}/${screenshots.length}...`);
+        return withRetry(
+          () => analyzeOrderScreenshot(imageBytes.toString("base64"), screenshot.mediaContentType, {
+            organizationId,
+            forceReextract: job.forceReextract,
+          }),
+          `job ${jobId} screenshot ${i + j + 1}`
+        );
+      })
+    );
+    extractionResults.push(...settled);
+  }
+
+  // Refund only what never reached the provider. A screenshot Gemini did read
+  // stays charged even if the job fails later - a retry finds it in the cache
+  // and refunds that attempt's charge instead.
+  const failures = extractionResults.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+  const cacheHits = extractionResults.filter((r) => r.status === "fulfilled" && r.value.fromCache).length;
+  const unbilledFailures = failures.filter((r) =>
+    r.reason instanceof ScreenshotDownloadError || isUnbilledFailure(r.reason)).length;
+  await refundExtractions(organizationId, unbilledFailures + cacheHits, charged.period, {
+    ...usageMeta,
+    reason: "cache hit or not sent",
+  }).catch((error) => console.warn(`Job ${jobId}: AI usage refund failed:`, error));
+  if (failures.length === extractionResults.length) {
+    throw new Error(`All ${screenshots.length} screenshot extractions failed: ${
+      failures[0].reason?.message || failures[0].reason}`);
+  }
+
+  // Merge results from all screenshots
+  const allItems: ExtractedItem[] = [];
+  let trackingNumber: string | null = null;
+  let orderNumber: string | null = null;
+  let seller: string | null = null;
+  let orderDate: string | null = null;
+  let shippingCarrier: string | null = null;
+
+  // Non-USD screenshots are converted with the org's rate on their order date (today when unread)
+  const today = new Date().toISOString().split("T")[0];
+  const exchangeRates = await loadExchangeRates(organizationId).catch((error) => {
+    console.warn("Could not load exchange rates - non-USD screenshots will be flagged:", error);
+    return [];
+  });
+  const conversions: CurrencyConversion[] = [];
+  const missingRateCurrencies = new Set<string>();
+  const reviews: ExtractionReview[] = [];
+
+  for (let i = 0; i < extractionResults.length; i++) {
+    const result = extractionResults[i];
+    if (result.status === "fulfilled") {
+      const data = result.value;
+      const converted = convertExtraction(data, exchangeRates, conversionDateFor(data.orderDate, today));
+      if (converted.conversion) conversions.push(converted.conversion);
+      if (converted.rateMissing) missingRateCurrencies.add(converted.currency);
+      reviews.push(scoreExtraction({...data, items: converted.items, orderTotal: converted.orderTotal}));
+      if (converted.items.length > 0) {
+        allItems.push(...converted.items);
+      }
+      // Fill in metadata from first screenshot that has it
+      if (!trackingNumber && data.trackingNumber) trackingNumber = data.trackingNumber;
+      if (!orderNumber && data.orderNumber) orderNumber = data.orderNumber;
+      if (!seller && data.seller) seller = data.seller;
+      if (!orderDate && data.orderDate) orderDate = data.orderDate;
+      if (!shippingCarrier && data.shippingCarrier) shippingCarrier = data.shippingCarrier;
+
+      console.log(`  Screenshot ${i + 1}: ${data.items?.length || 0} items, $${data.orderTotal || 0}`);
+    } else {
+      console.warn(`  Screenshot ${i + 1} extraction failed:`, result.reason);
+    }
+  }
+
+  // Calculate totals from merged items (more accurate than summing orderTotals)
+  const totalPieces = allItems.reduce((sum, item) => sum + (item.quantity || 0), 0);
+  const totalValue = allItems.reduce((sum, item) => sum + (item.totalValue || 0), 0);
+  const allCarriers = new Set<string>();
+  if (shippingCarrier) allCarriers.add(shippingCarrier);
+
+  console.log(`Merged: ${allItems.length} total items, ${totalPieces} pieces, $${totalValue.toFixed(2)}`);
+
+  // Failed screenshots count as an error-level issue - items are missing from the order
+  const review = mergeExtractionReviews(reviews);
+  if (failures.length > 0) {
+    review.issues.push({
+      code: "no-items",
+      severity: "error",
+      field: "items",
+      message: `${failures.length} screenshot${failures.length > 1 ? "s" : ""} could not be read`,
+    });
+  }
+  const reviewRequired = needsExtractionReview(review);
+
+  // Same screenshot forwarded twice, or already imported from the web / a Machote doc.
+  // The job's own order is excluded so a retry doesn't flag itself.
+  const existingOrders = await loadDuplicateCandidates(organizationId).catch((error) => {
+    console.warn("Could not load orders for the duplicate check:", error);
+    return [] as ExistingOrder[];
+  });
+  const duplicateOf = findDuplicateOrder({
+    screenshotHashes,
+    orderNumber: orderNumber || "",
+    merchantTrackingNumber: trackingNumber || "",
+    company: seller || "",
+  }, existingOrders.filter((order) => order.id !== jobId));
+  if (duplicateOf) console.log(`Job ${jobId}: ${describeDuplicate(duplicateOf)}`);
+
+  // Reserve the package number once - retries of this job reuse it
+  let packageNumber = job.packageNumber;
+  let packageReservationId = job.packageReservationId;
+  if (!packageNumber) {
+    const [reservation] = await reservePackageNumbers(organizationId, 1, {
+      source: "whatsapp",
+      reservedBy: job.uploadedBy,
+      note: `WhatsApp job ${jobId}`,
+    });
+    packageNumber = reservation.packageNumber;
+    packageReservationId = reservation.reservationId;
+    await jobRef.update({packageNumber, packageReservationId, updatedAt: Timestamp.now()});
+  }
+  console.log(`Assigned package number: ${packageNumber}`);
+
+  // Link the typed name to the consignee directory (the order keeps the typed name if that fails)
+  const consignee: ConsigneeResolution | null = await resolveConsignee(organizationId, customerName, job.uploadedBy)
+    .catch((error) => {
+      console.warn(`Job ${jobId}: could not resolve consignee "${customerName}":`, error);
+      return null;
+    });
+
+  // Create ONE order with ALL screenshot URLs. The order ID is the job ID, so a retry
+  // after a crash overwrites the same order instead of creating a second one.
+  const orderData = {
+    // OrderManagement table fields
+    packageNumber: packageNumber, // Sequential: Paquete #29, #30, etc.
+    date: new Date().toISOString().split("T")[0], // Upload date (today), not order date from screenshot
+    consignee: consignee?.name || customerName, // Directory name when the typed one matched an entry
+    ...(consignee ? {consigneeId: consignee.consigneeId} : {}),
+    pieces: totalPieces, // Total item count
+    weight: "", // Empty for now (not extracted from screenshots)
+    trackingNumber: trackingNumber || "",
+    merchantTrackingNumber: trackingNumber || "",
+    orderNumber: orderNumber || "",
+    company: seller || "", // Seller/Store name
+    value: totalValue, // Sum of all item values across all screenshots
+    parcelComp: shippingCarrier || "", // Shipping carrier from AI
+    carriers: allCarriers.size > 0 ? [...allCarriers] : [], // Array format
+    screenshotUrls: screenshots.map((s) => s.downloadUrl), // ALL screenshot URLs from this message
+
+    // Additional metadata (not in OrderRow but useful)
+    customerPhone: job.senderPhone,
+    organizationId,
+    uploadedBy: job.uploadedBy,
+    uploadedByName: job.uploadedByName,
+    imagePath: screenshots[0].storagePath, // Primary image path
+    imageType: screenshots[0].mediaContentType,
+    items: allItems, // ALL items from ALL screenshots
+    status: "pending-review",
+    extractionStatus: failures.length > 0 ? "partial" : "completed",
+    extractionFailures: failures.length,
+    extractionConfidence: review.confidence,
+    fieldConfidence: review.fieldConfidence,
+    extractionIssues: review.issues,
+    screenshotHashes,
+    ...(duplicateOf ? {duplicateOf} : {}),
+    source: "whatsapp",
+    screenshotCount: screenshots.length, // Track how many screenshots in this order
+    ...(conversions.length > 0 ? {currencyConversions: mergeConversions(conversions)} : {}),
+    ...(missingRateCurrencies.size > 0 ? {exchangeRateMissing: [...missingRateCurrencies]} : {}),
+    extractionJobId: jobId,
+    ...(job.messageSid ? {sourceMessageSid: job.messageSid} : {}),
+
+    // Timestamps
+    createdAt: job.createdAt,
+    updatedAt: Timestamp.now(),
+  };
+
+  const orderRef = getDb().collection("organizations")
+    .doc(organizationId)
+    .collection("orders")
+    .doc(jobId);
+  // A re-run over an existing order is an AI re-extraction - record what it changed
+  const existing = await orderRef.get();
+  const auditActor = {uid: job.uploadedBy, name: job.uploadedByName};
+  const batch = getDb().batch();
+  batch.set(orderRef, orderData);
+  if (existing.exists) {
+    const extracted = Object.fromEntries(
+      EXTRACTED_ORDER_FIELDS.map((field) => [field, (orderData as Record<string, unknown>)[field]])
+    );
+    addAuditEntries(batch, orderRef, diffOrderFields(existing.data() || {}, extracted), auditActor, "ai-reextract");
+  } else {
+    addCreatedEntry(batch, orderRef, auditActor, "whatsapp");
+  }
+  await batch.commit();
+
+  console.log(`Order created: ${orderRef.id} with ${screenshots.length} screenshots`);
+  if (packageReservationId) {
+    await assignPackageNumber(organizationId, packageReservationId, orderRef.id);
+  }
+
+  await jobRef.update({
+    status: "completed",
+    orderId: orderRef.id,
+    completedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+    lastError: FieldValue.delete(),
+  });
+  if (job.messageSid) {
+    await recordMessageProgress(job.messageSid, {orderId: orderRef.id}).catch((error) => {
+      console.warn(`Could not record order on message ${job.messageSid}:`, error);
+    });
+  }
+
+  // Send success message
+  const itemsSummary = allItems.length > 0 ?
+    allItems.map((item) =>
+      `• ${item.name} (${item.quantity}x) - $${(item.totalValue || 0).toFixed(2)}`
+    ).join("\n") :
+    "No items extracted";
+  const failureNote = failures.length > 0 ?
+    `⚠️ ${failures.length} screenshot${failures.length > 1 ? "s" : ""} could not be read\n\n` :
+    "";
+  const duplicateNote = duplicateOf ?
+    `⚠️ ${describeDuplicate(duplicateOf)}. Check before sending more - the order was flagged in ImportFlow.\n\n` :
+    "";
+  const consigneeNote = consignee?.outcome === "matched" && consignee.name !== customerName ?
+    `👤 Matched directory consignee: ${consignee.name}\n\n` :
+    consignee?.outcome === "created" && consignee.similarNames.length > 0 ?
+      `👤 New consignee - similar to ${consignee.similarNames.join(", ")}. ` +
+        "Check Consignees in ImportFlow if it's the same person.\n\n" :
+      "";
+  const reviewNote = reviewRequired ?
+    `🔍 Needs review before export (${Math.round(review.confidence * 100)}% confidence)` +
+    `${review.issues.length > 0 ? `: ${review.issues[0].message}` : ""}\n\n` :
+    "";
+
+  await sendWhatsAppMessage(
+    job.senderPhone,
+    `✅ Order created for ${customerName}\n\n` +
+    `📸 ${screenshots.length} screenshot${screenshots.length > 1 ? "s" : ""} analyzed → ${allItems.length} items found\n\n` +
+    failureNote +
+    duplicateNote +
+    consigneeNote +
+    reviewNote +
+    `${itemsSummary}\n\n` +
+    `Total: $${totalValue.toFixed(2)}\n\n` +
+    `📱 Review in ImportFlow app\n` +
+    `Status: Pending Review\n\n` +
+    `Send more screenshots for ${customerName} or send a new customer name.`
+  ).catch((error) => {
+    // The order exists - a failed reply must not send the job back through extraction
+    console.error(`Job ${jobId}: order created but reply failed:`, error);
+  });
+}
+
+/**
+ * Record a failed attempt: requeue, or dead-letter once attempts are used up
+ */
+async function handleJobFailure(jobId: string, job: ExtractionJob, error: unknown): Promise<void> {
+  const message = ((error as Error)?.message || String(error)).slice(0, 500);
+  const jobRef = jobsRef().doc(jobId);
+  // Retrying can't help until the month resets or the plan changes
+  const quotaExceeded = error instanceof AiQuotaExceededError;
+  const current = (await jobRef.get()).data() as ExtractionJob | undefined;
+
+  if (!quotaExceeded && job.attempts < MAX_ATTEMPTS) {
+    console.warn(`Job ${jobId} attempt ${job.attempts}/${MAX_ATTEMPTS} failed, requeueing: ${message}`);
+    await jobRef.update({
+      status: "queued", lastError: message, updatedAt: Timestamp.now(),
+    });
+    return;
+  }
+
+  console.error(`Job ${jobId} dead-lettered after ${job.attempts} attempts: ${message}`);
+  const batch = getDb().batch();
+  batch.update(jobRef, {
+    status: "dead-letter", lastError: message, updatedAt: Timestamp.now(),
+  });
+  batch.set(getDb().collection(DEAD_LETTER_COLLECTION).doc(jobId), {
+    ...job,
+    status: "dead-letter",
+    lastError: message,
+    deadLetteredAt: Timestamp.now(),
+  });
+  await batch.commit();
+
+  // A number reserved by an earlier attempt will never be used - record why
+  const reservationId = current?.packageReservationId;
+  if (reservationId) {
+    await voidPackageNumber(
+      job.organizationId,
+      {reservationId},
+      `Extraction failed: ${message.slice(0, 200)}`,
+      job.uploadedBy
+    ).catch((error) => console.warn(`Job ${jobId}: could not void package number:`, error));
+  }
+
+  await sendWhatsAppMessage(
+    job.senderPhone,
+    quotaExceeded ?
+      `❌ Could not extract the order for ${job.customerName}: ${message}\n\n` +
+      `The screenshots were saved - ask your organization owner to upgrade the plan, ` +
+      `or upload them from the ImportFlow app after the reset.` :
+      `❌ Could not extract the order for ${job.customerName} after ${job.attempts} attempts.\n\n` +
+      `The screenshots were saved - please upload them from the ImportFlow app or contact support.`
+  ).catch(() => {
+    // Ignore error sending error message
+  });
+}
+
+/**
+ * Worker: runs whenever a job is (re)queued or woken
+ */
+export const processExtractionJob = onDocumentWritten(
+  {
+    document: `${JOBS_COLLECTION}/{jobId}`,
+    timeoutSeconds: 540,
+    memory: "1GiB",
+    maxInstances: 10,
+  },
+  async (event) => {
+    const jobId = event.params.jobId;
+    const before = event.data?.before?.data() as ExtractionJob | undefined;
+    const after = event.data?.after?.data() as ExtractionJob | undefined;
+    if (!after || after.status !== "queued") return;
+
+    // Only react to entering the queue or an explicit wake - not to unrelated field writes
+    const wasQueued = before?.status === "queued";
+    if (wasQueued && before?.wakeCount === after.wakeCount) return;
+
+    const job = await claimJob(jobId);
+    if (!job) {
+      console.log(`Job ${jobId} waiting for a free slot in org ${after.organizationId}`);
+      return;
+    }
+
+    try {
+      await runJob(jobId, job);
+    } catch (error) {
+      await handleJobFailure(jobId, job, error);
+    } finally {
+      await releaseSlot(job.organizationId, jobId);
+      await wakeQueuedJobs(job.organizationId);
+    }
+  }
+);
+
+/**
+ * Sweeper: recovers jobs whose worker died and wakes jobs that missed a wake-up
+ */
+export const sweepExtractionQueue = onSchedule(
+  {
+    schedule: "every 5 minutes",
+    timeoutSeconds: 120,
+  },
+  async () => {
+    const now = Date.now();
+
+    // Processing past the lease - the worker is gone. Count it as a failed attempt.
+    const stuck = await jobsRef()
+      .where("status", "==", "processing")
+      .where("startedAt", "<", Timestamp.fromMillis(now - JOB_LEASE_MS))
+      .get();
+    for (const doc of stuck.docs) {
+      const job = doc.data() as ExtractionJob;
+      await releaseSlot(job.organizationId, doc.id);
+      await handleJobFailure(doc.id, job, new Error("Worker timed out"));
+    }
+
+    // Queued with nobody working on it
+    const waiting = await jobsRef()
+      .where("status", "==", "queued")
+      .where("updatedAt", "<", Timestamp.fromMillis(now - STALE_QUEUED_MS))
+      .get();
+    const orgs = new Set(waiting.docs.map((doc) => (doc.data() as ExtractionJob).organizationId));
+    for (const orgId of orgs) {
+      await wakeQueuedJobs(orgId, DEFAULT_ORG_CONCURRENCY);
+    }
+
+    if (stuck.size > 0 || waiting.size > 0) {
+      console.log(`Extraction sweep: ${stuck.size} stuck job(s), ${waiting.size} waiting job(s) in ${orgs.size} org(s)`);
+    }
+  }
+);
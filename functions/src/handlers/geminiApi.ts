@@ -0,0 +1,114 @@
+/**
+ * Gemini API — the web app's AI calls that aren't screenshot extraction
+ * (screenshots go through extractScreenshotBatch). The Gemini key only exists
+ * in Cloud Functions; the browser calls `geminiApi` with an `action`.
+ *
+ * Every call needs a signed-in member of an active organization and counts
+ * against the caller's per-minute rate limit (services/rateLimit.ts). Doc text
+ * extraction is also charged to the organization's monthly AI quota.
+ *
+ * Actions:
+ *   extractDocItems {docText, customerName?}  → {customers}
+ *   assistantChat   {message}                 → {reply}
+ */
+
+import {onCall, HttpsError, CallableRequest} from "firebase-functions/v2/https";
+import {getFirestore} from "firebase-admin/firestore";
+import {extractItemsFromDocText} from "../services/geminiService";
+import {answerAssistantMessage, MAX_ASSISTANT_MESSAGE_LENGTH} from "../services/assistantService";
+import {RateLimitExceededError, enforceRateLimit} from "../services/rateLimit";
+import {AiQuotaExceededError, chargeExtractions, refundExtractions} from "../services/aiUsage";
+
+type Action = "extractDocItems" | "assistantChat";
+
+const MAX_DOC_TEXT_LENGTH = 100000;
+
+interface Caller {
+  uid: string;
+  organizationId: string;
+  displayName: string;
+}
+
+/**
+ * Resolve the caller's organization from their user document
+ */
+async function resolveCaller(req: CallableRequest): Promise<Caller> {
+  if (!req.auth) {
+    throw new HttpsError("unauthenticated", "Authentication required.");
+  }
+  const userSnap = await getFirestore().collection("users").doc(req.auth.uid).get();
+  const user = userSnap.data();
+  if (!user?.organizationId || user.status === "inactive") {
+    throw new HttpsError("permission-denied", "No active organization for this account.");
+  }
+  return {uid: req.auth.uid, organizationId: user.organizationId, displayName: user.displayName || "User"};
+}
+
+export const geminiApi = onCall(
+  {
+    timeoutSeconds: 120,
+    memory: "512MiB",
+    maxInstances: 10,
+    cors: true,
+  },
+  async (request) => {
+    const caller = await resolveCaller(request);
+    const {action, ...args} = (request.data ?? {}) as {action?: Action} & Record<string, unknown>;
+    if (!action) throw new HttpsError("invalid-argument", "action is required.");
+
+    const orgId = caller.organizationId;
+
+    try {
+      switch (action) {
+        case "extractDocItems": {
+          const {docText, customerName} = args as {docText?: string; customerName?: string};
+          if (typeof docText !== "string" || !docText.trim()) {
+            throw new HttpsError("invalid-argument", "docText is required.");
+          }
+          if (docText.length > MAX_DOC_TEXT_LENGTH) {
+            throw new HttpsError("invalid-argument", `docText is limited to ${MAX_DOC_TEXT_LENGTH} characters.`);
+          }
+          await enforceRateLimit(caller.uid, "doc-text");
+
+          const usageMeta = {source: "doc-text" as const, uid: caller.uid};
+          const charged = await chargeExtractions(orgId, 1, usageMeta);
+          try {
+            return await extractItemsFromDocText(docText, typeof customerName === "string" ? customerName : undefined);
+          } catch (error) {
+            await refundExtractions(orgId, 1, charged.period, {...usageMeta, reason: "failed"})
+              .catch((refundError) => console.error("AI usage refund failed:", refundError));
+            throw error;
+          }
+        }
+
+        case "assistantChat": {
+          const {message} = args as {message?: string};
+          if (typeof message !== "string" || !message.trim()) {
+            throw new HttpsError("invalid-argument", "message is required.");
+          }
+          await enforceRateLimit(caller.uid, "assistant");
+          const reply = await answerAssistantMessage(
+            orgId,
+            caller.displayName,
+            message.slice(0, MAX_ASSISTANT_MESSAGE_LENGTH)
+          );
+          return {reply};
+        }
+
+        default:
+          throw new HttpsError("invalid-argument", `Unknown action: ${action}`);
+      }
+    } catch (err) {
+      if (err instanceof HttpsError) throw err;
+      if (err instanceof RateLimitExceededError) {
+        throw new HttpsError("resource-exhausted", err.message, {retryAfterSeconds: err.retryAfterSeconds});
+      }
+      if (err instanceof AiQuotaExceededError) {
+        throw new HttpsError("resource-exhausted", err.message, {usage: err.usage});
+      }
+      const message = (err as Error)?.message || String(err);
+      console.error(`[geminiApi] action=${action} orgId=${orgId} failed:`, message);
+      throw new HttpsError("internal", message);
+    }
+  }
+);
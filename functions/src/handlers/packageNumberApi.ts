@@ -0,0 +1,128 @@
+/**
+ * Package Number API — callable surface over the package counter for the web app.
+ *
+ * The web app and the WhatsApp worker must draw from the same counter, and the
+ * counter must only move inside a transaction, so the browser never touches the
+ * counter document itself: it calls this function (`packageNumberApi`) with an
+ * `action`, and the caller's organization comes from their user document.
+ *
+ * Actions:
+ *   reserve   {count?, source?}                    → {reservations}
+ *   assign    {reservationId, orderId}             → {ok}
+ *   void      {reservationId? | packageNumber?, reason} → {voided}
+ *   getConfig {}                                   → {config}
+ *   setConfig {prefix?, padding?, resetYearly?}    → {config}  (owners/admins only)
+ */
+
+import {onCall, HttpsError, CallableRequest} from "firebase-functions/v2/https";
+import {getFirestore} from "firebase-admin/firestore";
+import {
+  reservePackageNumbers,
+  assignPackageNumber,
+  voidPackageNumber,
+  getPackageCounter,
+  updatePackageCounterConfig,
+  PackageNumberSource,
+} from "../services/packageCounter";
+
+type Action = "reserve" | "assign" | "void" | "getConfig" | "setConfig";
+
+const WEB_SOURCES: PackageNumberSource[] = ["web", "bulk-upload", "word-doc", "manual"];
+const CONFIG_ROLES = ["organization-owner", "importer-admin", "master-admin"];
+
+interface Caller {
+  uid: string;
+  organizationId: string;
+  role: string;
+}
+
+/**
+ * Resolve the caller's organization from their user document
+ */
+async function resolveCaller(req: CallableRequest): Promise<Caller> {
+  if (!req.auth) {
+    throw new HttpsError("unauthenticated", "Authentication required.");
+  }
+  const userSnap = await getFirestore().collection("users").doc(req.auth.uid).get();
+  const user = userSnap.data();
+  if (!user?.organizationId || user.status === "inactive") {
+    throw new HttpsError("permission-denied", "No active organization for this account.");
+  }
+  return {uid: req.auth.uid, organizationId: user.organizationId, role: user.role || ""};
+}
+
+export const packageNumberApi = onCall(
+  {
+    timeoutSeconds: 30,
+    memory: "256MiB",
+    maxInstances: 20,
+    cors: true,
+  },
+  async (request) => {
+    const caller = await resolveCaller(request);
+    const {action, ...args} = (request.data ?? {}) as {action?: Action} & Record<string, unknown>;
+    if (!action) throw new HttpsError("invalid-argument", "action is required.");
+
+    const orgId = caller.organizationId;
+
+    try {
+      switch (action) {
+        case "reserve": {
+          const count = args.count === undefined ? 1 : Number(args.count);
+          const source = WEB_SOURCES.includes(args.source as PackageNumberSource) ?
+            args.source as PackageNumberSource :
+            "web";
+          const reservations = await reservePackageNumbers(orgId, count, {
+            source,
+            reservedBy: caller.uid,
+            note: typeof args.note === "string" ? args.note.slice(0, 200) : undefined,
+          });
+          return {reservations};
+        }
+
+        case "assign": {
+          const {reservationId, orderId} = args as {reservationId?: string; orderId?: string};
+          if (!reservationId || !orderId) {
+            throw new HttpsError("invalid-argument", "reservationId and orderId are required.");
+          }
+          await assignPackageNumber(orgId, reservationId, orderId);
+          return {ok: true};
+        }
+
+        case "void": {
+          const {reservationId, packageNumber, reason} =
+            args as {reservationId?: string; packageNumber?: string; reason?: string};
+          if (!reservationId && !packageNumber) {
+            throw new HttpsError("invalid-argument", "reservationId or packageNumber is required.");
+          }
+          if (!reason) throw new HttpsError("invalid-argument", "reason is required.");
+          const voided = await voidPackageNumber(orgId, {reservationId, packageNumber}, reason, caller.uid);
+          return {voided};
+        }
+
+        case "getConfig":
+          return {config: await getPackageCounter(orgId)};
+
+        case "setConfig": {
+          if (!CONFIG_ROLES.includes(caller.role)) {
+            throw new HttpsError("permission-denied", "Only organization owners can change package numbering.");
+          }
+          const config = await updatePackageCounterConfig(orgId, {
+            prefix: args.prefix as string | undefined,
+            padding: args.padding as number | undefined,
+            resetYearly: args.resetYearly as boolean | undefined,
+          }, caller.uid);
+          return {config};
+        }
+
+        default:
+          throw new HttpsError("invalid-argument", `Unknown action: ${action}`);
+      }
+    } catch (err) {
+      if (err instanceof HttpsError) throw err;
+      const message = (err as Error)?.message || String(err);
+      console.error(`[packageNumberApi] action=${action} orgId=${orgId} failed:`, message);
+      throw new HttpsError("internal", message);
+    }
+  }
+);
@@ -20,6 +20,12 @@
 
 import {onCall, HttpsError, CallableRequest} from "firebase-functions/v2/https";
 import {getFirestore} from "firebase-admin/firestore";
+import {
+  ORDER_STATUS_LABELS,
+  OrderStatusChange,
+  nextStatuses,
+  normalizeOrderStatus,
+} from "../utils/orderLifecycle";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -110,7 +116,10 @@ function normalizeOrder(doc: FirebaseFirestore.QueryDocumentSnapshot | FirebaseF
     id: doc.id,
     packageNumber: data.packageNumber ?? null,
     consignee: data.consignee ?? null,
-    status: data.status ?? null,
+    status: normalizeOrderStatus(data.status),
+    statusHistory: (Array.isArray(data.statusHistory) ? data.statusHistory : []) as OrderStatusChange[],
+    statusTimestamps: (data.statusTimestamps ?? {}) as Record<string, string>,
+    statusBeforeHold: data.statusBeforeHold ?? null,
     pieces: data.pieces ?? null,
     value: data.value ?? null,
     trackingNumber: data.trackingNumber ?? null,
@@ -194,6 +203,10 @@ async function getOrderStatus(args: GetOrderStatusArgs) {
     packageNumber: order.packageNumber,
     consignee: order.consignee,
     status: order.status,
+    statusLabel: ORDER_STATUS_LABELS[order.status],
+    statusTimestamps: order.statusTimestamps,
+    statusHistory: order.statusHistory,
+    allowedNextStatuses: nextStatuses(order),
     trackingNumber: order.trackingNumber,
     parcelComp: order.parcelComp,
     lastUpdate: order.updatedAt,
@@ -212,7 +225,7 @@ async function summarizeOrders(args: SummarizeOrdersArgs) {
   const byConsignee: Record<string, {count: number; value: number}> = {};
   let totalValue = 0;
   for (const o of orders) {
-    const s = o.status ?? "unknown";
+    const s = o.status;
     byStatus[s] = (byStatus[s] ?? 0) + 1;
     const c = o.consignee ?? "unknown";
     byConsignee[c] = byConsignee[c] ?? {count: 0, value: 0};
@@ -17,10 +17,9 @@ import {
   handleExportCommand,
   handleStatusCommand,
   handleHelpCommand,
-} from "./handlers/commandHandlers";
+} from "./handlers/commandHandlers-old-backup";
 import {analyzeOrderScreenshot} from "./services/geminiService";
 import {createBatchDocument} from "./services/googleDocsService";
-import {calculateDuty} from "./utils/dutyCalculator";
 import {generatePackageNumber} from "./utils/packageNumberGenerator";
 
 const corsHandler = cors({origin: true});
@@ -497,9 +496,6 @@ export const processBatchScreenshots = onRequest(
           0
         );
 
-        // Calculate customs duties
-        const {duty, vat, totalFees} = calculateDuty(totalValue, allItems);
-
         // Generate package number
         const packageNumber = await generatePackageNumber();
 
@@ -525,12 +521,7 @@ export const processBatchScreenshots = onRequest(
             declaredValue: totalValue,
             currency: "USD",
             purpose: "personal",
-            estimatedDuty: duty,
-            estimatedVAT: vat,
           },
-          customsDuty: duty,
-          vat,
-          totalFees,
           status: "pending-arrival",
           paymentStatus: "pending",
           orderDate: new Date(),
@@ -587,7 +578,6 @@ export const processBatchScreenshots = onRequest(
           trackingNumbers: allTrackingNumbers,
           items: allItems,
           totalValue,
-          totalFees,
           googleDocUrl: docUrl,
           message: "Batch processing completed successfully",
         });
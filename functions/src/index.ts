@@ -5,19 +5,44 @@
 
 import {onRequest, onCall, HttpsError} from "firebase-functions/v2/https";
 import {initializeApp} from "firebase-admin/app";
-import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {getFirestore} from "firebase-admin/firestore";
 import {getStorage} from "firebase-admin/storage";
 import cors from "cors";
-import {parseCommand, isValidCommand} from "./utils/commandParser";
+import {parseCommand, isValidCommand, normalizeCommand} from "./utils/commandParser";
 import {
   sendWhatsAppMessage,
   validateTwilioSignature,
   extractPhoneNumber,
 } from "./services/twilioService";
 import {
+  handleListCommand,
+  handleStatusCommand,
+  handleWeightCommand,
+  handleRenameCommand,
+  handleMarkCommand,
+  handleDeleteCommand,
+  handleExportCommand,
   handleHelpCommand,
 } from "./handlers/commandHandlers";
 import {analyzeOrderScreenshot} from "./services/geminiService";
+import {
+  AiQuotaExceededError, chargeExtractions, getAiUsage, isUnbilledFailure, refundExtractions,
+} from "./services/aiUsage";
+import {RateLimitExceededError, enforceRateLimit} from "./services/rateLimit";
+import {enqueueExtractionJob, QueuedScreenshot} from "./handlers/extractionQueue";
+import {
+  updateSession,
+  bufferPendingScreenshot,
+  takePendingScreenshots,
+  clearPendingScreenshots,
+} from "./services/sessionStore";
+import {
+  claimMessage,
+  completeMessage,
+  failMessage,
+} from "./services/messageLedger";
+import {getFileExtension} from "./utils/mediaUtils";
+import {withRetry} from "./utils/retry";
 
 const corsHandler = cors({origin: true});
 
@@ -28,74 +53,6 @@ initializeApp({
 const db = getFirestore();
 const storage = getStorage();
 
-/**
- * User session data (in-memory storage for active conversations)
- * In production, consider using Firestore or Redis for persistence
- */
-const userSessions = new Map<string, {
-  currentCustomerName: string | null;
-  lastActivity: number;
-  errorSent: boolean;
-  lastErrorTime: number;
-  pendingScreenshots: Array<{
-    imageBytes: Buffer;
-    mediaContentType: string;
-    receivedAt: number;
-  }>;
-}>();
-
-/**
- * Clean up old sessions (older than 1 hour)
- */
-function cleanOldSessions() {
-  const oneHourAgo = Date.now() - (60 * 60 * 1000);
-  for (const [phone, session] of userSessions.entries()) {
-    if (session.lastActivity < oneHourAgo) {
-      userSessions.delete(phone);
-    }
-  }
-}
-
-/**
- * Get next sequential package number
- */
-async function getNextPackageNumber(organizationId: string): Promise<string> {
-  try {
-    // Get all orders sorted by creation date to find the latest package number
-    const ordersSnapshot = await db.collection("organizations")
-      .doc(organizationId)
-      .collection("orders")
-      .orderBy("createdAt", "desc")
-      .limit(50) // Check last 50 orders to find highest number
-      .get();
-
-    let highestNumber = 0;
-
-    // Find the highest "Paquete #X" number
-    ordersSnapshot.docs.forEach((doc) => {
-      const packageNumber = doc.data().packageNumber;
-      if (packageNumber && typeof packageNumber === "string") {
-        // Match pattern like "Paquete #28"
-        const match = packageNumber.match(/Paquete #(\d+)/i);
-        if (match) {
-          const num = parseInt(match[1]);
-          if (num > highestNumber) {
-            highestNumber = num;
-          }
-        }
-      }
-    });
-
-    // Increment by 1
-    const nextNumber = highestNumber + 1;
-    return `Paquete #${nextNumber}`;
-  } catch (error) {
-    console.error("Error getting next package number:", error);
-    // Fallback to timestamp-based number
-    return `Paquete #${Date.now()}`;
-  }
-}
-
 /**
  * Download media from Twilio immediately (before URL expires)
  */
@@ -128,25 +85,20 @@ async function downloadTwilioMedia(mediaUrl: string): Promise<Buffer> {
 }
 
 /**
- * Process multiple screenshots from a single WhatsApp message and create ONE order
+ * Save screenshots from a WhatsApp message to Storage and queue ONE order for extraction.
+ * The extraction worker (handlers/extractionQueue.ts) creates the order and replies.
  */
-async function processMultipleScreenshots(
+async function queueScreenshots(
   screenshots: Array<{imageBytes: Buffer; mediaContentType: string}>,
   customerName: string,
   user: any,
-  senderPhone: string
+  senderPhone: string,
+  messageSid?: string
 ): Promise<void> {
   const bucket = storage.bucket();
-  const downloadUrls: string[] = [];
-  const storagePaths: string[] = [];
+  const queued: QueuedScreenshot[] = [];
 
-  console.log(`Processing ${screenshots.length} screenshot(s) for ${customerName}`);
-
-  // Send processing message
-  await sendWhatsAppMessage(
-    senderPhone,
-    `📸 ${screenshots.length} screenshot${screenshots.length > 1 ? "s" : ""} received for ${customerName}\n\n⏳ Extracting order data...`
-  );
+  console.log(`Queueing ${screenshots.length} screenshot(s) for ${customerName}`);
 
   // Upload ALL screenshots to Firebase Storage
   for (let i = 0; i < screenshots.length; i++) {
@@ -178,127 +130,31 @@ async function processMultipleScreenshots(
     await file.makePublic();
     const downloadUrl = `https://storage.googleapis.com/${bucket.name}/${storagePath}`;
 
-    downloadUrls.push(downloadUrl);
-    storagePaths.push(storagePath);
+    queued.push({storagePath, downloadUrl, mediaContentType});
   }
 
   console.log(`All ${screenshots.length} screenshots uploaded successfully`);
 
-  // Extract data with Gemini AI from ALL screenshots (in parallel)
-  console.log(`Starting AI extraction for ${screenshots.length} screenshots of ${customerName}`);
-
-  const extractionResults = await Promise.allSettled(
-    screenshots.map(async (screenshot, i) => {
-      const base64 = screenshot.imageBytes.toString("base64");
-      console.log(`  Extracting screenshot ${i + 1}/${screenshots.length}...`);
-      return analyzeOrderScreenshot(base64, screenshot.mediaContentType);
-    })
-  );
-
-  // Merge results from all screenshots
-  const allItems: any[] = [];
-  let trackingNumber: string | null = null;
-  let orderNumber: string | null = null;
-  let seller: string | null = null;
-  let orderDate: string | null = null;
-  let shippingCarrier: string | null = null;
-
-  for (let i = 0; i < extractionResults.length; i++) {
-    const result = extractionResults[i];
-    if (result.status === "fulfilled") {
-      const data = result.value;
-      if (data.items && data.items.length > 0) {
-        allItems.push(...data.items);
-      }
-      // Fill in metadata from first screenshot that has it
-      if (!trackingNumber && data.trackingNumber) trackingNumber = data.trackingNumber;
-      if (!orderNumber && data.orderNumber) orderNumber = data.orderNumber;
-      if (!seller && data.seller) seller = data.seller;
-      if (!orderDate && data.orderDate) orderDate = data.orderDate;
-      if (!shippingCarrier && data.shippingCarrier) shippingCarrier = data.shippingCarrier;
-
-      console.log(`  Screenshot ${i + 1}: ${data.items?.length || 0} items, $${data.orderTotal || 0}`);
-    } else {
-      console.warn(`  Screenshot ${i + 1} extraction failed:`, result.reason);
-    }
-  }
-
-  // Calculate totals from merged items (more accurate than summing orderTotals)
-  const totalPieces = allItems.reduce((sum: number, item: any) => sum + (item.quantity || 0), 0);
-  const totalValue = allItems.reduce((sum: number, item: any) => sum + (item.totalValue || 0), 0);
-  const allCarriers = new Set<string>();
-  if (shippingCarrier) allCarriers.add(shippingCarrier);
-
-  console.log(`Merged: ${allItems.length} total items, ${totalPieces} pieces, $${totalValue.toFixed(2)}`);
-
-  // Get next sequential package number
-  const packageNumber = await getNextPackageNumber(user.organizationId);
-  console.log(`Assigned package number: ${packageNumber}`);
-
-  // Create ONE order in Firestore with ALL screenshot URLs
-  const orderData = {
-    // OrderManagement table fields
-    packageNumber: packageNumber, // Sequential: Paquete #29, #30, etc.
-    date: new Date().toISOString().split("T")[0], // Upload date (today), not order date from screenshot
-    consignee: customerName.trim(), // Customer name
-    pieces: totalPieces, // Total item count
-    weight: "", // Empty for now (not extracted from screenshots)
-    trackingNumber: trackingNumber || "",
-    merchantTrackingNumber: trackingNumber || "",
-    orderNumber: orderNumber || "",
-    company: seller || "", // Seller/Store name
-    value: totalValue, // Sum of all item values across all screenshots
-    parcelComp: shippingCarrier || "", // Shipping carrier from AI
-    carriers: allCarriers.size > 0 ? [...allCarriers] : [], // Array format
-    screenshotUrls: downloadUrls, // ALL screenshot URLs from this message
-
-    // Additional metadata (not in OrderRow but useful)
-    customerPhone: senderPhone,
+  await enqueueExtractionJob({
     organizationId: user.organizationId,
+    customerName,
+    senderPhone,
     uploadedBy: user.id,
     uploadedByName: user.displayName || user.email,
-    imagePath: storagePaths[0], // Primary image path
-    imageType: screenshots[0].mediaContentType,
-    items: allItems, // ALL items from ALL screenshots
-    status: "pending-review",
-    extractionStatus: "completed",
-    source: "whatsapp",
-    screenshotCount: screenshots.length, // Track how many screenshots in this order
-
-    // Timestamps
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
-  };
-
-  const orderRef = await db.collection("organizations")
-    .doc(user.organizationId)
-    .collection("orders")
-    .add(orderData);
-
-  console.log(`Order created: ${orderRef.id} with ${screenshots.length} screenshots`);
-
-  // Send success message
-  const itemsSummary = allItems.length > 0 ?
-    allItems.map((item: any) =>
-      `• ${item.name} (${item.quantity}x) - $${item.totalValue.toFixed(2)}`
-    ).join("\n") :
-    "No items extracted";
+    messageSid,
+    screenshots: queued,
+  });
 
+  // Send processing message - the worker sends the "✅ Order created" reply when done
   await sendWhatsAppMessage(
     senderPhone,
-    `✅ Order created for ${customerName}\n\n` +
-    `📸 ${screenshots.length} screenshot${screenshots.length > 1 ? "s" : ""} analyzed → ${allItems.length} items found\n\n` +
-    `${itemsSummary}\n\n` +
-    `Total: $${totalValue.toFixed(2)}\n\n` +
-    `📱 Review in ImportFlow app\n` +
-    `Status: Pending Review\n\n` +
-    `Send more screenshots for ${customerName} or send a new customer name.`
+    `📸 ${screenshots.length} screenshot${screenshots.length > 1 ? "s" : ""} received for ${customerName}\n\n⏳ Extracting order data...`
   );
 }
 
 /**
  * Twilio WhatsApp Webhook
- * Handles incoming WhatsApp messages and creates orders directly
+ * Handles incoming WhatsApp messages and queues screenshots for order extraction
  */
 export const twilioWhatsAppWebhook = onRequest(
   {
@@ -314,10 +170,20 @@ export const twilioWhatsAppWebhook = onRequest(
         return;
       }
 
-      try {
-        // Clean old sessions periodically
-        cleanOldSessions();
+      // MessageSid claimed in the idempotency ledger for this delivery (if any)
+      let claimedSid: string | null = null;
+
+      // Acknowledge Twilio, closing out the ledger entry first
+      const ack = async () => {
+        if (claimedSid) {
+          await completeMessage(claimedSid).catch((error) => {
+            console.error(`Failed to mark message ${claimedSid} completed:`, error);
+          });
+        }
+        res.status(200).send("OK");
+      };
 
+      try {
         // Validate Twilio signature (security)
         const twilioSignature = req.headers["x-twilio-signature"] as string;
         const url = `https://${req.hostname}${req.path}`;
@@ -333,8 +199,22 @@ export const twilioWhatsAppWebhook = onRequest(
           From,
           Body,
           NumMedia,
+          MessageSid,
         } = req.body;
 
+        // Idempotency: Twilio retries on timeouts, so the same MessageSid can arrive
+        // while (or after) the first delivery is processed. Acknowledge repeats without
+        // re-downloading media, re-running extraction or taking another package number.
+        if (MessageSid) {
+          const claim = await claimMessage(MessageSid, From);
+          if (!claim.claimed) {
+            console.log(`Duplicate delivery of ${MessageSid} (status: ${claim.entry.status}) - acknowledging`);
+            res.status(200).send("OK");
+            return;
+          }
+          claimedSid = MessageSid;
+        }
+
         const senderPhone = From; // Keep full format: whatsapp:+14072896614
         const messageText = Body?.trim() || "";
         const numMedia = parseInt(NumMedia || "0");
@@ -360,14 +240,57 @@ export const twilioWhatsAppWebhook = onRequest(
               senderPhone,
               `❓ Unknown command: ${messageText}\n\nType /help to see available commands.`
             );
-            res.status(200).send("OK");
+            await ack();
+            return;
+          }
+
+          const command = normalizeCommand(parsed.command);
+
+          if (command === "help") {
+            await handleHelpCommand(senderPhone, parsed.args);
+            await ack();
+            return;
+          }
+
+          // Every other command reads or changes orders - scope it to the sender's organization
+          const commandUser = await findUserByPhone(senderPhone);
+          if (!commandUser?.organizationId) {
+            await sendWhatsAppMessage(
+              senderPhone,
+              `❌ Phone number not registered\n\nPlease link your WhatsApp number in the ImportFlow app.`
+            );
+            await ack();
             return;
           }
 
           // Route to appropriate command handler
-          switch (parsed.command) {
-            case "help":
-              await handleHelpCommand(senderPhone, parsed.args);
+          switch (command) {
+            case "list":
+              await handleListCommand(commandUser, senderPhone, parsed.args);
+              break;
+
+            case "status":
+              await handleStatusCommand(commandUser, senderPhone, parsed.args);
+              break;
+
+            case "weight":
+              await handleWeightCommand(commandUser, senderPhone, parsed.args);
+              break;
+
+            case "rename":
+              await handleRenameCommand(commandUser, senderPhone, parsed.args);
+              break;
+
+            case "mark":
+              await handleMarkCommand(commandUser, senderPhone, parsed.args);
+              break;
+
+            case "delete":
+              await handleDeleteCommand(commandUser, senderPhone, parsed.args);
+              break;
+
+            case "export":
+              await handleExportCommand(commandUser, senderPhone, parsed.args);
               break;
 
             default:
@@ -377,53 +300,44 @@ export const twilioWhatsAppWebhook = onRequest(
               );
           }
 
-          res.status(200).send("OK");
+          await ack();
           return;
         }
 
-        // Get or create user session first
-        let session = userSessions.get(senderPhone);
-        if (!session) {
-          session = {
-            currentCustomerName: null,
-            lastActivity: Date.now(),
-            errorSent: false,
-            lastErrorTime: 0,
-            pendingScreenshots: [],
-          };
-          userSessions.set(senderPhone, session);
-        }
-
-        // Update last activity
-        session.lastActivity = Date.now();
-
         // Find user by phone number
         console.log(`Looking up user with phone: ${senderPhone}`);
         const user = await findUserByPhone(senderPhone);
 
         if (!user) {
-          // Only send error message once per 5 minutes
+          // Only send error message once per 5 minutes. Claimed inside the session
+          // transaction so concurrent instances don't both send it.
           const fiveMinutesAgo = Date.now() - (5 * 60 * 1000);
-          if (!session.errorSent || session.lastErrorTime < fiveMinutesAgo) {
+          const shouldNotify = await updateSession(senderPhone, (s) => {
+            if (s.errorSent && s.lastErrorTime >= fiveMinutesAgo) return false;
+            s.errorSent = true;
+            s.lastErrorTime = Date.now();
+            return true;
+          });
+          if (shouldNotify) {
             console.log(`User not found for phone: ${senderPhone}`);
             await sendWhatsAppMessage(
               senderPhone,
               `❌ Phone number not registered\n\nPlease link your WhatsApp number in the ImportFlow app.\n\nGo to Firestore Console and add:\nField: whatsappPhone\nValue: ${senderPhone}`
             );
-            session.errorSent = true;
-            session.lastErrorTime = Date.now();
-            userSessions.set(senderPhone, session);
           }
-          res.status(200).send("OK");
+          await ack();
           return;
         }
 
-        // User found - reset error flag
-        session.errorSent = false;
+        // User found - reset error flag. Any text is the new customer name.
+        const session = await updateSession(senderPhone, (s) => {
+          s.errorSent = false;
+          if (messageText) s.currentCustomerName = messageText;
+          return {...s};
+        });
 
         // Handle text WITH media (name + screenshots in same message)
         if (messageText && mediaItems.length > 0) {
-          session.currentCustomerName = messageText;
 
           try {
             // Download ALL media immediately (before URLs expire)
@@ -438,16 +352,16 @@ export const twilioWhatsAppWebhook = onRequest(
             }
 
             // Process ALL screenshots from this message as ONE order
-            await processMultipleScreenshots(
+            await queueScreenshots(
               screenshots,
               messageText,
               user,
-              senderPhone
+              senderPhone,
+              claimedSid ?? undefined
             );
 
             // Clear all pending buffered screenshots (from previous messages)
-            session.pendingScreenshots = [];
-            userSessions.set(senderPhone, session);
+            await clearPendingScreenshots(senderPhone);
           } catch (error: any) {
             console.error("Error processing screenshots:", error);
             await sendWhatsAppMessage(
@@ -456,43 +370,31 @@ export const twilioWhatsAppWebhook = onRequest(
             );
           }
 
-          res.status(200).send("OK");
+          await ack();
           return;
         }
 
         // Handle text only (set customer name)
         if (messageText && mediaItems.length === 0) {
-          session.currentCustomerName = messageText;
-
-          // Time-window pairing: Process ONLY screenshots from last 5 seconds
-          const now = Date.now();
-          const timeWindow = 5 * 1000; // 5 seconds in milliseconds
-
-          const recentScreenshots = session.pendingScreenshots.filter(
-            (screenshot) => (now - screenshot.receivedAt) <= timeWindow
-          );
+          // Time-window pairing: Process ONLY screenshots from last 5 seconds.
+          // Claiming is transactional, so a buffered screenshot becomes at most one order.
+          const {screenshots, expiredCount} = await takePendingScreenshots(senderPhone);
 
-          const expiredCount = session.pendingScreenshots.length - recentScreenshots.length;
-
-          if (recentScreenshots.length > 0) {
+          if (screenshots.length > 0) {
             await sendWhatsAppMessage(
               senderPhone,
-              `✅ Customer name set: ${messageText}\n\n⏳ Processing ${recentScreenshots.length} screenshot${recentScreenshots.length > 1 ? "s" : ""}...` +
+              `✅ Customer name set: ${messageText}\n\n⏳ Processing ${screenshots.length} screenshot${screenshots.length > 1 ? "s" : ""}...` +
               (expiredCount > 0 ? `\n\n⚠️ ${expiredCount} older screenshot${expiredCount > 1 ? "s" : ""} expired (>5s old)` : "")
             );
 
             try {
               // Process ALL recent screenshots as ONE order
-              const screenshots = recentScreenshots.map((pending) => ({
-                imageBytes: pending.imageBytes,
-                mediaContentType: pending.mediaContentType,
-              }));
-
-              await processMultipleScreenshots(
+              await queueScreenshots(
                 screenshots,
                 messageText,
                 user,
-                senderPhone
+                senderPhone,
+                claimedSid ?? undefined
               );
             } catch (error: any) {
               console.error("Error processing buffered screenshots:", error);
@@ -501,10 +403,6 @@ export const twilioWhatsAppWebhook = onRequest(
                 `❌ Error processing screenshots: ${error.message}\n\nPlease try again or contact support if this continues.`
               );
             }
-
-            // Clear ALL pending screenshots (recent + expired)
-            session.pendingScreenshots = [];
-            userSessions.set(senderPhone, session);
           } else {
             // No recent screenshots - just set the customer name
             if (expiredCount > 0) {
@@ -512,7 +410,6 @@ export const twilioWhatsAppWebhook = onRequest(
                 senderPhone,
                 `✅ Customer name set: ${messageText}\n\n⚠️ ${expiredCount} buffered screenshot${expiredCount > 1 ? "s were" : " was"} too old (>5s) and expired.\n\nSend new screenshots for this customer.`
               );
-              session.pendingScreenshots = [];
             } else {
               await sendWhatsAppMessage(
                 senderPhone,
@@ -521,8 +418,7 @@ export const twilioWhatsAppWebhook = onRequest(
             }
           }
 
-          userSessions.set(senderPhone, session);
-          res.status(200).send("OK");
+          await ack();
           return;
         }
 
@@ -534,25 +430,18 @@ export const twilioWhatsAppWebhook = onRequest(
               // CRITICAL: Download ALL media IMMEDIATELY before URLs expire
               console.log(`Downloading ${mediaItems.length} media file(s) immediately for buffering...`);
 
-              // Clean up expired screenshots before adding new ones
-              const now = Date.now();
-              const timeWindow = 5 * 1000; // 5 seconds
-              session.pendingScreenshots = session.pendingScreenshots.filter(
-                (screenshot) => (now - screenshot.receivedAt) <= timeWindow
-              );
-
               // Download and buffer ALL screenshots from this message
+              // (expired entries are pruned as new ones are added)
               for (const mediaItem of mediaItems) {
                 const imageBytes = await downloadTwilioMedia(mediaItem.url);
-                session.pendingScreenshots.push({
-                  imageBytes: imageBytes,
-                  mediaContentType: mediaItem.contentType,
-                  receivedAt: Date.now(),
-                });
+                await bufferPendingScreenshot(
+                  senderPhone,
+                  user.organizationId,
+                  imageBytes,
+                  mediaItem.contentType
+                );
               }
 
-              userSessions.set(senderPhone, session);
-
               // Don't send any message - wait for customer name to arrive
               // (WhatsApp sends them as separate messages, name usually arrives immediately after)
               console.log(`${mediaItems.length} screenshot(s) downloaded and buffered for ${senderPhone}, waiting for customer name...`);
@@ -563,7 +452,7 @@ export const twilioWhatsAppWebhook = onRequest(
                 `❌ Error downloading screenshots. Please send customer name first, then the screenshots.`
               );
             }
-            res.status(200).send("OK");
+            await ack();
             return;
           }
 
@@ -581,11 +470,12 @@ export const twilioWhatsAppWebhook = onRequest(
               });
             }
 
-            await processMultipleScreenshots(
+            await queueScreenshots(
               screenshots,
               customerName,
               user,
-              senderPhone
+              senderPhone,
+              claimedSid ?? undefined
             );
           } catch (error: any) {
             console.error("Error processing screenshots:", error);
@@ -595,7 +485,7 @@ export const twilioWhatsAppWebhook = onRequest(
             );
           }
 
-          res.status(200).send("OK");
+          await ack();
           return;
         }
 
@@ -605,9 +495,15 @@ export const twilioWhatsAppWebhook = onRequest(
           "📱 Send:\n• Customer name (text)\n• Order screenshots (images)\n• /help for commands"
         );
 
-        res.status(200).send("OK");
+        await ack();
       } catch (error) {
         console.error("Error handling WhatsApp message:", error);
+        if (claimedSid) {
+          // Leave it re-claimable - Twilio retries on the 500 below
+          await failMessage(claimedSid, error).catch(() => {
+            // Ledger write failure shouldn't mask the original error
+          });
+        }
         await sendWhatsAppMessage(
           extractPhoneNumber(req.body.From),
           `❌ Error processing your message\n\nPlease try again or contact support.`
@@ -673,54 +569,6 @@ async function findUserByPhone(phone: string): Promise<any> {
   return null;
 }
 
-/**
- * Get file extension from MIME type
- */
-function getFileExtension(mimeType: string): string {
-  const mimeToExt: Record<string, string> = {
-    "image/jpeg": "jpg",
-    "image/jpg": "jpg",
-    "image/png": "png",
-    "image/gif": "gif",
-    "image/webp": "webp",
-  };
-
-  return mimeToExt[mimeType.toLowerCase()] || "jpg";
-}
-
-/**
- * Server-side retry helper for transient Gemini failures (429/5xx/network/timeout).
- * Same logic as the client-side helper but runs in Cloud Functions, so every user
- * gets the same retry behavior regardless of their network or device.
- */
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  label: string,
-  maxAttempts = 3
-): Promise<T> {
-  let lastErr: unknown;
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      return await fn();
-    } catch (err) {
-      lastErr = err;
-      const msg = (err as Error)?.message || String(err);
-      const status = (err as {status?: number; statusCode?: number})?.status ||
-        (err as {status?: number; statusCode?: number})?.statusCode;
-      const isRetryable =
-        status === 429 || status === 408 ||
-        (typeof status === "number" && status >= 500 && status < 600) ||
-        /rate.?limit|quota|timeout|network|fetch|ECONNRESET|ETIMEDOUT|503|500|429|unavailable|deadline/i.test(msg);
-
-      if (!isRetryable || attempt === maxAttempts) throw err;
-      const delayMs = 1000 * Math.pow(2, attempt - 1);
-      console.warn(`⚠️ ${label} attempt ${attempt}/${maxAttempts} failed: ${msg.slice(0, 120)}. Retrying in ${delayMs}ms.`);
-      await new Promise((r) => setTimeout(r, delayMs));
-    }
-  }
-  throw lastErr;
-}
-
 /**
  * Extract items from a batch of order screenshots.
  *
@@ -735,6 +583,12 @@ async function withRetry<T>(
  *
  * Client should chunk large docs into batches of ~10 images (~10MB payload max)
  * and call this function sequentially.
+ *
+ * The whole batch is charged against the organization's monthly AI quota before
+ * any image is analyzed (resource-exhausted past the hard limit); cache hits and
+ * calls turned away by a rate limit or quota are refunded, failures after Gemini
+ * read the image are not. The response carries the updated usage. Each image also
+ * counts against the caller's per-minute limit (services/rateLimit.ts).
  */
 export const extractScreenshotBatch = onCall(
   {
@@ -748,9 +602,10 @@ export const extractScreenshotBatch = onCall(
       throw new HttpsError("unauthenticated", "Authentication required.");
     }
 
-    const {images, lenient} = request.data as {
+    const {images, lenient, forceReextract} = request.data as {
       images?: Array<{base64: string; mimeType: string; clientIdx: number}>;
       lenient?: boolean;
+      forceReextract?: boolean;
     };
 
     if (!Array.isArray(images) || images.length === 0) {
@@ -759,13 +614,40 @@ export const extractScreenshotBatch = onCall(
     if (images.length > 15) {
       throw new HttpsError("invalid-argument", "Batch size limited to 15 images per call. Chunk client-side.");
     }
+    try {
+      await enforceRateLimit(request.auth.uid, "screenshots", images.length);
+    } catch (error) {
+      if (error instanceof RateLimitExceededError) {
+        throw new HttpsError("resource-exhausted", error.message, {retryAfterSeconds: error.retryAfterSeconds});
+      }
+      throw error;
+    }
     void lenient; // reserved for future use; server-side analyzer doesn't expose the flag yet
 
+    // Every extraction is charged to the caller's organization (and cached per organization)
+    const userDoc = await db.collection("users").doc(request.auth.uid).get();
+    const organizationId: string | undefined = userDoc.data()?.organizationId || undefined;
+    if (!organizationId) {
+      throw new HttpsError("failed-precondition", "Join an organization before extracting screenshots.");
+    }
+
+    const usageMeta = {source: "extract-batch" as const, uid: request.auth.uid};
+    let charged;
+    try {
+      charged = await chargeExtractions(organizationId, images.length, usageMeta);
+    } catch (error) {
+      if (error instanceof AiQuotaExceededError) {
+        throw new HttpsError("resource-exhausted", error.message, {usage: error.usage});
+      }
+      throw error;
+    }
+
     const CONCURRENCY = 3;
     const results: Array<
       | {clientIdx: number; ok: true; data: unknown}
       | {clientIdx: number; ok: false; error: string}
     > = [];
+    let unbilled = 0; // Cache hits and calls that never got past a rate limit or quota
 
     for (let i = 0; i < images.length; i += CONCURRENCY) {
       const slice = images.slice(i, i + CONCURRENCY);
@@ -773,11 +655,13 @@ export const extractScreenshotBatch = onCall(
         slice.map(async (img) => {
           try {
             const data = await withRetry(
-              () => analyzeOrderScreenshot(img.base64, img.mimeType),
+              () => analyzeOrderScreenshot(img.base64, img.mimeType, {organizationId, forceReextract}),
               `screenshot clientIdx=${img.clientIdx}`
             );
+            if (data.fromCache) unbilled++;
             return {clientIdx: img.clientIdx, ok: true as const, data};
           } catch (err) {
+            if (isUnbilledFailure(err)) unbilled++;
             const error = (err as Error)?.message || String(err);
             console.error(`Screenshot clientIdx=${img.clientIdx} failed after retries:`, error);
             return {clientIdx: img.clientIdx, ok: false as const, error: error.slice(0, 300)};
@@ -787,10 +671,29 @@ export const extractScreenshotBatch = onCall(
       results.push(...settled);
     }
 
-    return {results};
+    // Charged up front - give back what never reached Gemini
+    await refundExtractions(organizationId, unbilled, charged.period, {...usageMeta, reason: "cache hit or not sent"})
+      .catch((error) => console.error("AI usage refund failed:", error));
+
+    return {results, usage: await getAiUsage(organizationId).catch(() => charged)};
   }
 );
 
+// Extraction queue worker + sweeper for WhatsApp screenshots
+export {processExtractionJob, sweepExtractionQueue} from "./handlers/extractionQueue";
+
+// Package number counter for the web app (the worker uses the same counter directly)
+export {packageNumberApi} from "./handlers/packageNumberApi";
+
+// Monthly AI extraction usage and limits for Settings and the master admin dashboard
+export {aiUsageApi} from "./handlers/aiUsageApi";
+
+// Doc text extraction and the in-app assistant - keeps the Gemini key out of the browser
+export {geminiApi} from "./handlers/geminiApi";
+
+// WhatsApp link for Desarrollo exports requested with /export
+export {notifyExportRequest} from "./handlers/exportRequests";
+
 // Runtime Read API — read-only surface for the Edge AI Chatbot Runtime.
 // Scaffold; see handlers/runtimeReadApi.ts for the dispatch contract.
 export {runtimeReadApi} from "./handlers/runtimeReadApi";
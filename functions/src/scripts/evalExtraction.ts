@@ -0,0 +1,191 @@
+/**
+ * Extraction Eval
+ * Runs an extraction provider over a golden set of labeled screenshots and
+ * fails (exit code 1) when accuracy drops below the stored baseline.
+ *
+ *   npm run eval:extraction -- --dir ../fixtures/golden [--provider gemini]
+ *     [--update-baseline] [--tolerance 0.02] [--out report.json] [--ci]
+ *
+ * Golden set: <name>.png|jpg|jpeg|webp next to <name>.expected.json (the
+ * ExtractedOrderData the screenshot should produce). The baseline is
+ * <dir>/baseline.<provider>.json, written with --update-baseline once a run
+ * is accepted. Nothing is cached or written to Firestore. In CI (--ci or the
+ * CI env var) a missing baseline fails the run instead of passing it.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DEFAULT_REGRESSION_TOLERANCE,
+  EVAL_FIELDS,
+  EvalCase,
+  EvalOrder,
+  EvalReport,
+  buildEvalReport,
+  fieldMatches,
+  findRegressions,
+} from "../utils/extractionEval";
+import {withRetry} from "../utils/retry";
+import {analyzeOrderScreenshot} from "../services/geminiService";
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+interface EvalOptions {
+  dir: string;
+  provider: string;
+  updateBaseline: boolean;
+  tolerance: number;
+  out?: string;
+  ci: boolean;
+}
+
+/**
+ * Parse --flag value pairs from the command line
+ */
+function parseArgs(argv: string[]): EvalOptions {
+  const value = (flag: string): string | undefined => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+  const tolerance = Number(value("--tolerance") ?? DEFAULT_REGRESSION_TOLERANCE);
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    throw new Error("--tolerance must be a non-negative number");
+  }
+  return {
+    dir: path.resolve(value("--dir") || path.resolve(__dirname, "../../../fixtures/golden")),
+    provider: value("--provider") || process.env.EXTRACTION_PROVIDER || "gemini",
+    updateBaseline: argv.includes("--update-baseline"),
+    tolerance,
+    out: value("--out"),
+    ci: argv.includes("--ci") || Boolean(process.env.CI),
+  };
+}
+
+/**
+ * Screenshots in the golden set that have a label
+ */
+function loadGoldenSet(dir: string): Array<{name: string; imagePath: string; mimeType: string; expected: EvalOrder}> {
+  if (!fs.existsSync(dir)) throw new Error(`Golden set folder not found: ${dir}`);
+  return fs.readdirSync(dir)
+    .filter((file) => IMAGE_TYPES[path.extname(file).toLowerCase()])
+    .sort()
+    .flatMap((file) => {
+      const name = path.basename(file, path.extname(file));
+      const labelPath = path.join(dir, `${name}.expected.json`);
+      if (!fs.existsSync(labelPath)) {
+        console.warn(`⚠️ ${file} has no ${name}.expected.json - skipped`);
+        return [];
+      }
+      return [{
+        name,
+        imagePath: path.join(dir, file),
+        mimeType: IMAGE_TYPES[path.extname(file).toLowerCase()],
+        expected: JSON.parse(fs.readFileSync(labelPath, "utf8")) as EvalOrder,
+      }];
+    });
+}
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * One line per group, then the cases that missed a field
+ */
+function printReport(report: EvalReport, cases: EvalCase[]): void {
+  console.log("\nGroup       Cases  Items   " + EVAL_FIELDS.map((f) => `${f} P/R`.padEnd(24)).join("") + "Total err");
+  for (const [group, score] of Object.entries(report)) {
+    const fields = EVAL_FIELDS
+      .map((f) => `${percent(score.fields[f].precision)}/${percent(score.fields[f].recall)}`.padEnd(24))
+      .join("");
+    console.log(
+      `${group.padEnd(12)}${String(score.cases).padEnd(7)}${percent(score.itemCountAccuracy).padEnd(8)}${fields}` +
+      `$${score.totalMeanAbsoluteError.toFixed(2)} (${percent(score.totalMeanPercentError)})` +
+      (score.failures ? `  ${score.failures} failed` : "")
+    );
+  }
+
+  const misses = cases.flatMap((c) => {
+    if (!c.actual) return [`${c.name}: extraction failed - ${c.error}`];
+    const wrong = EVAL_FIELDS.filter((f) => (c.expected[f] || c.actual?.[f]) &&
+      !fieldMatches(f, c.expected[f], c.actual?.[f]));
+    const itemsWrong = (c.actual.items || []).length !== (c.expected.items || []).length;
+    if (!wrong.length && !itemsWrong) return [];
+    const details = wrong.map((f) => `${f} "${c.actual?.[f] ?? ""}" ≠ "${c.expected[f] ?? ""}"`);
+    if (itemsWrong) details.push(`items ${(c.actual.items || []).length} ≠ ${(c.expected.items || []).length}`);
+    return [`${c.name}: ${details.join(", ")}`];
+  });
+  if (misses.length) {
+    console.log(`\nMisses (${misses.length}):`);
+    misses.forEach((line) => console.log(`  ${line}`));
+  }
+}
+
+/**
+ * Extract the golden set, score it and compare with the baseline
+ */
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+  // The extractor picks its provider on every call
+  process.env.EXTRACTION_PROVIDER = options.provider;
+
+  const golden = loadGoldenSet(options.dir);
+  if (golden.length === 0) throw new Error(`No labeled screenshots in ${options.dir}`);
+  console.log(`Evaluating ${golden.length} screenshot(s) with the "${options.provider}" provider...`);
+
+  const cases: EvalCase[] = [];
+  for (const [index, entry] of golden.entries()) {
+    console.log(`  [${index + 1}/${golden.length}] ${entry.name}`);
+    try {
+      const base64 = fs.readFileSync(entry.imagePath).toString("base64");
+      const actual = await withRetry(() => analyzeOrderScreenshot(base64, entry.mimeType), entry.name);
+      cases.push({name: entry.name, expected: entry.expected, actual});
+    } catch (error) {
+      cases.push({name: entry.name, expected: entry.expected, error: (error as Error)?.message || String(error)});
+    }
+  }
+
+  const report = buildEvalReport(cases);
+  printReport(report, cases);
+  if (options.out) {
+    fs.writeFileSync(options.out, JSON.stringify({provider: options.provider, report, cases}, null, 2));
+    console.log(`\nFull report written to ${options.out}`);
+  }
+
+  const baselinePath = path.join(options.dir, `baseline.${options.provider}.json`);
+  if (options.updateBaseline) {
+    fs.writeFileSync(baselinePath, JSON.stringify(report, null, 2) + "\n");
+    console.log(`\n✓ Baseline updated: ${baselinePath}`);
+    return 0;
+  }
+  if (!fs.existsSync(baselinePath)) {
+    if (options.ci) {
+      console.error(`\n❌ No baseline at ${baselinePath} - commit one made with --update-baseline.`);
+      return 1;
+    }
+    console.log(`\nNo baseline at ${baselinePath} - run again with --update-baseline to store this one.`);
+    return 0;
+  }
+
+  const baseline = JSON.parse(fs.readFileSync(baselinePath, "utf8")) as EvalReport;
+  const regressions = findRegressions(baseline, report, options.tolerance);
+  if (regressions.length === 0) {
+    console.log(`\n✓ No regressions against ${path.basename(baselinePath)} (tolerance ${options.tolerance})`);
+    return 0;
+  }
+  console.error(`\n❌ ${regressions.length} regression(s) against ${path.basename(baselinePath)}:`);
+  for (const r of regressions) {
+    console.error(`  ${r.group} ${r.metric}: ${r.baseline} → ${r.current}`);
+  }
+  return 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("Extraction eval failed:", error?.message || error);
+    process.exit(2);
+  });
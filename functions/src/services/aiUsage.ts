@@ -0,0 +1,255 @@
+/**
+ * AI Usage Service
+ * Monthly AI extraction quotas per subscription tier.
+ *
+ * Every screenshot sent to Gemini is charged to the organization before the
+ * call is made, inside a Firestore transaction on the organization document
+ * (currentMonthExtractions / currentMonthCost), so parallel WhatsApp jobs and
+ * web batches can't overrun the limit together. Screenshots that never reach
+ * the provider - cache hits, images that couldn't be loaded, calls turned away
+ * by a rate limit or quota - are refunded afterwards. A failure after the
+ * provider has read the image (timeout, unusable answer) stays charged.
+ *
+ * Each charge and refund is also written to organizations/{orgId}/aiUsageLedger,
+ * so the monthly totals can always be rebuilt from the entries behind them.
+ *
+ * The month rolls over lazily: the first charge in a new usagePeriod starts
+ * the counters from zero. Past the soft limit extractions continue but the
+ * organization is flagged for overage; the hard limit blocks them.
+ */
+
+import {getFirestore, Timestamp, FieldValue} from "firebase-admin/firestore";
+
+// Lazy load db to avoid initialization issues
+const getDb = () => getFirestore();
+
+export const COST_PER_EXTRACTION = 0.0025; // USD per screenshot (Gemini 2.5 Flash)
+const EL_SALVADOR_UTC_OFFSET_MS = -6 * 60 * 60 * 1000; // Months follow local (CST) time
+
+export type SubscriptionTier = "free" | "starter" | "professional" | "enterprise";
+export type AiUsageSource = "extract-batch" | "whatsapp" | "doc-text";
+
+export interface AiTierLimits {
+  softLimit: number; // Extractions per month before the org is flagged for overage
+  hardLimit: number | null; // Extractions per month that are never exceeded (null = no cap)
+}
+
+export const AI_TIER_LIMITS: Record<SubscriptionTier, AiTierLimits> = {
+  free: {softLimit: 40, hardLimit: 50},
+  starter: {softLimit: 400, hardLimit: 500},
+  professional: {softLimit: 1600, hardLimit: 2000},
+  enterprise: {softLimit: 8000, hardLimit: null},
+};
+
+export interface AiUsageSummary {
+  organizationId: string;
+  organizationName: string;
+  tier: SubscriptionTier;
+  period: string; // YYYY-MM
+  used: number;
+  cost: number;
+  softLimit: number;
+  hardLimit: number | null;
+  remaining: number | null; // Before the hard limit (null = no cap)
+  overSoftLimit: boolean;
+  overageExtractions: number; // Extractions beyond the soft limit this month
+  totalExtractions: number; // All time
+  resetsAt: string; // ISO start of next period
+}
+
+/**
+ * Thrown when a charge would take the organization past its hard limit
+ */
+export class AiQuotaExceededError extends Error {
+  constructor(readonly usage: AiUsageSummary, readonly requested: number) {
+    super(
+      `Monthly AI extraction limit reached for the ${usage.tier} plan ` +
+      `(${usage.used}/${usage.hardLimit} used, ${requested} requested). ` +
+      `Usage resets on ${usage.resetsAt.slice(0, 10)}.`
+    );
+    this.name = "AiQuotaExceededError";
+  }
+}
+
+const orgRef = (orgId: string) => getDb().collection("organizations").doc(orgId);
+
+const ledgerRef = (orgId: string) => orgRef(orgId).collection("aiUsageLedger");
+
+/**
+ * Billing month for a moment in time, e.g. "2026-10"
+ */
+export function usagePeriod(now = Date.now()): string {
+  return new Date(now + EL_SALVADOR_UTC_OFFSET_MS).toISOString().slice(0, 7);
+}
+
+function nextPeriodStart(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  // Local midnight on the 1st, expressed in UTC
+  return new Date(Date.UTC(year, month, 1) - EL_SALVADOR_UTC_OFFSET_MS).toISOString();
+}
+
+function tierLimits(tier: unknown): {tier: SubscriptionTier; limits: AiTierLimits} {
+  const known = typeof tier === "string" && tier in AI_TIER_LIMITS ? tier as SubscriptionTier : "free";
+  return {tier: known, limits: AI_TIER_LIMITS[known]};
+}
+
+/**
+ * Usage as of now from an organization document - counters from an earlier
+ * period read as zero even before the first charge resets them
+ */
+export function summarizeAiUsage(
+  organizationId: string,
+  data: FirebaseFirestore.DocumentData | undefined,
+  period = usagePeriod()
+): AiUsageSummary {
+  const {tier, limits} = tierLimits(data?.subscriptionTier);
+  const current = data?.usagePeriod === period;
+  const used = current ? Number(data?.currentMonthExtractions) || 0 : 0;
+  return {
+    organizationId,
+    organizationName: data?.organizationName || "",
+    tier,
+    period,
+    used,
+    cost: current ? Number(data?.currentMonthCost) || 0 : 0,
+    softLimit: limits.softLimit,
+    hardLimit: limits.hardLimit,
+    remaining: limits.hardLimit === null ? null : Math.max(0, limits.hardLimit - used),
+    overSoftLimit: used > limits.softLimit,
+    overageExtractions: Math.max(0, used - limits.softLimit),
+    totalExtractions: Number(data?.aiExtractionsCount) || 0,
+    resetsAt: nextPeriodStart(period),
+  };
+}
+
+/**
+ * Charge `count` extractions before making them. Throws AiQuotaExceededError
+ * (and charges nothing) when that would pass the hard limit.
+ */
+export async function chargeExtractions(
+  orgId: string,
+  count: number,
+  meta: {source: AiUsageSource; uid?: string; reference?: string}
+): Promise<AiUsageSummary> {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("count must be a positive integer");
+  }
+
+  return getDb().runTransaction(async (tx) => {
+    const ref = orgRef(orgId);
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new Error(`Organization ${orgId} not found`);
+
+    const period = usagePeriod();
+    const before = summarizeAiUsage(orgId, snap.data(), period);
+    if (before.hardLimit !== null && before.used + count > before.hardLimit) {
+      throw new AiQuotaExceededError(before, count);
+    }
+
+    const used = before.used + count;
+    const cost = before.cost + count * COST_PER_EXTRACTION;
+    const now = Timestamp.now();
+    tx.update(ref, {
+      usagePeriod: period,
+      currentMonthExtractions: used,
+      currentMonthCost: cost,
+      ...(snap.data()?.usagePeriod !== period ? {usageResetAt: now} : {}),
+      aiExtractionsCount: FieldValue.increment(count),
+      totalAICost: FieldValue.increment(count * COST_PER_EXTRACTION),
+      aiOverSoftLimit: used > before.softLimit,
+      aiOverageExtractions: Math.max(0, used - before.softLimit),
+      lastExtractionAt: now,
+      updatedAt: now,
+    });
+    tx.create(ledgerRef(orgId).doc(), {
+      period,
+      extractions: count,
+      cost: count * COST_PER_EXTRACTION,
+      source: meta.source,
+      uid: meta.uid || null,
+      reference: meta.reference || null,
+      createdAt: now,
+    });
+
+    return summarizeAiUsage(orgId, {
+      ...snap.data(),
+      usagePeriod: period,
+      currentMonthExtractions: used,
+      currentMonthCost: cost,
+      aiExtractionsCount: before.totalExtractions + count,
+    }, period);
+  });
+}
+
+/**
+ * Whether a failed extraction was turned away before the provider did any
+ * work (our quota, or its rate limit / quota answer), so it can be refunded.
+ */
+export function isUnbilledFailure(error: unknown): boolean {
+  if (error instanceof AiQuotaExceededError) return true;
+  const status = (error as {status?: number})?.status;
+  const message = (error as Error)?.message || String(error);
+  return status === 429 || /\b429\b|rate.?limit|quota|resource.?exhausted/i.test(message);
+}
+
+/**
+ * Give back extractions charged up front that never reached Gemini (cache
+ * hits, or failures before the call). A refund that crosses into a new month
+ * is only logged.
+ */
+export async function refundExtractions(
+  orgId: string,
+  count: number,
+  chargedPeriod: string,
+  meta: {source: AiUsageSource; uid?: string; reference?: string; reason: string}
+): Promise<void> {
+  if (count < 1) return;
+
+  await getDb().runTransaction(async (tx) => {
+    const ref = orgRef(orgId);
+    const snap = await tx.get(ref);
+    const data = snap.data();
+    const now = Timestamp.now();
+
+    if (data?.usagePeriod === chargedPeriod) {
+      const {limits} = tierLimits(data?.subscriptionTier);
+      const used = Math.max(0, (Number(data?.currentMonthExtractions) || 0) - count);
+      tx.update(ref, {
+        currentMonthExtractions: used,
+        currentMonthCost: Math.max(0, (Number(data?.currentMonthCost) || 0) - count * COST_PER_EXTRACTION),
+        aiExtractionsCount: FieldValue.increment(-count),
+        totalAICost: FieldValue.increment(-count * COST_PER_EXTRACTION),
+        aiOverSoftLimit: used > limits.softLimit,
+        aiOverageExtractions: Math.max(0, used - limits.softLimit),
+        updatedAt: now,
+      });
+    }
+    tx.create(ledgerRef(orgId).doc(), {
+      period: chargedPeriod,
+      extractions: -count,
+      cost: -count * COST_PER_EXTRACTION,
+      source: meta.source,
+      uid: meta.uid || null,
+      reference: meta.reference || null,
+      reason: meta.reason,
+      createdAt: now,
+    });
+  });
+}
+
+export async function getAiUsage(orgId: string): Promise<AiUsageSummary> {
+  const snap = await orgRef(orgId).get();
+  if (!snap.exists) throw new Error(`Organization ${orgId} not found`);
+  return summarizeAiUsage(orgId, snap.data());
+}
+
+/**
+ * Every organization's usage this month, heaviest users first (master admin)
+ */
+export async function listAiUsage(): Promise<AiUsageSummary[]> {
+  const snapshot = await getDb().collection("organizations").get();
+  const period = usagePeriod();
+  return snapshot.docs
+    .map((doc) => summarizeAiUsage(doc.id, doc.data(), period))
+    .sort((a, b) => b.used - a.used);
+}
@@ -0,0 +1,135 @@
+/**
+ * Assistant Service
+ * Answers the in-app assistant (GeminiAssistant widget). The system prompt is
+ * built here from the organization's own batches, inquiries and packages, so
+ * the browser only ever sends the user's question.
+ */
+
+import {GoogleGenerativeAI} from "@google/generative-ai";
+import {getFirestore} from "firebase-admin/firestore";
+
+// Lazy load db to avoid initialization issues
+const getDb = () => getFirestore();
+
+const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+
+export const MAX_ASSISTANT_MESSAGE_LENGTH = 2000;
+
+interface AssistantContext {
+  userName: string;
+  organizationName: string;
+  batchCount: number;
+  batches: Array<{id: string; customerName?: string; status?: string; screenshotCount?: number}>;
+  inquiryCount: number;
+  inquiries: Array<{source?: string; extractionStatus?: string}>;
+  packageCount: number;
+  packages: Array<{trackingNumber?: string; status?: string}>;
+}
+
+/**
+ * Counts plus a few recent entries of each collection for one organization
+ */
+async function loadAssistantContext(organizationId: string, userName: string): Promise<AssistantContext> {
+  const db = getDb();
+  const scoped = (name: string) => db.collection(name).where("organizationId", "==", organizationId);
+
+  const [orgSnap, batchCount, batches, inquiryCount, inquiries, packageCount, packages] = await Promise.all([
+    db.collection("organizations").doc(organizationId).get(),
+    scoped("batches").count().get(),
+    scoped("batches").limit(20).get(),
+    scoped("screenshots").count().get(),
+    scoped("screenshots").limit(5).get(),
+    scoped("packages").count().get(),
+    scoped("packages").limit(5).get(),
+  ]);
+
+  return {
+    userName,
+    organizationName: orgSnap.data()?.organizationName || organizationId,
+    batchCount: batchCount.data().count,
+    batches: batches.docs.map((doc) => ({id: doc.id, ...doc.data()})),
+    inquiryCount: inquiryCount.data().count,
+    inquiries: inquiries.docs.map((doc) => doc.data()),
+    packageCount: packageCount.data().count,
+    packages: packages.docs.map((doc) => doc.data()),
+  };
+}
+
+function buildSystemPrompt(context: AssistantContext): string {
+  const batchLines = context.batches
+    .map((b) => `- ${b.customerName || b.id}: ${b.status}, ${b.screenshotCount || 0} screenshots`)
+    .join("\n");
+  const inquiryLines = context.inquiries.map((i) => `- ${i.source}: ${i.extractionStatus}`).join("\n");
+  const packageLines = context.packages.map((p) => `- ${p.trackingNumber}: ${p.status}`).join("\n");
+
+  return `You are the ImportFlow AI Assistant for ${context.userName} (${context.organizationName}).
+
+## USER'S CURRENT DATA:
+
+**Batches** (${context.batchCount} total):
+${batchLines || "No batches yet"}
+
+**Inquiries/Screenshots** (${context.inquiryCount} total):
+${inquiryLines || "No inquiries yet"}
+
+**Packages** (${context.packageCount} total):
+${packageLines || "No packages yet"}
+
+## YOUR ROLE:
+1. Help ${context.userName} use ImportFlow effectively
+2. Reference their ACTUAL data (batches, inquiries, packages) above
+3. Explain features clearly and concisely
+4. Provide specific examples using their data
+
+## IMPORTFLOW FEATURES:
+
+**SMS Commands** (Works with ANY phone!):
+- /create "Batch Name" - Create batch
+- /delete batch-id - Delete batch
+- /list - List batches
+- /status batch-id - Get status
+- /export batch-id - Export documents
+- /help - Show commands
+
+**Web App Pages**:
+- Dashboard: Overview of all activities
+- WhatsApp Inquiries: Process incoming WhatsApp screenshots
+- ImportFlow Inquiries: Manual screenshot upload
+- Batch Manager: Organize and export batches
+- All Packages: Track packages
+
+**AI Extraction**:
+Google Gemini extracts order data from screenshots:
+- Tracking numbers, order numbers
+- Product names, quantities, prices
+- HS codes for customs
+- Order totals
+
+**Export**:
+- Google Doc with embedded images (for customs)
+- Google Sheets with extracted data
+- Delivery via SMS, WhatsApp, or Email
+
+## CONVERSATION STYLE:
+- Be friendly and concise
+- Reference ${context.userName}'s actual data
+- Provide specific next steps
+- Use their batch IDs in examples
+- Keep responses under 3 paragraphs
+
+Answer the user's question now:`;
+}
+
+/**
+ * Reply to one assistant message for a member of the organization
+ */
+export async function answerAssistantMessage(
+  organizationId: string,
+  userName: string,
+  message: string
+): Promise<string> {
+  const context = await loadAssistantContext(organizationId, userName);
+  const model = genAI.getGenerativeModel({model: "gemini-2.5-flash"});
+  const result = await model.generateContent(`${buildSystemPrompt(context)}\n\nUser: ${message}\n\nAssistant:`);
+  return result.response.text();
+}
@@ -0,0 +1,72 @@
+/**
+ * Consignee Directory Service
+ * Links names typed in WhatsApp to organizations/{orgId}/consignees, the same
+ * directory the web app's bulk uploader and Consignees page use. A clear match
+ * links to the existing entry (and remembers the spelling as a variant);
+ * anything else becomes a new entry that can be completed (DUI/NIT, address)
+ * or merged in the app.
+ */
+
+import {getFirestore, FieldValue, Timestamp} from "firebase-admin/firestore";
+import {
+  DirectoryEntry,
+  autoLinkConsignee,
+  findConsigneeMatches,
+  normalizeConsigneeName,
+} from "../utils/consigneeMatching";
+
+// Lazy load db to avoid initialization issues
+const getDb = () => getFirestore();
+
+export interface ConsigneeResolution {
+  consigneeId: string;
+  name: string; // Directory name to put on the order
+  outcome: "matched" | "created";
+  similarNames: string[]; // Close but not linked - only set for new entries
+}
+
+const consigneesRef = (orgId: string) =>
+  getDb().collection("organizations").doc(orgId).collection("consignees");
+
+/**
+ * Directory entry for a typed consignee name, created when nothing matches
+ */
+export async function resolveConsignee(
+  orgId: string,
+  typedName: string,
+  createdBy: string
+): Promise<ConsigneeResolution> {
+  const name = typedName.trim();
+  const snapshot = await consigneesRef(orgId).get();
+  const directory: DirectoryEntry[] = snapshot.docs.map((doc) => ({
+    id: doc.id,
+    name: doc.data().name || "",
+    nameVariants: doc.data().nameVariants || [],
+  }));
+
+  const match = autoLinkConsignee(name, directory);
+  if (match) {
+    const known = [match.consignee.name, ...(match.consignee.nameVariants || [])]
+      .some((candidate) => normalizeConsigneeName(candidate) === normalizeConsigneeName(name));
+    if (!known) {
+      await consigneesRef(orgId).doc(match.consignee.id).update({
+        nameVariants: FieldValue.arrayUnion(name),
+        updatedAt: Timestamp.now(),
+      });
+    }
+    return {consigneeId: match.consignee.id, name: match.consignee.name, outcome: "matched", similarNames: []};
+  }
+
+  const created = await consigneesRef(orgId).add({
+    name,
+    nameVariants: [],
+    createdAt: Timestamp.now(),
+    createdBy,
+  });
+  return {
+    consigneeId: created.id,
+    name,
+    outcome: "created",
+    similarNames: findConsigneeMatches(name, directory).map((m) => m.consignee.name),
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Exchange Rates Service
+ * Converts non-USD extractions with the organization's exchange-rate table -
+ * server-side counterpart of src/utils/currency.ts.
+ *
+ * Rates live at organizations/{orgId}/exchangeRates ({currency}_{effectiveDate})
+ * as USD per 1 unit of the currency. The rate used is the latest one whose
+ * effective date is on or before the order date. Items keep their original
+ * amounts; with no rate the extraction is left unconverted and flagged.
+ */
+
+import {getFirestore} from "firebase-admin/firestore";
+
+// Lazy load db to avoid initialization issues
+const getDb = () => getFirestore();
+
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  effectiveDate: string; // YYYY-MM-DD
+}
+
+export interface CurrencyConversion {
+  currency: string;
+  rate: number;
+  effectiveDate: string;
+  originalAmount: number;
+  usdAmount: number;
+}
+
+interface ConvertibleItem {
+  unitValue: number;
+  totalValue: number;
+}
+
+interface ConvertibleExtraction<T extends ConvertibleItem> {
+  items: T[];
+  orderTotal?: number | null;
+  currency?: string | null;
+}
+
+// Same table as src/utils/currency.ts - keep them identical so a screenshot
+// converts the same over WhatsApp and on the web
+const CURRENCY_ALIASES: Record<string, string> = {
+  "$": "USD",
+  "US$": "USD",
+  "USD$": "USD",
+  "DOLLAR": "USD",
+  "DOLARES": "USD",
+  "MX$": "MXN",
+  "MEX$": "MXN",
+  "PESOS": "MXN",
+  "PESO": "MXN",
+  "€": "EUR",
+  "EURO": "EUR",
+  "EUROS": "EUR",
+  "¥": "CNY",
+  "￥": "CNY",
+  "RMB": "CNY",
+  "YUAN": "CNY",
+  "£": "GBP",
+  "C$": "CAD",
+  "CA$": "CAD",
+  "Q": "GTQ",
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * ISO 4217 code from the extraction; unknown or empty means USD
+ */
+export function normalizeCurrency(raw?: string | null): string {
+  const value = (raw || "").trim().toUpperCase();
+  if (!value) return "USD";
+  if (CURRENCY_ALIASES[value]) return CURRENCY_ALIASES[value];
+  return /^[A-Z]{3}$/.test(value) ? value : "USD";
+}
+
+export async function loadExchangeRates(orgId: string): Promise<ExchangeRate[]> {
+  const snapshot = await getDb()
+    .collection("organizations")
+    .doc(orgId)
+    .collection("exchangeRates")
+    .get();
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {currency: data.currency, rate: data.rate, effectiveDate: data.effectiveDate};
+  });
+}
+
+/**
+ * Date to convert an extraction at: the order date it read (YYYY-MM-DD, not
+ * after `fallback`), otherwise `fallback` - usually today
+ */
+export function conversionDateFor(orderDate: string | null | undefined, fallback: string): string {
+  return orderDate && /^\d{4}-\d{2}-\d{2}$/.test(orderDate) && orderDate <= fallback ? orderDate : fallback;
+}
+
+export function findExchangeRate(rates: ExchangeRate[], currency: string, onDate: string): ExchangeRate | undefined {
+  return rates
+    .filter((r) => r.currency === currency && r.effectiveDate <= onDate)
+    .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate))[0];
+}
+
+/**
+ * Convert one extraction to USD
+ */
+export function convertExtraction<T extends ConvertibleItem>(
+  data: ConvertibleExtraction<T>,
+  rates: ExchangeRate[],
+  onDate: string
+): {items: T[]; orderTotal: number; currency: string; conversion?: CurrencyConversion; rateMissing: boolean} {
+  const currency = normalizeCurrency(data.currency);
+  const orderTotal = data.orderTotal || 0;
+  if (currency === "USD") {
+    return {items: data.items, orderTotal, currency, rateMissing: false};
+  }
+
+  const rate = findExchangeRate(rates, currency, onDate);
+  if (!rate) {
+    return {items: data.items.map((item) => ({...item, currency})), orderTotal, currency, rateMissing: true};
+  }
+
+  const items = data.items.map((item) => ({
+    ...item,
+    currency,
+    originalUnitValue: item.unitValue,
+    originalTotalValue: item.totalValue,
+    exchangeRate: rate.rate,
+    unitValue: round2((item.unitValue || 0) * rate.rate),
+    totalValue: round2((item.totalValue || 0) * rate.rate),
+  }));
+
+  return {
+    items,
+    orderTotal: round2(orderTotal * rate.rate),
+    currency,
+    conversion: {
+      currency,
+      rate: rate.rate,
+      effectiveDate: rate.effectiveDate,
+      originalAmount: orderTotal,
+      usdAmount: round2(orderTotal * rate.rate),
+    },
+    rateMissing: false,
+  };
+}
+
+/**
+ * Order-level summary - one entry per currency and rate
+ */
+export function mergeConversions(conversions: CurrencyConversion[]): CurrencyConversion[] {
+  const merged = new Map<string, CurrencyConversion>();
+  for (const c of conversions) {
+    const key = `${c.currency}|${c.rate}|${c.effectiveDate}`;
+    const existing = merged.get(key);
+    merged.set(key, existing ? {
+      ...existing,
+      originalAmount: round2(existing.originalAmount + c.originalAmount),
+      usdAmount: round2(existing.usdAmount + c.usdAmount),
+    } : {...c});
+  }
+  return [...merged.values()];
+}
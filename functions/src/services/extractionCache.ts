@@ -0,0 +1,69 @@
+/**
+ * Extraction Cache
+ * Content-addressed cache of screenshot extractions, shared by web uploads
+ * (through extractScreenshotBatch) and WhatsApp jobs:
+ * organizations/{orgId}/extractionCache/{sha256}_{promptVersion}
+ *
+ * The hash is taken over the decoded pixels, so the same screenshot saved
+ * again with other metadata or PNG compression still hits the cache. A lossy
+ * re-encode (a JPEG recompressed by WhatsApp) changes the pixels and misses.
+ * Entries are keyed by the prompt version, so a prompt change starts over.
+ */
+
+import {createHash} from "crypto";
+import {getFirestore} from "firebase-admin/firestore";
+import {Jimp} from "jimp";
+
+// Lazy load db to avoid initialization issues
+const getDb = () => getFirestore();
+
+const imageBytes = (base64Image: string): Buffer =>
+  Buffer.from(base64Image.replace(/^data:[^,]*,/, "").replace(/\s/g, ""), "base64");
+
+/**
+ * SHA-256 of the image bytes (data-URL prefix and whitespace stripped first),
+ * the same as `sha256sum` of the file - names extraction fixtures
+ */
+export function imageContentHash(base64Image: string): string {
+  return createHash("sha256").update(imageBytes(base64Image)).digest("hex");
+}
+
+/**
+ * SHA-256 of the decoded RGBA pixels and dimensions. Formats Jimp can't
+ * decode fall back to the byte hash.
+ */
+export async function imagePixelHash(base64Image: string): Promise<string> {
+  try {
+    const {data, width, height} = (await Jimp.read(imageBytes(base64Image))).bitmap;
+    return createHash("sha256").update(`${width}x${height}:`).update(data).digest("hex");
+  } catch (error) {
+    console.warn("Could not decode image for the cache key, hashing its bytes:", (error as Error)?.message);
+    return imageContentHash(base64Image);
+  }
+}
+
+export async function extractionCacheKey(base64Image: string, promptVersion: string): Promise<string> {
+  return `${await imagePixelHash(base64Image)}_${promptVersion}`;
+}
+
+const cacheDoc = (organizationId: string, key: string) =>
+  getDb().collection("organizations").doc(organizationId).collection("extractionCache").doc(key);
+
+export async function getCachedExtraction<T>(organizationId: string, key: string): Promise<T | null> {
+  const snapshot = await cacheDoc(organizationId, key).get();
+  return snapshot.exists ? (snapshot.data()?.result as T) : null;
+}
+
+export async function saveCachedExtraction<T>(
+  organizationId: string,
+  key: string,
+  promptVersion: string,
+  result: T
+): Promise<void> {
+  await cacheDoc(organizationId, key).set({
+    // Firestore rejects undefined - the JSON round trip drops those fields
+    result: JSON.parse(JSON.stringify(result)),
+    promptVersion,
+    createdAt: new Date(),
+  });
+}
@@ -0,0 +1,195 @@
+/**
+ * Extraction Providers
+ * What actually reads a screenshot. analyzeOrderScreenshot builds the prompt
+ * and post-processes the answer; a provider only turns (prompt, image) into
+ * the model's raw JSON text.
+ *
+ * - gemini: gemini-2.5-flash vision, falling back to OCR on RECITATION blocks (default)
+ * - tesseract: Tesseract OCR, then Gemini structures the text
+ * - fixture: canned JSON looked up by image hash - no network at all
+ *
+ * Select with EXTRACTION_PROVIDER. Fixtures are read from EXTRACTION_FIXTURES_DIR
+ * (default: fixtures/extraction at the repo root), one {sha256}.json per
+ * screenshot plus an optional default.json for unknown images.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {GoogleGenerativeAI, HarmCategory, HarmBlockThreshold} from "@google/generative-ai";
+import Tesseract from "tesseract.js";
+import {imageContentHash} from "./extractionCache";
+
+const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+
+export type ExtractionProviderName = "gemini" | "tesseract" | "fixture";
+
+export interface ExtractionRequest {
+  prompt: string;
+  base64Image: string;
+  mimeType: string;
+}
+
+export interface ExtractionProvider {
+  name: ExtractionProviderName;
+  offline: boolean; // Makes no network calls - callers keep the rest of the pipeline local too
+  extract(request: ExtractionRequest): Promise<string>;
+}
+
+// What the OCR fallback hands back when nothing is readable - an empty order for manual entry
+const EMPTY_EXTRACTION = JSON.stringify({items: [], orderTotal: null});
+
+const extractionModel = () => genAI.getGenerativeModel({
+  model: "gemini-2.5-flash",
+  safetySettings: [
+    {
+      category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+      threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+    {
+      category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+      threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+    {
+      category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+      threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+    {
+      category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+      threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+  ],
+  generationConfig: {
+    temperature: 0,
+    topP: 1.0,
+    candidateCount: 1,
+    responseMimeType: "application/json",
+  },
+});
+
+/**
+ * OCR fallback when Gemini vision blocks due to RECITATION
+ * Extracts text from image, then sends to Gemini text model
+ */
+const extractWithOCR = async (base64Image: string): Promise<string> => {
+  console.log("🔍 Running OCR fallback to extract text from image...");
+
+  try {
+    // Convert base64 to data URL if needed
+    const imageData = base64Image.startsWith("data:")
+      ? base64Image
+      : `data:image/png;base64,${base64Image}`;
+
+    const result = await Tesseract.recognize(imageData, "eng", {
+      logger: (m) => {
+        if (m.status === "recognizing text") {
+          console.log(`OCR progress: ${Math.round(m.progress * 100)}%`);
+        }
+      },
+    });
+
+    const text = result.data.text;
+    console.log("✓ OCR extracted text:", text.substring(0, 200) + "...");
+    return text;
+  } catch (error) {
+    console.error("OCR extraction failed:", error);
+    throw new Error("Failed to extract text from image using OCR");
+  }
+};
+
+export const tesseractProvider: ExtractionProvider = {
+  name: "tesseract",
+  offline: false,
+  async extract({prompt, base64Image}) {
+    const ocrText = await extractWithOCR(base64Image);
+
+    // Now send the OCR text to Gemini for structuring (same prompt, just text instead of image)
+    console.log("📝 Sending OCR text to Gemini for structuring...");
+    const textPrompt = `${prompt}\n\nHere is the extracted text from an order screenshot:\n\n${ocrText}\n\n` +
+      "Please extract the order data and return ONLY valid JSON in the format specified above.";
+
+    const textResult = await extractionModel().generateContent(textPrompt);
+    console.log("✓ Successfully structured data from OCR text");
+    return textResult.response.text();
+  },
+};
+
+export const geminiProvider: ExtractionProvider = {
+  name: "gemini",
+  offline: false,
+  async extract(request) {
+    const result = await extractionModel().generateContent([
+      request.prompt,
+      {
+        inlineData: {
+          mimeType: request.mimeType,
+          data: request.base64Image,
+        },
+      },
+    ]);
+
+    // RECITATION handling - extract from candidate to avoid .text() throwing errors
+    const candidate = result.response.candidates?.[0];
+    if (candidate?.finishReason !== "RECITATION") {
+      return result.response.text();
+    }
+
+    console.warn("⚠️ RECITATION detected - attempting direct extraction for customs declaration purposes");
+    const partialText = candidate?.content?.parts?.[0]?.text;
+    if (partialText && partialText.trim().length > 0) {
+      console.log("✓ Successfully extracted partial response despite RECITATION block");
+      return partialText;
+    }
+
+    // No content available - try OCR fallback
+    console.warn("⚠️ RECITATION completely blocked response - trying OCR fallback...");
+    try {
+      return await tesseractProvider.extract(request);
+    } catch (ocrError) {
+      console.error("OCR fallback failed:", ocrError);
+      // Last resort - return empty data for manual entry
+      return EMPTY_EXTRACTION;
+    }
+  },
+};
+
+const fixturesDir = () =>
+  process.env.EXTRACTION_FIXTURES_DIR || path.resolve(__dirname, "../../../fixtures/extraction");
+
+/**
+ * Deterministic stand-in for the emulator and tests: the same image always
+ * gets the same answer, and an image without a fixture fails loudly.
+ */
+export const fixtureProvider: ExtractionProvider = {
+  name: "fixture",
+  offline: true,
+  async extract({base64Image}) {
+    const hash = imageContentHash(base64Image);
+    for (const file of [`${hash}.json`, "default.json"]) {
+      const fixturePath = path.join(fixturesDir(), file);
+      if (fs.existsSync(fixturePath)) {
+        console.log(`🧪 Extraction fixture ${file}`);
+        return fs.readFileSync(fixturePath, "utf8");
+      }
+    }
+    throw new Error(`No extraction fixture for image ${hash} in ${fixturesDir()}`);
+  },
+};
+
+const PROVIDERS: Record<ExtractionProviderName, ExtractionProvider> = {
+  gemini: geminiProvider,
+  tesseract: tesseractProvider,
+  fixture: fixtureProvider,
+};
+
+/**
+ * Provider named by EXTRACTION_PROVIDER (read on every call so the emulator
+ * and tests can switch without a redeploy)
+ */
+export function getExtractionProvider(): ExtractionProvider {
+  const name = (process.env.EXTRACTION_PROVIDER || "gemini").trim().toLowerCase();
+  const provider = PROVIDERS[name as ExtractionProviderName];
+  if (!provider) {
+    throw new Error(`Unknown EXTRACTION_PROVIDER "${name}" (expected ${Object.keys(PROVIDERS).join(", ")})`);
+  }
+  return provider;
+}
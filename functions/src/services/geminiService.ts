@@ -3,48 +3,23 @@
  * Analyzes order screenshots using Google Gemini
  */
 
-import {GoogleGenerativeAI, HarmCategory, HarmBlockThreshold} from "@google/generative-ai";
-import Tesseract from "tesseract.js";
+import {GoogleGenerativeAI} from "@google/generative-ai";
+import {applyHsClassification, classifyItemLocally, ClassifiableItem, HsCodeSource} from "../utils/hsClassifier";
+import {FieldConfidence, parseFieldConfidence} from "../utils/extractionReview";
+import {extractionCacheKey, getCachedExtraction, saveCachedExtraction} from "./extractionCache";
+import {ExtractionProvider, getExtractionProvider} from "./extractionProviders";
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "";
 const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
 
-/**
- * OCR fallback when Gemini vision blocks due to RECITATION
- * Extracts text from image, then sends to Gemini text model
- */
-const extractWithOCR = async (base64Image: string): Promise<string> => {
-  console.log("🔍 Running OCR fallback to extract text from image...");
-
-  try {
-    // Convert base64 to data URL if needed
-    const imageData = base64Image.startsWith("data:")
-      ? base64Image
-      : `data:image/png;base64,${base64Image}`;
-
-    const result = await Tesseract.recognize(imageData, "eng", {
-      logger: (m) => {
-        if (m.status === "recognizing text") {
-          console.log(`OCR progress: ${Math.round(m.progress * 100)}%`);
-        }
-      },
-    });
-
-    const text = result.data.text;
-    console.log("✓ OCR extracted text:", text.substring(0, 200) + "...");
-    return text;
-  } catch (error) {
-    console.error("OCR extraction failed:", error);
-    throw new Error("Failed to extract text from image using OCR");
-  }
-};
-
-interface ExtractedOrderData {
+export interface ExtractedOrderData {
+  customerName?: string | null;
   trackingNumber?: string | null;
   orderNumber?: string | null;
   seller?: string | null;
   orderDate?: string | null;
   shippingCarrier?: string | null;
+  carriers?: string[] | null;
   items: Array<{
     name: string;
     description?: string | null;
@@ -52,47 +27,93 @@ interface ExtractedOrderData {
     unitValue: number;
     totalValue: number;
     category: string;
+    hsCode?: string;
+    hsCodeSource?: HsCodeSource;
+    hsCodeConfidence?: number;
+    hsCodeNeedsReview?: boolean;
   }>;
   orderTotal?: number | null;
+  currency?: string | null;
   notAnOrder?: boolean;
+  fieldConfidence?: FieldConfidence;
+  fromCache?: boolean;
+}
+
+export type ExtractedItem = ExtractedOrderData["items"][number];
+
+// An item as the model returns it, before defaults are filled in
+interface RawExtractedItem {
+  name?: string | null;
+  description?: string | null;
+  customsDescription?: string | null;
+  quantity?: number | null;
+  unitValue?: number | null;
+  totalValue?: number | null;
+  category?: string | null;
+}
+
+/**
+ * Bump whenever the screenshot prompt or post-processing changes - cached
+ * extractions from an older version are then ignored.
+ */
+export const SCREENSHOT_PROMPT_VERSION = "server-2";
+
+export interface ScreenshotExtractionOptions {
+  organizationId?: string; // Enables the per-organization extraction cache
+  forceReextract?: boolean; // Skip the cache lookup (the fresh result still replaces the entry)
 }
 
 /**
  * Analyze order screenshot (Amazon, eBay, AliExpress, etc.)
- * Extracts tracking numbers, items, quantities, prices
+ * Extracts tracking numbers, items, quantities, prices. With an organization
+ * the result is cached by image content, so the same screenshot is only sent
+ * to Gemini once per prompt version.
  */
 export const analyzeOrderScreenshot = async (
   base64Image: string,
-  mimeType: string = "image/jpeg"
+  mimeType: string = "image/jpeg",
+  options: ScreenshotExtractionOptions = {}
 ): Promise<ExtractedOrderData> => {
-  const model = genAI.getGenerativeModel({
-    model: "gemini-2.5-flash",
-    safetySettings: [
-      {
-        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-      },
-      {
-        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-      },
-      {
-        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-      },
-      {
-        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-      },
-    ],
-    generationConfig: {
-      temperature: 0,
-      topP: 1.0,
-      candidateCount: 1,
-      responseMimeType: 'application/json',
-    },
-  });
+  const {organizationId, forceReextract} = options;
+  const provider = getExtractionProvider();
+  if (!organizationId) {
+    return extractOrderScreenshot(base64Image, mimeType, provider);
+  }
 
+  // Other providers answer differently for the same image - keep their entries apart
+  const promptVersion = provider.name === "gemini" ?
+    SCREENSHOT_PROMPT_VERSION :
+    `${SCREENSHOT_PROMPT_VERSION}-${provider.name}`;
+  const key = await extractionCacheKey(base64Image, promptVersion);
+  if (!forceReextract) {
+    try {
+      const cached = await getCachedExtraction<ExtractedOrderData>(organizationId, key);
+      if (cached) {
+        console.log(`♻️ Extraction cache hit (${key.slice(0, 12)}…)`);
+        return {...cached, fromCache: true};
+      }
+    } catch (error) {
+      console.warn("Extraction cache lookup failed, extracting:", error);
+    }
+  }
+
+  const result = await extractOrderScreenshot(base64Image, mimeType, provider);
+  // Empty results are usually a bad read - leave them out so a retry asks Gemini again
+  if (result.items.length > 0) {
+    try {
+      await saveCachedExtraction(organizationId, key, promptVersion, result);
+    } catch (error) {
+      console.warn("Failed to cache extraction:", error);
+    }
+  }
+  return result;
+};
+
+const extractOrderScreenshot = async (
+  base64Image: string,
+  mimeType: string,
+  provider: ExtractionProvider
+): Promise<ExtractedOrderData> => {
   const prompt = `LEGAL NOTICE: This is FACTUAL DATA EXTRACTION for government-mandated customs declarations.
 
 You are extracting FACTS (prices, quantities, product names, dates) from order screenshots.
@@ -188,34 +209,52 @@ Extract the following information:
    - "Total (I.V.A. Incluido): US$67.50" = Final total after discounts → ONLY use if "Productos" not visible
    - DEFAULT: Use "Productos" amount (sum of product prices)
 
-   🔴 CRITICAL RULE #1: ONLY NUMBERS WITH DOLLAR SIGNS ($) ARE MONEY
+   🔴 CRITICAL RULE #1: ONLY NUMBERS WITH A CURRENCY SYMBOL OR CODE ($, MX$, €, ¥, MXN, EUR...) ARE MONEY
    - Tracking numbers (e.g., "1234567890") = NOT MONEY, IGNORE
    - Order numbers (e.g., "Order #98765") = NOT MONEY, IGNORE
    - Quantities (e.g., "Qty: 3") = NOT MONEY, IGNORE
-   - ONLY extract prices that have a $ symbol in front of them
+   - ONLY extract prices that have a currency symbol or code next to them
+   - Extract prices EXACTLY as shown - do NOT convert them to USD
 
 Return data in this EXACT JSON format:
 {
+  "customerName": "recipient name from the shipping address (Ship to / Deliver to / Enviar a) or null",
   "trackingNumber": "tracking number if visible, otherwise null",
   "orderNumber": "order/confirmation number or null",
   "seller": "store/seller name or null",
   "orderDate": "YYYY-MM-DD format or null",
   "shippingCarrier": "USPS|UPS|FedEx|DHL|YunExpress|GOFO|OnTrac|LaserShip|other or null",
+  "carriers": ["every carrier shown when the order ships in several packages, e.g. USPS, FedEx"] or [],
   "items": [
     {
       "name": "full product name as shown on screenshot",
       "description": "brief description or null",
       "customsDescription": "SHORT customs description in Spanish (3-5 words max): item type + color ONLY. NO brand names, NO marketing text, NO sizes. Examples: 'Calzoncillos Boxer Negro', 'Vestido Rojo Mujer', 'Consola Juegos Portátil', 'Camiseta Blanca Mujer'. If screenshot is in English, translate to Spanish.",
       "quantity": number,
-      "unitValue": number (price per unit in USD),
+      "unitValue": number (price per unit in the currency shown),
       "totalValue": number (quantity × unitValue),
       "category": "electronics|clothing|toys|food|accessories|other"
     }
   ],
-  "orderTotal": number (grand total in USD) or null,
-  "notAnOrder": boolean (true if screenshot lacks order signals like shipping address, order status, order number, etc. — flag only, do NOT use this to skip extraction)
+  "orderTotal": number (grand total in the currency shown) or null,
+  "currency": "ISO 4217 code of the prices (USD, MXN, EUR, CNY...). Use the symbol and the store's country: shein.com.mx / MX$ / pesos → MXN, € → EUR, ¥ / RMB → CNY. Only $ with nothing else → USD",
+  "notAnOrder": boolean (true if screenshot lacks order signals like shipping address, order status, order number, etc. — flag only, do NOT use this to skip extraction),
+  "confidence": {
+    "trackingNumber": number 0-1,
+    "orderNumber": number 0-1,
+    "seller": number 0-1,
+    "orderDate": number 0-1,
+    "items": number 0-1,
+    "orderTotal": number 0-1
+  }
 }
 
+CONFIDENCE:
+- For each field give how sure you are that you read it correctly, from 0 to 1
+- 1 = clearly printed and unambiguous; below 0.8 = blurry, cropped, partly hidden, guessed or one of several candidates
+- "items" covers names, quantities and prices of ALL items together - use the lowest of them
+- A field returned as null because it is not on the screenshot → 1
+
 RULES:
 - If you cannot find a specific value, use null
 - For quantity, default to 1 if not specified
@@ -249,94 +288,7 @@ Before you return your JSON, STOP and validate:
 
 Return ONLY valid JSON.`;
 
-  const result = await model.generateContent([
-    prompt,
-    {
-      inlineData: {
-        mimeType: mimeType,
-        data: base64Image,
-      },
-    },
-  ]);
-
-  // RECITATION handling - extract from candidate to avoid .text() throwing errors
-  const candidate = result.response.candidates?.[0];
-  let responseText = "";
-
-  // Check for RECITATION flag FIRST
-  const isRecitationBlocked = candidate?.finishReason === "RECITATION";
-
-  if (isRecitationBlocked) {
-    // RECITATION detected - try to extract from candidate (don't call .text())
-    console.warn("⚠️ RECITATION detected - attempting direct extraction for customs declaration purposes");
-
-    const partialText = candidate?.content?.parts?.[0]?.text;
-    if (partialText && partialText.trim().length > 0) {
-      responseText = partialText;
-      console.log("✓ Successfully extracted partial response despite RECITATION block");
-    } else {
-      // No content available - try OCR fallback
-      console.warn("⚠️ RECITATION completely blocked response - trying OCR fallback...");
-
-      try {
-        // Extract text using OCR
-        const ocrText = await extractWithOCR(base64Image);
-
-        // Now send the OCR text to Gemini for structuring (same prompt, just text instead of image)
-        console.log("📝 Sending OCR text to Gemini for structuring...");
-
-        const textModel = genAI.getGenerativeModel({
-          model: "gemini-2.5-flash",
-          safetySettings: [
-            {
-              category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-              threshold: HarmBlockThreshold.BLOCK_NONE,
-            },
-            {
-              category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-              threshold: HarmBlockThreshold.BLOCK_NONE,
-            },
-            {
-              category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-              threshold: HarmBlockThreshold.BLOCK_NONE,
-            },
-            {
-              category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-              threshold: HarmBlockThreshold.BLOCK_NONE,
-            },
-          ],
-          generationConfig: {
-            temperature: 0,
-            topP: 1.0,
-            candidateCount: 1,
-            responseMimeType: 'application/json',
-          },
-        });
-
-        // Same prompt but adapted for text input
-        const textPrompt = `${prompt}\n\nHere is the extracted text from an order screenshot:\n\n${ocrText}\n\nPlease extract the order data and return ONLY valid JSON in the format specified above.`;
-
-        const textResult = await textModel.generateContent(textPrompt);
-        responseText = textResult.response.text();
-        console.log("✓ Successfully structured data from OCR text");
-      } catch (ocrError) {
-        console.error("OCR fallback failed:", ocrError);
-        // Last resort - return empty data for manual entry
-        return {
-          trackingNumber: null,
-          orderNumber: null,
-          seller: null,
-          orderDate: null,
-          shippingCarrier: null,
-          items: [],
-          orderTotal: null
-        };
-      }
-    }
-  } else {
-    // No RECITATION - normal extraction
-    responseText = result.response.text();
-  }
+  const responseText = await provider.extract({prompt, base64Image, mimeType});
 
   // Extract JSON from response (handle markdown code blocks)
   let jsonText = responseText;
@@ -350,7 +302,7 @@ Return ONLY valid JSON.`;
 
   // Ensure items have required fields
   if (parsed.items) {
-    parsed.items = parsed.items.map((item: any) => ({
+    parsed.items = parsed.items.map((item: RawExtractedItem) => ({
       name: item.name || "Unknown Item",
       description: item.description || null,
       customsDescription: item.customsDescription || null,
@@ -363,5 +315,175 @@ Return ONLY valid JSON.`;
     parsed.items = [];
   }
 
+  parsed.items = await classifyItemHsCodes(parsed.items, provider.offline ? {useAI: false} : {});
+  parsed.fieldConfidence = parseFieldConfidence(parsed.confidence);
+  delete parsed.confidence;
+
   return parsed;
 };
+
+/**
+ * HS classification after extraction: dictionary first, Gemini for the items
+ * it can't place. Anything still uncertain keeps hsCodeNeedsReview for the
+ * review queue; a Gemini failure never fails the extraction.
+ */
+export const classifyItemHsCodes = async <T extends ClassifiableItem>(
+  items: T[],
+  options: {useAI?: boolean} = {}
+): Promise<T[]> => {
+  const useAI = options.useAI ?? Boolean(GEMINI_API_KEY);
+  const classified = items.map((item) => applyHsClassification(item, classifyItemLocally(item)));
+  const uncertain = classified
+    .map((item, index) => ({item, index}))
+    .filter(({item}) => item.hsCodeNeedsReview);
+  if (!useAI || uncertain.length === 0) return classified;
+
+  try {
+    const model = genAI.getGenerativeModel({
+      model: "gemini-2.5-flash",
+      generationConfig: {temperature: 0, responseMimeType: "application/json"},
+    });
+    const list = uncertain
+      .map(({item}, i) => `${i + 1}. ${item.name}${item.customsDescription ? ` (${item.customsDescription})` : ""}`)
+      .join("\n");
+    const prompt = `Classify each item for El Salvador customs (SAC, based on the Harmonized System).
+For every item give the 6-digit HS subheading formatted "NNNN.NN" and your confidence from 0 to 1.
+Use a confidence below 0.7 when the description could reasonably fit more than one heading.
+
+Items:
+${list}
+
+Return ONLY JSON: {"items": [{"index": 1, "hsCode": "6109.10", "confidence": 0.9}]}`;
+
+    const result = await model.generateContent(prompt);
+    const parsed = JSON.parse(result.response.text());
+    for (const answer of parsed.items || []) {
+      const target = uncertain[(answer.index || 0) - 1];
+      const hsCode = String(answer.hsCode || "").trim();
+      if (!target || !/^\d{4}(\.?\d{2})?/.test(hsCode)) continue;
+      const confidence = Math.max(0, Math.min(1, Number(answer.confidence) || 0));
+      if (confidence <= (target.item.hsCodeConfidence || 0)) continue;
+      classified[target.index] = applyHsClassification(target.item, {hsCode, confidence, source: "ai"});
+    }
+  } catch (error) {
+    console.warn("Gemini HS classification failed, items left for review:", error);
+  }
+
+  return classified;
+};
+
+export interface DocTextCustomer {
+  name: string;
+  items: Array<ClassifiableItem & {
+    quantity: number;
+    unitValue: number;
+    totalValue: number;
+    category: string;
+  }>;
+  orderTotal: number;
+  totalPieces: number;
+}
+
+/**
+ * Extract order items from Word document text (a customer's typed item list,
+ * e.g. a Machote doc without screenshots). Same item shape as a screenshot
+ * extraction, grouped by customer.
+ */
+export const extractItemsFromDocText = async (
+  docText: string,
+  customerName?: string
+): Promise<{customers: DocTextCustomer[]}> => {
+  const model = genAI.getGenerativeModel({
+    model: "gemini-2.5-flash",
+    generationConfig: {
+      temperature: 0,
+      topP: 1.0,
+      candidateCount: 1,
+      responseMimeType: "application/json",
+    },
+  });
+
+  const prompt = `You are extracting item data from a Word document for El Salvador customs declarations.
+The output must match EXACTLY the same format as screenshot-based order extraction.
+
+The document contains a list of items that a customer is importing. Extract ALL items with their details.
+
+RULES:
+- Extract EVERY item mentioned in the document
+- For each item you MUST provide ALL of these fields:
+  * name: full item name as written in the document
+  * description: brief description of the item (what it is, material, notable features)
+  * customsDescription: SHORT Spanish customs description (3-5 words max): item type + color ONLY. \
+NO brand names, NO marketing text, NO sizes. Examples: 'Calzoncillos Boxer Negro', 'Vestido Rojo Mujer', \
+'Consola Juegos Portátil'. If item is in English, translate to Spanish.
+  * quantity: number of pieces (default 1 if not specified)
+  * unitValue: price per single unit in USD
+  * totalValue: quantity × unitValue
+  * category: one of: electronics, clothing, toys, food, accessories, cosmetics, footwear, home goods, other
+- If the document lists multiple customers/consignees, group items by customer
+- If no customer name is found in the document, use "${customerName || "Unknown"}" as the customer name
+- Prices should be in USD. If no currency specified, assume USD.
+- orderTotal = sum of all item totalValues
+- totalPieces = sum of all item quantities
+
+Return this EXACT JSON format:
+{
+  "customers": [
+    {
+      "name": "Customer Name",
+      "items": [
+        {
+          "name": "full item name from document",
+          "description": "brief description of item",
+          "customsDescription": "Short Spanish customs description (e.g., 'Calzoncillos Boxer Negro')",
+          "quantity": 1,
+          "unitValue": 10.00,
+          "totalValue": 10.00,
+          "category": "clothing"
+        }
+      ],
+      "orderTotal": 100.00,
+      "totalPieces": 10
+    }
+  ]
+}
+
+Return ONLY valid JSON.
+
+DOCUMENT TEXT:
+${docText}`;
+
+  const result = await model.generateContent(prompt);
+  let jsonText = result.response.text();
+  if (jsonText.includes("```json")) {
+    jsonText = jsonText.split("```json")[1].split("```")[0].trim();
+  } else if (jsonText.includes("```")) {
+    jsonText = jsonText.split("```")[1].split("```")[0].trim();
+  }
+
+  const parsed = JSON.parse(jsonText);
+  if (!parsed.customers || !Array.isArray(parsed.customers)) {
+    return {customers: [{name: customerName || "Unknown", items: [], orderTotal: 0, totalPieces: 0}]};
+  }
+
+  const customers: DocTextCustomer[] = [];
+  for (const customer of parsed.customers) {
+    const extracted: DocTextCustomer["items"] = (customer.items || []).map((item: RawExtractedItem) => ({
+      name: item.name || "Unknown Item",
+      customsDescription: item.customsDescription || null,
+      description: item.description || null,
+      quantity: item.quantity || 1,
+      unitValue: item.unitValue || 0,
+      totalValue: item.totalValue || (item.unitValue || 0) * (item.quantity || 1),
+      category: item.category || "other",
+    }));
+    const items = await classifyItemHsCodes(extracted);
+    customers.push({
+      name: customer.name || customerName || "Unknown",
+      items,
+      totalPieces: items.reduce((sum, item) => sum + (item.quantity || 0), 0),
+      orderTotal: items.reduce((sum, item) => sum + (item.totalValue || 0), 0),
+    });
+  }
+  return {customers};
+};
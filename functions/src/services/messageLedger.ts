@@ -0,0 +1,157 @@
+/**
+ * Message Ledger
+ * Idempotency records for Twilio webhook deliveries, keyed on MessageSid.
+ *
+ * Twilio retries a webhook when it doesn't get a response in time, and
+ * screenshot processing can take minutes, so the same WhatsApp message can
+ * arrive more than once. The first delivery claims the MessageSid; later
+ * deliveries see the claim and are acknowledged without doing any work.
+ *
+ * A claim left in "processing" longer than the function timeout belongs to an
+ * instance that died, so it can be re-claimed. Progress recorded along the way
+ * (reserved package number, created order) lets the re-claim pick up where the
+ * dead instance stopped instead of starting over.
+ */
+
+import {getFirestore, Timestamp, FieldValue} from "firebase-admin/firestore";
+
+// Lazy load db to avoid initialization issues
+const getDb = () => getFirestore();
+
+const LEDGER_COLLECTION = "whatsappMessages";
+
+// Longer than the webhook's timeoutSeconds (300) so a live instance is never pre-empted
+const PROCESSING_LEASE_MS = 6 * 60 * 1000;
+// Twilio stops retrying long before this; entries are removed by the TTL policy
+const LEDGER_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type MessageStatus = "processing" | "completed" | "failed";
+
+export interface MessageLedgerEntry {
+  messageSid: string;
+  from: string;
+  status: MessageStatus;
+  attempts: number;
+  packageNumber?: string;
+  orderId?: string;
+  error?: string;
+}
+
+export type ClaimResult =
+  | {claimed: true; entry: MessageLedgerEntry}
+  | {claimed: false; entry: MessageLedgerEntry};
+
+const ledgerRef = (messageSid: string) =>
+  getDb().collection(LEDGER_COLLECTION).doc(messageSid);
+
+function toEntry(messageSid: string, data: FirebaseFirestore.DocumentData): MessageLedgerEntry {
+  return {
+    messageSid,
+    from: data.from ?? "",
+    status: data.status,
+    attempts: data.attempts ?? 0,
+    packageNumber: data.packageNumber ?? undefined,
+    orderId: data.orderId ?? undefined,
+    error: data.error ?? undefined,
+  };
+}
+
+/**
+ * Claim a MessageSid for processing.
+ *
+ * Returns claimed: false when another delivery already completed the message
+ * or is still inside its processing lease - the caller should just acknowledge.
+ * Failed and stale entries are re-claimed.
+ */
+export async function claimMessage(messageSid: string, from: string): Promise<ClaimResult> {
+  const ref = ledgerRef(messageSid);
+
+  return getDb().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const now = Date.now();
+
+    if (snap.exists) {
+      const data = snap.data() || {};
+      const entry = toEntry(messageSid, data);
+      const startedAt = (data.startedAt as Timestamp | undefined)?.toMillis() ?? 0;
+      const leaseActive = entry.status === "processing" && (now - startedAt) < PROCESSING_LEASE_MS;
+
+      if (entry.status === "completed" || leaseActive) {
+        tx.update(ref, {
+          duplicateDeliveries: FieldValue.increment(1),
+          lastDuplicateAt: Timestamp.now(),
+        });
+        return {claimed: false as const, entry};
+      }
+
+      // Failed or stale - take it over, keeping any recorded progress
+      tx.update(ref, {
+        status: "processing",
+        attempts: entry.attempts + 1,
+        startedAt: Timestamp.fromMillis(now),
+        error: FieldValue.delete(),
+      });
+      return {
+        claimed: true as const,
+        entry: {...entry, status: "processing" as const, attempts: entry.attempts + 1, error: undefined},
+      };
+    }
+
+    tx.create(ref, {
+      from,
+      status: "processing",
+      attempts: 1,
+      startedAt: Timestamp.fromMillis(now),
+      expiresAt: Timestamp.fromMillis(now + LEDGER_RETENTION_MS),
+    });
+    return {
+      claimed: true as const,
+      entry: {messageSid, from, status: "processing" as const, attempts: 1},
+    };
+  });
+}
+
+/**
+ * Read a ledger entry (null if the message was never claimed)
+ */
+export async function getMessageEntry(messageSid: string): Promise<MessageLedgerEntry | null> {
+  const snap = await ledgerRef(messageSid).get();
+  return snap.exists ? toEntry(messageSid, snap.data() || {}) : null;
+}
+
+/**
+ * Record progress on a claimed message so a re-claim can resume from it
+ */
+export async function recordMessageProgress(
+  messageSid: string,
+  progress: {packageNumber?: string; orderId?: string; organizationId?: string}
+): Promise<void> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(progress)) {
+    if (value !== undefined) fields[key] = value;
+  }
+  if (Object.keys(fields).length === 0) return;
+  await ledgerRef(messageSid).update(fields);
+}
+
+/**
+ * Mark a message as fully handled
+ */
+export async function completeMessage(messageSid: string): Promise<void> {
+  await ledgerRef(messageSid).update({
+    status: "completed",
+    completedAt: Timestamp.now(),
+  });
+}
+
+/**
+ * Mark a message as failed - the next delivery of it will be re-processed
+ */
+export async function failMessage(messageSid: string, error: unknown): Promise<void> {
+  const message = (error as Error)?.message || String(error);
+  await ledgerRef(messageSid).update({
+    status: "failed",
+    error: message.slice(0, 500),
+    failedAt: Timestamp.now(),
+  });
+}
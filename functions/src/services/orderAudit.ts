@@ -0,0 +1,96 @@
+/**
+ * Order Audit Service
+ * Server side of the per-order audit trail (organizations/{orgId}/orders/{orderId}/audit).
+ * Same entry shape as src/services/orderAuditService.ts in the web app: one
+ * append-only entry per changed field, written in the same batch as the change.
+ */
+
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+
+// Lazy load db to avoid initialization issues
+const getDb = () => getFirestore();
+
+export type OrderAuditSource = "web" | "whatsapp" | "word-import" | "ai-reextract";
+
+export interface AuditActor {
+  uid: string;
+  name?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Fields an extraction sets that a person would otherwise edit by hand
+export const EXTRACTED_ORDER_FIELDS = [
+  "consignee", "pieces", "value", "items", "company", "trackingNumber",
+  "merchantTrackingNumber", "orderNumber", "parcelComp",
+];
+
+// Firestore rejects undefined, and a missing field reads the same as null
+function toStored(value: unknown): unknown {
+  return value === undefined ? null : value;
+}
+
+/**
+ * Fields in `updates` whose value differs from `before`
+ */
+export function diffOrderFields(before: Record<string, unknown>, updates: Record<string, unknown>): FieldChange[] {
+  return Object.entries(updates)
+    .filter(([field, to]) => JSON.stringify(toStored(before[field])) !== JSON.stringify(toStored(to)))
+    .map(([field, to]) => ({field, from: toStored(before[field]), to: toStored(to)}));
+}
+
+function entryData(actor: AuditActor, source: OrderAuditSource, at: Timestamp) {
+  return {source, by: actor.uid, ...(actor.name ? {byName: actor.name} : {}), at};
+}
+
+/**
+ * Add one "update" entry per change to a batch that also writes the order
+ */
+export function addAuditEntries(
+  batch: FirebaseFirestore.WriteBatch,
+  orderRef: FirebaseFirestore.DocumentReference,
+  changes: FieldChange[],
+  actor: AuditActor,
+  source: OrderAuditSource,
+  at = Timestamp.now()
+): void {
+  for (const change of changes) {
+    batch.set(orderRef.collection("audit").doc(), {action: "update", ...change, ...entryData(actor, source, at)});
+  }
+}
+
+/**
+ * Add the "create" entry of a new order to the batch that writes it
+ */
+export function addCreatedEntry(
+  batch: FirebaseFirestore.WriteBatch,
+  orderRef: FirebaseFirestore.DocumentReference,
+  actor: AuditActor,
+  source: OrderAuditSource,
+  at = Timestamp.now()
+): void {
+  batch.set(orderRef.collection("audit").doc(), {action: "create", ...entryData(actor, source, at)});
+}
+
+/**
+ * Update an order and record the fields that changed
+ */
+export async function updateOrderWithAudit(
+  orderRef: FirebaseFirestore.DocumentReference,
+  before: Record<string, unknown>,
+  updates: Record<string, unknown>,
+  actor: AuditActor,
+  source: OrderAuditSource
+): Promise<FieldChange[]> {
+  const at = Timestamp.now();
+  const changes = diffOrderFields(before, updates);
+  const batch = getDb().batch();
+  batch.update(orderRef, {...updates, updatedAt: at});
+  addAuditEntries(batch, orderRef, changes, actor, source, at);
+  await batch.commit();
+  return changes;
+}
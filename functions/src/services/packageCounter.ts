@@ -0,0 +1,266 @@
+/**
+ * Package Counter Service
+ * Transactional per-organization package numbers ("Paquete #29").
+ *
+ * One counter document per organization at
+ * organizations/{orgId}/counters/packageNumber holds the last issued sequence
+ * and the numbering config. Numbers are only ever issued inside a Firestore
+ * transaction on that document, so concurrent WhatsApp and web uploads can't
+ * get the same number.
+ *
+ * Every issued number is written to organizations/{orgId}/packageNumberLog as
+ * "reserved", then moves to "assigned" (linked to the order) or "voided" (with a
+ * reason). Gaps in the sequence can always be explained to customs from the log.
+ */
+
+import {getFirestore, Timestamp, FieldValue} from "firebase-admin/firestore";
+
+// Lazy load db to avoid initialization issues
+const getDb = () => getFirestore();
+
+const SEED_SCAN_LIMIT = 200; // Orders scanned for the highest legacy number when the counter is created
+const EL_SALVADOR_UTC_OFFSET_MS = -6 * 60 * 60 * 1000; // Yearly reset follows local (CST) new year
+
+export type PackageNumberSource = "whatsapp" | "web" | "bulk-upload" | "word-doc" | "manual";
+export type PackageNumberStatus = "reserved" | "assigned" | "voided";
+
+export interface PackageCounterConfig {
+  prefix: string; // Supports {YYYY} and {YY} tokens, e.g. "Paquete #" or "{YYYY}-"
+  padding: number; // Zero-pad the sequence to this many digits (0 = no padding)
+  resetYearly: boolean; // Restart at 1 every January 1st
+}
+
+export interface PackageNumberReservation {
+  reservationId: string;
+  packageNumber: string;
+  sequence: number;
+  year: number;
+}
+
+export const DEFAULT_COUNTER_CONFIG: PackageCounterConfig = {
+  prefix: "Paquete #",
+  padding: 0,
+  resetYearly: false,
+};
+
+const counterRef = (orgId: string) =>
+  getDb().collection("organizations").doc(orgId).collection("counters").doc("packageNumber");
+
+const logRef = (orgId: string) =>
+  getDb().collection("organizations").doc(orgId).collection("packageNumberLog");
+
+function currentYear(): number {
+  return new Date(Date.now() + EL_SALVADOR_UTC_OFFSET_MS).getUTCFullYear();
+}
+
+function readConfig(data: FirebaseFirestore.DocumentData | undefined): PackageCounterConfig {
+  return {
+    prefix: typeof data?.prefix === "string" ? data.prefix : DEFAULT_COUNTER_CONFIG.prefix,
+    padding: Number.isInteger(data?.padding) ? data?.padding : DEFAULT_COUNTER_CONFIG.padding,
+    resetYearly: data?.resetYearly === true,
+  };
+}
+
+/**
+ * Format a sequence with the organization's prefix
+ * Example: ("Paquete #", 29) → "Paquete #29", ("{YYYY}-", 7, padding 4) → "2026-0007"
+ */
+export function formatPackageNumber(config: PackageCounterConfig, sequence: number, year: number): string {
+  const prefix = config.prefix
+    .replace(/\{YYYY\}/g, String(year))
+    .replace(/\{YY\}/g, String(year).slice(-2));
+  const digits = config.padding > 0 ? String(sequence).padStart(config.padding, "0") : String(sequence);
+  return `${prefix}${digits}`;
+}
+
+/**
+ * Highest "Paquete #N" among recent orders - seeds a new counter so it
+ * continues the numbering issued before the counter existed
+ */
+async function findHighestLegacyNumber(
+  tx: FirebaseFirestore.Transaction,
+  orgId: string
+): Promise<number> {
+  const ordersSnapshot = await tx.get(
+    getDb().collection("organizations").doc(orgId).collection("orders")
+      .orderBy("createdAt", "desc")
+      .limit(SEED_SCAN_LIMIT)
+  );
+
+  let highestNumber = 0;
+  ordersSnapshot.docs.forEach((doc) => {
+    const packageNumber = doc.data().packageNumber;
+    if (packageNumber && typeof packageNumber === "string") {
+      const match = packageNumber.match(/Paquete #(\d+)/i);
+      if (match) {
+        highestNumber = Math.max(highestNumber, parseInt(match[1], 10));
+      }
+    }
+  });
+  return highestNumber;
+}
+
+/**
+ * Issue `count` consecutive package numbers for an organization
+ */
+export async function reservePackageNumbers(
+  orgId: string,
+  count: number,
+  meta: {source: PackageNumberSource; reservedBy: string; note?: string}
+): Promise<PackageNumberReservation[]> {
+  if (!Number.isInteger(count) || count < 1 || count > 100) {
+    throw new Error("count must be an integer between 1 and 100");
+  }
+
+  return getDb().runTransaction(async (tx) => {
+    const ref = counterRef(orgId);
+    const snap = await tx.get(ref);
+    const data = snap.data();
+    const config = readConfig(data);
+    const year = currentYear();
+
+    let current: number;
+    if (typeof data?.current !== "number") {
+      // First number for this org (the doc may already hold config from Settings)
+      current = await findHighestLegacyNumber(tx, orgId);
+    } else if (config.resetYearly && data?.year !== year) {
+      current = 0;
+    } else {
+      current = data?.current ?? 0;
+    }
+
+    const now = Timestamp.now();
+    const reservations: PackageNumberReservation[] = [];
+    for (let i = 1; i <= count; i++) {
+      const sequence = current + i;
+      const reservation = {
+        reservationId: `${year}-${sequence}`,
+        packageNumber: formatPackageNumber(config, sequence, year),
+        sequence,
+        year,
+      };
+      reservations.push(reservation);
+      tx.set(logRef(orgId).doc(reservation.reservationId), {
+        ...reservation,
+        status: "reserved" as PackageNumberStatus,
+        source: meta.source,
+        reservedBy: meta.reservedBy,
+        reservedAt: now,
+        ...(meta.note ? {note: meta.note} : {}),
+      });
+    }
+
+    tx.set(ref, {
+      ...config,
+      current: current + count,
+      year,
+      updatedAt: now,
+    }, {merge: true});
+
+    return reservations;
+  });
+}
+
+/**
+ * Link a reserved number to the order that uses it
+ */
+export async function assignPackageNumber(
+  orgId: string,
+  reservationId: string,
+  orderId: string
+): Promise<void> {
+  await logRef(orgId).doc(reservationId).update({
+    status: "assigned" as PackageNumberStatus,
+    orderId,
+    assignedAt: Timestamp.now(),
+  });
+}
+
+/**
+ * Void a number (failed extraction, deleted order, typo...) so the gap is explained.
+ * Looks the entry up by reservation ID, or by the formatted package number.
+ * Returns false when no matching live entry exists (e.g. numbers issued before the log).
+ */
+export async function voidPackageNumber(
+  orgId: string,
+  target: {reservationId?: string; packageNumber?: string},
+  reason: string,
+  voidedBy: string
+): Promise<boolean> {
+  let ref: FirebaseFirestore.DocumentReference | null = null;
+
+  if (target.reservationId) {
+    ref = logRef(orgId).doc(target.reservationId);
+  } else if (target.packageNumber) {
+    const snap = await logRef(orgId)
+      .where("packageNumber", "==", target.packageNumber)
+      .where("status", "in", ["reserved", "assigned"])
+      .limit(1)
+      .get();
+    ref = snap.empty ? null : snap.docs[0].ref;
+  }
+  if (!ref) return false;
+
+  const entryRef = ref;
+  return getDb().runTransaction(async (tx) => {
+    const snap = await tx.get(entryRef);
+    if (!snap.exists || snap.data()?.status === "voided") return false;
+    tx.update(entryRef, {
+      status: "voided" as PackageNumberStatus,
+      voidReason: reason,
+      voidedBy,
+      voidedAt: Timestamp.now(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Read an organization's numbering config and last issued sequence
+ */
+export async function getPackageCounter(
+  orgId: string
+): Promise<PackageCounterConfig & {current: number; year: number | null}> {
+  const snap = await counterRef(orgId).get();
+  const data = snap.data();
+  return {
+    ...readConfig(data),
+    current: data?.current ?? 0,
+    year: data?.year ?? null,
+  };
+}
+
+/**
+ * Change prefix / padding / yearly reset. Takes effect from the next issued number.
+ */
+export async function updatePackageCounterConfig(
+  orgId: string,
+  changes: Partial<PackageCounterConfig>,
+  updatedBy: string
+): Promise<PackageCounterConfig> {
+  const update: Record<string, unknown> = {};
+  if (changes.prefix !== undefined) {
+    if (typeof changes.prefix !== "string" || changes.prefix.length > 20) {
+      throw new Error("prefix must be a string of at most 20 characters");
+    }
+    update.prefix = changes.prefix;
+  }
+  if (changes.padding !== undefined) {
+    if (!Number.isInteger(changes.padding) || changes.padding < 0 || changes.padding > 8) {
+      throw new Error("padding must be an integer between 0 and 8");
+    }
+    update.padding = changes.padding;
+  }
+  if (changes.resetYearly !== undefined) {
+    update.resetYearly = changes.resetYearly === true;
+  }
+
+  await counterRef(orgId).set({
+    ...update,
+    configUpdatedBy: updatedBy,
+    configUpdatedAt: FieldValue.serverTimestamp(),
+  }, {merge: true});
+
+  const snap = await counterRef(orgId).get();
+  return readConfig(snap.data());
+}
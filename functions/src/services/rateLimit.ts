@@ -0,0 +1,66 @@
+/**
+ * Rate Limit Service
+ * Per-user limits on the AI callables, so one signed-in browser can't drain
+ * the shared Gemini quota (the monthly per-organization quota is aiUsage.ts).
+ *
+ * Fixed windows counted in rateLimits/{bucket}_{uid}, updated in a transaction
+ * so parallel calls from the same user are all counted.
+ */
+
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+
+// Lazy load db to avoid initialization issues
+const getDb = () => getFirestore();
+
+export type RateLimitBucket = "screenshots" | "doc-text" | "assistant";
+
+export interface RateLimit {
+  limit: number; // Units per window (screenshots count one each, other calls one per request)
+  windowSeconds: number;
+}
+
+export const RATE_LIMITS: Record<RateLimitBucket, RateLimit> = {
+  "screenshots": {limit: 60, windowSeconds: 60},
+  "doc-text": {limit: 10, windowSeconds: 60},
+  "assistant": {limit: 20, windowSeconds: 60},
+};
+
+/**
+ * Thrown when a call would go over the user's limit for the current window
+ */
+export class RateLimitExceededError extends Error {
+  constructor(readonly bucket: RateLimitBucket, readonly retryAfterSeconds: number) {
+    super(`Too many AI requests - try again in ${retryAfterSeconds} second(s).`);
+    this.name = "RateLimitExceededError";
+  }
+}
+
+/**
+ * Count `units` against the user's current window, or throw
+ * RateLimitExceededError (and count nothing) when that would pass the limit
+ */
+export async function enforceRateLimit(uid: string, bucket: RateLimitBucket, units = 1): Promise<void> {
+  const {limit, windowSeconds} = RATE_LIMITS[bucket];
+  const ref = getDb().collection("rateLimits").doc(`${bucket}_${uid}`);
+
+  await getDb().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const now = Date.now();
+    const windowStart = snap.data()?.windowStart?.toMillis?.() ?? 0;
+    const inWindow = now - windowStart < windowSeconds * 1000;
+    const used = inWindow ? Number(snap.data()?.count) || 0 : 0;
+
+    if (used + units > limit) {
+      const retryAfterSeconds = Math.max(1, Math.ceil((windowStart + windowSeconds * 1000 - now) / 1000));
+      throw new RateLimitExceededError(bucket, retryAfterSeconds);
+    }
+
+    tx.set(ref, {
+      uid,
+      bucket,
+      windowStart: inWindow ? snap.data()?.windowStart : Timestamp.fromMillis(now),
+      count: used + units,
+      updatedAt: Timestamp.fromMillis(now),
+    });
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * WhatsApp Session Store
+ * Firestore-backed conversation state for the Twilio webhook.
+ *
+ * Every function instance reads and writes the same session document, so a
+ * customer name set on one instance is still there when the screenshots land
+ * on another (or after a cold start). Buffered screenshot bytes go to Storage;
+ * the session document only keeps references to them.
+ *
+ * Expiry: each write pushes `expiresAt` forward. A Firestore TTL policy on
+ * `whatsappSessions.expiresAt` (see firestore.indexes.json) deletes stale
+ * documents, and reads treat an expired document as a fresh session in case
+ * the TTL sweep hasn't run yet.
+ */
+
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {getStorage} from "firebase-admin/storage";
+import {getFileExtension} from "../utils/mediaUtils";
+
+// Lazy load to avoid initialization issues
+const getDb = () => getFirestore();
+const getBucket = () => getStorage().bucket();
+
+const SESSIONS_COLLECTION = "whatsappSessions";
+const PENDING_MEDIA_PREFIX = "whatsapp-pending";
+
+export const SESSION_TTL_MS = 60 * 60 * 1000; // 1 hour of inactivity
+export const PAIRING_WINDOW_MS = 5 * 1000; // Screenshots older than 5s don't pair with a name
+
+export interface PendingScreenshotRef {
+  storagePath: string;
+  mediaContentType: string;
+  receivedAt: number;
+}
+
+export interface WhatsAppSession {
+  phone: string;
+  currentCustomerName: string | null;
+  lastActivity: number;
+  errorSent: boolean;
+  lastErrorTime: number;
+  pendingScreenshots: PendingScreenshotRef[];
+}
+
+export interface DownloadedScreenshot {
+  imageBytes: Buffer;
+  mediaContentType: string;
+}
+
+/**
+ * Session document ID - digits only so "whatsapp:+1 555..." and "+1555..." share a doc
+ */
+function sessionKey(phone: string): string {
+  return phone.replace(/[^\d]/g, "") || phone;
+}
+
+function sessionRef(phone: string) {
+  return getDb().collection(SESSIONS_COLLECTION).doc(sessionKey(phone));
+}
+
+function emptySession(phone: string): WhatsAppSession {
+  return {
+    phone,
+    currentCustomerName: null,
+    lastActivity: Date.now(),
+    errorSent: false,
+    lastErrorTime: 0,
+    pendingScreenshots: [],
+  };
+}
+
+function fromSnapshot(phone: string, snap: FirebaseFirestore.DocumentSnapshot): WhatsAppSession {
+  const data = snap.data();
+  if (!data) return emptySession(phone);
+
+  const expiresAt = (data.expiresAt as Timestamp | undefined)?.toMillis() ?? 0;
+  if (expiresAt < Date.now()) return emptySession(phone);
+
+  return {
+    phone,
+    currentCustomerName: data.currentCustomerName ?? null,
+    lastActivity: data.lastActivity ?? 0,
+    errorSent: data.errorSent === true,
+    lastErrorTime: data.lastErrorTime ?? 0,
+    pendingScreenshots: Array.isArray(data.pendingScreenshots) ? data.pendingScreenshots : [],
+  };
+}
+
+/**
+ * Read the current session for a phone (fresh session if none or expired)
+ */
+export async function getSession(phone: string): Promise<WhatsAppSession> {
+  const snap = await sessionRef(phone).get();
+  return fromSnapshot(phone, snap);
+}
+
+/**
+ * Read-modify-write a session inside a Firestore transaction.
+ *
+ * `mutate` may run more than once if the transaction retries, so it must only
+ * touch the session object it is given. Activity and expiry are refreshed on
+ * every write. Returns whatever `mutate` returns.
+ */
+export async function updateSession<T>(
+  phone: string,
+  mutate: (session: WhatsAppSession) => T
+): Promise<T> {
+  const ref = sessionRef(phone);
+
+  return getDb().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const session = fromSnapshot(phone, snap);
+    const result = mutate(session);
+
+    const now = Date.now();
+    session.lastActivity = now;
+    tx.set(ref, {
+      ...session,
+      expiresAt: Timestamp.fromMillis(now + SESSION_TTL_MS),
+      updatedAt: Timestamp.now(),
+    });
+
+    return result;
+  });
+}
+
+/**
+ * Buffer a screenshot that arrived before its customer name.
+ * Bytes are stored in Storage; the session keeps the reference.
+ */
+export async function bufferPendingScreenshot(
+  phone: string,
+  organizationId: string,
+  imageBytes: Buffer,
+  mediaContentType: string
+): Promise<void> {
+  const receivedAt = Date.now();
+  const random = Math.random().toString(36).slice(2, 8);
+  const storagePath = `${PENDING_MEDIA_PREFIX}/${organizationId}/${sessionKey(phone)}/` +
+    `${receivedAt}_${random}.${getFileExtension(mediaContentType)}`;
+
+  await getBucket().file(storagePath).save(imageBytes, {
+    metadata: {contentType: mediaContentType},
+  });
+
+  const expired = await updateSession(phone, (session) => {
+    const stale = session.pendingScreenshots.filter(
+      (s) => (receivedAt - s.receivedAt) > PAIRING_WINDOW_MS
+    );
+    session.pendingScreenshots = session.pendingScreenshots
+      .filter((s) => (receivedAt - s.receivedAt) <= PAIRING_WINDOW_MS)
+      .concat({storagePath, mediaContentType, receivedAt});
+    return stale;
+  });
+
+  await deletePendingMedia(expired);
+}
+
+/**
+ * Atomically claim and clear all buffered screenshots for a phone.
+ *
+ * Only one instance can claim a given screenshot, so the same buffered
+ * image is never turned into two orders. Screenshots inside the pairing
+ * window are downloaded and returned; older ones are discarded.
+ */
+export async function takePendingScreenshots(
+  phone: string
+): Promise<{screenshots: DownloadedScreenshot[]; expiredCount: number}> {
+  const now = Date.now();
+  const claimed = await updateSession(phone, (session) => {
+    const all = session.pendingScreenshots;
+    session.pendingScreenshots = [];
+    return all;
+  });
+
+  const recent = claimed.filter((s) => (now - s.receivedAt) <= PAIRING_WINDOW_MS);
+  const screenshots: DownloadedScreenshot[] = [];
+
+  for (const ref of recent) {
+    try {
+      const [imageBytes] = await getBucket().file(ref.storagePath).download();
+      screenshots.push({imageBytes, mediaContentType: ref.mediaContentType});
+    } catch (error) {
+      console.warn(`Buffered screenshot missing from storage: ${ref.storagePath}`, error);
+    }
+  }
+
+  await deletePendingMedia(claimed);
+
+  return {screenshots, expiredCount: claimed.length - recent.length};
+}
+
+/**
+ * Drop all buffered screenshots for a phone without processing them
+ */
+export async function clearPendingScreenshots(phone: string): Promise<void> {
+  const claimed = await updateSession(phone, (session) => {
+    const all = session.pendingScreenshots;
+    session.pendingScreenshots = [];
+    return all;
+  });
+  await deletePendingMedia(claimed);
+}
+
+async function deletePendingMedia(refs: PendingScreenshotRef[]): Promise<void> {
+  await Promise.all(refs.map((ref) =>
+    getBucket().file(ref.storagePath).delete({ignoreNotFound: true}).catch((error) => {
+      console.warn(`Failed to delete buffered screenshot ${ref.storagePath}:`, error);
+    })
+  ));
+}
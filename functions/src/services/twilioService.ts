@@ -57,6 +57,33 @@ export async function sendWhatsAppMessage(
   }
 }
 
+/**
+ * Send a WhatsApp message with a document or image attached (Twilio fetches mediaUrl)
+ */
+export async function sendWhatsAppMedia(
+  to: string,
+  message: string,
+  mediaUrl: string
+): Promise<string> {
+  const client = getTwilioClient();
+  const toNumber = to.startsWith("whatsapp:") ? to : `whatsapp:${to.replace(/\s/g, "")}`;
+
+  try {
+    const response = await client.messages.create({
+      from: whatsappNumber,
+      to: toNumber,
+      body: message,
+      mediaUrl: [mediaUrl],
+    });
+
+    console.log(`WhatsApp media message sent to ${toNumber}: ${response.sid}`);
+    return response.sid;
+  } catch (error) {
+    console.error("Failed to send WhatsApp media message:", error);
+    throw error;
+  }
+}
+
 /**
  * Send a WhatsApp message with multiple lines
  */
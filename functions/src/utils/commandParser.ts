@@ -58,12 +58,28 @@ export function parseCommand(message: string): ParsedCommand | null {
   };
 }
 
+// Aliases from the older batch vocabulary (src/services/whatsappCommandService.ts)
+const COMMAND_ALIASES: Record<string, string> = {
+  batches: "list",
+  setweight: "weight",
+  setstatus: "mark",
+};
+
+/**
+ * Map an alias to its canonical command name
+ * Example: "setweight" -> "weight"
+ */
+export function normalizeCommand(command: string): string {
+  const lower = command.toLowerCase();
+  return COMMAND_ALIASES[lower] || lower;
+}
+
 /**
  * Validate if command is supported
  */
 export function isValidCommand(command: string): boolean {
-  const validCommands = ["status", "help"];
-  return validCommands.includes(command.toLowerCase());
+  const validCommands = ["list", "status", "weight", "rename", "mark", "delete", "export", "help"];
+  return validCommands.includes(normalizeCommand(command));
 }
 
 /**
@@ -75,17 +91,34 @@ export function getCommandHelp(command?: string): string {
 
 Available commands:
 
-/export <doc-id>
-  Export a doc and receive Google Doc link
-  Example: /export doc-abc123
+/list [count]
+  Show your most recent orders
+  Example: /list 5
+
+/status [package#]
+  Pending orders, or the details of one package
+  Example: /status 29
 
-/export <doc-id> email:<email>
-  Export and send to email
-  Example: /export doc-abc123 email:user@example.com
+/weight <package#> <weight><kg|lb>
+  Set the weight of a package
+  Example: /weight 29 4.5kg
 
-/status <doc-id>
-  Check doc status
-  Example: /status doc-abc123
+/rename <package#> <new name>
+  Change the consignee of a package
+  Example: /rename 29 Maria Lopez
+
+/mark <package#> [package# ...] <status>
+  Move packages along the order lifecycle
+  Example: /mark 29 30 received
+
+/delete <package#>
+  Delete an order that is still pending review
+  Example: /delete 29
+
+/export [pdf] [package# ...]
+  Build the Desarrollo customs sheet (all reviewed orders not yet through customs, or the ones listed)
+  Example: /export 29 30 31
+  Example: /export pdf 29 30
 
 /help
   Show this help message
@@ -93,36 +126,103 @@ Available commands:
 Need assistance? Log into the web app at importflow-app.web.app`;
   }
 
-  switch (command.toLowerCase()) {
-    case "export":
-      return `📄 /export Command
+  switch (normalizeCommand(command)) {
+    case "list":
+      return `📋 /list Command
 
 Usage:
-  /export <doc-id> [email:<email>]
+  /list [count]
 
-Examples:
-  /export doc-abc123
-  /export doc-abc123 email:customs@company.com
+Example:
+  /list 5
 
-This will:
-  1. Generate a Google Doc with all orders
-  2. Export all order screenshots and data
-  3. Send link to WhatsApp (or email if specified)`;
+Shows the most recent orders (10 by default, up to 25) with package number,
+consignee, value and status.`;
 
     case "status":
       return `📊 /status Command
 
 Usage:
-  /status <doc-id>
+  /status
+  /status <package#>
+
+Examples:
+  /status
+  /status 29
+
+Without a package number: pending orders grouped by consignee.
+With one: consignee, status (and when it last changed), items, value and
+weight of that package.`;
+
+    case "weight":
+      return `⚖️ /weight Command
+
+Usage:
+  /weight <package#> <weight><kg|lb>
+
+Examples:
+  /weight 29 4.5kg
+  /weight 29 10 lb`;
+
+    case "rename":
+      return `✏️ /rename Command
+
+Usage:
+  /rename <package#> <new consignee name>
 
 Example:
-  /status doc-abc123
+  /rename 29 Maria Lopez`;
+
+    case "mark":
+      return `📊 /mark Command
 
-Shows:
-  - Doc status (active/ready/exported)
-  - Number of orders
-  - Customer names
-  - Creation date`;
+Usage:
+  /mark <package#> [package# ...] <status>
+
+Examples:
+  /mark 29 received
+  /mark 29 30 31 customs
+  /mark 29 on hold
+
+Statuses: pending-review, reviewed (ok), received, customs-pending (customs),
+customs-cleared (cleared), ready-pickup (ready), delivered, on-hold (hold).
+Spanish works too: revisado, recibido, aduana, liberado, listo, entregado,
+retenido.
+
+Orders move forward one step at a time (cleared orders can go straight to
+delivered); any open order can be put on hold and released again.`;
+
+    case "delete":
+      return `🗑️ /delete Command
+
+Usage:
+  /delete <package#>
+
+Example:
+  /delete 29
+
+Only orders still pending review can be deleted from WhatsApp.
+The package number is voided so the gap shows up in the numbering log.`;
+
+    case "export":
+      return `📄 /export Command
+
+Usage:
+  /export
+  /export <package#> [package# ...]
+  /export pdf [package# ...]
+
+Examples:
+  /export
+  /export 29 30 31
+  /export pdf 29 30
+
+Queues a Desarrollo export of every reviewed order that hasn't cleared customs
+yet - Reviewed, Received or Customs pending - or of the packages listed.
+Orders still pending review are left out until they're checked in the app.
+The export runs from the ImportFlow app; the Google Sheet link is sent here
+when it is ready. With "pdf", the print-ready PDF is sent here as a document
+instead.`;
 
     case "help":
       return getCommandHelp();
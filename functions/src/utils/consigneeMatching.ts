@@ -0,0 +1,103 @@
+/**
+ * Consignee Matching
+ * Fuzzy matching of typed consignee names against the organization's
+ * directory - server-side counterpart of src/utils/consigneeMatching.ts, used
+ * for names typed in WhatsApp. Scores must stay the same as the web copy so a
+ * name links to the same entry whichever way the order came in.
+ */
+
+export const AUTO_LINK_SCORE = 0.88;
+export const SUGGEST_SCORE = 0.7;
+
+export interface DirectoryEntry {
+  id: string;
+  name: string;
+  nameVariants?: string[];
+}
+
+export interface ConsigneeMatch<T extends DirectoryEntry = DirectoryEntry> {
+  consignee: T;
+  score: number;
+  matchedName: string;
+}
+
+export function normalizeConsigneeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({length: b.length + 1}, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+  return a === b ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+}
+
+/**
+ * Similarity of two names, 0-1 (token by token; a lone first name only suggests)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const na = normalizeConsigneeName(a);
+  const nb = normalizeConsigneeName(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  const [shorter, longer] = [na.split(" "), nb.split(" ")].sort((x, y) => x.length - y.length);
+  const tokenScore = shorter.reduce(
+    (sum, token) => sum + Math.max(...longer.map((other) => stringSimilarity(token, other))),
+    0
+  ) / shorter.length;
+  const coverage = shorter.length === 1 ? 0.8 : 0.9 + 0.1 * (shorter.length / longer.length);
+
+  return Math.max(tokenScore * coverage, stringSimilarity(na, nb) * (shorter.length === 1 ? 0.8 : 1));
+}
+
+/**
+ * Directory entries resembling `name`, best first
+ */
+export function findConsigneeMatches<T extends DirectoryEntry>(
+  name: string,
+  consignees: T[],
+  limit = 3
+): ConsigneeMatch<T>[] {
+  return consignees
+    .map((consignee) => {
+      const best = [consignee.name, ...(consignee.nameVariants || [])]
+        .map((candidate) => ({candidate, score: nameSimilarity(name, candidate)}))
+        .sort((x, y) => y.score - x.score)[0];
+      return {consignee, score: best.score, matchedName: best.candidate};
+    })
+    .filter((match) => match.score >= SUGGEST_SCORE)
+    .sort((x, y) => y.score - x.score)
+    .slice(0, limit);
+}
+
+function firstName(name: string): string {
+  return normalizeConsigneeName(name).split(" ")[0];
+}
+
+/**
+ * The entry to link without asking, if exactly one matches clearly. A
+ * different first name ("Mario"/"Maria") is only ever suggested.
+ */
+export function autoLinkConsignee<T extends DirectoryEntry>(name: string, consignees: T[]): ConsigneeMatch<T> | null {
+  const [best, runnerUp] = findConsigneeMatches(name, consignees, 2);
+  if (!best || best.score < AUTO_LINK_SCORE) return null;
+  if (firstName(name) !== firstName(best.matchedName)) return null;
+  if (runnerUp && best.score < 1 && runnerUp.score >= best.score - 0.02) return null;
+  return best;
+}
@@ -0,0 +1,162 @@
+/**
+ * Duplicate Detection
+ * Perceptual screenshot hashing and duplicate-order matching - server-side
+ * counterpart of src/utils/duplicateDetection.ts. The dHash must stay
+ * bit-for-bit the same as the web one so WhatsApp screenshots match orders
+ * imported from the bulk uploader or a Machote doc (and vice versa).
+ *
+ * dHash: shrink to 9x8 grayscale, one bit per pixel = brighter than its right
+ * neighbour. Copies of the same screenshot differ by a few bits at most.
+ */
+
+import {Jimp} from "jimp";
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const DUPLICATE_HASH_DISTANCE = 6;
+const MIN_REFERENCE_LENGTH = 6;
+
+export type DuplicateReason = "screenshot" | "tracking" | "orderNumber";
+
+export interface DuplicateMatch {
+  orderId: string;
+  packageNumber: string;
+  consignee: string;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateCandidate {
+  screenshotHashes?: string[];
+  orderNumber?: string;
+  merchantTrackingNumber?: string;
+  company?: string;
+}
+
+export interface ExistingOrder extends DuplicateCandidate {
+  id: string;
+  packageNumber: string;
+  consignee?: string;
+  duplicateOf?: DuplicateMatch;
+}
+
+export function dHashFromGrayscale(pixels: ArrayLike<number>): string {
+  let hex = "";
+  let nibble = 0;
+  let bit = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (++bit % 4 === 0) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Shrink RGBA pixels to the 9x8 grayscale grid by averaging every source pixel
+ * into its cell. Library resizers sample (and differ between browser and Node),
+ * which makes the hash flip under JPEG re-compression.
+ */
+export function grayscaleGrid(data: ArrayLike<number>, width: number, height: number): number[] {
+  const sums = new Array<number>(HASH_WIDTH * HASH_HEIGHT).fill(0);
+  const counts = new Array<number>(HASH_WIDTH * HASH_HEIGHT).fill(0);
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(HASH_HEIGHT - 1, Math.floor(y * HASH_HEIGHT / height));
+    for (let x = 0; x < width; x++) {
+      const cell = row * HASH_WIDTH + Math.min(HASH_WIDTH - 1, Math.floor(x * HASH_WIDTH / width));
+      const i = (y * width + x) * 4;
+      sums[cell] += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      counts[cell]++;
+    }
+  }
+  return sums.map((sum, cell) => counts[cell] ? sum / counts[cell] : 0);
+}
+
+/**
+ * Perceptual hash of downloaded screenshot bytes
+ */
+export async function hashImageBuffer(buffer: Buffer): Promise<string> {
+  const image = await Jimp.read(buffer);
+  const {data, width, height} = image.bitmap;
+  return dHashFromGrayscale(grayscaleGrid(data, width, height));
+}
+
+const splitReferences = (value?: string | null): string[] =>
+  (value || "")
+    .split(",")
+    .map((ref) => ref.toUpperCase().replace(/[^A-Z0-9]/g, ""))
+    .filter((ref) => ref.length >= MIN_REFERENCE_LENGTH);
+
+const normalizeSeller = (value?: string | null): string =>
+  (value || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const sameSeller = (a?: string | null, b?: string | null): boolean => {
+  const x = normalizeSeller(a);
+  const y = normalizeSeller(b);
+  return !x || !y || x.includes(y) || y.includes(x);
+};
+
+/**
+ * Existing order the candidate most likely duplicates (most matching signals wins)
+ */
+export function findDuplicateOrder(
+  candidate: DuplicateCandidate,
+  existing: ExistingOrder[]
+): DuplicateMatch | undefined {
+  const hashes = candidate.screenshotHashes || [];
+  const orderNumbers = splitReferences(candidate.orderNumber);
+  const trackingNumbers = splitReferences(candidate.merchantTrackingNumber);
+
+  let best: DuplicateMatch | undefined;
+  for (const order of existing) {
+    if (order.duplicateOf) continue;
+    const reasons: DuplicateReason[] = [];
+
+    const theirHashes = order.screenshotHashes || [];
+    if (hashes.some((h) => theirHashes.some((o) => hammingDistance(h, o) <= DUPLICATE_HASH_DISTANCE))) {
+      reasons.push("screenshot");
+    }
+    const theirTracking = splitReferences(order.merchantTrackingNumber);
+    if (trackingNumbers.some((t) => theirTracking.includes(t))) {
+      reasons.push("tracking");
+    }
+    const theirOrderNumbers = splitReferences(order.orderNumber);
+    if (orderNumbers.some((n) => theirOrderNumbers.includes(n)) && sameSeller(candidate.company, order.company)) {
+      reasons.push("orderNumber");
+    }
+
+    if (reasons.length > (best?.reasons.length || 0)) {
+      best = {orderId: order.id, packageNumber: order.packageNumber, consignee: order.consignee || "", reasons};
+    }
+  }
+  return best;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  screenshot: "same screenshot",
+  tracking: "same tracking number",
+  orderNumber: "same order number",
+};
+
+export function describeDuplicate(match: DuplicateMatch): string {
+  return `Possible duplicate of ${match.packageNumber}${match.consignee ? ` (${match.consignee})` : ""}: ` +
+    match.reasons.map((r) => REASON_LABELS[r]).join(", ");
+}
@@ -0,0 +1,214 @@
+/**
+ * Extraction Evaluation
+ * Scores screenshot extractions against a labeled golden set and compares the
+ * result with a stored baseline. Used by scripts/evalExtraction.ts; kept free
+ * of I/O so the scoring rules are easy to read in one place.
+ *
+ * Per seller group (Amazon, Shein, Temu, everything else) and overall:
+ * - precision/recall per header field (tracking, order #, seller, date)
+ * - item-count accuracy (same number of line items as the label)
+ * - order total error (mean absolute and mean percentage)
+ */
+
+export const EVAL_FIELDS = ["trackingNumber", "orderNumber", "seller", "orderDate"] as const;
+export type EvalField = typeof EVAL_FIELDS[number];
+
+export const OVERALL_GROUP = "Overall";
+
+// Default allowed drop in any rate (or rise in total error) before a run counts as a regression
+export const DEFAULT_REGRESSION_TOLERANCE = 0.02;
+
+/**
+ * Labeled (expected) or extracted order - only the fields that get scored
+ */
+export interface EvalOrder {
+  trackingNumber?: string | null;
+  orderNumber?: string | null;
+  seller?: string | null;
+  orderDate?: string | null;
+  items?: Array<unknown>;
+  orderTotal?: number | null;
+}
+
+export interface EvalCase {
+  name: string;
+  expected: EvalOrder;
+  actual?: EvalOrder; // Missing when the extraction threw
+  error?: string;
+}
+
+export interface FieldScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+}
+
+export interface GroupScore {
+  cases: number;
+  failures: number; // Extractions that threw
+  fields: Record<EvalField, FieldScore>;
+  itemCountAccuracy: number;
+  totalMeanAbsoluteError: number; // USD
+  totalMeanPercentError: number; // 0-1, cases with a labeled total only
+}
+
+export type EvalReport = Record<string, GroupScore>;
+
+export interface Regression {
+  group: string;
+  metric: string;
+  baseline: number;
+  current: number;
+}
+
+/**
+ * Seller bucket a case is reported under
+ */
+export function sellerGroup(seller?: string | null): string {
+  const value = (seller || "").toLowerCase();
+  if (value.includes("amazon")) return "Amazon";
+  if (value.includes("shein")) return "Shein";
+  if (value.includes("temu")) return "Temu";
+  return "Other";
+}
+
+const normalizeReference = (value?: string | null): string =>
+  (value || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+const normalizeSeller = (value?: string | null): string =>
+  (value || "").toLowerCase().replace(/\.com\b/g, "").replace(/[^a-z0-9]/g, "");
+
+const isBlank = (value?: string | null): boolean => !value || !String(value).trim();
+
+/**
+ * Field match rules: references compare without punctuation (tracking allows
+ * any overlap between comma-separated lists), sellers match by containment
+ * ("Amazon" vs "Amazon.com"), dates must be the same day.
+ */
+export function fieldMatches(field: EvalField, expected?: string | null, actual?: string | null): boolean {
+  switch (field) {
+  case "trackingNumber": {
+    const want = String(expected || "").split(",").map(normalizeReference).filter(Boolean);
+    const got = String(actual || "").split(",").map(normalizeReference).filter(Boolean);
+    return want.some((ref) => got.includes(ref));
+  }
+  case "orderNumber":
+    return normalizeReference(expected) !== "" && normalizeReference(expected) === normalizeReference(actual);
+  case "seller": {
+    const want = normalizeSeller(expected);
+    const got = normalizeSeller(actual);
+    return want !== "" && got !== "" && (want.includes(got) || got.includes(want));
+  }
+  case "orderDate":
+    return String(expected || "").slice(0, 10) === String(actual || "").slice(0, 10);
+  }
+}
+
+const ratio = (numerator: number, denominator: number): number => denominator > 0 ? numerator / denominator : 1;
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Scores for one group of cases
+ */
+export function scoreCases(cases: EvalCase[]): GroupScore {
+  const fields = {} as Record<EvalField, FieldScore>;
+  for (const field of EVAL_FIELDS) {
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    for (const evalCase of cases) {
+      const expected = evalCase.expected[field];
+      const actual = evalCase.actual?.[field];
+      const match = !isBlank(expected) && !isBlank(actual) && fieldMatches(field, expected, actual);
+      if (match) {
+        truePositives++;
+        continue;
+      }
+      if (!isBlank(actual)) falsePositives++;
+      if (!isBlank(expected)) falseNegatives++;
+    }
+    fields[field] = {
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision: round(ratio(truePositives, truePositives + falsePositives)),
+      recall: round(ratio(truePositives, truePositives + falseNegatives)),
+    };
+  }
+
+  const itemCountHits = cases.filter((c) =>
+    c.actual && (c.actual.items || []).length === (c.expected.items || []).length).length;
+
+  const totals = cases.filter((c) => typeof c.expected.orderTotal === "number");
+  const absoluteErrors = totals.map((c) => Math.abs((c.actual?.orderTotal || 0) - (c.expected.orderTotal as number)));
+  const percentErrors = totals
+    .filter((c) => (c.expected.orderTotal as number) > 0)
+    .map((c) => Math.abs((c.actual?.orderTotal || 0) - (c.expected.orderTotal as number)) /
+      (c.expected.orderTotal as number));
+  const mean = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+  return {
+    cases: cases.length,
+    failures: cases.filter((c) => !c.actual).length,
+    fields,
+    itemCountAccuracy: round(ratio(itemCountHits, cases.length)),
+    totalMeanAbsoluteError: round(mean(absoluteErrors)),
+    totalMeanPercentError: round(mean(percentErrors)),
+  };
+}
+
+/**
+ * Overall scores plus one entry per seller group present in the golden set
+ */
+export function buildEvalReport(cases: EvalCase[]): EvalReport {
+  const report: EvalReport = {[OVERALL_GROUP]: scoreCases(cases)};
+  const groups = new Map<string, EvalCase[]>();
+  for (const evalCase of cases) {
+    const group = sellerGroup(evalCase.expected.seller);
+    groups.set(group, [...(groups.get(group) || []), evalCase]);
+  }
+  for (const [group, groupCases] of [...groups.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    report[group] = scoreCases(groupCases);
+  }
+  return report;
+}
+
+/**
+ * Metrics that got worse than the baseline by more than the tolerance. Groups
+ * missing from either side are skipped - adding screenshots for a new seller
+ * is not a regression.
+ */
+export function findRegressions(
+  baseline: EvalReport,
+  current: EvalReport,
+  tolerance = DEFAULT_REGRESSION_TOLERANCE
+): Regression[] {
+  const regressions: Regression[] = [];
+  for (const [group, before] of Object.entries(baseline)) {
+    const after = current[group];
+    if (!after) continue;
+
+    const higherIsBetter: Array<[string, number, number]> = [
+      ["itemCountAccuracy", before.itemCountAccuracy, after.itemCountAccuracy],
+      ...EVAL_FIELDS.flatMap((field): Array<[string, number, number]> => [
+        [`${field}.precision`, before.fields[field].precision, after.fields[field].precision],
+        [`${field}.recall`, before.fields[field].recall, after.fields[field].recall],
+      ]),
+    ];
+    for (const [metric, was, now] of higherIsBetter) {
+      if (now < was - tolerance) regressions.push({group, metric, baseline: was, current: now});
+    }
+    if (after.totalMeanPercentError > before.totalMeanPercentError + tolerance) {
+      regressions.push({
+        group,
+        metric: "totalMeanPercentError",
+        baseline: before.totalMeanPercentError,
+        current: after.totalMeanPercentError,
+      });
+    }
+  }
+  return regressions;
+}
@@ -0,0 +1,164 @@
+/**
+ * Extraction Review
+ * Confidence scoring and consistency checks for screenshot extractions -
+ * server-side counterpart of src/utils/extractionReview.ts. Keep the checks,
+ * penalties and threshold in sync so WhatsApp and web orders score the same.
+ *
+ * The score is the lowest per-field confidence Gemini reported, minus a
+ * penalty per failed check. Orders below EXTRACTION_REVIEW_THRESHOLD (or with
+ * an error) wait in the web Review screen and are blocked from export.
+ */
+
+export const EXTRACTION_REVIEW_THRESHOLD = 0.8;
+
+export type ExtractionField = "trackingNumber" | "orderNumber" | "seller" | "orderDate" | "items" | "orderTotal";
+
+export type FieldConfidence = Partial<Record<ExtractionField, number>>;
+
+export interface ExtractionIssue {
+  code: "items-total-mismatch" | "missing-tracking" | "zero-price" | "no-items" | "not-an-order" | "low-confidence";
+  severity: "warning" | "error";
+  message: string;
+  field?: ExtractionField;
+}
+
+export interface ExtractionReview {
+  confidence: number;
+  fieldConfidence: FieldConfidence;
+  issues: ExtractionIssue[];
+}
+
+interface ReviewableExtraction {
+  trackingNumber?: string | null;
+  orderNumber?: string | null;
+  items: Array<{name: string; unitValue: number; totalValue: number}>;
+  orderTotal?: number | null;
+  notAnOrder?: boolean;
+  fieldConfidence?: FieldConfidence;
+}
+
+const FIELD_LABELS: Record<ExtractionField, string> = {
+  trackingNumber: "Tracking",
+  orderNumber: "Order #",
+  seller: "Store",
+  orderDate: "Order date",
+  items: "Items",
+  orderTotal: "Order total",
+};
+
+const ISSUE_PENALTY = {warning: 0.1, error: 0.3};
+const TOTAL_TOLERANCE_RATIO = 0.1;
+const TOTAL_TOLERANCE_MIN = 1;
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * Field confidences from the model's "confidence" object
+ */
+export function parseFieldConfidence(raw: unknown): FieldConfidence | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const result: FieldConfidence = {};
+  for (const field of Object.keys(FIELD_LABELS) as ExtractionField[]) {
+    const value = Number((raw as Record<string, unknown>)[field]);
+    if (Number.isFinite(value)) result[field] = clamp01(value);
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+export function checkExtractionConsistency(data: ReviewableExtraction): ExtractionIssue[] {
+  const issues: ExtractionIssue[] = [];
+  const items = data.items || [];
+
+  if (data.notAnOrder) {
+    issues.push({
+      code: "not-an-order",
+      severity: "error",
+      message: "Screenshot doesn't look like a placed order (cart, product page or ad?)",
+    });
+  }
+  if (items.length === 0) {
+    issues.push({code: "no-items", severity: "error", field: "items", message: "No items were extracted"});
+  }
+
+  const zeroPriced = items.filter((item) => !(item.unitValue > 0) || !(item.totalValue > 0));
+  if (zeroPriced.length > 0) {
+    issues.push({
+      code: "zero-price",
+      severity: "error",
+      field: "items",
+      message: `${zeroPriced.length} item${zeroPriced.length === 1 ? "" : "s"} with a $0 price: ` +
+        zeroPriced.map((i) => i.name).slice(0, 3).join(", "),
+    });
+  }
+
+  const itemsTotal = items.reduce((sum, item) => sum + (item.totalValue || 0), 0);
+  const orderTotal = data.orderTotal || 0;
+  if (orderTotal > 0 && itemsTotal > 0 &&
+    Math.abs(orderTotal - itemsTotal) > Math.max(TOTAL_TOLERANCE_MIN, orderTotal * TOTAL_TOLERANCE_RATIO)) {
+    issues.push({
+      code: "items-total-mismatch",
+      severity: "warning",
+      field: "orderTotal",
+      message: `Items add up to $${itemsTotal.toFixed(2)} but the order total is $${orderTotal.toFixed(2)}`,
+    });
+  }
+
+  if (!data.trackingNumber && !data.orderNumber) {
+    issues.push({
+      code: "missing-tracking",
+      severity: "warning",
+      field: "trackingNumber",
+      message: "No tracking or order number found",
+    });
+  }
+
+  return issues;
+}
+
+export function scoreExtraction(data: ReviewableExtraction): ExtractionReview {
+  const fieldConfidence = data.fieldConfidence || {};
+  const issues = checkExtractionConsistency(data);
+
+  for (const [field, value] of Object.entries(fieldConfidence) as [ExtractionField, number][]) {
+    if (value < EXTRACTION_REVIEW_THRESHOLD) {
+      issues.push({
+        code: "low-confidence",
+        severity: "warning",
+        field,
+        message: `${FIELD_LABELS[field]} read with ${Math.round(value * 100)}% confidence`,
+      });
+    }
+  }
+
+  const base = Math.min(1, ...Object.values(fieldConfidence));
+  const penalty = issues
+    .filter((issue) => issue.code !== "low-confidence")
+    .reduce((sum, issue) => sum + ISSUE_PENALTY[issue.severity], 0);
+
+  return {confidence: clamp01(base - penalty), fieldConfidence, issues};
+}
+
+/**
+ * One order from several screenshots - the weakest screenshot decides
+ */
+export function mergeExtractionReviews(reviews: ExtractionReview[]): ExtractionReview {
+  const fieldConfidence: FieldConfidence = {};
+  for (const review of reviews) {
+    for (const [field, value] of Object.entries(review.fieldConfidence) as [ExtractionField, number][]) {
+      fieldConfidence[field] = Math.min(fieldConfidence[field] ?? 1, value);
+    }
+  }
+
+  return {
+    confidence: Math.min(1, ...reviews.map((r) => r.confidence)),
+    fieldConfidence,
+    issues: reviews.flatMap((review, index) => review.issues.map((issue) =>
+      reviews.length > 1 ? {...issue, message: `Screenshot ${index + 1}: ${issue.message}`} : issue
+    )),
+  };
+}
+
+export function needsExtractionReview(review: ExtractionReview): boolean {
+  return review.confidence < EXTRACTION_REVIEW_THRESHOLD ||
+    review.issues.some((issue) => issue.severity === "error");
+}
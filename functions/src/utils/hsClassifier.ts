@@ -0,0 +1,274 @@
+/**
+ * HS Classifier
+ * Keyword/phrase HS classification - server-side counterpart of src/utils/hsClassifier.ts.
+ * Keep the two dictionaries in sync.
+ *
+ * Codes are HS6 subheadings. Items the dictionary can't place with enough
+ * confidence go to Gemini (geminiService.classifyItemHsCodes) and otherwise
+ * land in the HS review queue in OrderManagement (hsCodeNeedsReview).
+ */
+
+export const HS_REVIEW_THRESHOLD = 0.7;
+
+export type HsCodeSource = "dictionary" | "ai" | "manual";
+
+export interface ClassifiableItem {
+  name: string;
+  description?: string | null;
+  customsDescription?: string | null;
+  hsCode?: string;
+  hsCodeSource?: HsCodeSource;
+  hsCodeConfidence?: number;
+  hsCodeNeedsReview?: boolean;
+}
+
+export interface HsClassification {
+  hsCode?: string;
+  confidence: number;
+  source: HsCodeSource;
+}
+
+interface HsDictionaryEntry {
+  code: string;
+  keywords: string[];
+}
+
+const HS_DICTIONARY: HsDictionaryEntry[] = [
+  // Clothing (61/62)
+  {code: "6109.10", keywords: ["t-shirt", "tshirt", "t shirt", "tee", "camiseta", "playera", "tank top", "crop top"]},
+  {code: "6106.20", keywords: ["blouse", "blusa"]},
+  {code: "6104.43", keywords: ["dress", "vestido"]},
+  {code: "6104.53", keywords: ["skirt", "falda"]},
+  {code: "6104.63", keywords: ["leggings", "licra", "mallas"]},
+  {code: "6203.42", keywords: ["jeans", "pants", "trousers", "pantalon", "shorts", "short", "joggers"]},
+  {code: "6110.30", keywords: ["sweater", "hoodie", "sweatshirt", "sudadera", "sueter", "cardigan", "pullover"]},
+  {code: "6202.93", keywords: ["jacket", "coat", "chaqueta", "abrigo", "chamarra", "windbreaker"]},
+  {code: "6107.11", keywords: ["boxer", "boxers", "briefs", "calzoncillo", "calzoncillos", "underwear"]},
+  {code: "6108.22", keywords: ["panty", "panties", "bragas", "calzones", "lingerie", "lenceria"]},
+  {code: "6108.32", keywords: ["pajama", "pajamas", "pijama", "pyjama", "sleepwear", "ropa de dormir"]},
+  {code: "6212.10", keywords: ["bra", "bras", "brasier", "sosten", "bralette", "sports bra"]},
+  {code: "6115.95", keywords: ["socks", "calcetines", "calcetas", "medias"]},
+  {code: "6112.41", keywords: ["swimsuit", "bikini", "traje de bano", "swimwear", "vestido de bano"]},
+  {code: "6117.10", keywords: ["scarf", "bufanda", "shawl", "panuelo"]},
+  {code: "6116.93", keywords: ["gloves", "guantes"]},
+  {code: "6505.00", keywords: ["hat", "cap", "gorra", "gorro", "sombrero", "beanie", "baseball cap"]},
+  {code: "4203.30", keywords: ["belt", "cinturon", "faja"]},
+
+  // Footwear (64)
+  {code: "6404.11", keywords: [
+    "sneakers", "tenis", "zapatos deportivos", "running shoes", "athletic shoes", "zapatillas",
+  ]},
+  {code: "6403.91", keywords: ["boots", "botas", "botines", "ankle boots"]},
+  {code: "6402.20", keywords: ["sandals", "sandalias", "flip flops", "chanclas", "slides", "slippers", "pantuflas"]},
+  {code: "6403.99", keywords: ["shoes", "zapatos", "heels", "tacones", "loafers", "flats", "calzado"]},
+
+  // Bags, jewelry, watches, eyewear
+  {code: "4202.22", keywords: ["handbag", "bolso", "cartera", "purse", "tote bag", "crossbody", "bolsa de mano"]},
+  {code: "4202.92", keywords: ["backpack", "mochila", "duffel", "travel bag", "maleta", "suitcase", "luggage"]},
+  {code: "4202.31", keywords: ["wallet", "billetera", "monedero", "card holder"]},
+  {code: "7117.19", keywords: [
+    "necklace", "collar", "bracelet", "pulsera", "earrings", "aretes", "ring", "anillo", "jewelry", "bisuteria",
+    "joyeria", "pendientes",
+  ]},
+  {code: "9102.11", keywords: ["watch", "reloj", "wristwatch"]},
+  {code: "9102.12", keywords: ["smartwatch", "smart watch", "reloj inteligente"]},
+  {code: "9004.10", keywords: ["sunglasses", "lentes de sol", "gafas de sol", "anteojos de sol"]},
+
+  // Cosmetics and personal care (33/34)
+  {code: "3303.00", keywords: [
+    "perfume", "cologne", "colonia", "fragancia", "fragrance", "body mist", "eau de parfum",
+  ]},
+  {code: "3304.10", keywords: ["lipstick", "labial", "lip gloss", "brillo labial"]},
+  {code: "3304.20", keywords: ["eyeshadow", "sombras", "eyeliner", "delineador", "rimel", "mascara de pestanas"]},
+  {code: "3304.30", keywords: ["nail polish", "esmalte", "esmalte de unas", "press on nails", "unas postizas"]},
+  {code: "3304.99", keywords: [
+    "makeup", "maquillaje", "foundation", "base de maquillaje", "serum", "moisturizer", "crema facial", "skincare",
+    "sunscreen", "bloqueador", "protector solar",
+  ]},
+  {code: "3305.10", keywords: ["shampoo", "champu", "conditioner", "acondicionador"]},
+  {code: "3305.90", keywords: [
+    "hair oil", "aceite para cabello", "hair mask", "tinte", "hair dye", "gel para cabello",
+  ]},
+  {code: "3307.20", keywords: ["deodorant", "desodorante", "antiperspirant"]},
+  {code: "3401.30", keywords: ["soap", "jabon", "body wash", "gel de bano"]},
+
+  // Electronics (84/85)
+  {code: "8517.13", keywords: ["smartphone", "cell phone", "celular", "telefono celular", "iphone", "mobile phone"]},
+  {code: "8517.62", keywords: ["router", "wifi extender", "modem"]},
+  {code: "8518.30", keywords: ["headphones", "earbuds", "earphones", "audifonos", "auriculares", "airpods", "headset"]},
+  {code: "8518.22", keywords: ["speaker", "bocina", "parlante", "altavoz", "soundbar"]},
+  {code: "8518.10", keywords: ["microphone", "microfono"]},
+  {code: "8504.40", keywords: ["charger", "cargador", "power adapter", "adaptador de corriente", "wall charger"]},
+  {code: "8507.60", keywords: ["power bank", "bateria portatil", "battery pack", "lithium battery", "bateria"]},
+  {code: "8544.42", keywords: [
+    "usb cable", "cable usb", "charging cable", "cable de carga", "hdmi cable", "cable hdmi", "cable",
+  ]},
+  {code: "8471.30", keywords: [
+    "laptop", "notebook computer", "tablet", "ipad", "chromebook", "computadora portatil", "tableta",
+  ]},
+  {code: "8471.60", keywords: ["keyboard", "teclado", "mouse", "raton", "game controller", "control de juegos"]},
+  {code: "8528.72", keywords: ["television", "televisor", "smart tv", "tv"]},
+  {code: "8528.52", keywords: ["monitor", "computer monitor"]},
+  {code: "8525.89", keywords: [
+    "camera", "camara", "webcam", "action camera", "security camera", "camara de seguridad",
+  ]},
+  {code: "8523.51", keywords: [
+    "memory card", "sd card", "micro sd", "usb drive", "flash drive", "memoria usb", "tarjeta de memoria",
+  ]},
+  {code: "8516.31", keywords: ["hair dryer", "secador de pelo", "secadora de pelo", "blow dryer"]},
+  {code: "8516.32", keywords: [
+    "flat iron", "hair straightener", "plancha de pelo", "plancha para cabello", "curling iron", "rizador",
+  ]},
+  {code: "8516.60", keywords: [
+    "air fryer", "freidora de aire", "rice cooker", "arrocera", "toaster", "tostadora", "electric grill",
+  ]},
+  {code: "8516.71", keywords: ["coffee maker", "cafetera", "espresso machine", "kettle", "hervidor"]},
+  {code: "8516.50", keywords: ["microwave", "microondas"]},
+  {code: "8509.40", keywords: ["blender", "licuadora", "food processor", "procesador de alimentos", "batidora"]},
+  {code: "8510.10", keywords: ["shaver", "afeitadora", "razor electric", "rasuradora"]},
+  {code: "8510.20", keywords: [
+    "hair clipper", "trimmer", "cortadora de pelo", "maquina de cortar pelo", "recortadora",
+  ]},
+  {code: "8513.10", keywords: ["flashlight", "linterna", "headlamp"]},
+  {code: "8443.32", keywords: ["printer", "impresora"]},
+
+  // Toys, games, sports (95)
+  {code: "9504.50", keywords: [
+    "video game", "videojuego", "console", "consola", "nintendo", "playstation", "xbox", "switch game",
+  ]},
+  {code: "9503.00", keywords: [
+    "toy", "toys", "juguete", "juguetes", "doll", "muneca", "lego", "building blocks", "peluche", "stuffed animal",
+    "plush", "puzzle", "rompecabezas",
+  ]},
+  {code: "9506.91", keywords: [
+    "yoga mat", "dumbbell", "dumbbells", "mancuernas", "pesas", "resistance bands", "bandas de resistencia",
+    "exercise", "fitness",
+  ]},
+  {code: "9506.62", keywords: ["ball", "balon", "pelota", "soccer ball", "basketball"]},
+
+  // Home
+  {code: "9405.11", keywords: ["lamp", "lampara", "ring light", "aro de luz", "led lights", "string lights", "luces led", "ceiling light"]},
+  {code: "9403.60", keywords: ["furniture", "mueble", "desk", "escritorio", "shelf", "estante", "table", "mesa"]},
+  {code: "9401.71", keywords: ["chair", "silla", "gaming chair", "office chair"]},
+  {code: "9404.90", keywords: ["pillow", "almohada", "cojin", "cushion", "comforter", "edredon", "duvet"]},
+  {code: "6302.31", keywords: [
+    "bed sheets", "sabanas", "sheet set", "juego de sabanas", "pillowcase", "funda de almohada",
+  ]},
+  {code: "6302.60", keywords: ["towel", "toalla", "toallas", "bath towel"]},
+  {code: "6303.92", keywords: ["curtains", "cortinas"]},
+  {code: "3924.10", keywords: [
+    "food container", "tupperware", "recipiente", "water bottle", "botella de agua", "tumbler", "termo", "vaso",
+    "cup", "plato", "plates",
+  ]},
+  {code: "7323.93", keywords: ["pot", "pots", "olla", "ollas", "pan", "sarten", "cookware", "baking sheet"]},
+  {code: "8215.99", keywords: ["cutlery", "cubiertos", "flatware", "spoon", "fork", "cuchara", "tenedor"]},
+  {code: "8211.91", keywords: ["knife", "knives", "cuchillo", "cuchillos"]},
+  {code: "3926.90", keywords: [
+    "phone case", "funda de telefono", "funda de celular", "case", "funda", "screen protector",
+    "protector de pantalla", "organizer", "organizador",
+  ]},
+  {code: "9603.21", keywords: ["toothbrush", "cepillo de dientes"]},
+  {code: "9603.29", keywords: ["hair brush", "hairbrush", "cepillo para cabello", "makeup brush", "brochas", "brocha"]},
+  {code: "9615.19", keywords: [
+    "hair clip", "hair clips", "hair ties", "scrunchie", "pinzas para cabello", "ganchos para pelo", "colitas",
+    "diadema", "headband",
+  ]},
+
+  // Tools, auto, books, health
+  {code: "8205.40", keywords: [
+    "screwdriver", "destornillador", "desarmador", "tool set", "juego de herramientas", "herramienta",
+    "herramientas",
+  ]},
+  {code: "8467.21", keywords: ["drill", "taladro", "power drill"]},
+  {code: "8708.99", keywords: [
+    "car parts", "auto parts", "repuesto", "repuestos", "car accessories", "accesorios para carro",
+  ]},
+  {code: "4901.99", keywords: ["book", "books", "libro", "libros", "novel", "novela", "paperback", "hardcover"]},
+  {code: "2106.90", keywords: [
+    "protein", "proteina", "supplement", "suplemento", "vitamins", "vitaminas", "gummies", "collagen", "colageno",
+  ]},
+  {code: "3004.90", keywords: [
+    "medicine", "medicina", "medicamento", "pain relief", "analgesico", "ibuprofen", "ibuprofeno",
+  ]},
+];
+
+const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const containsKeyword = (text: string, keyword: string): boolean => {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[\\s-])${escaped}(s|es)?($|[\\s-])`).test(text);
+};
+
+interface ScoredMatch {
+  code: string;
+  score: number;
+}
+
+// Most specific keyword hit per code
+const matchCodes = (text: string): Map<string, ScoredMatch> => {
+  const matches = new Map<string, ScoredMatch>();
+  if (!text) return matches;
+  for (const entry of HS_DICTIONARY) {
+    for (const keyword of entry.keywords) {
+      const score = keyword.split(/[\s-]/).length;
+      if (containsKeyword(text, keyword) && score > (matches.get(entry.code)?.score || 0)) {
+        matches.set(entry.code, {code: entry.code, score});
+      }
+    }
+  }
+  return matches;
+};
+
+/**
+ * Classify one item from its name and customs description
+ */
+export function classifyItemLocally(item: ClassifiableItem): HsClassification {
+  const nameMatches = matchCodes(normalizeText(`${item.name || ""} ${item.description || ""}`));
+  const customsMatches = matchCodes(normalizeText(item.customsDescription || ""));
+
+  const candidates = [...new Set([...nameMatches.keys(), ...customsMatches.keys()])]
+    .map((code) => {
+      const hits = [nameMatches.get(code), customsMatches.get(code)].filter((m): m is ScoredMatch => !!m);
+      return {
+        code,
+        specificity: Math.max(...hits.map((m) => m.score)),
+        total: hits.reduce((sum, m) => sum + m.score, 0),
+        inBoth: hits.length === 2,
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+
+  const best = candidates[0];
+  if (!best) return {confidence: 0, source: "dictionary"};
+
+  let confidence = best.specificity > 1 ? 0.9 : 0.75;
+  if (best.inBoth) confidence = Math.min(confidence + 0.05, 0.95);
+  if (candidates.some((c) => c.total === best.total && c.code.slice(0, 2) !== best.code.slice(0, 2))) {
+    confidence = 0.5;
+  }
+
+  return {hsCode: best.code, confidence, source: "dictionary"};
+}
+
+/**
+ * Copy a classification onto an item, never overwriting a manually entered code
+ */
+export function applyHsClassification<T extends ClassifiableItem>(item: T, classification: HsClassification): T {
+  if (item.hsCode && (item.hsCodeSource === "manual" || !item.hsCodeSource)) {
+    return {...item, hsCodeSource: "manual", hsCodeConfidence: 1, hsCodeNeedsReview: false};
+  }
+  return {
+    ...item,
+    ...(classification.hsCode ? {hsCode: classification.hsCode} : {}),
+    hsCodeConfidence: classification.confidence,
+    hsCodeSource: classification.source,
+    hsCodeNeedsReview: classification.confidence < HS_REVIEW_THRESHOLD,
+  };
+}
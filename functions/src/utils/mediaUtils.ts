@@ -0,0 +1,19 @@
+/**
+ * Media Utilities
+ * Helpers shared by everything that stores WhatsApp media
+ */
+
+/**
+ * Get file extension from MIME type
+ */
+export function getFileExtension(mimeType: string): string {
+  const mimeToExt: Record<string, string> = {
+    "image/jpeg": "jpg",
+    "image/jpg": "jpg",
+    "image/png": "png",
+    "image/gif": "gif",
+    "image/webp": "webp",
+  };
+
+  return mimeToExt[mimeType.toLowerCase()] || "jpg";
+}
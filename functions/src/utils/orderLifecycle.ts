@@ -0,0 +1,166 @@
+/**
+ * Order Lifecycle
+ * Statuses an order in organizations/{orgId}/orders moves through, and which
+ * moves are allowed. Mirrors src/utils/orderLifecycle.ts in the web app.
+ *
+ *   pending-review → reviewed → received → customs-pending → customs-cleared
+ *     → ready-pickup → delivered
+ *
+ * Any open order can be put on hold; release goes back to the status it was
+ * held from (statusBeforeHold) or that status's next step. Delivered is final. Orders written before the lifecycle existed may carry
+ * "draft" or no status at all - both read as pending-review.
+ */
+
+export const ORDER_STATUSES = [
+  "pending-review",
+  "reviewed",
+  "received",
+  "customs-pending",
+  "customs-cleared",
+  "ready-pickup",
+  "delivered",
+  "on-hold",
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export type OrderStatusSource = "web" | "whatsapp";
+
+export interface OrderStatusChange {
+  from: OrderStatus;
+  to: OrderStatus;
+  at: string; // ISO
+  by: string; // uid
+  byName?: string;
+  source: OrderStatusSource;
+}
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  "pending-review": "Pending review",
+  "reviewed": "Reviewed",
+  "received": "Received",
+  "customs-pending": "Customs pending",
+  "customs-cleared": "Customs cleared",
+  "ready-pickup": "Ready for pickup",
+  "delivered": "Delivered",
+  "on-hold": "On hold",
+};
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  "pending-review": ["reviewed", "on-hold"],
+  "reviewed": ["pending-review", "received", "on-hold"],
+  "received": ["customs-pending", "on-hold"],
+  "customs-pending": ["customs-cleared", "on-hold"],
+  "customs-cleared": ["ready-pickup", "delivered", "on-hold"],
+  "ready-pickup": ["delivered", "on-hold"],
+  "delivered": [],
+  "on-hold": [], // Depends on where the order was held from - see nextStatuses
+};
+
+// Orders a bare /export picks up: checked in review and not yet through customs
+export const EXPORTABLE_STATUSES: OrderStatus[] = ["reviewed", "received", "customs-pending"];
+
+// What people type after /mark (English and Spanish)
+const STATUS_ALIASES: Record<string, OrderStatus> = {
+  "pending": "pending-review",
+  "ok": "reviewed",
+  "checked": "reviewed",
+  "revisado": "reviewed",
+  "recibido": "received",
+  "customs": "customs-pending",
+  "aduana": "customs-pending",
+  "cleared": "customs-cleared",
+  "liberado": "customs-cleared",
+  "ready": "ready-pickup",
+  "pickup": "ready-pickup",
+  "listo": "ready-pickup",
+  "entregado": "delivered",
+  "hold": "on-hold",
+  "retenido": "on-hold",
+};
+
+/**
+ * Stored status as a lifecycle status (missing and legacy values are pending-review)
+ */
+export function normalizeOrderStatus(value: unknown): OrderStatus {
+  return ORDER_STATUSES.includes(value as OrderStatus) ? value as OrderStatus : "pending-review";
+}
+
+/**
+ * Status named by free text - a lifecycle status or one of the aliases
+ */
+export function parseOrderStatus(input: string): OrderStatus | null {
+  const key = input.trim().toLowerCase().replace(/[\s_]+/g, "-");
+  if (ORDER_STATUSES.includes(key as OrderStatus)) return key as OrderStatus;
+  return STATUS_ALIASES[key] ?? STATUS_ALIASES[key.replace(/-/g, "")] ?? null;
+}
+
+export interface OrderStatusState {
+  status?: unknown;
+  statusBeforeHold?: unknown;
+  statusHistory?: unknown;
+}
+
+/**
+ * Status a held order was put on hold from. Holds placed before
+ * statusBeforeHold was stored fall back to the last hold in statusHistory.
+ */
+function heldFrom(current: OrderStatusState): OrderStatus {
+  if (current.statusBeforeHold) return normalizeOrderStatus(current.statusBeforeHold);
+  const history = Array.isArray(current.statusHistory) ? current.statusHistory as OrderStatusChange[] : [];
+  const hold = [...history].reverse().find((change) => change.to === "on-hold");
+  return normalizeOrderStatus(hold?.from);
+}
+
+/**
+ * Statuses the order can move to next
+ */
+export function nextStatuses(current: OrderStatusState): OrderStatus[] {
+  const from = normalizeOrderStatus(current.status);
+  if (from !== "on-hold") return ORDER_TRANSITIONS[from];
+  const previous = heldFrom(current);
+  return [previous, ...ORDER_TRANSITIONS[previous].filter((status) => status !== "on-hold")];
+}
+
+export function canTransition(current: OrderStatusState, to: OrderStatus): boolean {
+  return nextStatuses(current).includes(to);
+}
+
+export interface OrderStatusUpdate {
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[];
+  statusTimestamps: Partial<Record<OrderStatus, string>>; // Latest time the order entered each status
+  statusUpdatedAt: string;
+  statusUpdatedBy: string;
+  statusBeforeHold?: OrderStatus; // Set when the move is onto hold
+}
+
+/**
+ * Fields to write for a move from the order's current status. Throws when the
+ * move isn't allowed.
+ */
+export function buildStatusTransition(
+  current: OrderStatusState & {statusTimestamps?: unknown},
+  to: OrderStatus,
+  actor: {uid: string; name?: string; source: OrderStatusSource},
+  now = new Date()
+): OrderStatusUpdate {
+  const from = normalizeOrderStatus(current.status);
+  if (!canTransition(current, to)) {
+    throw new Error(`Can't move an order from ${ORDER_STATUS_LABELS[from]} to ${ORDER_STATUS_LABELS[to]}`);
+  }
+  const at = now.toISOString();
+  const change: OrderStatusChange = {from, to, at, by: actor.uid, source: actor.source};
+  if (actor.name) change.byName = actor.name;
+  const history = Array.isArray(current.statusHistory) ? current.statusHistory as OrderStatusChange[] : [];
+  const timestamps = (current.statusTimestamps || {}) as Partial<Record<OrderStatus, string>>;
+  const update: OrderStatusUpdate = {
+    status: to,
+    statusHistory: [...history, change],
+    statusTimestamps: {...timestamps, [to]: at},
+    statusUpdatedAt: at,
+    statusUpdatedBy: actor.uid,
+  };
+  if (to === "on-hold") update.statusBeforeHold = from;
+  return update;
+}
@@ -0,0 +1,37 @@
+/**
+ * Retry Utility
+ * Exponential backoff for transient upstream failures
+ */
+
+/**
+ * Server-side retry helper for transient Gemini failures (429/5xx/network/timeout).
+ * Same logic as the client-side helper but runs in Cloud Functions, so every user
+ * gets the same retry behavior regardless of their network or device.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  label: string,
+  maxAttempts = 3
+): Promise<T> {
+  let lastErr: unknown;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      lastErr = err;
+      const msg = (err as Error)?.message || String(err);
+      const status = (err as {status?: number; statusCode?: number})?.status ||
+        (err as {status?: number; statusCode?: number})?.statusCode;
+      const isRetryable =
+        status === 429 || status === 408 ||
+        (typeof status === "number" && status >= 500 && status < 600) ||
+        /rate.?limit|quota|timeout|network|fetch|ECONNRESET|ETIMEDOUT|503|500|429|unavailable|deadline/i.test(msg);
+
+      if (!isRetryable || attempt === maxAttempts) throw err;
+      const delayMs = 1000 * Math.pow(2, attempt - 1);
+      console.warn(`⚠️ ${label} attempt ${attempt}/${maxAttempts} failed: ${msg.slice(0, 120)}. Retrying in ${delayMs}ms.`);
+      await new Promise((r) => setTimeout(r, delayMs));
+    }
+  }
+  throw lastErr;
+}
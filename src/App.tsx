@@ -7,6 +7,9 @@ import MasterAdminDashboard from './components/MasterAdminDashboard';
 import Login from './components/Login';
 import OrderManagement from './components/OrderManagement';
 import BulkScreenshotUpload from './components/BulkScreenshotUpload';
+import ExtractionReview from './components/ExtractionReview';
+import ConsigneeDirectory from './components/ConsigneeDirectory';
+import ComplianceView from './components/ComplianceView';
 import Settings from './components/Settings';
 import OAuthCallback from './components/OAuthCallback';
 import GoogleDriveSetupPrompt from './components/GoogleDriveSetupPrompt';
@@ -17,7 +20,7 @@ import { getPackages } from './services/firestoreClient';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from './services/firebase';
 
-type Page = 'dashboard' | 'scan' | 'admin' | 'doc-manager' | 'whatsapp-inquiries' | 'app-inquiries' | 'upload' | 'settings';
+type Page = 'dashboard' | 'scan' | 'admin' | 'doc-manager' | 'whatsapp-inquiries' | 'app-inquiries' | 'upload' | 'review' | 'consignees' | 'compliance' | 'settings';
 
 const App: React.FC = () => {
   const { currentUser, loading: authLoading, signOut, isMasterAdmin } = useAuth();
@@ -227,6 +230,18 @@ const App: React.FC = () => {
                         className={`w-full px-4 py-2 text-left text-sm ${currentPage === 'upload' ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}>
                         📤 Upload
                       </button>
+                      <button onClick={() => { setCurrentPage('review'); setShowMobileMenu(false); }}
+                        className={`w-full px-4 py-2 text-left text-sm ${currentPage === 'review' ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}>
+                        🔍 Review
+                      </button>
+                      <button onClick={() => { setCurrentPage('consignees'); setShowMobileMenu(false); }}
+                        className={`w-full px-4 py-2 text-left text-sm ${currentPage === 'consignees' ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}>
+                        👤 Consignees
+                      </button>
+                      <button onClick={() => { setCurrentPage('compliance'); setShowMobileMenu(false); }}
+                        className={`w-full px-4 py-2 text-left text-sm ${currentPage === 'compliance' ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}>
+                        🛡️ Compliance
+                      </button>
                       <button onClick={() => { setCurrentPage('settings'); setShowMobileMenu(false); }}
                         className={`w-full px-4 py-2 text-left text-sm ${currentPage === 'settings' ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}>
                         ⚙️ Settings
@@ -259,6 +274,18 @@ const App: React.FC = () => {
                     className={`px-4 py-2 rounded-lg font-medium transition-all text-sm ${currentPage === 'upload' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
                     📤 Upload
                   </button>
+                  <button onClick={() => setCurrentPage('review')}
+                    className={`px-4 py-2 rounded-lg font-medium transition-all text-sm ${currentPage === 'review' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                    🔍 Review
+                  </button>
+                  <button onClick={() => setCurrentPage('consignees')}
+                    className={`px-4 py-2 rounded-lg font-medium transition-all text-sm ${currentPage === 'consignees' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                    👤 Consignees
+                  </button>
+                  <button onClick={() => setCurrentPage('compliance')}
+                    className={`px-4 py-2 rounded-lg font-medium transition-all text-sm ${currentPage === 'compliance' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                    🛡️ Compliance
+                  </button>
                   <button onClick={() => setCurrentPage('settings')}
                     className={`px-4 py-2 rounded-lg font-medium transition-all text-sm ${currentPage === 'settings' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
                     ⚙️ Settings
@@ -293,6 +320,15 @@ const App: React.FC = () => {
             {currentPage === 'upload' && !isMasterAdmin && (
               <BulkScreenshotUpload />
             )}
+            {currentPage === 'review' && !isMasterAdmin && (
+              <ExtractionReview />
+            )}
+            {currentPage === 'consignees' && !isMasterAdmin && (
+              <ConsigneeDirectory />
+            )}
+            {currentPage === 'compliance' && !isMasterAdmin && (
+              <ComplianceView />
+            )}
             {currentPage === 'settings' && !isMasterAdmin && (
               <Settings />
             )}
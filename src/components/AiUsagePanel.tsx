@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { aiUsageRatio, getAiUsage } from '../services/aiUsageService';
+import type { AiUsageSummary } from '../types';
+
+/**
+ * This month's screenshot extractions against the plan's AI limits. Past the
+ * soft limit extractions keep working but count as overage; at the hard limit
+ * the server refuses new batches until the month resets.
+ */
+export default function AiUsagePanel() {
+  const [usage, setUsage] = useState<AiUsageSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAiUsage()
+      .then(setUsage)
+      .catch((err) => {
+        console.error('Error loading AI usage:', err);
+        setError('Failed to load AI usage');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const ratio = usage ? aiUsageRatio(usage) : 0;
+  const atHardLimit = usage?.remaining === 0;
+  const barColor = atHardLimit ? 'bg-red-500' : usage?.overSoftLimit ? 'bg-amber-500' : 'bg-blue-500';
+
+  return (
+    <div className="bg-slate-800 rounded-lg shadow-lg p-6 border border-slate-700">
+      <h2 className="text-xl font-bold text-white mb-1">AI Usage</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Every screenshot read by the extractor counts once. Cached re-uploads and failed reads are not charged.
+      </p>
+
+      {loading ? (
+        <p className="text-slate-400 text-sm">Loading usage…</p>
+      ) : usage && (
+        <>
+          <div className="flex items-baseline justify-between mb-2">
+            <span className="text-2xl font-bold text-white">
+              {usage.used.toLocaleString()}
+              <span className="text-base font-normal text-slate-400">
+                {' '}/ {usage.hardLimit === null ? 'unlimited' : usage.hardLimit.toLocaleString()} extractions
+              </span>
+            </span>
+            <span className="text-sm text-slate-400 capitalize">{usage.tier} plan · {usage.period}</span>
+          </div>
+          <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden mb-3">
+            <div className={`h-full ${barColor}`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div>
+              <p className="text-slate-400">Soft limit</p>
+              <p className="text-white">{usage.softLimit.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-slate-400">Remaining</p>
+              <p className="text-white">{usage.remaining === null ? '—' : usage.remaining.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-slate-400">Cost this month</p>
+              <p className="text-white">${usage.cost.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-slate-400">Resets</p>
+              <p className="text-white">{new Date(usage.resetsAt).toLocaleDateString()}</p>
+            </div>
+          </div>
+
+          {atHardLimit ? (
+            <div className="mt-4 p-3 rounded-lg text-sm bg-red-500/10 border border-red-500/40 text-red-300">
+              Monthly limit reached - new screenshots can't be extracted until the limit resets or the plan is upgraded.
+            </div>
+          ) : usage.overSoftLimit && (
+            <div className="mt-4 p-3 rounded-lg text-sm bg-amber-500/10 border border-amber-500/40 text-amber-300">
+              {usage.overageExtractions.toLocaleString()} extraction(s) over the plan's included
+              {' '}{usage.softLimit.toLocaleString()} this month.
+            </div>
+          )}
+        </>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 rounded-lg text-sm bg-red-500/10 border border-red-500/40 text-red-300">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { analyzeOrderScreenshot } from '../services/geminiService';
+import { extractScreenshotViaServer, isAiQuotaExceeded } from '../services/serverExtractionService';
 import { loadGoogleAPIs, openDrivePicker } from '../services/googleDrivePicker';
-import { collection, addDoc, getDocs, query, orderBy, doc, updateDoc, increment, Timestamp } from 'firebase/firestore';
+import { collection, addDoc } from 'firebase/firestore';
 import { db, storage } from '../services/firebase';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import type { OrderRow } from './OrderManagement';
-import type { PackageItem } from '../types';
+import type { Consignee, CurrencyConversion, PackageItem } from '../types';
+import { listExchangeRates } from '../services/exchangeRateService';
+import { conversionDateFor, convertExtractedOrder, mergeConversions } from '../utils/currency';
+import { mergeExtractionReviews, needsExtractionReview, scoreExtraction } from '../utils/extractionReview';
+import type { ExtractionReview } from '../utils/extractionReview';
+import { findDuplicateOrder, tryHashImage } from '../utils/duplicateDetection';
+import { loadDuplicateCandidates } from '../services/duplicateOrderService';
+import { reservePackageNumbers, assignPackageNumber, voidPackageNumber } from '../services/packageNumbering';
+import type { PackageNumberReservation } from '../services/packageNumbering';
+import { recordOrderCreated } from '../services/orderAuditService';
+import { listConsignees, resolveConsignee } from '../services/consigneeService';
+import { findConsigneeMatches } from '../utils/consigneeMatching';
 
 interface UploadedFile {
   id: string;
@@ -23,9 +33,11 @@ export default function BulkScreenshotUpload() {
   const { currentUser } = useAuth();
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [processing, setProcessing] = useState(false);
+  const [forceReextract, setForceReextract] = useState(false); // Bypass the extraction cache
   const [googleApiLoaded, setGoogleApiLoaded] = useState(false);
   const [recentCustomerNames, setRecentCustomerNames] = useState<string[]>([]);
   const [focusedInput, setFocusedInput] = useState<string | null>(null);
+  const [directory, setDirectory] = useState<Consignee[]>([]);
 
   useEffect(() => {
     loadGoogleAPIs()
@@ -33,6 +45,14 @@ export default function BulkScreenshotUpload() {
       .catch(err => console.error('Failed to load Google APIs:', err));
   }, []);
 
+  // Consignee directory - typed names are matched against it and orders linked on processing
+  useEffect(() => {
+    if (!currentUser?.organizationId) return;
+    listConsignees(currentUser.organizationId)
+      .then(setDirectory)
+      .catch(err => console.warn('Could not load the consignee directory:', err));
+  }, [currentUser?.organizationId]);
+
   // Load and cleanup customer names from localStorage (3-day retention)
   useEffect(() => {
     const STORAGE_KEY = 'importflow_customer_names';
@@ -92,30 +112,6 @@ export default function BulkScreenshotUpload() {
     }
   };
 
-  // Helper function to track AI extraction usage for billing
-  const trackAIExtraction = async (organizationId: string) => {
-    if (!organizationId || !db) return;
-
-    try {
-      const orgRef = doc(db, 'organizations', organizationId);
-      const costPerExtraction = 0.0025; // $0.0025 per extraction (Gemini 2.5 Flash)
-
-      await updateDoc(orgRef, {
-        aiExtractionsCount: increment(1),
-        totalAICost: increment(costPerExtraction),
-        currentMonthExtractions: increment(1),
-        currentMonthCost: increment(costPerExtraction),
-        lastExtractionAt: Timestamp.now(),
-        updatedAt: Timestamp.now()
-      });
-
-      console.log(`✓ Tracked AI extraction for org ${organizationId}: +$${costPerExtraction.toFixed(4)}`);
-    } catch (error) {
-      console.error('Error tracking AI extraction:', error);
-      // Non-critical error - don't block the user flow
-    }
-  };
-
   const handleFileUpload = async (fileList: FileList | null) => {
     if (!fileList) return;
 
@@ -151,28 +147,6 @@ export default function BulkScreenshotUpload() {
     });
   };
 
-  const getNextPackageNumber = async (): Promise<number> => {
-    if (!currentUser?.organizationId) {
-      console.warn('No organization ID available, starting from 1');
-      return 1;
-    }
-
-    try {
-      const ordersRef = collection(db, 'organizations', currentUser.organizationId, 'orders');
-      const q = query(ordersRef, orderBy('createdAt', 'desc'));
-      const snapshot = await getDocs(q);
-
-      if (snapshot.empty) return 1;
-
-      const lastOrder = snapshot.docs[0].data() as OrderRow;
-      const lastNumber = parseInt(lastOrder.packageNumber.replace(/\D/g, '')) || 0;
-      return lastNumber + 1;
-    } catch (error) {
-      console.error('Error getting next package number:', error);
-      return 1;
-    }
-  };
-
   /**
    * Upload screenshot to Firebase Storage and return download URL
    */
@@ -257,13 +231,10 @@ export default function BulkScreenshotUpload() {
           f.id === file.id ? { ...f, extractionProgress: 50 } : f
         ));
 
-        // AI extraction
-        const extractedData = await analyzeOrderScreenshot(base64);
-
-        // Track AI extraction usage for billing
-        if (currentUser?.organizationId) {
-          await trackAIExtraction(currentUser.organizationId);
-        }
+        // AI extraction on the server (charged to the org's monthly quota, cached by image content)
+        const extractedData = await extractScreenshotViaServer(base64, file.file.type || 'image/png', {
+          forceReextract,
+        });
 
         setFiles(prev => prev.map(f =>
           f.id === file.id ? { ...f, extractionProgress: 75 } : f
@@ -329,6 +300,7 @@ export default function BulkScreenshotUpload() {
     }
 
     setProcessing(true);
+    const knownConsignees = [...directory]; // Grows as this batch adds new consignees
 
     try {
       // Group files by customer name
@@ -341,12 +313,32 @@ export default function BulkScreenshotUpload() {
         filesByCustomer.get(customerName)!.push(file);
       }
 
-      let packageNumber = await getNextPackageNumber();
       let successCount = 0;
+      const unconvertedCurrencies = new Set<string>();
+      let reviewCount = 0; // Orders the Review screen has to clear before export
+
+      // Exchange rates for converting non-USD screenshots
+      const exchangeRates = await listExchangeRates(currentUser.organizationId).catch(error => {
+        console.warn('Could not load exchange rates - non-USD orders will be flagged:', error);
+        return [];
+      });
+
+      // Recent orders to check for re-sent screenshots / already-imported orders
+      const existingOrders = await loadDuplicateCandidates(currentUser.organizationId).catch(error => {
+        console.warn('Could not load orders for the duplicate check:', error);
+        return [];
+      });
+      let duplicateCount = 0;
+      let quotaMessage = ''; // Set when the org runs out of AI extractions - the rest of the batch waits
 
       // Process each customer (one order per customer)
       for (const [customerName, customerFiles] of filesByCustomer) {
+        let reservation: PackageNumberReservation | null = null;
         try {
+          // Reserve this customer's package number from the shared org counter
+          [reservation] = await reservePackageNumbers(1, 'bulk-upload');
+          const packageNumber = reservation.sequence;
+
           // Mark all files for this customer as processing
           setFiles(prev => prev.map(f =>
             customerFiles.some(cf => cf.id === f.id) ? { ...f, status: 'processing' as const } : f
@@ -363,12 +355,24 @@ export default function BulkScreenshotUpload() {
           const trackingNumbersSet = new Set<string>(); // Collect all unique tracking numbers
           const orderNumbersSet = new Set<string>(); // Collect all unique order numbers
           const allItems: PackageItem[] = []; // Collect all items from all screenshots
+          const conversions: CurrencyConversion[] = []; // Non-USD screenshots converted to USD
+          const missingRateCurrencies = new Set<string>();
+          const reviews: ExtractionReview[] = []; // Confidence + consistency per screenshot
+          const screenshotHashes: string[] = []; // Perceptual hashes for the duplicate check
+
+          // Get current date in local timezone (not UTC) to avoid off-by-one day issues
+          const now = new Date();
+          const year = now.getFullYear();
+          const month = String(now.getMonth() + 1).padStart(2, '0');
+          const day = String(now.getDate()).padStart(2, '0');
+          const localDate = `${year}-${month}-${day}`;
 
           for (const file of customerFiles) {
             // Use cached extraction data if available, otherwise extract now
             let extractedData = file.extractedData;
 
-            if (!extractedData) {
+            // A cached result from the name pass doesn't count when re-extraction is forced
+            if (!extractedData || (forceReextract && extractedData.fromCache)) {
               // Extract base64 from data URL
               const parts = file.preview.split(',');
               if (parts.length < 2) {
@@ -377,13 +381,23 @@ export default function BulkScreenshotUpload() {
               const base64 = parts[1];
 
               // AI extraction (fallback if not cached)
-              extractedData = await analyzeOrderScreenshot(base64);
+              extractedData = await extractScreenshotViaServer(base64, file.file.type || 'image/png', {
+                forceReextract,
+              });
+            }
 
-              // Track AI extraction usage for billing
-              if (currentUser?.organizationId) {
-                await trackAIExtraction(currentUser.organizationId);
-              }
+            // Non-USD prices → USD with the org's rate on the order date (originals stay on the items)
+            extractedData = convertExtractedOrder(
+              extractedData, exchangeRates, conversionDateFor(extractedData.orderDate, localDate)
+            );
+            if (extractedData.conversion) conversions.push(extractedData.conversion);
+            if (extractedData.exchangeRateMissing && extractedData.currency) {
+              missingRateCurrencies.add(extractedData.currency);
             }
+            reviews.push(scoreExtraction(extractedData));
+
+            const hash = await tryHashImage(file.preview);
+            if (hash) screenshotHashes.push(hash);
 
             // Upload screenshot to Firebase Storage
             const screenshotUrl = await uploadScreenshot(file.file, currentUser.organizationId, packageNumber);
@@ -460,27 +474,29 @@ export default function BulkScreenshotUpload() {
             }
           }
 
-          // Get current date in local timezone (not UTC) to avoid off-by-one day issues
-          const now = new Date();
-          const year = now.getFullYear();
-          const month = String(now.getMonth() + 1).padStart(2, '0');
-          const day = String(now.getDate()).padStart(2, '0');
-          const localDate = `${year}-${month}-${day}`;
-
           // 🔴 DEBUG: Log what we're about to save to Firestore
           console.log(`🔍 CREATING ORDER - About to save to Firestore:`, {
-            packageNumber: `Paquete #${packageNumber}`,
+            packageNumber: reservation.packageNumber,
             customerName,
             totalValue: totalValue,
             totalPieces: totalPieces,
             itemsCount: allItems.length
           });
 
+          // Link to the directory entry the name clearly matches, or add it as a new consignee
+          const linked = await resolveConsignee(currentUser.organizationId, customerName, knownConsignees, currentUser.uid)
+            .catch(err => {
+              console.warn(`Could not link "${customerName}" to the consignee directory:`, err);
+              return null;
+            });
+          if (linked?.outcome === 'created') knownConsignees.push(linked.consignee);
+
           // Create ONE order for this customer with ALL their screenshots
           const orderData: any = {
-            packageNumber: `Paquete #${packageNumber}`,
+            packageNumber: reservation.packageNumber,
             date: localDate, // Use local date instead of ISO string to avoid timezone issues
-            consignee: customerName.trim(),
+            consignee: linked?.consignee.name || customerName.trim(),
+            ...(linked ? { consigneeId: linked.consignee.id } : {}),
             pieces: totalPieces,
             weight: weight,
             trackingNumber: '', // Leave empty for manual input
@@ -504,12 +520,42 @@ export default function BulkScreenshotUpload() {
           if (carriersSet.size > 0) {
             orderData.carriers = Array.from(carriersSet);
           }
+          if (conversions.length > 0) {
+            orderData.currencyConversions = mergeConversions(conversions);
+          }
+          if (missingRateCurrencies.size > 0) {
+            orderData.exchangeRateMissing = Array.from(missingRateCurrencies);
+            missingRateCurrencies.forEach(c => unconvertedCurrencies.add(c));
+          }
+          const review = mergeExtractionReviews(reviews);
+          orderData.status = 'pending-review';
+          orderData.extractionConfidence = review.confidence;
+          orderData.fieldConfidence = review.fieldConfidence;
+          orderData.extractionIssues = review.issues;
+          if (needsExtractionReview(orderData)) {
+            reviewCount++;
+          }
+          if (screenshotHashes.length > 0) {
+            orderData.screenshotHashes = screenshotHashes;
+          }
+          const duplicate = findDuplicateOrder(orderData, existingOrders);
+          if (duplicate) {
+            orderData.duplicateOf = duplicate;
+            duplicateCount++;
+          }
 
           // Save to Firestore
           const ordersRef = collection(db, 'organizations', currentUser.organizationId, 'orders');
-          await addDoc(ordersRef, orderData);
+          const orderRef = await addDoc(ordersRef, orderData);
+          await assignPackageNumber(reservation.reservationId, orderRef.id);
+          recordOrderCreated(
+            currentUser.organizationId,
+            orderRef.id,
+            { uid: currentUser.uid, name: currentUser.displayName || currentUser.email || undefined },
+            'web'
+          ).catch(err => console.warn(`Failed to start the audit trail of ${orderRef.id}:`, err));
+          existingOrders.push({ id: orderRef.id, ...orderData }); // Same screenshot twice in one batch
 
-          packageNumber++;
           successCount++;
 
           // Mark all files for this customer as completed
@@ -519,6 +565,13 @@ export default function BulkScreenshotUpload() {
         } catch (error) {
           console.error('Error processing customer files:', error);
 
+          // The order was never created - log why this number is skipped
+          if (reservation) {
+            const failed = reservation;
+            voidPackageNumber({ reservationId: failed.reservationId }, `Bulk upload failed for ${customerName || 'unnamed customer'}`)
+              .catch(err => console.warn(`Could not void ${failed.packageNumber}:`, err));
+          }
+
           // Mark all files for this customer as error
           setFiles(prev => prev.map(f =>
             customerFiles.some(cf => cf.id === f.id) ? {
@@ -527,11 +580,32 @@ export default function BulkScreenshotUpload() {
               error: error instanceof Error ? error.message : 'Processing failed'
             } : f
           ));
+
+          if (isAiQuotaExceeded(error)) {
+            quotaMessage = (error as Error).message;
+            break;
+          }
         }
       }
 
       const totalScreenshots = filesToProcess.length;
-      alert(`✅ Successfully processed ${totalScreenshots} screenshot${totalScreenshots !== 1 ? 's' : ''} into ${successCount} order${successCount !== 1 ? 's' : ''}!\n\nData added to Order Management table.\n\nGo to Order Management to view and edit.`);
+      alert(`✅ Successfully processed ${totalScreenshots} screenshot${totalScreenshots !== 1 ? 's' : ''} into ${successCount} order${successCount !== 1 ? 's' : ''}!\n\nData added to Order Management table.\n\nGo to Order Management to view and edit.${
+        unconvertedCurrencies.size > 0
+          ? `\n\n⚠️ No exchange rate for ${Array.from(unconvertedCurrencies).join(', ')} - those orders are still in the original currency. Add the rate in Settings → Exchange Rates.`
+          : ''
+      }${
+        reviewCount > 0
+          ? `\n\n🔍 ${reviewCount} order${reviewCount !== 1 ? 's' : ''} need${reviewCount === 1 ? 's' : ''} review (low confidence or inconsistent totals) - check ${reviewCount !== 1 ? 'them' : 'it'} in the Review tab before exporting.`
+          : ''
+      }${
+        quotaMessage
+          ? `\n\n⛔ ${quotaMessage} The remaining screenshots were not processed - check Settings → AI Usage.`
+          : ''
+      }${
+        duplicateCount > 0
+          ? `\n\n⚠️ ${duplicateCount} order${duplicateCount !== 1 ? 's look' : ' looks'} like a duplicate of an existing order - flagged in Order Management with a link to the original.`
+          : ''
+      }`);
 
       // Clear completed files after a delay
       setTimeout(() => {
@@ -542,6 +616,7 @@ export default function BulkScreenshotUpload() {
       console.error('Error processing files:', error);
       alert('❌ Failed to process some screenshots');
     } finally {
+      setDirectory(knownConsignees);
       setProcessing(false);
     }
   };
@@ -633,6 +708,18 @@ export default function BulkScreenshotUpload() {
               </p>
             </div>
             <div className="flex gap-2">
+              <label
+                className="flex items-center gap-2 px-3 text-sm text-slate-300 cursor-pointer"
+                title="Send every screenshot to Gemini again instead of reusing earlier results for the same image"
+              >
+                <input
+                  type="checkbox"
+                  checked={forceReextract}
+                  onChange={(e) => setForceReextract(e.target.checked)}
+                  disabled={processing}
+                />
+                Force re-extract
+              </label>
               {files.some(f => f.status === 'error') && (
                 <button
                   onClick={handleRetryErrors}
@@ -763,6 +850,19 @@ export default function BulkScreenshotUpload() {
                     {/* Recent names dropdown - always show when focused */}
                     {focusedInput === file.id && (
                       <div className="absolute z-10 w-full mt-1 bg-slate-700 border border-slate-600 rounded shadow-lg max-h-40 overflow-y-auto">
+                        {file.customerName && file.customerName.trim().length >= 3 &&
+                          findConsigneeMatches(file.customerName, directory).map(match => (
+                            <button
+                              key={match.consignee.id}
+                              type="button"
+                              onClick={() => handleSelectRecentName(file.id, match.consignee.name)}
+                              className="w-full flex items-center justify-between px-2 py-1.5 hover:bg-slate-600 text-left text-xs text-blue-200 border-b border-slate-600"
+                              title={match.matchedName !== match.consignee.name ? `Matched "${match.matchedName}"` : undefined}
+                            >
+                              <span>👤 {match.consignee.name}</span>
+                              <span className="text-slate-400">{Math.round(match.score * 100)}%</span>
+                            </button>
+                          ))}
                         {recentCustomerNames.length > 0 ? (
                           recentCustomerNames
                             .filter(name => !file.customerName || name.toLowerCase().includes(file.customerName.toLowerCase()))
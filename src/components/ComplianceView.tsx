@@ -0,0 +1,284 @@
+import { useEffect, useEffectEvent, useMemo, useState } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '../services/firebase';
+import { useAuth } from '../contexts/AuthContext';
+import { useToasts, ToastStack } from './Toast';
+import {
+  acknowledgeSplitFinding,
+  mergeSplitFinding,
+  reopenSplitFinding,
+  scanForSplits,
+} from '../services/splitReviewService';
+import type { SplitScan } from '../services/splitReviewService';
+import { DEFAULT_SPLIT_WINDOW_DAYS, explainFinding } from '../utils/splitDetection';
+import type { SplitFinding } from '../utils/splitDetection';
+import { DUTY_FREE_THRESHOLD } from '../utils/customsValuation';
+import type { OrderRow } from './OrderManagement';
+
+const WINDOW_OPTIONS = [14, 30, 60, 90];
+
+/**
+ * Possible split shipments across the organization: groups of orders that
+ * look like one buyer and together cross the duty-free limit. The importer
+ * acknowledges each (declaring as is) or the owner merges the consignees into one.
+ */
+export default function ComplianceView() {
+  const { currentUser } = useAuth();
+  const toast = useToasts();
+  const [orders, setOrders] = useState<OrderRow[]>([]);
+  const [scan, setScan] = useState<SplitScan | null>(null);
+  const [windowDays, setWindowDays] = useState(DEFAULT_SPLIT_WINDOW_DAYS);
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const organizationId = currentUser?.organizationId;
+  const isOwner = currentUser?.role === 'organization-owner';
+
+  const runScan = async (currentOrders: OrderRow[]) => {
+    if (!organizationId) return;
+    setScan(await scanForSplits(organizationId, currentOrders, { windowDays }));
+  };
+
+  const reportScanError = useEffectEvent((error: unknown) => {
+    console.error('Error scanning for split shipments:', error);
+    toast.error('Could not check orders for split shipments', error instanceof Error ? error.message : undefined);
+  });
+
+  useEffect(() => {
+    if (!organizationId) return;
+    (async () => {
+      try {
+        const snapshot = await getDocs(collection(db, 'organizations', organizationId, 'orders'));
+        const loaded = snapshot.docs.map(d => ({ id: d.id, ...d.data() } as OrderRow));
+        setOrders(loaded);
+        setScan(await scanForSplits(organizationId, loaded, { windowDays }));
+      } catch (error) {
+        reportScanError(error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [organizationId, windowDays]);
+
+  const ordersById = useMemo(() => new Map(orders.map(order => [order.id, order])), [orders]);
+
+  const visible = (scan?.findings || []).filter(finding => showReviewed === scan?.reviews.has(finding.id));
+  const openCount = (scan?.findings || []).filter(finding => !scan?.reviews.has(finding.id)).length;
+
+  const actor = () => ({
+    uid: currentUser!.uid,
+    name: currentUser!.displayName || currentUser!.email || undefined,
+  });
+
+  const handleAcknowledge = async (finding: SplitFinding) => {
+    if (!organizationId || !currentUser) return;
+    const note = prompt('Why are these declared separately? (optional, kept with the decision)');
+    if (note === null) return;
+    setBusyId(finding.id);
+    try {
+      await acknowledgeSplitFinding(organizationId, finding, actor(), note);
+      await runScan(orders);
+      toast.success('Finding acknowledged', 'The orders export as they are.');
+    } catch (error) {
+      console.error('Error acknowledging finding:', error);
+      toast.error('Could not acknowledge the finding', error instanceof Error ? error.message : undefined);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Merge target choice: "id:<consigneeId>" for a directory entry, "name:<name>" for a new one
+  const targetChoices = (finding: SplitFinding) => [
+    ...finding.consigneeIds
+      .map(id => scan?.directory.find(c => c.id === id))
+      .filter(Boolean)
+      .map(c => ({ value: `id:${c!.id}`, label: `${c!.name} (directory)` })),
+    ...finding.names
+      .filter(name => !scan?.directory.some(c => finding.consigneeIds.includes(c.id) && c.name === name))
+      .map(name => ({ value: `name:${name}`, label: `${name} (new entry)` })),
+  ];
+
+  const handleMerge = async (finding: SplitFinding) => {
+    if (!organizationId || !currentUser || !scan) return;
+    const choice = mergeTargets[finding.id] || targetChoices(finding)[0]?.value;
+    if (!choice) return;
+    const [kind, ...rest] = choice.split(':');
+    const value = rest.join(':');
+    const target = kind === 'id'
+      ? { consigneeId: value, name: scan.directory.find(c => c.id === value)?.name || '' }
+      : { name: value };
+
+    if (!confirm(
+      `Declare all ${finding.orderIds.length} orders for ${target.name}?\n\n` +
+      `${finding.names.join(', ')} become name variants of one directory entry.`
+    )) return;
+
+    setBusyId(finding.id);
+    try {
+      const merged = await mergeSplitFinding(organizationId, finding, target, scan.directory, actor());
+      const updated = orders.map(order => finding.orderIds.includes(order.id) ? { ...order, consigneeId: merged.id } : order);
+      setOrders(updated);
+      await runScan(updated);
+      toast.success(`Merged into ${merged.name}`, 'The customs export now declares these orders under one consignee.');
+    } catch (error) {
+      console.error('Error merging consignees:', error);
+      toast.error('Could not merge the consignees', error instanceof Error ? error.message : undefined);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReopen = async (finding: SplitFinding) => {
+    if (!organizationId) return;
+    setBusyId(finding.id);
+    try {
+      await reopenSplitFinding(organizationId, finding.id);
+      await runScan(orders);
+    } catch (error) {
+      console.error('Error reopening finding:', error);
+      toast.error('Could not reopen the finding', error instanceof Error ? error.message : undefined);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-slate-400 text-center py-12">Checking orders…</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ToastStack toasts={toast.toasts} dismiss={toast.dismiss} />
+
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Compliance</h1>
+          <p className="text-slate-400 text-sm">
+            Orders that look like one buyer and together exceed the ${DUTY_FREE_THRESHOLD} duty-free limit.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={windowDays}
+            onChange={(e) => { setLoading(true); setWindowDays(Number(e.target.value)); }}
+            className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+          >
+            {WINDOW_OPTIONS.map(days => <option key={days} value={days}>Last {days} days</option>)}
+          </select>
+          <div className="flex rounded-lg overflow-hidden border border-slate-600 text-sm">
+            <button
+              onClick={() => setShowReviewed(false)}
+              className={`px-3 py-2 ${!showReviewed ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+            >
+              Open ({openCount})
+            </button>
+            <button
+              onClick={() => setShowReviewed(true)}
+              className={`px-3 py-2 ${showReviewed ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+            >
+              Reviewed ({(scan?.findings.length || 0) - openCount})
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="bg-slate-800 rounded-lg shadow-lg p-6 border border-slate-700 text-center text-slate-400">
+          {showReviewed ? 'No reviewed findings in this window.' : '✅ No possible split shipments in this window.'}
+        </div>
+      ) : (
+        visible.map(finding => {
+          const review = scan?.reviews.get(finding.id);
+          const choices = targetChoices(finding);
+          return (
+            <div key={finding.id} className="bg-slate-800 rounded-lg shadow-lg p-6 border border-slate-700 space-y-3">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-white">{finding.names.join(' · ') || 'Unnamed consignees'}</h3>
+                  <p className="text-sm text-amber-300">
+                    ${finding.totalValue.toFixed(2)} across {finding.orderIds.length} orders
+                  </p>
+                </div>
+                {review && (
+                  <span className="text-xs px-2 py-1 rounded bg-slate-700 text-slate-300">
+                    {review.status === 'merged' ? 'Merged' : 'Acknowledged'} by {review.byName || 'unknown'} · {review.at.toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+
+              <ul className="text-sm text-slate-300 list-disc list-inside space-y-0.5">
+                {explainFinding(finding).map(line => <li key={line}>{line}</li>)}
+              </ul>
+              {review?.note && <p className="text-sm text-slate-400 italic">“{review.note}”</p>}
+
+              <table className="w-full text-sm">
+                <thead className="text-slate-400 text-left text-xs">
+                  <tr>
+                    <th className="py-1 pr-3">Package</th>
+                    <th className="py-1 pr-3">Date</th>
+                    <th className="py-1 pr-3">Consignee</th>
+                    <th className="py-1 text-right">Value</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700">
+                  {finding.orderIds.map(id => ordersById.get(id)).filter(Boolean).map(order => (
+                    <tr key={order!.id}>
+                      <td className="py-1.5 pr-3 text-white whitespace-nowrap">{order!.packageNumber}</td>
+                      <td className="py-1.5 pr-3 text-slate-300 whitespace-nowrap">{order!.date}</td>
+                      <td className="py-1.5 pr-3 text-slate-300">{order!.consignee}</td>
+                      <td className="py-1.5 text-right text-white">${(order!.value || 0).toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex flex-wrap items-center justify-end gap-2 pt-2 border-t border-slate-700">
+                {review ? (
+                  isOwner && (
+                    <button
+                      onClick={() => handleReopen(finding)}
+                      disabled={busyId !== null}
+                      className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded"
+                    >
+                      Reopen
+                    </button>
+                  )
+                ) : (
+                  <>
+                    <button
+                      onClick={() => handleAcknowledge(finding)}
+                      disabled={busyId !== null}
+                      className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded"
+                    >
+                      Acknowledge
+                    </button>
+                    {isOwner && choices.length > 0 && (
+                      <>
+                        <select
+                          value={mergeTargets[finding.id] || choices[0].value}
+                          onChange={(e) => setMergeTargets(prev => ({ ...prev, [finding.id]: e.target.value }))}
+                          className="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-white text-sm"
+                        >
+                          {choices.map(choice => <option key={choice.value} value={choice.value}>{choice.label}</option>)}
+                        </select>
+                        <button
+                          onClick={() => handleMerge(finding)}
+                          disabled={busyId !== null}
+                          className="px-3 py-1.5 text-sm bg-amber-600 hover:bg-amber-700 disabled:opacity-50 text-white rounded"
+                        >
+                          {busyId === finding.id ? 'Working…' : 'Merge into one consignee'}
+                        </button>
+                      </>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+import { useEffect, useEffectEvent, useMemo, useState } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '../services/firebase';
+import { useAuth } from '../contexts/AuthContext';
+import { useToasts, ToastStack } from './Toast';
+import {
+  createConsignee,
+  linkUnlinkedOrders,
+  listConsignees,
+  summarizeConsigneeOrders,
+  updateConsignee,
+} from '../services/consigneeService';
+import type { ConsigneeInput } from '../services/consigneeService';
+import { findConsigneeMatches, formatDui, formatNit, isValidDui, isValidNit } from '../utils/consigneeMatching';
+import { ORDER_STATUS_LABELS, normalizeOrderStatus } from '../utils/orderLifecycle';
+import type { OrderRow } from './OrderManagement';
+import type { Consignee } from '../types';
+
+interface Draft {
+  name: string;
+  nameVariants: string; // One per line
+  phone: string;
+  dui: string;
+  nit: string;
+  address: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: Draft = { name: '', nameVariants: '', phone: '', dui: '', nit: '', address: '', notes: '' };
+
+const toDraft = (consignee: Consignee): Draft => ({
+  name: consignee.name,
+  nameVariants: consignee.nameVariants.join('\n'),
+  phone: consignee.phone || '',
+  dui: consignee.dui || '',
+  nit: consignee.nit || '',
+  address: consignee.address || '',
+  notes: consignee.notes || '',
+});
+
+const inputClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+/**
+ * The organization's consignees - the people orders are declared for - with
+ * the identity data customs asks for (DUI/NIT), the spellings their name has
+ * come in under, and every order linked to them.
+ */
+export default function ConsigneeDirectory() {
+  const { currentUser } = useAuth();
+  const toast = useToasts();
+  const [consignees, setConsignees] = useState<Consignee[]>([]);
+  const [orders, setOrders] = useState<OrderRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [linking, setLinking] = useState(false);
+
+  const organizationId = currentUser?.organizationId;
+
+  const load = async (orgId: string) => {
+    const [directory, orderSnapshot] = await Promise.all([
+      listConsignees(orgId),
+      getDocs(collection(db, 'organizations', orgId, 'orders')),
+    ]);
+    setConsignees(directory);
+    setOrders(orderSnapshot.docs.map(d => ({ id: d.id, ...d.data() } as OrderRow)));
+  };
+
+  const loadDirectory = useEffectEvent(async (orgId: string) => {
+    try {
+      await load(orgId);
+    } catch (error) {
+      console.error('Error loading consignees:', error);
+      toast.error('Could not load the consignee directory', error instanceof Error ? error.message : undefined);
+    } finally {
+      setLoading(false);
+    }
+  });
+
+  useEffect(() => {
+    if (organizationId) loadDirectory(organizationId);
+  }, [organizationId]);
+
+  const totals = useMemo(() => summarizeConsigneeOrders(orders), [orders]);
+
+  const visible = useMemo(() => {
+    if (!search.trim()) return consignees;
+    const term = search.trim().toLowerCase();
+    const byText = consignees.filter(c =>
+      [c.name, ...c.nameVariants, c.dui, c.nit, c.phone].some(value => value?.toLowerCase().includes(term))
+    );
+    // Typos: fall back to fuzzy name matches
+    return byText.length > 0 ? byText : findConsigneeMatches(search, consignees, 10).map(match => match.consignee);
+  }, [consignees, search]);
+
+  const selected = consignees.find(c => c.id === selectedId) || null;
+  const selectedOrders = useMemo(
+    () => selected
+      ? orders.filter(order => order.consigneeId === selected.id).sort((a, b) => (b.date || '').localeCompare(a.date || ''))
+      : [],
+    [orders, selected]
+  );
+  const unlinkedCount = orders.filter(order => !order.consigneeId && order.consignee).length;
+
+  const select = (id: string | 'new') => {
+    setSelectedId(id);
+    const consignee = consignees.find(c => c.id === id);
+    setDraft(consignee ? toDraft(consignee) : { ...EMPTY_DRAFT, name: search.trim() });
+  };
+
+  const duiError = draft.dui.trim() && !isValidDui(draft.dui) ? 'Not a valid DUI (check digit)' : null;
+  const nitError = draft.nit.trim() && !isValidNit(draft.nit) ? 'NIT is 14 digits, or the DUI' : null;
+
+  const handleSave = async () => {
+    if (!organizationId || !currentUser || !selectedId) return;
+    if (!draft.name.trim()) {
+      toast.warning('The consignee needs a name');
+      return;
+    }
+    if (duiError || nitError) {
+      toast.warning('Fix the DUI/NIT before saving', duiError || nitError || undefined);
+      return;
+    }
+
+    const input: ConsigneeInput = {
+      name: draft.name.trim(),
+      nameVariants: [...new Set(draft.nameVariants.split('\n').map(v => v.trim()).filter(Boolean))],
+      phone: draft.phone.trim(),
+      dui: draft.dui.trim() ? formatDui(draft.dui) : '',
+      nit: draft.nit.trim() ? formatNit(draft.nit) : '',
+      address: draft.address.trim(),
+      notes: draft.notes.trim(),
+    };
+
+    setSaving(true);
+    try {
+      if (selectedId === 'new') {
+        const created = await createConsignee(organizationId, input, currentUser.uid);
+        setConsignees(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+        setSelectedId(created.id);
+        toast.success(`${created.name} added`);
+      } else {
+        await updateConsignee(organizationId, selectedId, input);
+        setConsignees(prev => prev.map(c => c.id === selectedId ? { ...c, ...input } : c));
+        toast.success(`${input.name} saved`);
+      }
+    } catch (error) {
+      console.error('Error saving consignee:', error);
+      toast.error('Could not save the consignee', error instanceof Error ? error.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLinkOrders = async () => {
+    if (!organizationId) return;
+    setLinking(true);
+    try {
+      const { linked, unmatched } = await linkUnlinkedOrders(organizationId, consignees);
+      await load(organizationId);
+      toast.success(
+        `Linked ${linked} order${linked !== 1 ? 's' : ''}`,
+        unmatched > 0 ? `${unmatched} order(s) have no clear match - add those consignees or fix the names.` : undefined
+      );
+    } catch (error) {
+      console.error('Error linking orders:', error);
+      toast.error('Could not link orders', error instanceof Error ? error.message : undefined);
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-slate-400 text-center py-12">Loading consignees…</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ToastStack toasts={toast.toasts} dismiss={toast.dismiss} />
+
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Consignees</h1>
+          <p className="text-slate-400 text-sm">
+            {consignees.length} consignee{consignees.length !== 1 ? 's' : ''}. Names typed on WhatsApp or in Upload are matched to these entries.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {unlinkedCount > 0 && (
+            <button
+              onClick={handleLinkOrders}
+              disabled={linking}
+              className="px-3 py-2 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg border border-slate-600"
+              title="Link orders whose consignee clearly matches an entry"
+            >
+              {linking ? 'Linking…' : `Link ${unlinkedCount} unlinked order${unlinkedCount !== 1 ? 's' : ''}`}
+            </button>
+          )}
+          <button
+            onClick={() => select('new')}
+            className="px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
+          >
+            New consignee
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+        {/* Directory */}
+        <div className="lg:col-span-2 bg-slate-800 rounded-lg border border-slate-700 p-3 space-y-3">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name, DUI, NIT or phone…"
+            className={inputClass}
+          />
+          {visible.length === 0 ? (
+            <p className="text-slate-400 text-sm text-center py-6">No consignees found</p>
+          ) : (
+            <ul className="divide-y divide-slate-700 max-h-[65vh] overflow-y-auto">
+              {visible.map(consignee => {
+                const entry = totals.get(consignee.id);
+                return (
+                  <li key={consignee.id}>
+                    <button
+                      onClick={() => select(consignee.id)}
+                      className={`w-full text-left px-2 py-2 rounded ${selectedId === consignee.id ? 'bg-blue-600/20' : 'hover:bg-slate-700/50'}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-white text-sm font-medium truncate">{consignee.name}</span>
+                        <span className="text-xs text-slate-400 whitespace-nowrap">
+                          {entry ? `${entry.orderCount} · $${entry.totalValue.toFixed(2)}` : 'No orders'}
+                        </span>
+                      </div>
+                      <div className="text-xs text-slate-400 truncate">
+                        {[consignee.dui && `DUI ${consignee.dui}`, consignee.nit && `NIT ${consignee.nit}`].filter(Boolean).join(' · ') || 'No DUI/NIT'}
+                        {consignee.nameVariants.length > 0 && ` · ${consignee.nameVariants.length} variant${consignee.nameVariants.length !== 1 ? 's' : ''}`}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Entry */}
+        <div className="lg:col-span-3 bg-slate-800 rounded-lg border border-slate-700 p-4">
+          {!selectedId ? (
+            <p className="text-slate-400 text-sm text-center py-12">Select a consignee to see their details and orders.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="sm:col-span-2">
+                  <label className="block text-xs font-medium text-slate-400 mb-1">Name (as declared)</label>
+                  <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">DUI</label>
+                  <input value={draft.dui} onChange={(e) => setDraft({ ...draft, dui: e.target.value })} placeholder="00000000-0" className={inputClass} />
+                  {duiError && <p className="text-xs text-red-400 mt-1">{duiError}</p>}
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">NIT</label>
+                  <input value={draft.nit} onChange={(e) => setDraft({ ...draft, nit: e.target.value })} placeholder="0000-000000-000-0" className={inputClass} />
+                  {nitError && <p className="text-xs text-red-400 mt-1">{nitError}</p>}
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">Phone</label>
+                  <input value={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.value })} placeholder="+503 …" className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">Address</label>
+                  <input value={draft.address} onChange={(e) => setDraft({ ...draft, address: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">Name variants (one per line)</label>
+                  <textarea
+                    value={draft.nameVariants}
+                    onChange={(e) => setDraft({ ...draft, nameVariants: e.target.value })}
+                    rows={3}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">Notes</label>
+                  <textarea value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} rows={3} className={inputClass} />
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setSelectedId(null)} className="px-3 py-2 text-sm text-slate-300 hover:text-white">Cancel</button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white rounded-lg"
+                >
+                  {saving ? 'Saving…' : selectedId === 'new' ? 'Add consignee' : 'Save'}
+                </button>
+              </div>
+
+              {selected && (
+                <div className="pt-4 border-t border-slate-700">
+                  <div className="flex items-baseline justify-between mb-2">
+                    <h3 className="text-sm font-semibold text-slate-300">Orders</h3>
+                    <span className="text-xs text-slate-400">
+                      {selectedOrders.length} order{selectedOrders.length !== 1 ? 's' : ''} ·
+                      {' '}${selectedOrders.reduce((sum, order) => sum + (order.value || 0), 0).toFixed(2)} declared
+                    </span>
+                  </div>
+                  {selectedOrders.length === 0 ? (
+                    <p className="text-slate-400 text-sm">No orders linked yet.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead className="text-slate-400 text-left text-xs">
+                        <tr>
+                          <th className="py-1 pr-3">Package</th>
+                          <th className="py-1 pr-3">Date</th>
+                          <th className="py-1 pr-3">Name on order</th>
+                          <th className="py-1 pr-3">Status</th>
+                          <th className="py-1 text-right">Value</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-700">
+                        {selectedOrders.map(order => (
+                          <tr key={order.id}>
+                            <td className="py-1.5 pr-3 text-white whitespace-nowrap">{order.packageNumber}</td>
+                            <td className="py-1.5 pr-3 text-slate-300 whitespace-nowrap">{order.date}</td>
+                            <td className="py-1.5 pr-3 text-slate-300">{order.consignee}</td>
+                            <td className="py-1.5 pr-3 text-slate-300 whitespace-nowrap">{ORDER_STATUS_LABELS[normalizeOrderStatus(order.status)]}</td>
+                            <td className="py-1.5 text-right text-white">${(order.value || 0).toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useEffect, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  applyImportedChanges,
+  diffImportedSheet,
+  listRecentSheetExports,
+  readGoogleSheetGrids,
+  readXlsxGrids,
+  spreadsheetIdFromUrl,
+} from '../services/desarrolloImportService';
+import type { SheetExportRecord } from '../services/desarrolloImportService';
+import type { SheetChange, SheetGrid, SheetImportResult } from '../utils/desarrolloImport';
+import type { OrderRow } from './OrderManagement';
+
+interface Props {
+  organizationId: string;
+  orders: OrderRow[];
+  onOrderUpdated: (orderId: string, updates: Partial<OrderRow>) => void;
+  onApplied: (orderCount: number, changeCount: number) => void;
+  onClose: () => void;
+}
+
+const formatChangeValue = (change: SheetChange, value: string | number | undefined): string => {
+  if (value === undefined || value === '') return '—';
+  if (typeof value === 'number' && change.field !== 'quantity' && change.field !== 'pieces') return `$${value.toFixed(2)}`;
+  return String(value);
+};
+
+/**
+ * Corrections gestores made on an exported Desarrollo form, brought back into
+ * the orders. Every changed field is listed with its old and new value and
+ * only the ones left ticked are applied.
+ */
+export default function DesarrolloImportModal({ organizationId, orders, onOrderUpdated, onApplied, onClose }: Props) {
+  const { currentUser } = useAuth();
+  const [recent, setRecent] = useState<SheetExportRecord[]>([]);
+  const [sheetInput, setSheetInput] = useState('');
+  const [result, setResult] = useState<SheetImportResult | null>(null);
+  const [rejected, setRejected] = useState<Set<string>>(new Set()); // `${orderId}|${changeId}`
+  const [reading, setReading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listRecentSheetExports(organizationId).then(setRecent).catch(err => console.warn('Could not list sheet exports:', err));
+  }, [organizationId]);
+
+  const readGrids = async (load: () => Promise<SheetGrid[]>) => {
+    setReading(true);
+    setError(null);
+    try {
+      setResult(await diffImportedSheet(organizationId, await load(), orders));
+      setRejected(new Set());
+    } catch (err) {
+      console.error('Error reading Desarrollo sheet:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the sheet');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleReadSheet = (input: string) => {
+    const spreadsheetId = spreadsheetIdFromUrl(input);
+    if (!spreadsheetId) {
+      setError('Paste the link of a Google Sheet exported from ImportFlow');
+      return;
+    }
+    readGrids(() => readGoogleSheetGrids(organizationId, spreadsheetId));
+  };
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) readGrids(() => readXlsxGrids(file));
+  };
+
+  const changeKey = (orderId: string, change: SheetChange) => `${orderId}|${change.id}`;
+
+  const toggle = (keys: string[], approve: boolean) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      keys.forEach(key => (approve ? next.delete(key) : next.add(key)));
+      return next;
+    });
+  };
+
+  const approvedCount = (result?.diffs || []).reduce((sum, diff) =>
+    sum + diff.changes.filter(change => !rejected.has(changeKey(diff.orderId, change))).length, 0);
+
+  const handleApply = async () => {
+    if (!result || !currentUser) return;
+    setApplying(true);
+    setError(null);
+    let orderCount = 0;
+    let changeCount = 0;
+    try {
+      for (const diff of result.diffs) {
+        const order = orders.find(o => o.id === diff.orderId);
+        const approved = diff.changes.filter(change => !rejected.has(changeKey(diff.orderId, change)));
+        if (!order || approved.length === 0) continue;
+        const updates = await applyImportedChanges(organizationId, order, approved, {
+          uid: currentUser.uid,
+          name: currentUser.displayName || currentUser.email || undefined,
+        });
+        onOrderUpdated(order.id, updates);
+        orderCount++;
+        changeCount += approved.length;
+      }
+      onApplied(orderCount, changeCount);
+    } catch (err) {
+      console.error('Error applying sheet changes:', err);
+      setError(`${err instanceof Error ? err.message : 'Failed to apply changes'} (${orderCount} order(s) already updated)`);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg shadow-2xl max-w-4xl w-full max-h-[85vh] flex flex-col border border-slate-600" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-slate-700 flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">Import Desarrollo Corrections</h3>
+            <p className="text-slate-300 mt-1 text-sm">
+              Read back an exported Desarrollo sheet and choose which corrections to copy into the orders.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none" aria-label="Close">✕</button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-3 rounded-lg text-sm bg-red-500/10 border border-red-500/40 text-red-300">{error}</div>
+        )}
+
+        <div className="overflow-y-auto p-6 space-y-4">
+          {!result ? (
+            <>
+              <div className="space-y-2">
+                <label className="text-sm text-slate-300">Google Sheet link</label>
+                <div className="flex gap-2">
+                  <input
+                    value={sheetInput}
+                    onChange={(e) => setSheetInput(e.target.value)}
+                    placeholder="https://docs.google.com/spreadsheets/d/…"
+                    className="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+                  />
+                  <button
+                    onClick={() => handleReadSheet(sheetInput)}
+                    disabled={reading || !sheetInput.trim()}
+                    className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                  >
+                    {reading ? 'Reading…' : 'Read sheet'}
+                  </button>
+                </div>
+              </div>
+
+              {recent.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs text-slate-400">Recent exports</p>
+                  {recent.map(record => (
+                    <button
+                      key={record.spreadsheetId}
+                      onClick={() => handleReadSheet(record.sheetUrl || record.spreadsheetId)}
+                      disabled={reading}
+                      className="w-full text-left px-3 py-2 text-sm bg-slate-700/50 hover:bg-slate-700 disabled:opacity-50 rounded-lg text-slate-200"
+                    >
+                      {record.exportedAt.toLocaleString()} · {record.orderCount} order{record.orderCount === 1 ? '' : 's'}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="pt-2 border-t border-slate-700">
+                <label className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 text-white rounded-lg cursor-pointer">
+                  Upload .xlsx
+                  <input type="file" accept=".xlsx" onChange={handleFile} disabled={reading} className="hidden" />
+                </label>
+                <span className="ml-3 text-xs text-slate-400">An .xlsx download of the sheet, or the ImportFlow .xlsx export</span>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-slate-300">
+                {result.diffs.length} order{result.diffs.length === 1 ? '' : 's'} changed · {result.unchangedCount} unchanged
+                {result.unmatched.length > 0 && ` · ${result.unmatched.length} not matched`}
+              </p>
+
+              {result.diffs.length === 0 && (
+                <p className="text-slate-400 text-center py-6">The sheet matches the orders - nothing to import.</p>
+              )}
+
+              {result.diffs.map(diff => {
+                const keys = diff.changes.map(change => changeKey(diff.orderId, change));
+                const allApproved = keys.every(key => !rejected.has(key));
+                return (
+                  <div key={diff.orderId} className="border border-slate-700 rounded-lg">
+                    <label className="flex items-center gap-3 px-4 py-2 bg-slate-700/50 cursor-pointer">
+                      <input type="checkbox" checked={allApproved} onChange={(e) => toggle(keys, e.target.checked)} />
+                      <span className="text-white font-medium">{diff.packageNumber}</span>
+                      <span className="text-slate-400 text-sm">{diff.consignee}</span>
+                      <span className="ml-auto text-xs text-slate-500">{diff.sheet}, row {diff.row}</span>
+                    </label>
+                    <table className="w-full text-sm">
+                      <tbody className="divide-y divide-slate-700">
+                        {diff.changes.map(change => {
+                          const key = changeKey(diff.orderId, change);
+                          return (
+                            <tr key={key}>
+                              <td className="pl-4 py-1.5 w-8">
+                                <input type="checkbox" checked={!rejected.has(key)} onChange={(e) => toggle([key], e.target.checked)} />
+                              </td>
+                              <td className="py-1.5 pr-3 text-slate-300">{change.label}</td>
+                              <td className="py-1.5 pr-3 text-red-300 line-through">
+                                {change.kind !== 'add-item' && formatChangeValue(change, change.from)}
+                              </td>
+                              <td className="py-1.5 pr-4 text-green-300">
+                                {change.kind === 'remove-item' ? 'removed' : formatChangeValue(change, change.to)}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+
+              {result.unmatched.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm text-amber-300">Rows not matched to an order (left as they are):</p>
+                  <ul className="text-xs text-slate-400 list-disc list-inside">
+                    {result.unmatched.map(block => (
+                      <li key={`${block.sheet}:${block.row}`}>
+                        {block.sheet}, row {block.row}: {block.packageNumber || '—'} {block.consignee} - {block.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        {result && (
+          <div className="p-6 border-t border-slate-700 flex justify-between gap-3">
+            <button
+              onClick={() => setResult(null)}
+              disabled={applying}
+              className="px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+            >
+              Choose another sheet
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={applying || approvedCount === 0}
+              className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+            >
+              {applying ? 'Applying…' : `Apply ${approvedCount} change${approvedCount === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
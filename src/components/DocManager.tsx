@@ -14,7 +14,7 @@ import type { Doc, Screenshot, Importer } from '../types';
 import { analyzeOrderScreenshot } from '../services/geminiService';
 import { completeMVPExport } from '../services/mvpExportService';
 import { detectTaxSplit } from '../services/taxSplitDetection';
-import { getNextPackageNumber } from '../services/packageNumbering';
+import { getNextPackageNumber, assignPackageNumber } from '../services/packageNumbering';
 
 const CURRENT_IMPORTER_ID = 'default'; // TODO: Get from auth context
 
@@ -77,7 +77,7 @@ export default function DocManager() {
     try {
       // Get next sequential package number
       const orgId = currentUser?.organizationId || 'test-org';
-      const { packageNumber, sequenceNumber } = await getNextPackageNumber(orgId);
+      const { packageNumber, sequenceNumber, reservationId } = await getNextPackageNumber(orgId);
 
       const docId = await addDoc({
         importerId: CURRENT_IMPORTER_ID,
@@ -92,6 +92,7 @@ export default function DocManager() {
         sequenceNumber,
         dateArrived: new Date() // Set when doc created
       });
+      await assignPackageNumber(reservationId, docId);
 
       const newDoc = docs.find(b => b.id === docId);
       if (newDoc) {
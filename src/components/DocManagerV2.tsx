@@ -14,7 +14,7 @@ import {
 import type { Doc, Screenshot, Importer } from '../types';
 import { analyzeOrderScreenshot } from '../services/geminiService';
 import { completeMVPExport } from '../services/mvpExportService';
-import { getNextPackageNumber } from '../services/packageNumbering';
+import { getNextPackageNumber, assignPackageNumber } from '../services/packageNumbering';
 
 const CURRENT_IMPORTER_ID = 'default';
 
@@ -118,7 +118,7 @@ export default function DocManagerV2() {
 
   const createNewDoc = async () => {
     const orgId = currentUser?.organizationId || 'test-org';
-    const { packageNumber, sequenceNumber } = await getNextPackageNumber(orgId);
+    const { packageNumber, sequenceNumber, reservationId } = await getNextPackageNumber(orgId);
 
     const docId = await addDoc({
       importerId: CURRENT_IMPORTER_ID,
@@ -134,6 +134,7 @@ export default function DocManagerV2() {
       dateArrived: new Date(),
       humanReviewed: false
     });
+    await assignPackageNumber(reservationId, docId);
 
     const newDoc = docs.find(b => b.id === docId);
     if (newDoc) {
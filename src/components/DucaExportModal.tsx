@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useState } from 'react';
+import { exportDucaDeclaration, loadDucaContext } from '../services/ducaExportService';
+import type { DucaContext } from '../services/ducaExportService';
+import { validateDucaOrders } from '../utils/ducaDeclaration';
+import type { DucaFormat, DucaOptions, DucaType } from '../utils/ducaDeclaration';
+import type { OrderRow } from './OrderManagement';
+
+interface Props {
+  organizationId: string;
+  orders: OrderRow[];
+  exportedBy?: string;
+  onExported: (fileName: string) => void;
+  onClose: () => void;
+}
+
+const OPTIONS_KEY = 'importflow-duca-options';
+
+interface SavedOptions {
+  type: DucaType;
+  format: DucaFormat;
+  customsOffice: string;
+  defaultOrigin: string;
+}
+
+const loadSavedOptions = (): SavedOptions => {
+  const defaults: SavedOptions = { type: 'DUCA-F', format: 'xml', customsOffice: '', defaultOrigin: '' };
+  try { return { ...defaults, ...JSON.parse(localStorage.getItem(OPTIONS_KEY) || '{}') }; } catch { return defaults; }
+};
+
+/**
+ * DUCA export for the selected orders. Every order is checked for the
+ * fields the declaration can't go without; the file is only produced once
+ * none are missing.
+ */
+export default function DucaExportModal({ organizationId, orders, exportedBy, onExported, onClose }: Props) {
+  const [context, setContext] = useState<DucaContext | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<SavedOptions>(loadSavedOptions);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDucaContext(orders, organizationId)
+      .then(setContext)
+      .catch(error => setLoadError(error instanceof Error ? error.message : 'Could not load the consignee directory'));
+  }, [orders, organizationId]);
+
+  const update = (changes: Partial<SavedOptions>) => {
+    const next = { ...saved, ...changes };
+    setSaved(next);
+    localStorage.setItem(OPTIONS_KEY, JSON.stringify(next));
+  };
+
+  const options = useMemo<DucaOptions>(() => ({
+    type: saved.type,
+    customsOffice: saved.customsOffice,
+    defaultOrigin: saved.defaultOrigin,
+  }), [saved.type, saved.customsOffice, saved.defaultOrigin]);
+
+  const problems = useMemo(
+    () => (context ? validateDucaOrders(orders, context.consignees, options) : []),
+    [context, orders, options]
+  );
+
+  const handleExport = async () => {
+    if (!context || problems.length > 0) return;
+    setExporting(true);
+    setExportError(null);
+    const result = await exportDucaDeclaration(orders, organizationId, context, options, saved.format, exportedBy);
+    setExporting(false);
+    if (result.success && result.fileName) {
+      onExported(result.fileName);
+    } else {
+      setExportError(result.error || 'Unknown error');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg shadow-2xl max-w-3xl w-full max-h-[85vh] flex flex-col border border-slate-600" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-slate-700 flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">DUCA Declaration</h3>
+            <p className="text-slate-300 mt-1 text-sm">
+              Electronic declaration for {orders.length} order{orders.length === 1 ? '' : 's'}, ready to load into SIDUNEA.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none" aria-label="Close">✕</button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <label className="text-sm text-slate-300 space-y-1">
+              <span>Form</span>
+              <select value={saved.type} onChange={(e) => update({ type: e.target.value as DucaType })} className={inputClass}>
+                <option value="DUCA-F">DUCA-F (import)</option>
+                <option value="DUCA-T">DUCA-T (transit)</option>
+              </select>
+            </label>
+            <label className="text-sm text-slate-300 space-y-1">
+              <span>File</span>
+              <select value={saved.format} onChange={(e) => update({ format: e.target.value as DucaFormat })} className={inputClass}>
+                <option value="xml">XML</option>
+                <option value="json">JSON</option>
+              </select>
+            </label>
+            <label className="text-sm text-slate-300 space-y-1">
+              <span>Customs office</span>
+              <input
+                value={saved.customsOffice}
+                onChange={(e) => update({ customsOffice: e.target.value })}
+                placeholder="Optional"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-slate-300 space-y-1">
+              <span>Default origin</span>
+              <input
+                value={saved.defaultOrigin}
+                onChange={(e) => update({ defaultOrigin: e.target.value.toUpperCase() })}
+                placeholder="e.g. US"
+                maxLength={2}
+                className={`${inputClass} font-mono`}
+                title="Country of origin for orders that don't have one in the Origin column"
+              />
+            </label>
+          </div>
+
+          {loadError ? (
+            <div className="p-3 rounded-lg text-sm bg-red-500/10 border border-red-500/40 text-red-300">{loadError}</div>
+          ) : !context ? (
+            <p className="text-slate-400 text-center py-8">Checking orders…</p>
+          ) : problems.length === 0 ? (
+            <div className="p-3 rounded-lg text-sm bg-green-500/10 border border-green-500/40 text-green-300">
+              ✅ Every order has the fields the declaration needs.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-amber-300">
+                {problems.length} order{problems.length === 1 ? '' : 's'} can't be declared yet. Fix these and reopen the export:
+              </p>
+              <ul className="divide-y divide-slate-700 border border-slate-700 rounded-lg">
+                {problems.map(problem => (
+                  <li key={problem.orderId} className="p-3">
+                    <div className="text-sm text-white font-medium">
+                      {problem.packageNumber} <span className="text-slate-400 font-normal">· {problem.consignee || 'No consignee'}</span>
+                    </div>
+                    <ul className="mt-1 text-xs text-red-300 list-disc list-inside space-y-0.5">
+                      {problem.errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {exportError && (
+            <div className="p-3 rounded-lg text-sm bg-red-500/10 border border-red-500/40 text-red-300">{exportError}</div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-slate-700 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!context || problems.length > 0 || exporting}
+            className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+          >
+            {exporting ? 'Exporting…' : `Download ${saved.format.toUpperCase()}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
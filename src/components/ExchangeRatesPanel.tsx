@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  deleteExchangeRate,
+  importExchangeRates,
+  listExchangeRates,
+  saveExchangeRate,
+} from '../services/exchangeRateService';
+import { COMMON_CURRENCIES, exchangeRatesToCsv, parseExchangeRateCsv } from '../utils/currency';
+import type { ExchangeRate } from '../types';
+
+interface Props {
+  organizationId: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Exchange-rate table used to convert non-USD screenshots (owner only).
+ * Rates are entered as USD per 1 unit and apply from their effective date.
+ */
+export default function ExchangeRatesPanel({ organizationId }: Props) {
+  const { currentUser } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState({ currency: 'MXN', effectiveDate: today(), rate: '' });
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadRates = useCallback(async () => {
+    try {
+      setRates(await listExchangeRates(organizationId));
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+      setMessage({ type: 'error', text: 'Failed to load exchange rates' });
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  const handleAdd = async () => {
+    if (!currentUser) return;
+    const rate = parseFloat(draft.rate);
+    if (!(rate > 0)) {
+      setMessage({ type: 'error', text: `Enter the rate as USD per 1 ${draft.currency} (e.g. 0.055)` });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    try {
+      await saveExchangeRate(organizationId, { currency: draft.currency, effectiveDate: draft.effectiveDate, rate }, currentUser.uid);
+      setDraft({ ...draft, rate: '' });
+      setMessage({ type: 'success', text: `${draft.currency} rate from ${draft.effectiveDate} saved` });
+      await loadRates();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save rate' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!rate.id || !confirm(`Delete the ${rate.currency} rate from ${rate.effectiveDate}?`)) return;
+    try {
+      await deleteExchangeRate(organizationId, rate.id);
+      setRates(prev => prev.filter(r => r.id !== rate.id));
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete rate' });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !currentUser) return;
+
+    const { rates: parsed, errors } = parseExchangeRateCsv(await file.text());
+    if (errors.length > 0) {
+      setMessage({ type: 'error', text: `Import cancelled - ${errors.slice(0, 3).join(' • ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}` });
+      return;
+    }
+    if (parsed.length === 0) {
+      setMessage({ type: 'error', text: 'No rates found in the file' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const count = await importExchangeRates(organizationId, parsed, currentUser.uid);
+      setMessage({ type: 'success', text: `Imported ${count} rate${count === 1 ? '' : 's'}` });
+      await loadRates();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Import failed' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([exchangeRatesToCsv(rates)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `exchange-rates-${today()}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg shadow-lg p-6 border border-slate-700">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white mb-1">Exchange Rates</h2>
+          <p className="text-sm text-slate-400">
+            Orders from non-USD screenshots are converted with the latest rate on or before the order date.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={saving}
+            className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 text-white rounded-lg"
+            title="CSV columns: currency,effectiveDate,rate"
+          >
+            Import CSV
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={rates.length === 0}
+            className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 text-white rounded-lg"
+          >
+            Download CSV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {/* Add rate */}
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">Currency</span>
+          <select
+            value={draft.currency}
+            onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+            className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+          >
+            {COMMON_CURRENCIES.filter(c => c !== 'USD').map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">Effective from</span>
+          <input
+            type="date"
+            value={draft.effectiveDate}
+            onChange={(e) => setDraft({ ...draft, effectiveDate: e.target.value })}
+            className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">USD per 1 {draft.currency}</span>
+          <input
+            type="number"
+            min={0}
+            step="0.0001"
+            value={draft.rate}
+            onChange={(e) => setDraft({ ...draft, rate: e.target.value })}
+            placeholder="0.0550"
+            className="w-32 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+          />
+        </label>
+        <button
+          onClick={handleAdd}
+          disabled={saving}
+          className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white rounded-lg font-medium"
+        >
+          Add Rate
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-slate-400 text-sm">Loading rates…</p>
+      ) : rates.length === 0 ? (
+        <p className="text-slate-400 text-sm">No rates yet - non-USD orders will be flagged until one is added.</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-slate-400 text-left">
+              <tr>
+                <th className="py-1">Currency</th>
+                <th className="py-1">Effective from</th>
+                <th className="py-1">USD per unit</th>
+                <th className="py-1">Source</th>
+                <th className="w-10" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {rates.map(rate => (
+                <tr key={rate.id} className="text-slate-200">
+                  <td className="py-1 font-medium">{rate.currency}</td>
+                  <td className="py-1">{rate.effectiveDate}</td>
+                  <td className="py-1 font-mono">{rate.rate}</td>
+                  <td className="py-1 text-slate-400">{rate.source === 'import' ? 'CSV import' : 'Manual'}</td>
+                  <td className="py-1 text-center">
+                    <button onClick={() => handleDelete(rate)} className="text-red-400 hover:text-red-300" title="Delete rate">✕</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mt-4 p-3 rounded-lg text-sm ${
+          message.type === 'success'
+            ? 'bg-green-500/10 border border-green-500/40 text-green-300'
+            : 'bg-red-500/10 border border-red-500/40 text-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
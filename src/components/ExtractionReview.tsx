@@ -0,0 +1,395 @@
+import { useEffect, useEffectEvent, useMemo, useState } from 'react';
+import { collection, getDocs, orderBy, query } from 'firebase/firestore';
+import { db } from '../services/firebase';
+import { updateOrderWithAudit } from '../services/orderAuditService';
+import { useAuth } from '../contexts/AuthContext';
+import { useToasts, ToastStack } from './Toast';
+import {
+  EXTRACTION_REVIEW_THRESHOLD,
+  FIELD_LABELS,
+  checkExtractionConsistency,
+  needsExtractionReview,
+} from '../utils/extractionReview';
+import { buildStatusTransition, canTransition } from '../utils/orderLifecycle';
+import type { OrderRow } from './OrderManagement';
+import type { ExtractionField, ExtractionIssue, PackageItem } from '../types';
+
+type Draft = Pick<OrderRow, 'consignee' | 'merchantTrackingNumber' | 'orderNumber' | 'company' | 'value'> & {
+  items: PackageItem[];
+};
+
+const toDraft = (order: OrderRow): Draft => ({
+  consignee: order.consignee || '',
+  merchantTrackingNumber: order.merchantTrackingNumber || order.trackingNumber || '',
+  orderNumber: order.orderNumber || '',
+  company: order.company || '',
+  value: order.value || 0,
+  items: (order.items || []).map(item => ({ ...item })),
+});
+
+const confidenceClass = (value?: number) => {
+  if (value === undefined) return 'bg-slate-600 text-slate-200';
+  if (value >= EXTRACTION_REVIEW_THRESHOLD) return 'bg-green-600/30 text-green-300';
+  if (value >= 0.5) return 'bg-amber-600/30 text-amber-300';
+  return 'bg-red-600/30 text-red-300';
+};
+
+function ConfidenceBadge({ value }: { value?: number }) {
+  if (value === undefined) return null;
+  return (
+    <span className={`ml-2 px-1.5 py-0.5 rounded text-[10px] font-semibold ${confidenceClass(value)}`}>
+      {Math.round(value * 100)}%
+    </span>
+  );
+}
+
+/**
+ * Review screen for extracted orders: the screenshot on one side, the editable
+ * fields with their confidence on the other. Marking an order reviewed is what
+ * lets it through to the Desarrollo/Doc exports.
+ */
+export default function ExtractionReview() {
+  const { currentUser } = useAuth();
+  const toast = useToasts();
+  const [orders, setOrders] = useState<OrderRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAllPending, setShowAllPending] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [imageIndex, setImageIndex] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  const organizationId = currentUser?.organizationId;
+
+  const reportLoadError = useEffectEvent((error: unknown) => {
+    console.error('Error loading orders for review:', error);
+    toast.error('Could not load orders', error instanceof Error ? error.message : undefined);
+  });
+
+  useEffect(() => {
+    if (!organizationId) return;
+    const load = async () => {
+      try {
+        const snapshot = await getDocs(query(collection(db, 'organizations', organizationId, 'orders'), orderBy('createdAt', 'asc')));
+        setOrders(snapshot.docs.map(d => ({
+          id: d.id,
+          ...d.data(),
+          createdAt: d.data().createdAt?.toDate() || new Date(),
+        } as OrderRow)));
+      } catch (error) {
+        reportLoadError(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [organizationId]);
+
+  const queue = useMemo(() => orders
+    .filter(order => showAllPending
+      ? needsExtractionReview(order) || (order.status === 'pending-review' && !order.humanReviewed)
+      : needsExtractionReview(order))
+    .sort((a, b) => (a.extractionConfidence ?? 1) - (b.extractionConfidence ?? 1)),
+  [orders, showAllPending]);
+
+  const selected = orders.find(o => o.id === selectedId) || null;
+
+  const selectOrder = (order: OrderRow) => {
+    setSelectedId(order.id);
+    setDraft(toDraft(order));
+    setImageIndex(0);
+  };
+
+  // Re-run the consistency checks on the edited values; model confidence stays as-is
+  const liveIssues = useMemo<ExtractionIssue[]>(() => {
+    if (!selected || !draft) return [];
+    const lowConfidence = (selected.extractionIssues || []).filter(issue => issue.code === 'low-confidence');
+    const notAnOrder = (selected.extractionIssues || []).filter(issue => issue.code === 'not-an-order');
+    return [
+      ...notAnOrder,
+      ...checkExtractionConsistency({
+        items: draft.items,
+        orderTotal: draft.value,
+        trackingNumber: draft.merchantTrackingNumber,
+        orderNumber: draft.orderNumber,
+      }),
+      ...lowConfidence,
+    ];
+  }, [selected, draft]);
+
+  const updateItem = (index: number, patch: Partial<PackageItem>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      items: draft.items.map((item, i) => {
+        if (i !== index) return item;
+        const next = { ...item, ...patch };
+        if (patch.quantity !== undefined || patch.unitValue !== undefined) {
+          next.totalValue = Math.round((next.quantity || 0) * (next.unitValue || 0) * 100) / 100;
+        }
+        return next;
+      }),
+    });
+  };
+
+  const save = async (markReviewed: boolean) => {
+    if (!selected || !draft || !organizationId || !currentUser) return;
+    if (markReviewed && liveIssues.some(issue => issue.severity === 'error')
+      && !confirm('This order still has errors (see the list above the fields). Mark it reviewed anyway?')) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updates: Partial<OrderRow> = {
+        consignee: draft.consignee.trim(),
+        merchantTrackingNumber: draft.merchantTrackingNumber?.trim() || '',
+        orderNumber: draft.orderNumber?.trim() || '',
+        company: draft.company.trim(),
+        value: draft.value,
+        pieces: draft.items.reduce((sum, item) => sum + (item.quantity || 0), 0),
+        items: draft.items,
+        extractionIssues: liveIssues,
+        ...(markReviewed ? {
+          humanReviewed: true,
+          reviewedBy: currentUser.uid,
+          reviewedAt: new Date(),
+        } : {}),
+        // Orders already further along keep their status; reviewing only records the check
+        ...(markReviewed && canTransition(selected, 'reviewed')
+          ? buildStatusTransition(selected, 'reviewed', {
+            uid: currentUser.uid,
+            name: currentUser.displayName || currentUser.email || undefined,
+            source: 'web',
+          })
+          : {}),
+      };
+      await updateOrderWithAudit(organizationId, selected.id, selected, updates, {
+        uid: currentUser.uid,
+        name: currentUser.displayName || currentUser.email || undefined,
+      });
+      setOrders(prev => prev.map(o => o.id === selected.id ? { ...o, ...updates } : o));
+
+      if (markReviewed) {
+        toast.success(`${selected.packageNumber} reviewed`, 'It can now be exported.');
+        const next = queue.find(o => o.id !== selected.id);
+        if (next) selectOrder(next);
+        else {
+          setSelectedId(null);
+          setDraft(null);
+        }
+      } else {
+        toast.success('Changes saved');
+      }
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast.error('Could not save the order', error instanceof Error ? error.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldInput = (label: string, field: ExtractionField | null, value: string, onChange: (v: string) => void) => (
+    <label className="block">
+      <span className="flex items-center text-xs text-slate-400 mb-1">
+        {label}
+        {field && <ConfidenceBadge value={selected?.fieldConfidence?.[field]} />}
+      </span>
+      <input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+      />
+    </label>
+  );
+
+  if (loading) {
+    return <div className="text-white text-center py-16">Loading orders…</div>;
+  }
+
+  const screenshots = selected?.screenshotUrls || [];
+
+  return (
+    <div className="space-y-4">
+      <ToastStack toasts={toast.toasts} dismiss={toast.dismiss} />
+
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Extraction Review</h1>
+          <p className="text-slate-400 text-sm">
+            Orders scored below {Math.round(EXTRACTION_REVIEW_THRESHOLD * 100)}% or with inconsistent data. They can't be exported until marked reviewed.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input type="checkbox" checked={showAllPending} onChange={(e) => setShowAllPending(e.target.checked)} />
+          Show every unreviewed order
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-4">
+        {/* Queue */}
+        <div className="bg-slate-800 rounded-lg border border-slate-700 max-h-[75vh] overflow-y-auto">
+          {queue.length === 0 ? (
+            <p className="text-slate-400 text-sm text-center p-6">Nothing to review 🎉</p>
+          ) : queue.map(order => (
+            <button
+              key={order.id}
+              onClick={() => selectOrder(order)}
+              className={`w-full text-left px-4 py-3 border-b border-slate-700 transition-colors ${
+                order.id === selectedId ? 'bg-blue-600/20' : 'hover:bg-slate-700/50'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-white font-medium text-sm">{order.packageNumber}</span>
+                {order.extractionConfidence !== undefined && (
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${confidenceClass(order.extractionConfidence)}`}>
+                    {Math.round(order.extractionConfidence * 100)}%
+                  </span>
+                )}
+              </div>
+              <div className="text-xs text-slate-400 truncate">{order.consignee}</div>
+              {(order.extractionIssues?.length || 0) > 0 && (
+                <div className="text-xs text-amber-300 truncate">{order.extractionIssues![0].message}</div>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {/* Screenshot + fields */}
+        {!selected || !draft ? (
+          <div className="bg-slate-800 rounded-lg border border-slate-700 flex items-center justify-center text-slate-400 text-sm min-h-[40vh]">
+            Select an order to review it
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            <div className="bg-slate-900 rounded-lg border border-slate-700 p-3 flex flex-col">
+              {screenshots.length === 0 ? (
+                <p className="text-slate-400 text-sm text-center m-auto">No screenshot stored for this order</p>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between text-sm text-slate-300 mb-2">
+                    <button
+                      onClick={() => setImageIndex(i => Math.max(0, i - 1))}
+                      disabled={imageIndex === 0}
+                      className="px-2 py-1 rounded bg-slate-700 disabled:opacity-40"
+                    >
+                      ←
+                    </button>
+                    <span>Screenshot {imageIndex + 1} / {screenshots.length}</span>
+                    <button
+                      onClick={() => setImageIndex(i => Math.min(screenshots.length - 1, i + 1))}
+                      disabled={imageIndex >= screenshots.length - 1}
+                      className="px-2 py-1 rounded bg-slate-700 disabled:opacity-40"
+                    >
+                      →
+                    </button>
+                  </div>
+                  <a href={screenshots[imageIndex]} target="_blank" rel="noreferrer" className="flex-1 overflow-auto">
+                    <img src={screenshots[imageIndex]} alt={`Screenshot ${imageIndex + 1}`} className="w-full object-contain" />
+                  </a>
+                </>
+              )}
+            </div>
+
+            <div className="bg-slate-800 rounded-lg border border-slate-700 p-4 space-y-4 max-h-[75vh] overflow-y-auto">
+              {liveIssues.length > 0 && (
+                <ul className="space-y-1">
+                  {liveIssues.map((issue, i) => (
+                    <li
+                      key={i}
+                      className={`text-xs px-3 py-2 rounded ${
+                        issue.severity === 'error' ? 'bg-red-500/10 text-red-300' : 'bg-amber-500/10 text-amber-200'
+                      }`}
+                    >
+                      {issue.severity === 'error' ? '⛔' : '⚠️'} {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                {fieldInput('Consignee', null, draft.consignee, v => setDraft({ ...draft, consignee: v }))}
+                {fieldInput('Store', 'seller', draft.company, v => setDraft({ ...draft, company: v }))}
+                {fieldInput('Tracking', 'trackingNumber', draft.merchantTrackingNumber || '', v => setDraft({ ...draft, merchantTrackingNumber: v }))}
+                {fieldInput('Order #', 'orderNumber', draft.orderNumber || '', v => setDraft({ ...draft, orderNumber: v }))}
+                {fieldInput('Order total (USD)', 'orderTotal', String(draft.value), v => setDraft({ ...draft, value: parseFloat(v) || 0 }))}
+              </div>
+
+              <div>
+                <div className="flex items-center text-xs text-slate-400 mb-1">
+                  {FIELD_LABELS.items}
+                  <ConfidenceBadge value={selected.fieldConfidence?.items} />
+                  <span className="ml-auto">
+                    Sum ${draft.items.reduce((sum, item) => sum + (item.totalValue || 0), 0).toFixed(2)}
+                  </span>
+                </div>
+                <table className="w-full text-sm">
+                  <thead className="text-slate-400 text-left text-xs">
+                    <tr>
+                      <th className="py-1 pr-2">Name</th>
+                      <th className="py-1 pr-2 w-14">Qty</th>
+                      <th className="py-1 pr-2 w-20">Unit</th>
+                      <th className="py-1 w-20">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.items.map((item, index) => (
+                      <tr key={index}>
+                        <td className="py-1 pr-2">
+                          <input
+                            value={item.name}
+                            onChange={(e) => updateItem(index, { name: e.target.value })}
+                            className="w-full px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white text-xs"
+                          />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <input
+                            type="number"
+                            min={0}
+                            value={item.quantity}
+                            onChange={(e) => updateItem(index, { quantity: parseInt(e.target.value) || 0 })}
+                            className="w-full px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white text-xs"
+                          />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={item.unitValue}
+                            onChange={(e) => updateItem(index, { unitValue: parseFloat(e.target.value) || 0 })}
+                            className={`w-full px-2 py-1 bg-slate-700 border rounded text-white text-xs ${
+                              item.unitValue > 0 ? 'border-slate-600' : 'border-red-500'
+                            }`}
+                          />
+                        </td>
+                        <td className="py-1 text-slate-200 text-xs">${(item.totalValue || 0).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end gap-2 pt-2 border-t border-slate-700">
+                <button
+                  onClick={() => save(false)}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 text-white rounded-lg"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => save(true)}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white rounded-lg font-medium"
+                >
+                  {saving ? 'Saving…' : 'Mark Reviewed'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
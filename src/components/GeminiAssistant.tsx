@@ -9,10 +9,8 @@
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { collection, query, where, getDocs } from 'firebase/firestore';
-import { db } from '../services/firebase';
 import { useAuth } from '../contexts/AuthContext';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { askAssistant } from '../services/geminiService';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -20,14 +18,6 @@ interface Message {
   timestamp: Date;
 }
 
-interface UserContext {
-  batches: any[];
-  inquiries: any[];
-  packages: any[];
-  organizationName: string;
-  userName: string;
-}
-
 export default function GeminiAssistant() {
   const { currentUser } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
@@ -36,22 +26,10 @@ export default function GeminiAssistant() {
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isListening, setIsListening] = useState(false);
-  const [userContext, setUserContext] = useState<UserContext | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const recognitionRef = useRef<any>(null);
 
-  // Initialize Gemini
-  const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY || '');
-  const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
-  // Load user context on mount
-  useEffect(() => {
-    if (currentUser && isOpen) {
-      loadUserContext();
-    }
-  }, [currentUser, isOpen]);
-
   // Auto-scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -82,127 +60,8 @@ export default function GeminiAssistant() {
   }, []);
 
   /**
-   * Load user-specific context (batches, inquiries, packages)
-   */
-  const loadUserContext = async () => {
-    if (!currentUser) return;
-
-    try {
-      // Load batches
-      const batchesQuery = query(
-        collection(db, 'batches'),
-        where('organizationId', '==', currentUser.organizationId)
-      );
-      const batchesSnapshot = await getDocs(batchesQuery);
-      const batches = batchesSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      }));
-
-      // Load screenshots/inquiries
-      const screenshotsQuery = query(
-        collection(db, 'screenshots'),
-        where('organizationId', '==', currentUser.organizationId)
-      );
-      const screenshotsSnapshot = await getDocs(screenshotsQuery);
-      const inquiries = screenshotsSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      }));
-
-      // Load packages
-      const packagesQuery = query(
-        collection(db, 'packages'),
-        where('organizationId', '==', currentUser.organizationId)
-      );
-      const packagesSnapshot = await getDocs(packagesQuery);
-      const packages = packagesSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      }));
-
-      setUserContext({
-        batches,
-        inquiries,
-        packages,
-        organizationName: currentUser.organizationId,
-        userName: currentUser.displayName || 'User'
-      });
-
-      console.log('📊 User context loaded:', { batches: batches.length, inquiries: inquiries.length, packages: packages.length });
-    } catch (error) {
-      console.error('Error loading user context:', error);
-    }
-  };
-
-  /**
-   * Generate system prompt with user context
-   */
-  const getSystemPrompt = (): string => {
-    if (!userContext) {
-      return `You are the ImportFlow AI Assistant. Help users understand how to use ImportFlow for El Salvador package import management.`;
-    }
-
-    return `You are the ImportFlow AI Assistant for ${userContext.userName} (${userContext.organizationName}).
-
-## USER'S CURRENT DATA:
-
-**Batches** (${userContext.batches.length} total):
-${userContext.batches.map(b => `- ${b.customerName || b.id}: ${b.status}, ${b.screenshotCount || 0} screenshots`).join('\n') || 'No batches yet'}
-
-**Inquiries/Screenshots** (${userContext.inquiries.length} total):
-${userContext.inquiries.slice(0, 5).map(i => `- ${i.source}: ${i.extractionStatus}`).join('\n') || 'No inquiries yet'}
-
-**Packages** (${userContext.packages.length} total):
-${userContext.packages.slice(0, 5).map(p => `- ${p.trackingNumber}: ${p.status}`).join('\n') || 'No packages yet'}
-
-## YOUR ROLE:
-1. Help ${userContext.userName} use ImportFlow effectively
-2. Reference their ACTUAL data (batches, inquiries, packages) above
-3. Explain features clearly and concisely
-4. Provide specific examples using their data
-
-## IMPORTFLOW FEATURES:
-
-**SMS Commands** (Works with ANY phone!):
-- /create "Batch Name" - Create batch
-- /delete batch-id - Delete batch
-- /list - List batches
-- /status batch-id - Get status
-- /export batch-id - Export documents
-- /help - Show commands
-
-**Web App Pages**:
-- Dashboard: Overview of all activities
-- WhatsApp Inquiries: Process incoming WhatsApp screenshots
-- ImportFlow Inquiries: Manual screenshot upload
-- Batch Manager: Organize and export batches
-- All Packages: Track packages
-
-**AI Extraction**:
-Google Gemini extracts order data from screenshots:
-- Tracking numbers, order numbers
-- Product names, quantities, prices
-- HS codes for customs
-- Order totals
-
-**Export**:
-- Google Doc with embedded images (for customs)
-- Google Sheets with extracted data
-- Delivery via SMS, WhatsApp, or Email
-
-## CONVERSATION STYLE:
-- Be friendly and concise
-- Reference ${userContext.userName}'s actual data
-- Provide specific next steps
-- Use their batch IDs in examples
-- Keep responses under 3 paragraphs
-
-Answer the user's question now:`;
-  };
-
-  /**
-   * Send message to Gemini
+   * Send message to the assistant (Gemini runs in the geminiApi Cloud Function,
+   * which also loads the organization's batches, inquiries and packages)
    */
   const sendMessage = async () => {
     if (!inputMessage.trim() || isLoading) return;
@@ -218,12 +77,7 @@ Answer the user's question now:`;
     setIsLoading(true);
 
     try {
-      const systemPrompt = getSystemPrompt();
-      const fullPrompt = `${systemPrompt}\n\nUser: ${inputMessage}\n\nAssistant:`;
-
-      const result = await model.generateContent(fullPrompt);
-      const response = await result.response;
-      const text = response.text();
+      const text = await askAssistant(userMessage.content);
 
       const assistantMessage: Message = {
         role: 'assistant',
@@ -244,7 +98,9 @@ Answer the user's question now:`;
       console.error('Error calling Gemini:', error);
       const errorMessage: Message = {
         role: 'assistant',
-        content: 'Sorry, I encountered an error. Please try again.',
+        content: (error as { code?: string })?.code === 'functions/resource-exhausted'
+          ? (error as Error).message
+          : 'Sorry, I encountered an error. Please try again.',
         timestamp: new Date()
       };
       setMessages(prev => [...prev, errorMessage]);
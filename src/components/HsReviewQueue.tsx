@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { updateOrderWithAudit } from '../services/orderAuditService';
+import { getActiveTariffTable } from '../services/tariffService';
+import { lookupTariffRate } from '../utils/tariffTable';
+import { needsHsReview } from '../utils/hsClassifier';
+import type { OrderRow } from './OrderManagement';
+import type { PackageItem, TariffTable } from '../types';
+
+interface Props {
+  organizationId: string;
+  orders: OrderRow[];
+  onOrderItemsUpdated: (orderId: string, items: PackageItem[]) => void;
+  onClose: () => void;
+}
+
+interface QueueEntry {
+  order: OrderRow;
+  item: PackageItem;
+  itemIndex: number;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  dictionary: 'Dictionary',
+  ai: 'Gemini',
+  manual: 'Manual',
+};
+
+/**
+ * Low-confidence HS classifications waiting for a human. Approving (with or
+ * without editing the code) clears the flag; an edited code is stored as manual.
+ */
+export default function HsReviewQueue({ organizationId, orders, onOrderItemsUpdated, onClose }: Props) {
+  const { currentUser } = useAuth();
+  const [tariff, setTariff] = useState<TariffTable | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getActiveTariffTable().then(setTariff);
+  }, []);
+
+  const queue = useMemo<QueueEntry[]>(() =>
+    orders.flatMap(order =>
+      (order.items || [])
+        .map((item, itemIndex) => ({ order, item, itemIndex }))
+        .filter(entry => needsHsReview(entry.item))
+    ), [orders]);
+
+  const entryKey = (entry: QueueEntry) => `${entry.order.id}:${entry.itemIndex}`;
+
+  const handleApprove = async (entry: QueueEntry) => {
+    const key = entryKey(entry);
+    const hsCode = (drafts[key] ?? entry.item.hsCode ?? '').trim();
+    if (!/^\d{4}(\.?\d{2}){0,3}$/.test(hsCode)) {
+      setError('Enter an HS code like 6109.10 or 6109.10.00');
+      return;
+    }
+
+    setSavingKey(key);
+    setError(null);
+    try {
+      const edited = hsCode !== entry.item.hsCode;
+      const items = (entry.order.items || []).map((item, i) => i !== entry.itemIndex ? item : {
+        ...item,
+        hsCode,
+        hsCodeSource: edited ? 'manual' as const : (item.hsCodeSource || 'manual'),
+        hsCodeConfidence: 1,
+        hsCodeNeedsReview: false,
+      });
+      await updateOrderWithAudit(organizationId, entry.order.id, entry.order, { items }, {
+        uid: currentUser?.uid || 'unknown',
+        name: currentUser?.displayName || currentUser?.email || undefined,
+      });
+      onOrderItemsUpdated(entry.order.id, items);
+    } catch (err) {
+      console.error('Error saving HS code:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save HS code');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg shadow-2xl max-w-5xl w-full max-h-[85vh] flex flex-col border border-slate-600" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-slate-700 flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">HS Code Review</h3>
+            <p className="text-slate-300 mt-1 text-sm">
+              {queue.length} item{queue.length === 1 ? '' : 's'} classified with low confidence. Confirm or correct the code before exporting.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none" aria-label="Close">✕</button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-3 rounded-lg text-sm bg-red-500/10 border border-red-500/40 text-red-300">{error}</div>
+        )}
+
+        <div className="overflow-y-auto p-6">
+          {queue.length === 0 ? (
+            <p className="text-slate-400 text-center py-8">Nothing to review - every item has a confident HS code.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-slate-400 text-left">
+                <tr>
+                  <th className="py-2 pr-3">Package</th>
+                  <th className="py-2 pr-3">Item</th>
+                  <th className="py-2 pr-3">Suggested</th>
+                  <th className="py-2 pr-3">HS Code</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {queue.map(entry => {
+                  const key = entryKey(entry);
+                  const value = drafts[key] ?? entry.item.hsCode ?? '';
+                  const lookup = tariff && value ? lookupTariffRate(tariff, value) : null;
+                  return (
+                    <tr key={key} className="align-top">
+                      <td className="py-3 pr-3 text-slate-300 whitespace-nowrap">
+                        <div className="font-medium text-white">{entry.order.packageNumber}</div>
+                        <div className="text-xs text-slate-400">{entry.order.consignee}</div>
+                      </td>
+                      <td className="py-3 pr-3">
+                        <div className="text-white">{entry.item.name}</div>
+                        {entry.item.customsDescription && (
+                          <div className="text-xs text-slate-400">{entry.item.customsDescription}</div>
+                        )}
+                      </td>
+                      <td className="py-3 pr-3 text-slate-300 whitespace-nowrap">
+                        {entry.item.hsCode || '—'}
+                        <div className="text-xs text-slate-400">
+                          {SOURCE_LABELS[entry.item.hsCodeSource || ''] || 'None'}
+                          {entry.item.hsCodeConfidence !== undefined && ` · ${Math.round(entry.item.hsCodeConfidence * 100)}%`}
+                        </div>
+                      </td>
+                      <td className="py-3 pr-3">
+                        <input
+                          value={value}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                          placeholder="0000.00"
+                          className="w-32 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white font-mono focus:outline-none focus:border-blue-500"
+                        />
+                        {lookup?.description && (
+                          <div className="text-xs text-slate-400 mt-1">
+                            {lookup.description} · DAI {Math.round(lookup.rate * 100)}%
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 text-right">
+                        <button
+                          onClick={() => handleApprove(entry)}
+                          disabled={savingKey === key}
+                          className="px-3 py-1 text-sm bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white rounded-lg transition-colors"
+                        >
+                          {savingKey === key ? 'Saving…' : 'Approve'}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
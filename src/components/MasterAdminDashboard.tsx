@@ -2,8 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { collection, getDocs, query, orderBy, where, limit } from 'firebase/firestore';
 import { db } from '../services/firebase';
-import type { Organization, User } from '../types';
+import type { AiUsageSummary, Organization, User } from '../types';
 import type { OrderRow } from './OrderManagement';
+import TariffTableEditor from './TariffTableEditor';
+import { listAiUsage } from '../services/aiUsageService';
 
 interface ExportHistoryRecord {
   id: string;
@@ -31,12 +33,13 @@ interface OrganizationStats {
   googleConnected: boolean;
   lastExport?: Date;
   status: string;
+  aiUsage?: AiUsageSummary;
 }
 
 export default function MasterAdminDashboard() {
   const { currentUser, isMasterAdmin } = useAuth();
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'overview' | 'exports' | 'search'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'exports' | 'search' | 'tariffs'>('overview');
 
   // Overview data
   const [orgStats, setOrgStats] = useState<OrganizationStats[]>([]);
@@ -101,6 +104,14 @@ export default function MasterAdminDashboard() {
 
       setExportHistory(exports);
 
+      // This month's AI extraction usage (from the server, which enforces the limits)
+      let aiUsage: AiUsageSummary[] = [];
+      try {
+        aiUsage = await listAiUsage();
+      } catch (usageError) {
+        console.warn('Could not load AI usage:', usageError);
+      }
+
       // Calculate organization stats
       const stats: OrganizationStats[] = [];
       let totalOrderCount = 0;
@@ -133,6 +144,7 @@ export default function MasterAdminDashboard() {
           googleConnected: org.googleConnected || false,
           lastExport,
           status: org.status,
+          aiUsage: aiUsage.find(u => u.organizationId === org.id),
         });
 
         totalOrderCount += orderCount;
@@ -282,6 +294,16 @@ export default function MasterAdminDashboard() {
           >
             Document Search
           </button>
+          <button
+            onClick={() => setActiveTab('tariffs')}
+            className={`flex-1 px-4 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'tariffs'
+                ? 'bg-blue-600 text-white'
+                : 'text-slate-400 hover:text-white hover:bg-slate-700'
+            }`}
+          >
+            Tariff Table
+          </button>
         </div>
 
         <div className="p-6">
@@ -308,6 +330,7 @@ export default function MasterAdminDashboard() {
                       <th className="px-4 py-3 text-left text-white text-sm font-semibold">Exports</th>
                       <th className="px-4 py-3 text-left text-white text-sm font-semibold">Total Value</th>
                       <th className="px-4 py-3 text-left text-white text-sm font-semibold">Google</th>
+                      <th className="px-4 py-3 text-left text-white text-sm font-semibold">AI (month)</th>
                       <th className="px-4 py-3 text-left text-white text-sm font-semibold">Last Export</th>
                       <th className="px-4 py-3 text-left text-white text-sm font-semibold">Status</th>
                     </tr>
@@ -315,7 +338,7 @@ export default function MasterAdminDashboard() {
                   <tbody>
                     {orgStats.length === 0 ? (
                       <tr>
-                        <td colSpan={8} className="px-4 py-12 text-center text-slate-400">
+                        <td colSpan={9} className="px-4 py-12 text-center text-slate-400">
                           No organizations found
                         </td>
                       </tr>
@@ -334,6 +357,21 @@ export default function MasterAdminDashboard() {
                               <span className="text-red-400">✗ Not connected</span>
                             )}
                           </td>
+                          <td className="px-4 py-3 text-slate-300 text-sm">
+                            {org.aiUsage ? (
+                              <>
+                                {org.aiUsage.used}/{org.aiUsage.hardLimit ?? '∞'}
+                                {org.aiUsage.overSoftLimit && (
+                                  <span
+                                    className="ml-2 px-2 py-0.5 rounded text-xs bg-amber-900/30 text-amber-400"
+                                    title={`${org.aiUsage.overageExtractions} over the ${org.aiUsage.tier} soft limit`}
+                                  >
+                                    +{org.aiUsage.overageExtractions}
+                                  </span>
+                                )}
+                              </>
+                            ) : '—'}
+                          </td>
                           <td className="px-4 py-3 text-slate-400 text-xs">
                             {org.lastExport ? formatDate(org.lastExport) : 'Never'}
                           </td>
@@ -503,6 +541,9 @@ export default function MasterAdminDashboard() {
               )}
             </div>
           )}
+
+          {/* Tariff Table Tab */}
+          {activeTab === 'tariffs' && <TariffTableEditor />}
         </div>
       </div>
     </div>
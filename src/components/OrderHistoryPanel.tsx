@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { isLatestValue, loadOrderAudit, revertOrderChange } from '../services/orderAuditService';
+import type { FieldChange } from '../services/orderAuditService';
+import { ORDER_STATUS_LABELS } from '../utils/orderLifecycle';
+import type { OrderRow } from './OrderManagement';
+import type { OrderAuditEntry, OrderAuditSource, PackageItem } from '../types';
+
+interface Props {
+  organizationId: string;
+  order: OrderRow;
+  onReverted: (orderId: string, change: FieldChange) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<OrderAuditSource, string> = {
+  'web': 'Web',
+  'whatsapp': 'WhatsApp',
+  'word-import': 'Word import',
+  'ai-reextract': 'AI re-extraction',
+  'sheet-import': 'Desarrollo import',
+  'consignee-merge': 'Consignee merge',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  packageNumber: 'Package #',
+  consignee: 'Consignee',
+  consigneeId: 'Directory entry',
+  value: 'Value',
+  weight: 'Weight',
+  pieces: 'Pieces',
+  items: 'Items',
+  company: 'Company',
+  trackingNumber: 'Tracking #',
+  merchantTrackingNumber: 'Merchant tracking #',
+  orderNumber: 'Order #',
+  parcelComp: 'Parcel company',
+  origin: 'Origin',
+  customerReceivedDate: 'Customer received',
+  dateDelivered: 'Date delivered',
+};
+
+const formatValue = (field: string | undefined, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'items' && Array.isArray(value)) {
+    const items = value as PackageItem[];
+    const total = items.reduce((sum, item) => sum + (item.totalValue || 0), 0);
+    return `${items.length} item${items.length !== 1 ? 's' : ''} · $${total.toFixed(2)}`;
+  }
+  if (field === 'value' && typeof value === 'number') return `$${value.toFixed(2)}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Everything that happened to one order: field changes from the audit trail
+ * (newest first) and the lifecycle moves from statusHistory. A single field
+ * change can be reverted; the revert is itself recorded.
+ */
+export default function OrderHistoryPanel({ organizationId, order, onReverted, onClose }: Props) {
+  const { currentUser } = useAuth();
+  const [entries, setEntries] = useState<OrderAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadOrderAudit(organizationId, order.id)
+      .then(setEntries)
+      .catch((err) => {
+        console.error('Error loading order history:', err);
+        setError('Failed to load the history of this order');
+      })
+      .finally(() => setLoading(false));
+  }, [organizationId, order.id]);
+
+  const revertedIds = new Set(entries.map(entry => entry.revertOf).filter(Boolean));
+
+  const handleRevert = async (entry: OrderAuditEntry) => {
+    if (!currentUser || !entry.field) return;
+    const label = FIELD_LABELS[entry.field] || entry.field;
+    const message = isLatestValue(entry, order)
+      ? `Set ${label} back to ${formatValue(entry.field, entry.from)}?`
+      : `${label} has changed again since. Reverting sets it to ${formatValue(entry.field, entry.from)} ` +
+        `and discards the current ${formatValue(entry.field, order[entry.field as keyof OrderRow])}. Continue?`;
+    if (!confirm(message)) return;
+
+    setRevertingId(entry.id);
+    setError(null);
+    try {
+      const change = await revertOrderChange(organizationId, order.id, order, entry, {
+        uid: currentUser.uid,
+        name: currentUser.displayName || currentUser.email || undefined,
+      });
+      onReverted(order.id, change);
+      setEntries(await loadOrderAudit(organizationId, order.id));
+    } catch (err) {
+      console.error('Error reverting change:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revert the change');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const statusHistory = [...(order.statusHistory || [])].reverse();
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg shadow-2xl max-w-3xl w-full max-h-[85vh] flex flex-col border border-slate-600" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-slate-700 flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">History · {order.packageNumber}</h3>
+            <p className="text-slate-300 mt-1 text-sm">{order.consignee}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none" aria-label="Close">✕</button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-3 rounded-lg text-sm bg-red-500/10 border border-red-500/40 text-red-300">{error}</div>
+        )}
+
+        <div className="overflow-y-auto p-6 space-y-6">
+          <div>
+            <h4 className="text-sm font-semibold text-slate-300 mb-2">Changes</h4>
+            {loading ? (
+              <p className="text-slate-400 text-sm">Loading history…</p>
+            ) : entries.length === 0 ? (
+              <p className="text-slate-400 text-sm">No recorded changes. Edits made before the audit trail existed aren't listed.</p>
+            ) : (
+              <ul className="divide-y divide-slate-700">
+                {entries.map(entry => (
+                  <li key={entry.id} className="py-2 flex items-start justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      {entry.action === 'create' ? (
+                        <span className="text-white">Order created</span>
+                      ) : (
+                        <>
+                          <span className="text-white font-medium">{FIELD_LABELS[entry.field || ''] || entry.field}</span>
+                          {entry.action === 'revert' && <span className="ml-2 text-xs text-amber-300">revert</span>}
+                          <div className="text-slate-300 break-words">
+                            <span className="line-through text-slate-500">{formatValue(entry.field, entry.from)}</span>
+                            {' → '}
+                            {formatValue(entry.field, entry.to)}
+                          </div>
+                        </>
+                      )}
+                      <div className="text-xs text-slate-400">
+                        {entry.at.toLocaleString()} · {entry.byName || 'unknown'} · {SOURCE_LABELS[entry.source] || entry.source}
+                      </div>
+                    </div>
+                    {entry.action !== 'create' && (
+                      revertedIds.has(entry.id) ? (
+                        <span className="text-xs text-slate-500 whitespace-nowrap">Reverted</span>
+                      ) : (
+                        <button
+                          onClick={() => handleRevert(entry)}
+                          disabled={revertingId !== null}
+                          className="px-2 py-1 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded whitespace-nowrap"
+                        >
+                          {revertingId === entry.id ? 'Reverting…' : 'Revert'}
+                        </button>
+                      )
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {statusHistory.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-slate-300 mb-2">Status</h4>
+              <ul className="divide-y divide-slate-700">
+                {statusHistory.map(change => (
+                  <li key={`${change.at}-${change.to}`} className="py-2 text-sm">
+                    <span className="text-white">{ORDER_STATUS_LABELS[change.from]} → {ORDER_STATUS_LABELS[change.to]}</span>
+                    <div className="text-xs text-slate-400">
+                      {new Date(change.at).toLocaleString()} · {change.byName || 'unknown'} · {change.source === 'whatsapp' ? 'WhatsApp' : 'Web'}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
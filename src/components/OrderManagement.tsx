@@ -1,25 +1,65 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { collection, getDocs, getDoc, addDoc, updateDoc, deleteDoc, doc, query, orderBy } from 'firebase/firestore';
+import { collection, getDocs, getDoc, addDoc, deleteDoc, doc, query, orderBy } from 'firebase/firestore';
 import { db } from '../services/firebase';
 import { exportOrdersToGoogleDocs, startNewGoogleDoc } from '../services/orderExportService';
 import { exportOrdersToGoogleSheets, startNewGoogleSheet } from '../services/orderSheetsExportService';
 import { exportOrdersToGoogleSheet } from '../services/orderExcelExportService';
-import { extractItemsFromDocText, withRetry } from '../services/geminiService';
+import { exportOrdersToXlsx } from '../services/desarrolloXlsxService';
+import { exportOrdersToPdf, uploadOrdersPdf } from '../services/desarrolloPdfService';
+import { extractItemsFromDocText } from '../services/geminiService';
+import { extractScreenshotsViaServer } from '../services/serverExtractionService';
 import mammoth from 'mammoth';
 import JSZip from 'jszip';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { storage, functions } from '../services/firebase';
-import { httpsCallable } from 'firebase/functions';
-import type { ExtractedOrderData } from '../types';
-import type { PackageItem } from '../types';
+import { storage } from '../services/firebase';
+import { reservePackageNumbers, assignPackageNumber, voidPackageNumber } from '../services/packageNumbering';
+import {
+  subscribeToPendingExportRequests,
+  claimExportRequest,
+  completeExportRequest,
+  failExportRequest,
+} from '../services/exportRequestService';
+import type { ExportRequest } from '../services/exportRequestService';
+import type {
+  CurrencyConversion,
+  DuplicateMatch,
+  ExtractionIssue,
+  FieldConfidence,
+  OrderStatus,
+  OrderStatusChange,
+  PackageItem,
+} from '../types';
 import { useToasts, ToastStack } from './Toast';
+import HsReviewQueue from './HsReviewQueue';
+import DucaExportModal from './DucaExportModal';
+import DesarrolloImportModal from './DesarrolloImportModal';
+import { listExchangeRates } from '../services/exchangeRateService';
+import { convertExtractedOrder, formatConversion, mergeConversions } from '../utils/currency';
+import { needsHsReview } from '../utils/hsClassifier';
+import { needsExtractionReview } from '../utils/extractionReview';
+import { describeDuplicate, findDuplicateOrder, tryHashImage } from '../utils/duplicateDetection';
+import type { DuplicateCandidate, ExistingOrder } from '../utils/duplicateDetection';
+import { dismissDuplicateFlag } from '../services/duplicateOrderService';
+import { transitionOrderStatus } from '../services/orderStatusService';
+import { recordOrderCreated, updateOrderWithAudit } from '../services/orderAuditService';
+import { openFindingsForOrders } from '../services/splitReviewService';
+import { explainFinding } from '../utils/splitDetection';
+import OrderHistoryPanel from './OrderHistoryPanel';
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_COLORS,
+  ORDER_STATUS_LABELS,
+  canTransition,
+  normalizeOrderStatus,
+} from '../utils/orderLifecycle';
 
 export interface OrderRow {
   id: string;
   packageNumber: string;
   date: string;
   consignee: string;
+  consigneeId?: string; // Consignee directory entry (organizations/{orgId}/consignees)
   pieces: number;
   weight: string;
   trackingNumber: string;
@@ -29,10 +69,25 @@ export interface OrderRow {
   value: number;
   parcelComp: string;
   carriers?: string[]; // Array of shipping carriers (USPS, UPS, FedEx, DHL, etc.)
+  origin?: string; // Country of origin of the goods, ISO 3166 alpha-2 ("US", "CN") - required on a DUCA
   customerReceivedDate?: string; // Date when customer received package (manual input)
   dateDelivered?: string; // Date when package was delivered (manual input)
   screenshotUrls: string[]; // Array of Firebase Storage URLs (one customer can have multiple screenshots)
   items?: PackageItem[]; // Array of line items extracted from screenshots
+  currencyConversions?: CurrencyConversion[]; // Non-USD screenshots converted with the org's exchange rates
+  exchangeRateMissing?: string[]; // Currencies left unconverted (no rate for the order date)
+  status?: OrderStatus; // Lifecycle status (utils/orderLifecycle); missing on older orders = pending-review
+  statusHistory?: OrderStatusChange[];
+  statusBeforeHold?: OrderStatus;
+  statusTimestamps?: Partial<Record<OrderStatus, string>>;
+  extractionConfidence?: number; // 0-1 score from the screenshot extraction (see utils/extractionReview)
+  fieldConfidence?: FieldConfidence;
+  extractionIssues?: ExtractionIssue[];
+  humanReviewed?: boolean; // Must be true before export when the extraction scored low
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  screenshotHashes?: string[]; // Perceptual hashes (utils/duplicateDetection)
+  duplicateOf?: DuplicateMatch; // Set when the import matched an existing order
   source?: string; // 'word-doc' for imported from Word document
   createdAt: Date;
 }
@@ -46,8 +101,15 @@ export default function OrderManagement() {
   const [exporting, setExporting] = useState(false);
   const [exportingSheets, setExportingSheets] = useState(false);
   const [exportPhase, setExportPhase] = useState<string>('');
+  const [pendingExportRequests, setPendingExportRequests] = useState<ExportRequest[]>([]);
+  const requestedExportRunning = useRef(false);
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
   const [showMachoteModal, setShowMachoteModal] = useState(false);
+  const [showHsReview, setShowHsReview] = useState(false);
+  const [ducaOrders, setDucaOrders] = useState<OrderRow[] | null>(null);
+  const [showSheetImport, setShowSheetImport] = useState(false);
+  const [historyOrderId, setHistoryOrderId] = useState<string | null>(null);
+  const [highlightedRowId, setHighlightedRowId] = useState<string | null>(null);
   const [machoteAction, setMachoteAction] = useState<'append' | 'fresh'>('append');
   const [showFilters, setShowFilters] = useState(false);
   const [showExtraColumns, setShowExtraColumns] = useState(() => {
@@ -67,6 +129,8 @@ export default function OrderManagement() {
   const [filterConsignee, setFilterConsignee] = useState('');
   const [filterDateFrom, setFilterDateFrom] = useState('');
   const [filterDateTo, setFilterDateTo] = useState('');
+  const [filterStatus, setFilterStatus] = useState<OrderStatus | ''>('');
+  const [changingStatus, setChangingStatus] = useState(false);
 
   // Sort state
   const [sortBy, setSortBy] = useState<'date' | 'value' | 'consignee' | 'packageNumber' | 'none'>('none');
@@ -76,6 +140,22 @@ export default function OrderManagement() {
     loadOrders();
   }, [currentUser]);
 
+  // Pick up Desarrollo exports requested from WhatsApp while this page is open
+  useEffect(() => {
+    if (!currentUser?.organizationId) return;
+    return subscribeToPendingExportRequests(currentUser.organizationId, (requests) => {
+      setPendingExportRequests(requests);
+    });
+  }, [currentUser?.organizationId]);
+
+  useEffect(() => {
+    if (pendingExportRequests.length === 0 || exportingSheets || requestedExportRunning.current) return;
+    requestedExportRunning.current = true;
+    runRequestedExportRef.current(pendingExportRequests[0]).finally(() => {
+      requestedExportRunning.current = false;
+    });
+  }, [pendingExportRequests, exportingSheets]);
+
 
   // Keyboard navigation for gallery
   useEffect(() => {
@@ -115,6 +195,7 @@ export default function OrderManagement() {
         id: doc.id,
         ...doc.data(),
         createdAt: doc.data().createdAt?.toDate() || new Date(),
+        reviewedAt: doc.data().reviewedAt?.toDate?.(),
       } as OrderRow));
 
       setOrders(loadedOrders);
@@ -128,6 +209,42 @@ export default function OrderManagement() {
     }
   };
 
+  /**
+   * Jump to the order a flagged duplicate points at
+   */
+  const showOriginalOrder = (match: DuplicateMatch) => {
+    const row = document.querySelector(`[data-row-id="${match.orderId}"]`);
+    if (!row) {
+      toast.info(`${match.packageNumber} is not in the current view`, 'Clear the filters, or it may have been deleted.');
+      return;
+    }
+    row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedRowId(match.orderId);
+    setTimeout(() => setHighlightedRowId(current => current === match.orderId ? null : current), 2500);
+  };
+
+  const handleDismissDuplicate = async (order: OrderRow) => {
+    if (!currentUser?.organizationId) return;
+    try {
+      await dismissDuplicateFlag(currentUser.organizationId, order.id);
+      setOrders(prev => prev.map(o => o.id === order.id ? { ...o, duplicateOf: undefined } : o));
+    } catch (error) {
+      toast.error('Could not clear the duplicate flag', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  const auditActor = () => ({
+    uid: currentUser?.uid || 'unknown',
+    name: currentUser?.displayName || currentUser?.email || undefined,
+  });
+
+  const recordImportedOrder = (orderId: string) => {
+    if (!currentUser?.organizationId) return;
+    recordOrderCreated(currentUser.organizationId, orderId, auditActor(), 'word-import').catch(err =>
+      console.warn(`Failed to start the audit trail of ${orderId}:`, err)
+    );
+  };
+
   const handleCellEdit = (rowId: string, field: keyof OrderRow, currentValue: any) => {
     setEditingCell({ rowId, field });
     setEditValue(String(currentValue || ''));
@@ -136,18 +253,25 @@ export default function OrderManagement() {
   const handleCellSave = async () => {
     if (!editingCell || !currentUser?.organizationId) return;
 
-    try {
-      const orderRef = doc(db, 'organizations', currentUser.organizationId, 'orders', editingCell.rowId);
+    const order = orders.find(o => o.id === editingCell.rowId);
+    if (!order) return;
 
+    try {
       // Convert value based on field type
       let value: any = editValue;
       if (editingCell.field === 'pieces' || editingCell.field === 'value') {
         value = parseFloat(editValue) || 0;
+      } else if (editingCell.field === 'origin') {
+        value = editValue.trim().toUpperCase();
       }
 
-      await updateDoc(orderRef, {
-        [editingCell.field]: value
-      });
+      await updateOrderWithAudit(
+        currentUser.organizationId,
+        order.id,
+        order,
+        { [editingCell.field]: value },
+        auditActor()
+      );
 
       // Update local state
       setOrders(prev => prev.map(order =>
@@ -164,6 +288,48 @@ export default function OrderManagement() {
     }
   };
 
+  /**
+   * Convert an order that was imported before its currency had an exchange rate
+   */
+  const handleConvertOrderCurrency = async (order: OrderRow) => {
+    if (!currentUser?.organizationId || !order.exchangeRateMissing?.length) return;
+    try {
+      const rates = await listExchangeRates(currentUser.organizationId);
+      const currency = order.exchangeRateMissing[0];
+      const items = order.items || [];
+      const isPending = (item: PackageItem) => item.currency === currency && item.exchangeRate === undefined;
+      const pending = items.filter(isPending);
+      const pendingTotal = pending.reduce((sum, item) => sum + (item.totalValue || 0), 0);
+      // Whole order in this currency → convert the order total (keeps taxes/discounts); mixed → just its items
+      const wholeOrder = pending.length === items.length;
+      const converted = convertExtractedOrder(
+        { items: pending, orderTotal: wholeOrder ? order.value : pendingTotal, currency },
+        rates,
+        order.date || new Date().toISOString().split('T')[0]
+      );
+      if (!converted.conversion) {
+        toast.error(`No ${currency} exchange rate on or before ${order.date}`, 'Add it in Settings → Exchange Rates');
+        return;
+      }
+
+      let next = 0;
+      const updates = {
+        items: items.map(item => (isPending(item) ? converted.items[next++] : item)),
+        value: wholeOrder
+          ? converted.orderTotal || 0
+          : Math.round(((order.value || 0) - pendingTotal + converted.conversion.usdAmount) * 100) / 100,
+        currencyConversions: mergeConversions([...(order.currencyConversions || []), converted.conversion]),
+        exchangeRateMissing: order.exchangeRateMissing.filter(c => c !== currency),
+      };
+      await updateOrderWithAudit(currentUser.organizationId, order.id, order, updates, auditActor());
+      setOrders(prev => prev.map(o => (o.id === order.id ? { ...o, ...updates } : o)));
+      toast.success(`Converted ${order.packageNumber}`, formatConversion(converted.conversion));
+    } catch (error) {
+      console.error('Error converting order currency:', error);
+      toast.error('Failed to convert currency', error instanceof Error ? error.message : undefined);
+    }
+  };
+
   const handleCellCancel = () => {
     setEditingCell(null);
     setEditValue('');
@@ -270,6 +436,14 @@ export default function OrderManagement() {
       for (const rowId of selectedRows) {
         const orderRef = doc(db, 'organizations', currentUser.organizationId, 'orders', rowId);
         await deleteDoc(orderRef);
+
+        // Record the gap in the numbering log; numbers issued before the log existed have no entry
+        const packageNumber = orders.find(order => order.id === rowId)?.packageNumber;
+        if (packageNumber) {
+          voidPackageNumber({ packageNumber }, 'Order deleted').catch(err =>
+            console.warn(`Failed to void ${packageNumber}:`, err)
+          );
+        }
       }
 
       const deletedCount = selectedRows.size;
@@ -282,6 +456,46 @@ export default function OrderManagement() {
     }
   };
 
+  const handleBulkStatusChange = async (to: OrderStatus) => {
+    if (selectedRows.size === 0 || !currentUser?.organizationId) return;
+
+    const selectedOrders = orders.filter(order => selectedRows.has(order.id));
+    const eligible = selectedOrders.filter(order => canTransition(order, to));
+    const ineligible = selectedOrders.length - eligible.length;
+    if (eligible.length === 0) {
+      toast.warning(`None of the selected orders can move to ${ORDER_STATUS_LABELS[to]}`);
+      return;
+    }
+
+    setChangingStatus(true);
+    try {
+      const result = await transitionOrderStatus(
+        currentUser.organizationId,
+        eligible.map(order => order.id),
+        to,
+        { uid: currentUser.uid, name: currentUser.displayName || currentUser.email || undefined }
+      );
+      const updates = new Map(result.updated.map(({ id, ...fields }) => [id, fields]));
+      setOrders(prev => prev.map(order => updates.has(order.id) ? { ...order, ...updates.get(order.id) } : order));
+      setSelectedRows(new Set());
+
+      const skipped = ineligible + result.skipped.length;
+      if (result.updated.length > 0) {
+        toast.success(
+          `Moved ${result.updated.length} order${result.updated.length !== 1 ? 's' : ''} to ${ORDER_STATUS_LABELS[to]}`,
+          skipped > 0 ? `${skipped} skipped - their current status doesn't allow this move.` : undefined
+        );
+      } else {
+        toast.warning('No orders were updated', result.skipped[0]?.reason);
+      }
+    } catch (error) {
+      console.error('Error changing order status:', error);
+      toast.error('Could not change the status', error instanceof Error ? error.message : undefined);
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
   const handleMachoteExport = async (createNew: boolean) => {
     if (selectedRows.size === 0) {
       toast.warning('Select at least one row to export');
@@ -340,54 +554,165 @@ export default function OrderManagement() {
   };
 
 
-  const handleExportToSheets = async () => {
-    if (selectedRows.size === 0) {
-      toast.warning('Select at least one order to export');
-      return;
+  // Re-read the user profile fresh from Firestore — currentUser is loaded once at
+  // login and won't reflect a Settings save until the next session. Reading here
+  // guarantees the Gestor # and display name reflect what's saved right now.
+  const loadExportProfile = async (): Promise<{ gestorNumber?: string; displayName?: string }> => {
+    let freshGestorNumber: string | undefined = currentUser?.gestorNumber;
+    let freshDisplayName: string | undefined = currentUser?.displayName;
+    if (currentUser?.uid) {
+      try {
+        const userSnap = await getDoc(doc(db, 'users', currentUser.uid));
+        if (userSnap.exists()) {
+          const data = userSnap.data();
+          freshGestorNumber = data.gestorNumber ?? freshGestorNumber;
+          freshDisplayName = data.displayName ?? freshDisplayName;
+        }
+      } catch (err) {
+        console.warn('Could not refresh user profile from Firestore:', err);
+      }
     }
+    return { gestorNumber: freshGestorNumber, displayName: freshDisplayName };
+  };
 
-    const selectedOrders = orders.filter(order => selectedRows.has(order.id));
+  // Desarrollo exports requested with /export on WhatsApp. Runs one at a time;
+  // the WhatsApp reply with the link (or the PDF) is sent by the notifyExportRequest function.
+  const runRequestedExport = async (request: ExportRequest) => {
+    const organizationId = currentUser?.organizationId;
+    if (!organizationId || !currentUser?.uid) return;
+    if (!(await claimExportRequest(organizationId, request.id, currentUser.uid))) return;
+
+    setExportingSheets(true);
+    setExportPhase(`Building customs sheet requested on WhatsApp (${request.orderIds.length} order${request.orderIds.length !== 1 ? 's' : ''})…`);
+    try {
+      const snaps = await Promise.all(
+        request.orderIds.map(id => getDoc(doc(db, 'organizations', organizationId, 'orders', id)))
+      );
+      const requestedOrders = snaps
+        .filter(snap => snap.exists())
+        .map(snap => ({
+          id: snap.id,
+          ...snap.data(),
+          createdAt: snap.data()?.createdAt?.toDate() || new Date(),
+        } as OrderRow));
+
+      if (requestedOrders.length === 0) {
+        await failExportRequest(organizationId, request.id, 'The requested orders no longer exist');
+        return;
+      }
+
+      if (request.format === 'pdf') {
+        const pdfUrl = await uploadOrdersPdf(
+          requestedOrders, organizationId, request.id, request.requestedBy, await loadExportProfile()
+        );
+        await completeExportRequest(organizationId, request.id, { pdfUrl });
+        toast.success(
+          `WhatsApp PDF ready — ${requestedOrders.length} order${requestedOrders.length !== 1 ? 's' : ''}`,
+          'The PDF was sent back on WhatsApp.'
+        );
+        return;
+      }
+
+      const result = await exportOrdersToGoogleSheet(
+        requestedOrders,
+        organizationId,
+        request.requestedBy,
+        await loadExportProfile(),
+        currentUser.email,
+      );
+
+      if (result.success && result.sheetUrl) {
+        await completeExportRequest(organizationId, request.id, { sheetUrl: result.sheetUrl });
+        toast.success(
+          `WhatsApp export ready — ${requestedOrders.length} order${requestedOrders.length !== 1 ? 's' : ''}`,
+          'The Google Sheet link was sent back on WhatsApp.'
+        );
+      } else {
+        await failExportRequest(organizationId, request.id, result.error || 'Unknown error');
+        toast.error('WhatsApp export failed', result.error || 'Unknown error');
+      }
+    } catch (error) {
+      console.error('Requested export error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await failExportRequest(organizationId, request.id, message).catch(() => {});
+      toast.error('WhatsApp export failed', message);
+    } finally {
+      setExportingSheets(false);
+      setExportPhase('');
+    }
+  };
+
+  // Latest runRequestedExport for the pending-requests effect, so it doesn't re-run on every render
+  const runRequestedExportRef = useRef(runRequestedExport);
+  useEffect(() => {
+    runRequestedExportRef.current = runRequestedExport;
+  });
+
+  // Confirmations shared by the Desarrollo exports and the DUCA (which validates items itself)
+  const confirmDesarrolloExport = async (selectedOrders: OrderRow[], checkItems = true): Promise<boolean> => {
+    const onHold = selectedOrders.filter(o => o.status === 'on-hold');
+    if (onHold.length > 0) {
+      const proceed = confirm(
+        `⚠️ ${onHold.length} order(s) are on hold: ${onHold.map(o => o.packageNumber).join(', ')}\n\n` +
+        `Export them anyway?`
+      );
+      if (!proceed) return false;
+    }
+
+    // Possible split shipments the importer hasn't acknowledged or merged (Compliance page)
+    try {
+      const findings = await openFindingsForOrders(currentUser?.organizationId || '', orders, selectedOrders.map(o => o.id));
+      if (findings.length > 0) {
+        const proceed = confirm(
+          `⚠️ ${findings.length} possible split shipment${findings.length !== 1 ? 's' : ''} include selected orders:\n\n` +
+          findings.slice(0, 3).map(finding => `• ${finding.names.join(', ')}: ${explainFinding(finding)[0]}`).join('\n') +
+          `\n\nReview them on the Compliance page, or export anyway?`
+        );
+        if (!proceed) return false;
+      }
+    } catch (error) {
+      console.warn('Split shipment check failed:', error);
+    }
 
     // Check if orders have items
     const ordersWithoutItems = selectedOrders.filter(o => !o.items || o.items.length === 0);
-    if (ordersWithoutItems.length > 0) {
+    if (checkItems && ordersWithoutItems.length > 0) {
       const proceed = confirm(
         `⚠️ ${ordersWithoutItems.length} order(s) have no line-item details.\n\n` +
         `They will be exported as single rows with totals only.\n\n` +
         `Continue export?`
       );
-      if (!proceed) return;
+      if (!proceed) return false;
+    }
+    return true;
+  };
+
+  // Words the dictionary couldn't translate - owners can add them in Settings
+  const notifyUntranslated = (words?: string[]) => {
+    if (!words || words.length === 0) return;
+    toast.info(
+      `${words.length} word${words.length !== 1 ? 's' : ''} left in English`,
+      `${words.slice(0, 8).join(', ')}${words.length > 8 ? '…' : ''} — add them in Settings → Translation Dictionary.`
+    );
+  };
+
+  const handleExportToSheets = async () => {
+    if (selectedRows.size === 0) {
+      toast.warning('Select at least one order to export');
+      return;
     }
 
+    const selectedOrders = orders.filter(order => selectedRows.has(order.id));
+    if (!(await confirmDesarrolloExport(selectedOrders))) return;
+
     setExportingSheets(true);
     setExportPhase(`Building customs sheet for ${selectedOrders.length} order${selectedOrders.length !== 1 ? 's' : ''}…`);
     try {
-      // Re-read the user profile fresh from Firestore — currentUser is loaded once at
-      // login and won't reflect a Settings save until the next session. Reading here
-      // guarantees the Gestor # and display name reflect what's saved right now.
-      let freshGestorNumber: string | undefined = currentUser?.gestorNumber;
-      let freshDisplayName: string | undefined = currentUser?.displayName;
-      if (currentUser?.uid) {
-        try {
-          const userSnap = await getDoc(doc(db, 'users', currentUser.uid));
-          if (userSnap.exists()) {
-            const data = userSnap.data();
-            freshGestorNumber = data.gestorNumber ?? freshGestorNumber;
-            freshDisplayName = data.displayName ?? freshDisplayName;
-          }
-        } catch (err) {
-          console.warn('Could not refresh user profile from Firestore:', err);
-        }
-      }
-
       const result = await exportOrdersToGoogleSheet(
         selectedOrders,
         currentUser?.organizationId || '',
         currentUser?.uid,
-        {
-          gestorNumber: freshGestorNumber,
-          displayName: freshDisplayName,
-        },
+        await loadExportProfile(),
         currentUser?.email,
       );
 
@@ -408,6 +733,7 @@ export default function OrderManagement() {
           `Exported ${selectedOrders.length} order${selectedOrders.length !== 1 ? 's' : ''} (${totalItems} line items)`,
           'Google Sheet opened in a new tab — ready for customs submission.'
         );
+        notifyUntranslated(result.untranslatedWords);
       } else {
         toast.error('Export failed', result.error || 'Unknown error');
       }
@@ -420,58 +746,92 @@ export default function OrderManagement() {
     }
   };
 
-  /**
-   * Run screenshot extraction on the server.
-   *
-   * Why: prior to this, every user's browser called Gemini directly. Users on
-   * slower networks (Julio in El Salvador) saw transient failures, rate limits,
-   * and dropped items that headquarters users never hit. Moving extraction to a
-   * Cloud Function puts every user on the same runtime — same region, same retry
-   * policy, same quota pool — so the SaaS behaves identically regardless of
-   * location.
-   *
-   * Returns one entry per input image, in the same order.
-   */
-  const extractScreenshotsViaServer = async (
-    images: Array<{ base64: string; contentType: string }>,
-    label: (idx: number) => string,
-    onProgress?: (completed: number, total: number) => void
-  ): Promise<Array<{ ok: true; data: ExtractedOrderData } | { ok: false; error: string }>> => {
-    if (!functions) throw new Error('Cloud Functions not initialized — check Firebase config.');
-    const extract = httpsCallable<
-      { images: Array<{ base64: string; mimeType: string; clientIdx: number }>; lenient: boolean },
-      { results: Array<{ clientIdx: number; ok: true; data: ExtractedOrderData } | { clientIdx: number; ok: false; error: string }> }
-    >(functions, 'extractScreenshotBatch');
-
-    const CHUNK_SIZE = 10;
-    const out: Array<{ ok: true; data: ExtractedOrderData } | { ok: false; error: string }> = new Array(images.length);
-    let completed = 0;
-
-    for (let i = 0; i < images.length; i += CHUNK_SIZE) {
-      const slice = images.slice(i, i + CHUNK_SIZE);
-      const payload = slice.map((img, j) => ({
-        base64: img.base64,
-        mimeType: img.contentType,
-        clientIdx: i + j,
-      }));
-
-      // Wrap the callable invocation itself in retry — if the function gateway
-      // returns 429/5xx (rare), retry the whole batch once.
-      const response = await withRetry(
-        () => extract({ images: payload, lenient: true }),
-        { label: `extractScreenshotBatch [${i}-${i + slice.length - 1}]`, maxAttempts: 2 }
+  // Same form as handleExportToSheets, written locally - no Google account needed
+  const handleExportToXlsx = async () => {
+    if (selectedRows.size === 0) {
+      toast.warning('Select at least one order to export');
+      return;
+    }
+
+    const selectedOrders = orders.filter(order => selectedRows.has(order.id));
+    if (!(await confirmDesarrolloExport(selectedOrders))) return;
+
+    setExportingSheets(true);
+    setExportPhase(`Building customs .xlsx for ${selectedOrders.length} order${selectedOrders.length !== 1 ? 's' : ''}…`);
+    try {
+      const result = await exportOrdersToXlsx(
+        selectedOrders,
+        currentUser?.organizationId || '',
+        currentUser?.uid,
+        await loadExportProfile(),
       );
 
-      for (const r of response.data.results) {
-        if (r.ok) out[r.clientIdx] = { ok: true, data: r.data };
-        else out[r.clientIdx] = { ok: false, error: r.error };
+      if (result.success) {
+        setSelectedRows(new Set());
+        toast.success(
+          `Exported ${selectedOrders.length} order${selectedOrders.length !== 1 ? 's' : ''}`,
+          `${result.fileName} downloaded — ready for customs submission.`
+        );
+        notifyUntranslated(result.untranslatedWords);
+      } else {
+        toast.error('Export failed', result.error || 'Unknown error');
       }
+    } catch (error) {
+      console.error('Customs .xlsx export error:', error);
+      toast.error('Export failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setExportingSheets(false);
+      setExportPhase('');
+    }
+  };
 
-      completed += slice.length;
-      onProgress?.(completed, images.length);
+  const handleExportToPdf = async () => {
+    if (selectedRows.size === 0) {
+      toast.warning('Select at least one order to export');
+      return;
     }
 
-    return out;
+    const selectedOrders = orders.filter(order => selectedRows.has(order.id));
+    if (!(await confirmDesarrolloExport(selectedOrders))) return;
+
+    setExportingSheets(true);
+    setExportPhase(`Rendering customs PDF for ${selectedOrders.length} order${selectedOrders.length !== 1 ? 's' : ''}…`);
+    try {
+      const result = await exportOrdersToPdf(
+        selectedOrders,
+        currentUser?.organizationId || '',
+        currentUser?.uid,
+        await loadExportProfile(),
+      );
+
+      if (result.success) {
+        setSelectedRows(new Set());
+        toast.success(
+          `Exported ${selectedOrders.length} order${selectedOrders.length !== 1 ? 's' : ''}`,
+          `${result.fileName} downloaded — print, sign and submit.`
+        );
+        notifyUntranslated(result.untranslatedWords);
+      } else {
+        toast.error('Export failed', result.error || 'Unknown error');
+      }
+    } catch (error) {
+      console.error('Customs PDF export error:', error);
+      toast.error('Export failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setExportingSheets(false);
+      setExportPhase('');
+    }
+  };
+
+  const handleOpenDucaExport = async () => {
+    if (selectedRows.size === 0) {
+      toast.warning('Select at least one order to export');
+      return;
+    }
+
+    const selectedOrders = orders.filter(order => selectedRows.has(order.id));
+    if (!(await confirmDesarrolloExport(selectedOrders, false))) return;
+    setDucaOrders(selectedOrders);
   };
 
   const handleWordDocUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -485,6 +845,24 @@ export default function OrderManagement() {
     setImportProgress('Reading document...');
     setExtractionFailures([]);
     const failures: Array<{ customer: string; screenshotIndex: number; reason: string }> = [];
+
+    // Screenshots already imported (WhatsApp, bulk upload, an earlier Machote) get flagged, not dropped
+    const existingOrders: ExistingOrder[] = [...orders];
+    let duplicateCount = 0;
+    const checkDuplicate = async (images: Array<{ base64: string; contentType: string }>, fields: DuplicateCandidate = {}) => {
+      const screenshotHashes: string[] = [];
+      for (const img of images) {
+        const hash = await tryHashImage(`data:${img.contentType};base64,${img.base64}`);
+        if (hash) screenshotHashes.push(hash);
+      }
+      const duplicateOf = findDuplicateOrder({ ...fields, screenshotHashes }, existingOrders);
+      if (duplicateOf) duplicateCount++;
+      return { screenshotHashes, ...(duplicateOf ? { duplicateOf } : {}) };
+    };
+    const duplicateLine = () => duplicateCount > 0
+      ? `\n\n⚠️ ${duplicateCount} order${duplicateCount !== 1 ? 's look' : ' looks'} like a duplicate of an existing order - see the flag next to the package number.`
+      : '';
+
     try {
       console.log(`📄 handleWordDocUpload starting...`);
 
@@ -775,11 +1153,9 @@ export default function OrderManagement() {
           }
         }
 
-        const serverResults = await extractScreenshotsViaServer(
-          flatImages,
-          (idx) => `flat #${idx}`,
-          (done, total) => setImportProgress(`Analyzing screenshot ${done}/${total} on server...`)
-        );
+        const serverResults = await extractScreenshotsViaServer(flatImages, {
+          onProgress: (done, total) => setImportProgress(`Analyzing screenshot ${done}/${total} on server...`),
+        });
 
         // Route results back to blocks
         const itemsByBlock = new Map<MachoteBlock, PackageItem[]>();
@@ -798,10 +1174,15 @@ export default function OrderManagement() {
           }
         }
 
+        // The doc's own "Paquete #N" labels are the sender's numbering - the
+        // orders take the next numbers from the organization's counter
+        const reservations = await reservePackageNumbers(blocks.length, 'word-doc');
+
         let createdCount = 0;
         let totalItems = 0;
 
-        for (const block of blocks) {
+        for (const [index, block] of blocks.entries()) {
+          const reservation = reservations[index];
           const allItemsForBlock = itemsByBlock.get(block) || [];
 
           // Upload screenshots to Firebase Storage
@@ -831,9 +1212,10 @@ export default function OrderManagement() {
 
           const totalPieces = allItemsForBlock.reduce((s, item) => s + (item.quantity || 0), 0);
           const itemsTotal = allItemsForBlock.reduce((s, item) => s + (item.totalValue || 0), 0);
+          const duplicateFields = await checkDuplicate(block.imageIndices.map(i => allImages[i]).filter(Boolean));
 
           const orderData = {
-            packageNumber: `Paquete #${block.packageNumber}`,
+            packageNumber: reservation.packageNumber,
             date: new Date().toISOString().split('T')[0],
             consignee: block.name,
             pieces: totalPieces,
@@ -849,12 +1231,16 @@ export default function OrderManagement() {
             extractionStatus: allItemsForBlock.length > 0 ? 'completed' : 'pending',
             source: 'word-doc',
             sourceFileName: file.name,
+            ...duplicateFields,
             createdAt: new Date(),
             updatedAt: new Date(),
           };
 
           setImportProgress(`Saving order ${createdCount + 1}/${blocks.length}: ${block.name}...`);
-          await addDoc(ordersRef, orderData);
+          const orderRef = await addDoc(ordersRef, orderData);
+          await assignPackageNumber(reservation.reservationId, orderRef.id);
+          recordImportedOrder(orderRef.id);
+          existingOrders.push({ id: orderRef.id, ...orderData });
           createdCount++;
           totalItems += allItemsForBlock.length;
         }
@@ -866,7 +1252,7 @@ export default function OrderManagement() {
           : '';
         toast.success(
           `Machote imported — ${createdCount} order${createdCount !== 1 ? 's' : ''}, ${totalItems} items`,
-          `From ${totalScreenshots} screenshots. Review the orders below, then export to Desarrollo.${failureLine}`
+          `From ${totalScreenshots} screenshots. Review the orders below, then export to Desarrollo.${failureLine}${duplicateLine()}`
         );
       } else if (hasImages) {
         // --- Doc with images but no Paquete # pattern: import as a single "Unknown" order,
@@ -880,11 +1266,9 @@ export default function OrderManagement() {
         setImportProgress(`Processing ${allImages.length} screenshots on server...`);
         const allItemsForOrder: PackageItem[] = [];
 
-        const serverResults = await extractScreenshotsViaServer(
-          allImages,
-          (idx) => `flat #${idx} (${customerName})`,
-          (done, total) => setImportProgress(`Analyzing screenshot ${done}/${total} on server...`)
-        );
+        const serverResults = await extractScreenshotsViaServer(allImages, {
+          onProgress: (done, total) => setImportProgress(`Analyzing screenshot ${done}/${total} on server...`),
+        });
 
         for (let k = 0; k < serverResults.length; k++) {
           const r = serverResults[k];
@@ -916,19 +1300,14 @@ export default function OrderManagement() {
           }
         }
 
-        // Get next package number
-        const existingOrders = await getDocs(query(ordersRef, orderBy('createdAt', 'desc')));
-        let highestPkg = 0;
-        existingOrders.docs.forEach(d => {
-          const match = (d.data().packageNumber || '').match(/Paquete #(\d+)/i);
-          if (match) highestPkg = Math.max(highestPkg, parseInt(match[1]));
-        });
+        const [reservation] = await reservePackageNumbers(1, 'word-doc');
 
         const totalPieces = allItemsForOrder.reduce((s, item) => s + (item.quantity || 0), 0);
         const itemsTotal = allItemsForOrder.reduce((s, item) => s + (item.totalValue || 0), 0);
+        const duplicateFields = await checkDuplicate(allImages);
 
         const orderData = {
-          packageNumber: `Paquete #${highestPkg + 1}`,
+          packageNumber: reservation.packageNumber,
           date: new Date().toISOString().split('T')[0],
           consignee: customerName,
           pieces: totalPieces,
@@ -944,11 +1323,14 @@ export default function OrderManagement() {
           extractionStatus: allItemsForOrder.length > 0 ? 'completed' : 'pending',
           source: 'word-doc',
           sourceFileName: file.name,
+          ...duplicateFields,
           createdAt: new Date(),
           updatedAt: new Date(),
         };
 
-        await addDoc(ordersRef, orderData);
+        const orderRef = await addDoc(ordersRef, orderData);
+        await assignPackageNumber(reservation.reservationId, orderRef.id);
+        recordImportedOrder(orderRef.id);
         await loadOrders();
 
         const failureLineDoc = failures.length > 0
@@ -956,7 +1338,7 @@ export default function OrderManagement() {
           : '';
         toast.success(
           `Doc imported — order for ${customerName}`,
-          `${allItemsForOrder.length} items from ${allImages.length} screenshots. Review the order below, then export to Desarrollo.${failureLineDoc}`
+          `${allItemsForOrder.length} items from ${allImages.length} screenshots. Review the order below, then export to Desarrollo.${failureLineDoc}${duplicateLine()}`
         );
       } else {
         // --- Plain text only (no images): extract text and send to Gemini.
@@ -974,23 +1356,18 @@ export default function OrderManagement() {
           return;
         }
 
-        // Get next package number
-        const existingOrders = await getDocs(query(ordersRef, orderBy('createdAt', 'desc')));
-        let highestPkg = 0;
-        existingOrders.docs.forEach(d => {
-          const match = (d.data().packageNumber || '').match(/Paquete #(\d+)/i);
-          if (match) highestPkg = Math.max(highestPkg, parseInt(match[1]));
-        });
+        const customersWithItems = extracted.customers.filter(c => c.items && c.items.length > 0);
+        const reservations = customersWithItems.length > 0
+          ? await reservePackageNumbers(customersWithItems.length, 'word-doc')
+          : [];
 
         let createdCount = 0;
         let totalItems = 0;
 
-        for (const customer of extracted.customers) {
-          if (!customer.items || customer.items.length === 0) continue;
-
-          highestPkg++;
+        for (const [index, customer] of customersWithItems.entries()) {
+          const reservation = reservations[index];
           const orderData = {
-            packageNumber: `Paquete #${highestPkg}`,
+            packageNumber: reservation.packageNumber,
             date: new Date().toISOString().split('T')[0],
             consignee: customer.name,
             pieces: customer.totalPieces,
@@ -1010,7 +1387,9 @@ export default function OrderManagement() {
             updatedAt: new Date(),
           };
 
-          await addDoc(ordersRef, orderData);
+          const orderRef = await addDoc(ordersRef, orderData);
+          await assignPackageNumber(reservation.reservationId, orderRef.id);
+          recordImportedOrder(orderRef.id);
           createdCount++;
           totalItems += customer.items.length;
         }
@@ -1156,9 +1535,32 @@ export default function OrderManagement() {
       } else {
         displayValue = '(click to enter)';
       }
+    } else if (field === 'value' && order.exchangeRateMissing?.length) {
+      // Still in the screenshot's currency - offer to convert once a rate exists
+      return (
+        <button
+          onClick={() => handleConvertOrderCurrency(order)}
+          className="px-2 py-1 rounded min-h-[32px] text-amber-300 hover:bg-slate-600 text-left"
+          title={`No exchange rate for ${order.exchangeRateMissing.join(', ')} - click to convert with the current rates`}
+        >
+          {order.exchangeRateMissing.join('/')} {Number(value || 0).toFixed(2)} ⚠️
+        </button>
+      );
     } else if (field === 'value' && value) {
       // Format value field with dollar sign
       displayValue = `$${Number(value).toFixed(2)}`;
+      if (order.currencyConversions?.length) {
+        return (
+          <div
+            onClick={() => handleCellEdit(order.id, field, value)}
+            className="px-2 py-1 cursor-pointer hover:bg-slate-600 rounded min-h-[32px]"
+            title={order.currencyConversions.map(formatConversion).join('\n')}
+          >
+            {displayValue}
+            <span className="ml-1 text-[10px] text-slate-400">{order.currencyConversions.map(c => c.currency).join('/')}</span>
+          </div>
+        );
+      }
     } else {
       displayValue = value ? String(value) : '-';
     }
@@ -1246,6 +1648,10 @@ export default function OrderManagement() {
       return false;
     }
 
+    if (filterStatus && normalizeOrderStatus(order.status) !== filterStatus) {
+      return false;
+    }
+
     return true;
   });
 
@@ -1273,7 +1679,9 @@ export default function OrderManagement() {
     return sortOrder === 'asc' ? comparison : -comparison;
   });
 
-  const activeFilterCount = [filterDateFrom, filterDateTo, sortBy !== 'none' ? sortBy : ''].filter(Boolean).length;
+  const hsReviewCount = orders.reduce((sum, order) => sum + (order.items || []).filter(needsHsReview).length, 0);
+  const extractionReviewCount = orders.filter(needsExtractionReview).length;
+  const activeFilterCount = [filterDateFrom, filterDateTo, filterStatus, sortBy !== 'none' ? sortBy : ''].filter(Boolean).length;
 
   return (
     <div className="space-y-4">
@@ -1287,6 +1695,14 @@ export default function OrderManagement() {
         </div>
       </div>
 
+      {/* Extraction review - exports refuse these orders until they are checked */}
+      {extractionReviewCount > 0 && (
+        <div className="bg-amber-900/30 border border-amber-700 rounded-lg px-4 py-3 text-sm text-amber-200">
+          🔍 {extractionReviewCount} order{extractionReviewCount !== 1 ? 's' : ''} need{extractionReviewCount === 1 ? 's' : ''} review before export
+          (low extraction confidence or inconsistent totals). Open the <span className="font-semibold">Review</span> tab to check them against their screenshots.
+        </div>
+      )}
+
       {/* Extraction failure banner — surfaces silent screenshot failures so totals never differ between runs without the user knowing why */}
       {extractionFailures.length > 0 && (
         <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-4">
@@ -1371,6 +1787,20 @@ export default function OrderManagement() {
             More Columns
           </button>
 
+          {/* HS review queue */}
+          {hsReviewCount > 0 && (
+            <button
+              onClick={() => setShowHsReview(true)}
+              className="px-3 py-2 text-sm rounded-lg border bg-amber-600/20 border-amber-500 text-amber-200 hover:bg-amber-600/30 transition-colors flex items-center gap-2 whitespace-nowrap"
+              title="Items with a low-confidence HS code"
+            >
+              HS Review
+              <span className="bg-amber-500 text-slate-900 text-xs min-w-5 h-5 px-1 rounded-full flex items-center justify-center font-bold">
+                {hsReviewCount}
+              </span>
+            </button>
+          )}
+
           {/* Import Doc */}
           <button
             onClick={() => wordDocInputRef.current?.click()}
@@ -1395,6 +1825,15 @@ export default function OrderManagement() {
             className="hidden"
           />
 
+          {/* Import gestor corrections from an exported Desarrollo */}
+          <button
+            onClick={() => setShowSheetImport(true)}
+            className="px-3 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors whitespace-nowrap"
+            title="Bring corrections made on an exported Desarrollo sheet back into the orders"
+          >
+            Import Sheet
+          </button>
+
           {/* Refresh */}
           <button
             onClick={loadOrders}
@@ -1407,7 +1846,20 @@ export default function OrderManagement() {
         {/* Collapsible filter panel */}
         {showFilters && (
           <div className="mt-3 pt-3 border-t border-slate-700">
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Status</label>
+                <select
+                  value={filterStatus}
+                  onChange={(e) => setFilterStatus(e.target.value as OrderStatus | '')}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">All statuses</option>
+                  {ORDER_STATUSES.map(status => (
+                    <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <label className="block text-xs font-medium text-slate-400 mb-1">Date From</label>
                 <input
@@ -1459,7 +1911,7 @@ export default function OrderManagement() {
                   Showing {sortedOrders.length} of {orders.length} orders
                 </span>
                 <button
-                  onClick={() => { setFilterDateFrom(''); setFilterDateTo(''); setSortBy('none'); setSortOrder('asc'); }}
+                  onClick={() => { setFilterDateFrom(''); setFilterDateTo(''); setFilterStatus(''); setSortBy('none'); setSortOrder('asc'); }}
                   className="text-xs text-red-400 hover:text-red-300 transition-colors"
                 >
                   Clear filters
@@ -1512,6 +1964,7 @@ export default function OrderManagement() {
                 {showExtraColumns && (
                   <>
                     <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-white text-xs sm:text-sm font-semibold whitespace-nowrap">Weight (lb)</th>
+                    <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-white text-xs sm:text-sm font-semibold">Origin</th>
                     <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-white text-xs sm:text-sm font-semibold whitespace-nowrap">Customer Received</th>
                     <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-white text-xs sm:text-sm font-semibold whitespace-nowrap">Date Delivered</th>
                   </>
@@ -1521,7 +1974,7 @@ export default function OrderManagement() {
             <tbody>
               {sortedOrders.length === 0 ? (
                 <tr>
-                  <td colSpan={showExtraColumns ? 13 : 10} className="px-4 py-16">
+                  <td colSpan={showExtraColumns ? 14 : 10} className="px-4 py-16">
                     {orders.length === 0 ? (
                       <div className="flex flex-col items-center text-center max-w-md mx-auto">
                         <div className="w-16 h-16 rounded-full bg-slate-700/60 border border-slate-600 flex items-center justify-center mb-4">
@@ -1568,7 +2021,7 @@ export default function OrderManagement() {
                     data-row-id={order.id}
                     className={`border-t border-slate-700 transition-colors ${
                       selectedRows.has(order.id) ? 'bg-blue-900/30' : 'hover:bg-slate-750'
-                    }`}
+                    } ${highlightedRowId === order.id ? 'ring-2 ring-inset ring-amber-400' : ''}`}
                   >
                     <td
                       className="px-2 sm:px-4 py-2 select-none"
@@ -1616,7 +2069,48 @@ export default function OrderManagement() {
                         </div>
                       )}
                     </td>
-                    <td className="px-2 sm:px-4 py-2 text-white text-xs sm:text-sm">{renderCell(order, 'packageNumber')}</td>
+                    <td className="px-2 sm:px-4 py-2 text-white text-xs sm:text-sm">
+                      {renderCell(order, 'packageNumber')}
+                      {(() => {
+                        const status = normalizeOrderStatus(order.status);
+                        const last = order.statusHistory?.[order.statusHistory.length - 1];
+                        return (
+                          <div className="mt-1 flex items-center gap-1">
+                            <span
+                              className={`px-1.5 py-0.5 text-[10px] font-semibold rounded whitespace-nowrap ${ORDER_STATUS_COLORS[status]}`}
+                              title={last ? `${new Date(last.at).toLocaleString()} by ${last.byName || 'unknown'} (${last.source})` : undefined}
+                            >
+                              {ORDER_STATUS_LABELS[status]}
+                            </span>
+                            <button
+                              onClick={() => setHistoryOrderId(order.id)}
+                              className="text-slate-400 hover:text-white text-[10px] whitespace-nowrap"
+                              title="Who changed what, and revert a change"
+                            >
+                              History
+                            </button>
+                          </div>
+                        );
+                      })()}
+                      {order.duplicateOf && (
+                        <div className="flex items-center gap-1 mt-1">
+                          <button
+                            onClick={() => showOriginalOrder(order.duplicateOf!)}
+                            className="px-1.5 py-0.5 text-[10px] font-semibold rounded bg-amber-600/30 text-amber-200 hover:bg-amber-600/50 whitespace-nowrap"
+                            title={`${describeDuplicate(order.duplicateOf)} - click to show the original`}
+                          >
+                            ⚠️ Dup of {order.duplicateOf.packageNumber}
+                          </button>
+                          <button
+                            onClick={() => handleDismissDuplicate(order)}
+                            className="text-slate-400 hover:text-white text-[10px]"
+                            title="Not a duplicate - clear the flag"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      )}
+                    </td>
                     <td className="px-2 sm:px-4 py-2 text-white text-xs sm:text-sm">{renderCell(order, 'date')}</td>
                     <td className="px-2 sm:px-4 py-2 text-white text-xs sm:text-sm">{renderCell(order, 'consignee')}</td>
                     {/* Auto-filled fields */}
@@ -1628,6 +2122,7 @@ export default function OrderManagement() {
                     {showExtraColumns && (
                       <>
                         <td className="px-2 sm:px-4 py-2 text-white text-xs sm:text-sm">{renderCell(order, 'weight')}</td>
+                        <td className="px-2 sm:px-4 py-2 text-white text-xs sm:text-sm">{renderCell(order, 'origin')}</td>
                         <td className="px-2 sm:px-4 py-2 text-white text-xs sm:text-sm">{renderCell(order, 'customerReceivedDate')}</td>
                         <td className="px-2 sm:px-4 py-2 text-white text-xs sm:text-sm">{renderCell(order, 'dateDelivered')}</td>
                       </>
@@ -1736,6 +2231,42 @@ export default function OrderManagement() {
                 ) : null}
                 Desarrollo
               </button>
+              <button
+                onClick={handleExportToXlsx}
+                disabled={exportingSheets || exporting}
+                className="px-4 py-2 text-sm bg-green-700 hover:bg-green-800 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                title="Download the Desarrollo form as an Excel file (no Google account needed)"
+              >
+                .xlsx
+              </button>
+              <button
+                onClick={handleExportToPdf}
+                disabled={exportingSheets || exporting}
+                className="px-4 py-2 text-sm bg-green-700 hover:bg-green-800 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                title="Download the Desarrollo form as a print-ready PDF"
+              >
+                PDF
+              </button>
+              <button
+                onClick={handleOpenDucaExport}
+                disabled={exportingSheets || exporting}
+                className="px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                title="Electronic DUCA declaration (XML/JSON) for SIDUNEA"
+              >
+                DUCA
+              </button>
+              <select
+                value=""
+                onChange={(e) => e.target.value && handleBulkStatusChange(e.target.value as OrderStatus)}
+                disabled={changingStatus || exporting || exportingSheets}
+                className="px-3 py-2 text-sm bg-slate-700 border border-slate-600 text-white rounded-lg focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                title="Move the selected orders along the lifecycle"
+              >
+                <option value="">{changingStatus ? 'Updating…' : 'Move to…'}</option>
+                {ORDER_STATUSES.map(status => (
+                  <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
               <button
                 onClick={handleDeleteSelected}
                 disabled={exporting || exportingSheets}
@@ -1748,6 +2279,67 @@ export default function OrderManagement() {
         </div>
       )}
 
+      {/* Order History Modal */}
+      {historyOrderId && currentUser?.organizationId && orders.some(o => o.id === historyOrderId) && (
+        <OrderHistoryPanel
+          organizationId={currentUser.organizationId}
+          order={orders.find(o => o.id === historyOrderId)!}
+          onReverted={(orderId, change) =>
+            setOrders(prev => prev.map(order => order.id === orderId ? { ...order, [change.field]: change.to } : order))
+          }
+          onClose={() => setHistoryOrderId(null)}
+        />
+      )}
+
+      {/* DUCA Export Modal */}
+      {ducaOrders && currentUser?.organizationId && (
+        <DucaExportModal
+          organizationId={currentUser.organizationId}
+          orders={ducaOrders}
+          exportedBy={currentUser.uid}
+          onExported={(fileName) => {
+            toast.success(
+              `Exported ${ducaOrders.length} order${ducaOrders.length !== 1 ? 's' : ''}`,
+              `${fileName} downloaded — load it into SIDUNEA.`
+            );
+            setDucaOrders(null);
+            setSelectedRows(new Set());
+          }}
+          onClose={() => setDucaOrders(null)}
+        />
+      )}
+
+      {/* Desarrollo Import Modal */}
+      {showSheetImport && currentUser?.organizationId && (
+        <DesarrolloImportModal
+          organizationId={currentUser.organizationId}
+          orders={orders}
+          onOrderUpdated={(orderId, updates) =>
+            setOrders(prev => prev.map(order => order.id === orderId ? { ...order, ...updates } : order))
+          }
+          onApplied={(orderCount, changeCount) => {
+            toast.success(
+              `Applied ${changeCount} change${changeCount !== 1 ? 's' : ''} to ${orderCount} order${orderCount !== 1 ? 's' : ''}`,
+              'Each change is in the order history.'
+            );
+            setShowSheetImport(false);
+          }}
+          onClose={() => setShowSheetImport(false)}
+        />
+      )}
+
+      {/* HS Code Review Modal */}
+      {showHsReview && currentUser?.organizationId && (
+        <HsReviewQueue
+          organizationId={currentUser.organizationId}
+          orders={orders}
+          onOrderItemsUpdated={(orderId, items) =>
+            setOrders(prev => prev.map(order => order.id === orderId ? { ...order, items } : order))
+          }
+          onClose={() => setShowHsReview(false)}
+        />
+      )}
+
       {/* Machote Export Modal */}
       {showMachoteModal && (
         <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4" onClick={() => setShowMachoteModal(false)}>
@@ -264,6 +264,14 @@ const PackageList: React.FC<Props> = ({ packages, onPackageUpdated }) => {
                               <span className="text-green-400">${item.unitValue} each</span>
                               <span className="text-yellow-400">Total: ${item.totalValue}</span>
                               {item.hsCode && <span className="text-purple-400">HS: {item.hsCode}</span>}
+                              {pkg.customsDeclaration.dutyLines?.[idx] && (
+                                <span className="text-orange-400">
+                                  DAI {Math.round(pkg.customsDeclaration.dutyLines[idx].rate * 100)}%
+                                  {' '}({pkg.customsDeclaration.dutyLines[idx].matchedCode
+                                    ? `${pkg.customsDeclaration.dutyLines[idx].matchLevel} ${pkg.customsDeclaration.dutyLines[idx].matchedCode}`
+                                    : 'default rate'})
+                                </span>
+                              )}
                             </div>
                           </div>
                         ))}
@@ -278,14 +286,42 @@ const PackageList: React.FC<Props> = ({ packages, onPackageUpdated }) => {
                           <span className="text-slate-400">Declared Value:</span>
                           <span className="text-white">{formatCurrency(pkg.customsDeclaration.declaredValue)}</span>
                         </div>
+                        {pkg.customsDeclaration.cifValue !== undefined && (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-slate-400">Freight:</span>
+                              <span className="text-white">{formatCurrency(pkg.customsDeclaration.freight || 0)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-slate-400">Insurance:</span>
+                              <span className="text-white">{formatCurrency(pkg.customsDeclaration.insurance || 0)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-slate-400">CIF Value:</span>
+                              <span className="text-white">{formatCurrency(pkg.customsDeclaration.cifValue)}</span>
+                            </div>
+                          </>
+                        )}
                         <div className="flex justify-between">
                           <span className="text-slate-400">Import Duty:</span>
                           <span className="text-yellow-400">{formatCurrency(pkg.customsDuty)}</span>
                         </div>
+                        {pkg.customsDeclaration.tariffVersion && (
+                          <div className="flex justify-between">
+                            <span className="text-slate-400">Tariff Table:</span>
+                            <span className="text-slate-300">{pkg.customsDeclaration.tariffVersion}</span>
+                          </div>
+                        )}
                         <div className="flex justify-between">
                           <span className="text-slate-400">VAT (13%):</span>
                           <span className="text-yellow-400">{formatCurrency(pkg.vat)}</span>
                         </div>
+                        {!!pkg.handlingFee && (
+                          <div className="flex justify-between">
+                            <span className="text-slate-400">Handling Fee:</span>
+                            <span className="text-yellow-400">{formatCurrency(pkg.handlingFee)}</span>
+                          </div>
+                        )}
                         <div className="flex justify-between border-t border-slate-600 pt-1 mt-1">
                           <span className="text-white font-semibold">Total Fees:</span>
                           <span className="text-green-400 font-semibold">{formatCurrency(pkg.totalFees)}</span>
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import {
+  getPackageCounterConfig,
+  previewPackageNumber,
+  updatePackageCounterConfig,
+} from '../services/packageNumbering';
+import type { PackageCounterConfig } from '../services/packageNumbering';
+
+const MAX_PREFIX_LENGTH = 20;
+const MAX_PADDING = 8;
+
+/**
+ * Package numbering (owner only): prefix, zero padding and yearly reset of
+ * the organization's counter. Changes apply from the next issued number -
+ * numbers already on orders never change.
+ */
+export default function PackageNumberingPanel() {
+  const [config, setConfig] = useState<PackageCounterConfig | null>(null);
+  const [draft, setDraft] = useState({ prefix: '', padding: 0, resetYearly: false });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    getPackageCounterConfig()
+      .then(loaded => {
+        setConfig(loaded);
+        setDraft({ prefix: loaded.prefix, padding: loaded.padding, resetYearly: loaded.resetYearly });
+      })
+      .catch(error => {
+        console.error('Error loading package numbering:', error);
+        setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load package numbering' });
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const year = new Date().getFullYear();
+  // Same rule the counter applies when it issues the next number
+  const nextSequence = !config
+    ? 1
+    : draft.resetYearly && config.year !== year ? 1 : config.current + 1;
+
+  const handleSave = async () => {
+    if (draft.prefix.length > MAX_PREFIX_LENGTH) {
+      setMessage({ type: 'error', text: `Prefix can be at most ${MAX_PREFIX_LENGTH} characters` });
+      return;
+    }
+    if (!Number.isInteger(draft.padding) || draft.padding < 0 || draft.padding > MAX_PADDING) {
+      setMessage({ type: 'error', text: `Padding must be a whole number from 0 to ${MAX_PADDING}` });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    try {
+      const saved = await updatePackageCounterConfig(draft);
+      setConfig(config ? { ...config, ...saved } : null);
+      setMessage({ type: 'success', text: 'Package numbering saved. It applies from the next issued number.' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save package numbering' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg shadow-lg p-6 border border-slate-700">
+      <h2 className="text-xl font-bold text-white mb-1">Package Numbering</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Web and WhatsApp orders draw from the same counter. Numbers already issued keep their format.
+      </p>
+
+      {loading ? (
+        <p className="text-slate-400 text-sm">Loading numbering…</p>
+      ) : config && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <label className="block">
+              <span className="block text-sm font-medium text-slate-300 mb-2">Prefix</span>
+              <input
+                type="text"
+                value={draft.prefix}
+                maxLength={MAX_PREFIX_LENGTH}
+                onChange={(e) => setDraft({ ...draft, prefix: e.target.value })}
+                placeholder="Paquete #"
+                className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+              />
+              <span className="block text-xs text-slate-500 mt-1">{'{YYYY}'} and {'{YY}'} insert the year</span>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-slate-300 mb-2">Zero padding (digits)</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_PADDING}
+                step={1}
+                value={draft.padding}
+                onChange={(e) => setDraft({ ...draft, padding: parseInt(e.target.value, 10) || 0 })}
+                className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+              />
+            </label>
+            <label className="flex items-center gap-3 md:mt-8 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.resetYearly}
+                onChange={(e) => setDraft({ ...draft, resetYearly: e.target.checked })}
+                className="w-5 h-5 rounded"
+              />
+              <span className="text-slate-300">Restart at 1 every January 1st</span>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-slate-400">
+              Last issued: <span className="font-mono text-slate-200">{config.current || '-'}</span>
+              {' • '}Next: <span className="font-mono text-slate-200">{previewPackageNumber(draft, nextSequence, year)}</span>
+            </p>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white rounded-lg font-medium"
+            >
+              {saving ? 'Saving…' : 'Save Numbering'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {message && (
+        <div className={`mt-4 p-3 rounded-lg text-sm ${
+          message.type === 'success'
+            ? 'bg-green-500/10 border border-green-500/40 text-green-300'
+            : 'bg-red-500/10 border border-red-500/40 text-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,10 @@ import { convertPdfToImages } from '../utils/pdfHelper';
 import { analyzePackagePhoto } from '../services/geminiService';
 import { addPackage, findCustomerByPhone, addCustomer } from '../services/firestoreClient';
 import { calculateDuty, formatCurrency } from '../utils/dutyCalculator';
+import { getActiveTariffTable } from '../services/tariffService';
+import { getValuationSettings } from '../services/valuationService';
+import { itemsWeightLb } from '../utils/customsValuation';
+import { useAuth } from '../contexts/AuthContext';
 import { sendPackageNotification } from '../services/smsService';
 import { addActivityLog } from '../services/firestoreClient';
 import { syncPackageToGoogleSheets } from '../services/googleSheetsService';
@@ -30,6 +34,7 @@ interface ScannedPackage {
 }
 
 const ScanPackage: React.FC<Props> = ({ onPackageAdded }) => {
+  const { currentUser } = useAuth();
   const [scannedPackages, setScannedPackages] = useState<ScannedPackage[]>([]);
   const [analyzing, setAnalyzing] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -74,7 +79,13 @@ const ScanPackage: React.FC<Props> = ({ onPackageAdded }) => {
         const result = await analyzePackagePhoto(base64Image);
 
         const items = result.items;
-        const dutyCalc = calculateDuty(items, 'personal');
+        const dutyCalc = calculateDuty(
+          items,
+          'personal',
+          await getActiveTariffTable(),
+          await getValuationSettings(currentUser?.organizationId),
+          { weightLb: itemsWeightLb(items), courier: result.carrier }
+        );
 
         newPackages.push({
           id: `pkg_${Date.now()}_${i}`,
@@ -137,8 +148,14 @@ const ScanPackage: React.FC<Props> = ({ onPackageAdded }) => {
         customer = { id: customerId, name: pkg.customerName, phone: pkg.customerPhone, email: pkg.customerEmail, createdAt: new Date() };
       }
 
-      // Calculate duties
-      const dutyCalc = calculateDuty(pkg.items, 'personal');
+      // Calculate duties at CIF with the published tariff table and our freight rate card
+      const dutyCalc = calculateDuty(
+        pkg.items,
+        'personal',
+        await getActiveTariffTable(),
+        await getValuationSettings(currentUser?.organizationId),
+        { weightLb: itemsWeightLb(pkg.items), courier: pkg.carrier }
+      );
 
       // Create package
       const packageData = {
@@ -157,12 +174,18 @@ const ScanPackage: React.FC<Props> = ({ onPackageAdded }) => {
           currency: 'USD',
           purpose: 'personal' as const,
           estimatedDuty: dutyCalc.importDuty,
-          estimatedVAT: dutyCalc.vat
+          estimatedVAT: dutyCalc.vat,
+          tariffVersion: dutyCalc.tariffVersion,
+          dutyLines: dutyCalc.lines,
+          freight: dutyCalc.freight,
+          insurance: dutyCalc.insurance,
+          cifValue: dutyCalc.cifValue
         },
         status: pkg.status,
         receivedDate: new Date(),
         customsDuty: dutyCalc.importDuty,
         vat: dutyCalc.vat,
+        handlingFee: dutyCalc.handlingFee,
         totalFees: dutyCalc.totalFees,
         paymentStatus: 'pending' as const,
         notes: pkg.notes
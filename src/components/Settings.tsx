@@ -5,6 +5,11 @@ import { db, auth } from '../services/firebase';
 import { signOut, createUserWithEmailAndPassword, signOut as firebaseSignOut } from 'firebase/auth';
 import type { Organization, User, SubscriptionStatus } from '../types';
 import { initiateOrganizationGoogleOAuth, disconnectOrganizationGoogleAccount } from '../services/googleOAuthService';
+import ValuationSettingsPanel from './ValuationSettingsPanel';
+import ExchangeRatesPanel from './ExchangeRatesPanel';
+import TranslationDictionaryPanel from './TranslationDictionaryPanel';
+import AiUsagePanel from './AiUsagePanel';
+import PackageNumberingPanel from './PackageNumberingPanel';
 
 export default function Settings() {
   const { currentUser } = useAuth();
@@ -969,6 +974,26 @@ export default function Settings() {
         </div>
       )}
 
+      {/* Customs Valuation - Owner Only */}
+      {isOwner && organization && (
+        <ValuationSettingsPanel
+          organization={organization}
+          onSaved={(valuationSettings) => setOrganization({ ...organization, valuationSettings })}
+        />
+      )}
+
+      {/* Package Numbering - Owner Only */}
+      {isOwner && organization && <PackageNumberingPanel />}
+
+      {/* Exchange Rates - Owner Only */}
+      {isOwner && organization && <ExchangeRatesPanel organizationId={organization.id} />}
+
+      {/* Translation Dictionary - Owner Only */}
+      {isOwner && organization && <TranslationDictionaryPanel organizationId={organization.id} />}
+
+      {/* AI Usage */}
+      {organization && <AiUsagePanel />}
+
       {/* Notification Settings */}
       <div className="bg-slate-800 rounded-lg shadow-lg p-6 border border-slate-700">
         <h3 className="text-xl font-semibold text-white mb-4">Notifications</h3>
@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getActiveTariffTable,
+  listTariffVersions,
+  publishTariffTable,
+  setActiveTariffVersion,
+} from '../services/tariffService';
+import {
+  parseTariffCsv,
+  parseTariffJson,
+  tariffRatesToCsv,
+  validateTariffTable,
+} from '../utils/tariffTable';
+import type { TariffRate, TariffTable } from '../types';
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Master admin editor for the SAC / DAI tariff table.
+ * Edits happen on a draft; publishing saves it as a new immutable version.
+ */
+export default function TariffTableEditor() {
+  const { currentUser } = useAuth();
+  const [active, setActive] = useState<TariffTable | null>(null);
+  const [versions, setVersions] = useState<TariffTable[]>([]);
+  const [draft, setDraft] = useState<TariffTable | null>(null);
+  const [filter, setFilter] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = async () => {
+    try {
+      setActive(await getActiveTariffTable(true));
+      setVersions(await listTariffVersions());
+    } catch (error) {
+      console.error('Error loading tariff tables:', error);
+      setErrors([error instanceof Error ? error.message : 'Could not load tariff tables']);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const startDraft = (base: TariffTable) => {
+    setDraft({
+      ...base,
+      version: '',
+      effectiveDate: new Date().toISOString().split('T')[0],
+      rates: base.rates.map(r => ({ ...r })),
+      publishedBy: undefined,
+      publishedAt: undefined,
+    });
+    setErrors([]);
+    setMessage(null);
+  };
+
+  const updateRate = (index: number, changes: Partial<TariffRate>) => {
+    if (!draft) return;
+    setDraft({ ...draft, rates: draft.rates.map((r, i) => (i === index ? { ...r, ...changes } : r)) });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await file.text();
+      if (file.name.toLowerCase().endsWith('.json')) {
+        const imported = parseTariffJson(text);
+        setDraft({ ...imported, effectiveDate: imported.effectiveDate || new Date().toISOString().split('T')[0] });
+      } else {
+        const rates = parseTariffCsv(text);
+        const base = draft || active;
+        setDraft({
+          version: draft?.version || '',
+          effectiveDate: draft?.effectiveDate || new Date().toISOString().split('T')[0],
+          source: `Imported from ${file.name}`,
+          defaultRate: base?.defaultRate ?? 0.15,
+          rates,
+        });
+      }
+      setErrors([]);
+      setMessage(`Loaded ${file.name} into the draft - review and publish.`);
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Could not read file']);
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!draft || !currentUser) return;
+    const problems = validateTariffTable(draft);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setSaving(true);
+    try {
+      await publishTariffTable(draft, currentUser.uid);
+      setMessage(`Published ${draft.version} - new duty quotes use it from now on.`);
+      setDraft(null);
+      await load();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Publish failed']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActivate = async (version: string) => {
+    if (!currentUser || !confirm(`Make ${version} the active tariff table?`)) return;
+    try {
+      await setActiveTariffVersion(version, currentUser.uid);
+      setMessage(`${version} is now active.`);
+      await load();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Could not switch version']);
+    }
+  };
+
+  const shown = draft || active;
+  const rows = (shown?.rates || [])
+    .map((rate, index) => ({ rate, index }))
+    .filter(({ rate }) => !filter || rate.code.startsWith(filter.replace(/\D/g, '')) ||
+      rate.description.toLowerCase().includes(filter.toLowerCase()));
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="text-white font-semibold">
+            {draft ? 'Draft (unpublished)' : `Active: ${active?.version || '…'}`}
+          </div>
+          {!draft && active && (
+            <div className="text-xs text-slate-400">
+              Effective {active.effectiveDate} • {active.rates.length} codes • default {Math.round(active.defaultRate * 100)}%
+              {active.source && ` • ${active.source}`}
+            </div>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <input ref={fileInputRef} type="file" accept=".json,.csv" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+            title="CSV columns: code,description,rate - rate in percent (15 or 15%). JSON rates are fractions (0.15) or '15%' strings"
+          >
+            📥 Import JSON/CSV
+          </button>
+          {active && !draft && (
+            <>
+              <button
+                onClick={() => downloadFile(tariffRatesToCsv(active.rates), `${active.version}.csv`, 'text/csv')}
+                className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+              >
+                📤 CSV
+              </button>
+              <button
+                onClick={() => downloadFile(JSON.stringify(active, null, 2), `${active.version}.json`, 'application/json')}
+                className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+              >
+                📤 JSON
+              </button>
+              <button
+                onClick={() => startDraft(active)}
+                className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
+              >
+                ✏️ Edit as new version
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <div className="bg-green-500/10 border border-green-500/40 rounded-lg px-4 py-2 text-sm text-green-300">{message}</div>
+      )}
+      {errors.length > 0 && (
+        <div className="bg-red-500/10 border border-red-500/40 rounded-lg px-4 py-2 text-sm text-red-300 space-y-1">
+          {errors.slice(0, 10).map((err, i) => <div key={i}>{err}</div>)}
+          {errors.length > 10 && <div>…and {errors.length - 10} more</div>}
+        </div>
+      )}
+
+      {/* Draft metadata */}
+      {draft && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <input
+            value={draft.version}
+            onChange={(e) => setDraft({ ...draft, version: e.target.value.trim() })}
+            placeholder="Version (e.g. SAC-DAI-2026.2)"
+            className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+          />
+          <input
+            type="date"
+            value={draft.effectiveDate}
+            onChange={(e) => setDraft({ ...draft, effectiveDate: e.target.value })}
+            className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+          />
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="0.5"
+            value={Math.round(draft.defaultRate * 10000) / 100}
+            onChange={(e) => setDraft({ ...draft, defaultRate: parseFloat(e.target.value) / 100 })}
+            title="Default DAI % for codes not in the table"
+            className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handlePublish}
+              disabled={saving}
+              className="flex-1 px-3 py-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+            >
+              {saving ? 'Publishing…' : '✅ Publish'}
+            </button>
+            <button
+              onClick={() => { setDraft(null); setErrors([]); }}
+              className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Rates */}
+      <input
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Filter by HS code or description…"
+        className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-400"
+      />
+      <div className="max-h-96 overflow-y-auto border border-slate-700 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-900 text-slate-400 sticky top-0">
+            <tr>
+              <th className="text-left px-3 py-2 w-28">Code</th>
+              <th className="text-left px-3 py-2">Description</th>
+              <th className="text-right px-3 py-2 w-24">DAI %</th>
+              {draft && <th className="w-10" />}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ rate, index }) => (
+              <tr key={index} className="border-t border-slate-700">
+                {draft ? (
+                  <>
+                    <td className="px-3 py-1">
+                      <input
+                        value={rate.code}
+                        onChange={(e) => updateRate(index, { code: e.target.value.replace(/\D/g, '') })}
+                        className="w-full px-2 py-1 bg-slate-700 rounded text-white"
+                      />
+                    </td>
+                    <td className="px-3 py-1">
+                      <input
+                        value={rate.description}
+                        onChange={(e) => updateRate(index, { description: e.target.value })}
+                        className="w-full px-2 py-1 bg-slate-700 rounded text-white"
+                      />
+                    </td>
+                    <td className="px-3 py-1">
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="0.5"
+                        value={Math.round(rate.rate * 10000) / 100}
+                        onChange={(e) => updateRate(index, { rate: parseFloat(e.target.value) / 100 })}
+                        className="w-full px-2 py-1 bg-slate-700 rounded text-white text-right"
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-center">
+                      <button
+                        onClick={() => setDraft({ ...draft, rates: draft.rates.filter((_, i) => i !== index) })}
+                        className="text-red-400 hover:text-red-300"
+                        title="Remove"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </>
+                ) : (
+                  <>
+                    <td className="px-3 py-2 text-purple-300 font-mono">{rate.code}</td>
+                    <td className="px-3 py-2 text-slate-200">{rate.description}</td>
+                    <td className="px-3 py-2 text-right text-yellow-400">{Math.round(rate.rate * 10000) / 100}%</td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {draft && (
+        <button
+          onClick={() => setDraft({ ...draft, rates: [...draft.rates, { code: '', description: '', rate: draft.defaultRate }] })}
+          className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+        >
+          + Add code
+        </button>
+      )}
+
+      {/* Version history */}
+      {versions.length > 0 && (
+        <div>
+          <div className="text-white font-medium mb-2">Published versions</div>
+          <div className="space-y-2">
+            {versions.map(v => (
+              <div key={v.version} className="flex items-center justify-between bg-slate-700/30 border border-slate-600 rounded-lg px-4 py-2 text-sm">
+                <div>
+                  <span className="text-white font-medium">{v.version}</span>
+                  <span className="text-slate-400"> • effective {v.effectiveDate} • {v.rates.length} codes</span>
+                  {v.publishedAt && <span className="text-slate-500"> • published {v.publishedAt.toLocaleDateString()}</span>}
+                </div>
+                {v.version === active?.version ? (
+                  <span className="text-green-400 text-xs">Active</span>
+                ) : (
+                  <button
+                    onClick={() => handleActivate(v.version)}
+                    className="text-blue-400 hover:text-blue-300 text-xs"
+                  >
+                    Activate
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
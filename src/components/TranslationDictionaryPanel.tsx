@@ -0,0 +1,441 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  dismissUntranslatedWords,
+  listDictionaryVersions,
+  listUntranslatedWords,
+  saveDictionaryVersion,
+} from '../services/translationDictionaryService';
+import {
+  BUILTIN_DICTIONARY,
+  EMPTY_DICTIONARY_ENTRIES,
+  dictionaryToCsv,
+  mergeDictionaries,
+  parseDictionaryCsv,
+} from '../utils/translationDictionary';
+import type { DictionaryEntries } from '../utils/translationDictionary';
+import type { TranslationDictionary, UntranslatedWord } from '../types';
+
+interface Props {
+  organizationId: string;
+}
+
+type EntryType = 'word' | 'phrase' | 'keep' | 'flagged';
+
+const TYPE_LABELS: Record<EntryType, string> = {
+  word: 'Word',
+  phrase: 'Phrase',
+  keep: 'Keep as is',
+  flagged: 'Remove',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const entriesOf = (dictionary: TranslationDictionary | null): DictionaryEntries =>
+  dictionary
+    ? { phrases: dictionary.phrases, words: dictionary.words, keepWords: dictionary.keepWords, flaggedWords: dictionary.flaggedWords }
+    : EMPTY_DICTIONARY_ENTRIES;
+
+const entryCount = (entries: DictionaryEntries) =>
+  Object.keys(entries.phrases).length + Object.keys(entries.words).length + entries.keepWords.length + entries.flaggedWords.length;
+
+/**
+ * The organization's English → Spanish terms for export descriptions (owner
+ * only). Entries are edited as a draft and saved as a new version; words
+ * exports left in English are listed underneath to add in one click.
+ */
+export default function TranslationDictionaryPanel({ organizationId }: Props) {
+  const { currentUser } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [versions, setVersions] = useState<TranslationDictionary[]>([]);
+  const [draft, setDraft] = useState<DictionaryEntries>(EMPTY_DICTIONARY_ENTRIES);
+  const [dirty, setDirty] = useState(false);
+  const [untranslated, setUntranslated] = useState<UntranslatedWord[]>([]);
+  const [suggestions, setSuggestions] = useState<Record<string, string>>({});
+  const [newEntry, setNewEntry] = useState<{ type: EntryType; english: string; spanish: string }>({ type: 'word', english: '', spanish: '' });
+  const [note, setNote] = useState('');
+  const [filter, setFilter] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const saved = await listDictionaryVersions(organizationId);
+      setVersions(saved);
+      setDraft(entriesOf(saved[0] || null));
+      setDirty(false);
+      setUntranslated(await listUntranslatedWords(organizationId, mergeDictionaries(BUILTIN_DICTIONARY, saved[0])));
+    } catch (error) {
+      console.error('Error loading translation dictionary:', error);
+      setMessage({ type: 'error', text: 'Failed to load the translation dictionary' });
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const updateDraft = (change: (entries: DictionaryEntries) => DictionaryEntries) => {
+    setDraft(prev => change({
+      phrases: { ...prev.phrases },
+      words: { ...prev.words },
+      keepWords: [...prev.keepWords],
+      flaggedWords: [...prev.flaggedWords],
+    }));
+    setDirty(true);
+  };
+
+  const addEntry = (type: EntryType, rawEnglish: string, rawSpanish = '') => {
+    const english = rawEnglish.replace(/\s+/g, ' ').trim().toUpperCase();
+    const spanish = rawSpanish.replace(/\s+/g, ' ').trim().toUpperCase();
+    if (!english) return false;
+    if ((type === 'word' || type === 'phrase') && !spanish) {
+      setMessage({ type: 'error', text: `Enter the Spanish for ${english}` });
+      return false;
+    }
+    updateDraft(entries => {
+      if (type === 'keep') entries.keepWords = [...new Set([...entries.keepWords, english])];
+      else if (type === 'flagged') entries.flaggedWords = [...new Set([...entries.flaggedWords, english])];
+      else entries[english.includes(' ') ? 'phrases' : 'words'][english] = spanish;
+      return entries;
+    });
+    setMessage(null);
+    return true;
+  };
+
+  const removeEntry = (type: EntryType, english: string) => {
+    updateDraft(entries => {
+      if (type === 'keep') entries.keepWords = entries.keepWords.filter(word => word !== english);
+      else if (type === 'flagged') entries.flaggedWords = entries.flaggedWords.filter(word => word !== english);
+      else delete entries[type === 'phrase' ? 'phrases' : 'words'][english];
+      return entries;
+    });
+  };
+
+  const handleAdd = () => {
+    if (addEntry(newEntry.type, newEntry.english, newEntry.spanish)) {
+      setNewEntry({ ...newEntry, english: '', spanish: '' });
+    }
+  };
+
+  const handleSave = async (entries: DictionaryEntries, versionNote: string) => {
+    if (!currentUser) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const version = await saveDictionaryVersion(organizationId, entries, currentUser.uid, versionNote.trim());
+      setNote('');
+      setMessage({ type: 'success', text: `Saved as version ${version} - new exports use it right away` });
+      await load();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save the dictionary' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = (version: TranslationDictionary) => {
+    if (!confirm(`Save version ${version.version}'s entries as a new version?${dirty ? ' Unsaved changes will be lost.' : ''}`)) return;
+    handleSave(entriesOf(version), `Restored version ${version.version}`);
+  };
+
+  const handleDismiss = async (words: string[]) => {
+    try {
+      await dismissUntranslatedWords(organizationId, words);
+      setUntranslated(prev => prev.filter(entry => !words.includes(entry.word)));
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to dismiss' });
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { entries, errors } = parseDictionaryCsv(await file.text());
+    if (errors.length > 0) {
+      setMessage({ type: 'error', text: `Import cancelled - ${errors.slice(0, 3).join(' • ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}` });
+      return;
+    }
+    const count = entryCount(entries);
+    if (count === 0) {
+      setMessage({ type: 'error', text: 'No entries that differ from the built-in dictionary' });
+      return;
+    }
+    setDraft(entries);
+    setDirty(true);
+    setMessage({ type: 'success', text: `Loaded ${count} entr${count === 1 ? 'y' : 'ies'} - review and save as a new version` });
+  };
+
+  const handleDownload = () => {
+    // The full dictionary, so it can be edited and imported back
+    const merged = mergeDictionaries(BUILTIN_DICTIONARY, { ...BUILTIN_DICTIONARY, ...draft });
+    const blob = new Blob([dictionaryToCsv(merged)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `translation-dictionary-${today()}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const rows = useMemo(() => {
+    const all: { type: EntryType; english: string; spanish: string; overrides: boolean }[] = [
+      ...Object.entries(draft.phrases).map(([english, spanish]) => ({
+        type: 'phrase' as const, english, spanish, overrides: english in BUILTIN_DICTIONARY.phrases,
+      })),
+      ...Object.entries(draft.words).map(([english, spanish]) => ({
+        type: 'word' as const, english, spanish, overrides: english in BUILTIN_DICTIONARY.words,
+      })),
+      ...draft.keepWords.map(english => ({ type: 'keep' as const, english, spanish: '', overrides: false })),
+      ...draft.flaggedWords.map(english => ({ type: 'flagged' as const, english, spanish: '', overrides: false })),
+    ];
+    const search = filter.trim().toUpperCase();
+    return all
+      .filter(row => !search || row.english.includes(search) || row.spanish.includes(search))
+      .sort((a, b) => a.english.localeCompare(b.english));
+  }, [draft, filter]);
+
+  // Words already added to the draft drop out of the report
+  const pendingUntranslated = untranslated.filter(entry =>
+    !(entry.word in draft.words) && !draft.keepWords.includes(entry.word) && !draft.flaggedWords.includes(entry.word));
+
+  const inputClass = 'px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="bg-slate-800 rounded-lg shadow-lg p-6 border border-slate-700">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white mb-1">Translation Dictionary</h2>
+          <p className="text-sm text-slate-400">
+            Spanish terms for item descriptions on customs exports, added to the {entryCount(BUILTIN_DICTIONARY)} built-in ones.
+            {versions[0] ? ` Version ${versions[0].version} in use.` : ' Using the built-in dictionary.'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={saving}
+            className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 text-white rounded-lg"
+            title="CSV columns: type (phrase, word, keep, flagged),english,spanish"
+          >
+            Import CSV
+          </button>
+          <button
+            onClick={handleDownload}
+            className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-500 text-white rounded-lg"
+            title="Built-in and organization entries"
+          >
+            Download CSV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {/* Add entry */}
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">Type</span>
+          <select
+            value={newEntry.type}
+            onChange={(e) => setNewEntry({ ...newEntry, type: e.target.value as EntryType })}
+            className={inputClass}
+          >
+            {(Object.keys(TYPE_LABELS) as EntryType[]).map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">English</span>
+          <input
+            value={newEntry.english}
+            onChange={(e) => setNewEntry({ ...newEntry, english: e.target.value })}
+            placeholder={newEntry.type === 'phrase' ? 'GAMING CHAIR' : 'BLENDER'}
+            className={`${inputClass} w-44`}
+          />
+        </label>
+        {(newEntry.type === 'word' || newEntry.type === 'phrase') && (
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">Spanish</span>
+            <input
+              value={newEntry.spanish}
+              onChange={(e) => setNewEntry({ ...newEntry, spanish: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder={newEntry.type === 'phrase' ? 'SILLA GAMER' : 'LICUADORA'}
+              className={`${inputClass} w-44`}
+            />
+          </label>
+        )}
+        <button
+          onClick={handleAdd}
+          className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium"
+        >
+          Add
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-slate-400 text-sm">Loading dictionary…</p>
+      ) : entryCount(draft) === 0 ? (
+        <p className="text-slate-400 text-sm">No entries of your own yet - exports use the built-in dictionary.</p>
+      ) : (
+        <>
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search entries"
+            className={`${inputClass} w-full mb-2`}
+          />
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="text-slate-400 text-left">
+                <tr>
+                  <th className="py-1">English</th>
+                  <th className="py-1">Spanish</th>
+                  <th className="py-1">Type</th>
+                  <th className="w-10" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {rows.map(row => (
+                  <tr key={`${row.type}:${row.english}`} className="text-slate-200">
+                    <td className="py-1 font-medium">{row.english}</td>
+                    <td className="py-1">{row.spanish || <span className="text-slate-500">—</span>}</td>
+                    <td className="py-1 text-slate-400">
+                      {TYPE_LABELS[row.type]}
+                      {row.overrides && <span className="ml-1 text-amber-300" title="Replaces the built-in translation">(override)</span>}
+                    </td>
+                    <td className="py-1 text-center">
+                      <button onClick={() => removeEntry(row.type, row.english)} className="text-red-400 hover:text-red-300" title="Remove entry">✕</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {/* Save */}
+      {dirty && (
+        <div className="flex flex-wrap items-center gap-3 mt-4">
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What changed (optional)"
+            className={`${inputClass} flex-1 min-w-48`}
+          />
+          <button
+            onClick={() => load()}
+            disabled={saving}
+            className="px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 text-white rounded-lg"
+          >
+            Discard
+          </button>
+          <button
+            onClick={() => handleSave(draft, note)}
+            disabled={saving}
+            className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white rounded-lg font-medium"
+          >
+            {saving ? 'Saving…' : `Save as version ${(versions[0]?.version || 0) + 1}`}
+          </button>
+        </div>
+      )}
+
+      {/* Untranslated words from exports */}
+      {pendingUntranslated.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-white mb-1">Left in English on exports</h3>
+          <p className="text-xs text-slate-400 mb-2">
+            Add a translation, keep brand names as they are, or dismiss. Added words go into the draft above.
+          </p>
+          <div className="max-h-60 overflow-y-auto">
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-slate-700">
+                {pendingUntranslated.map(entry => (
+                  <tr key={entry.word} className="text-slate-200">
+                    <td className="py-1 font-medium">{entry.word}</td>
+                    <td className="py-1 text-slate-400 text-xs">
+                      {entry.count} export{entry.count === 1 ? '' : 's'} · {entry.lastSeenAt.toLocaleDateString()}
+                    </td>
+                    <td className="py-1">
+                      <input
+                        value={suggestions[entry.word] || ''}
+                        onChange={(e) => setSuggestions({ ...suggestions, [entry.word]: e.target.value })}
+                        onKeyDown={(e) => e.key === 'Enter' && addEntry('word', entry.word, suggestions[entry.word])}
+                        placeholder="Spanish"
+                        className={`${inputClass} py-1 w-36`}
+                      />
+                    </td>
+                    <td className="py-1 text-right whitespace-nowrap space-x-2">
+                      <button
+                        onClick={() => addEntry('word', entry.word, suggestions[entry.word])}
+                        className="text-blue-400 hover:text-blue-300"
+                      >
+                        Add
+                      </button>
+                      <button onClick={() => addEntry('keep', entry.word)} className="text-slate-300 hover:text-white" title="Brand or model name - leave as is">
+                        Keep
+                      </button>
+                      <button onClick={() => handleDismiss([entry.word])} className="text-red-400 hover:text-red-300">
+                        Dismiss
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Version history */}
+      {versions.length > 0 && (
+        <div className="mt-6">
+          <button onClick={() => setShowHistory(!showHistory)} className="text-sm text-slate-300 hover:text-white">
+            {showHistory ? '▾' : '▸'} Version history ({versions.length})
+          </button>
+          {showHistory && (
+            <ul className="mt-2 divide-y divide-slate-700 text-sm">
+              {versions.map((version, i) => (
+                <li key={version.version} className="py-2 flex items-center gap-3 text-slate-200">
+                  <span className="font-medium w-10">v{version.version}</span>
+                  <span className="text-slate-400 text-xs">
+                    {version.updatedAt?.toLocaleString() || '—'} · {entryCount(version)} entries
+                  </span>
+                  {version.note && <span className="text-slate-300 text-xs truncate">{version.note}</span>}
+                  {i === 0 ? (
+                    <span className="ml-auto text-xs text-green-400">In use</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRestore(version)}
+                      disabled={saving}
+                      className="ml-auto text-xs text-blue-400 hover:text-blue-300"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <div className={`mt-4 p-3 rounded-lg text-sm ${
+          message.type === 'success'
+            ? 'bg-green-500/10 border border-green-500/40 text-green-300'
+            : 'bg-red-500/10 border border-red-500/40 text-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { saveValuationSettings, validateValuationSettings } from '../services/valuationService';
+import { DEFAULT_VALUATION_SETTINGS } from '../utils/customsValuation';
+import type { CourierRateCard, FreightBand, Organization, ValuationSettings } from '../types';
+
+interface Props {
+  organization: Organization;
+  onSaved?: (settings: ValuationSettings) => void;
+}
+
+const parseOptional = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : parseFloat(value);
+
+/**
+ * Customs valuation settings (owner only): freight rate cards by courier and
+ * weight band, presumed insurance and the per-package handling fee.
+ */
+export default function ValuationSettingsPanel({ organization, onSaved }: Props) {
+  const { currentUser } = useAuth();
+  const [settings, setSettings] = useState<ValuationSettings>(() => ({
+    ...DEFAULT_VALUATION_SETTINGS,
+    ...organization.valuationSettings,
+    rateCards: organization.valuationSettings?.rateCards || [],
+  }));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const updateCard = (index: number, changes: Partial<CourierRateCard>) => {
+    setSettings({
+      ...settings,
+      rateCards: settings.rateCards.map((card, i) => (i === index ? { ...card, ...changes } : card)),
+    });
+  };
+
+  const updateBand = (cardIndex: number, bandIndex: number, changes: Partial<FreightBand>) => {
+    const card = settings.rateCards[cardIndex];
+    updateCard(cardIndex, {
+      bands: card.bands.map((band, i) => (i === bandIndex ? { ...band, ...changes } : band)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!currentUser) return;
+    const errors = validateValuationSettings(settings);
+    if (errors.length > 0) {
+      setMessage({ type: 'error', text: errors.join(' • ') });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    try {
+      await saveValuationSettings(organization.id, settings, currentUser.uid);
+      setMessage({ type: 'success', text: 'Valuation settings saved. New duty quotes and Desarrollo exports use them.' });
+      onSaved?.(settings);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg shadow-lg p-6 border border-slate-700">
+      <h2 className="text-xl font-bold text-white mb-1">Customs Valuation</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Customs values each package at CIF (declared value + freight + insurance). DAI and 13% IVA are charged on CIF.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <label className="block">
+          <span className="block text-sm font-medium text-slate-300 mb-2">Insurance (% of declared value)</span>
+          <input
+            type="number"
+            min={0}
+            step="0.1"
+            value={Math.round(settings.insuranceRate * 10000) / 100}
+            onChange={(e) => setSettings({ ...settings, insuranceRate: (parseFloat(e.target.value) || 0) / 100 })}
+            className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+          />
+        </label>
+        <label className="block">
+          <span className="block text-sm font-medium text-slate-300 mb-2">Handling fee per package ($)</span>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={settings.handlingFee}
+            onChange={(e) => setSettings({ ...settings, handlingFee: parseFloat(e.target.value) || 0 })}
+            className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+          />
+        </label>
+        <label className="block">
+          <span className="block text-sm font-medium text-slate-300 mb-2">Default courier</span>
+          <select
+            value={settings.defaultCourier || ''}
+            onChange={(e) => setSettings({ ...settings, defaultCourier: e.target.value || undefined })}
+            className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+          >
+            <option value="">First rate card</option>
+            {settings.rateCards.map(card => (
+              <option key={card.courier} value={card.courier}>{card.courier}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Rate cards */}
+      <div className="space-y-4">
+        {settings.rateCards.map((card, cardIndex) => (
+          <div key={cardIndex} className="bg-slate-700/30 border border-slate-600 rounded-lg p-4">
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <input
+                value={card.courier}
+                onChange={(e) => updateCard(cardIndex, { courier: e.target.value })}
+                placeholder="Courier (e.g. USPS)"
+                className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+              />
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={card.minimumCharge ?? ''}
+                onChange={(e) => updateCard(cardIndex, { minimumCharge: parseOptional(e.target.value) })}
+                placeholder="Minimum charge $"
+                className="w-40 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+              />
+              <button
+                onClick={() => setSettings({ ...settings, rateCards: settings.rateCards.filter((_, i) => i !== cardIndex) })}
+                className="ml-auto text-red-400 hover:text-red-300 text-sm"
+              >
+                Remove courier
+              </button>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="text-left py-1">Up to (lb)</th>
+                  <th className="text-left py-1">Rate per lb ($)</th>
+                  <th className="text-left py-1">or flat rate ($)</th>
+                  <th className="w-10" />
+                </tr>
+              </thead>
+              <tbody>
+                {card.bands.map((band, bandIndex) => (
+                  <tr key={bandIndex}>
+                    {(['maxWeightLb', 'ratePerLb', 'flatRate'] as const).map(field => (
+                      <td key={field} className="pr-2 py-1">
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={band[field] ?? ''}
+                          onChange={(e) => updateBand(cardIndex, bandIndex, { [field]: parseOptional(e.target.value) })}
+                          className="w-full px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white"
+                        />
+                      </td>
+                    ))}
+                    <td className="text-center">
+                      <button
+                        onClick={() => updateCard(cardIndex, { bands: card.bands.filter((_, i) => i !== bandIndex) })}
+                        className="text-red-400 hover:text-red-300"
+                        title="Remove band"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              onClick={() => updateCard(cardIndex, {
+                bands: [...card.bands, { maxWeightLb: (card.bands[card.bands.length - 1]?.maxWeightLb || 0) + 5, ratePerLb: 0 }],
+              })}
+              className="mt-2 text-blue-400 hover:text-blue-300 text-sm"
+            >
+              + Add weight band
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-4">
+        <button
+          onClick={() => setSettings({
+            ...settings,
+            rateCards: [...settings.rateCards, { courier: '', bands: [{ maxWeightLb: 5, ratePerLb: 0 }] }],
+          })}
+          className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-lg text-sm"
+        >
+          + Add courier rate card
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white rounded-lg font-medium"
+        >
+          {saving ? 'Saving…' : 'Save Valuation Settings'}
+        </button>
+      </div>
+
+      {message && (
+        <div className={`mt-4 p-3 rounded-lg text-sm ${
+          message.type === 'success'
+            ? 'bg-green-500/10 border border-green-500/40 text-green-300'
+            : 'bg-red-500/10 border border-red-500/40 text-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
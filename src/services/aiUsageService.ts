@@ -0,0 +1,40 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+import type { AiUsageSummary } from '../types';
+
+/**
+ * Monthly AI extraction usage, read through the `aiUsageApi` Cloud Function so
+ * the numbers match what the server enforces (the organization document can
+ * still hold last month's counters until the first extraction of the month).
+ */
+
+const callAiUsageApi = async <T>(payload: Record<string, unknown>): Promise<T> => {
+  if (!functions) {
+    throw new Error('Firebase Functions not initialized');
+  }
+  const call = httpsCallable<Record<string, unknown>, T>(functions, 'aiUsageApi');
+  const result = await call(payload);
+  return result.data;
+};
+
+/**
+ * The signed-in user's organization
+ */
+export const getAiUsage = async (): Promise<AiUsageSummary> => {
+  const { usage } = await callAiUsageApi<{ usage: AiUsageSummary }>({});
+  return usage;
+};
+
+/**
+ * Every organization, heaviest users first (master admins only)
+ */
+export const listAiUsage = async (): Promise<AiUsageSummary[]> => {
+  const { organizations } = await callAiUsageApi<{ organizations: AiUsageSummary[] }>({ all: true });
+  return organizations;
+};
+
+/**
+ * Share of the hard limit (or the soft limit when there is no cap) used, 0-1+
+ */
+export const aiUsageRatio = (usage: AiUsageSummary): number =>
+  usage.used / (usage.hardLimit ?? usage.softLimit);
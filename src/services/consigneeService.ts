@@ -0,0 +1,232 @@
+import {
+  addDoc,
+  arrayUnion,
+  collection,
+  doc,
+  documentId,
+  getDocs,
+  query,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { addAuditEntries } from './orderAuditService';
+import type { AuditActor } from './orderAuditService';
+import { autoLinkConsignee, normalizeConsigneeName } from '../utils/consigneeMatching';
+import type { Consignee } from '../types';
+import type { OrderRow } from '../components/OrderManagement';
+
+/**
+ * Consignee directory - organizations/{orgId}/consignees
+ *
+ * Orders keep their `consignee` text and point at a directory entry through
+ * `consigneeId`. WhatsApp orders are linked server-side
+ * (functions/src/services/consigneeDirectory.ts); the bulk uploader links
+ * through resolveConsignee below.
+ */
+
+export type ConsigneeInput = Omit<Consignee, 'id' | 'createdAt' | 'updatedAt' | 'createdBy'>;
+
+export interface ConsigneeTotals {
+  orderCount: number;
+  totalValue: number;
+  lastOrderDate?: string;
+}
+
+const consigneesRef = (organizationId: string) => collection(db, 'organizations', organizationId, 'consignees');
+
+// Firestore rejects undefined - leave blank optional fields out
+const withoutEmpty = (input: Partial<ConsigneeInput>) =>
+  Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined && value !== ''));
+
+export const listConsignees = async (organizationId: string): Promise<Consignee[]> => {
+  const snapshot = await getDocs(consigneesRef(organizationId));
+  return snapshot.docs
+    .map(d => ({
+      id: d.id,
+      ...d.data(),
+      nameVariants: d.data().nameVariants || [],
+      createdAt: d.data().createdAt?.toDate?.() || new Date(),
+      updatedAt: d.data().updatedAt?.toDate?.(),
+    } as Consignee))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createConsignee = async (
+  organizationId: string,
+  input: ConsigneeInput,
+  createdBy: string
+): Promise<Consignee> => {
+  const data = { ...withoutEmpty(input), name: input.name.trim(), nameVariants: input.nameVariants || [] };
+  const createdAt = new Date();
+  const ref = await addDoc(consigneesRef(organizationId), { ...data, createdAt, createdBy });
+  return { ...data, id: ref.id, createdAt, createdBy } as Consignee;
+};
+
+export const updateConsignee = async (
+  organizationId: string,
+  consigneeId: string,
+  updates: Partial<ConsigneeInput>
+): Promise<void> => {
+  await updateDoc(doc(consigneesRef(organizationId), consigneeId), { ...updates, updatedAt: new Date() });
+};
+
+/**
+ * Directory entry for a typed name: a clear match (remembering the spelling
+ * as a variant), or a new entry when nothing matches
+ */
+export const resolveConsignee = async (
+  organizationId: string,
+  typedName: string,
+  directory: Consignee[],
+  createdBy: string
+): Promise<{ consignee: Consignee; outcome: 'matched' | 'created' }> => {
+  const name = typedName.trim();
+  const match = autoLinkConsignee(name, directory);
+  if (!match) {
+    return { consignee: await createConsignee(organizationId, { name, nameVariants: [] }, createdBy), outcome: 'created' };
+  }
+
+  const { consignee } = match;
+  const known = [consignee.name, ...consignee.nameVariants]
+    .some(candidate => normalizeConsigneeName(candidate) === normalizeConsigneeName(name));
+  if (!known) {
+    await updateDoc(doc(consigneesRef(organizationId), consignee.id), {
+      nameVariants: arrayUnion(name),
+      updatedAt: new Date(),
+    });
+    consignee.nameVariants = [...consignee.nameVariants, name];
+  }
+  return { consignee, outcome: 'matched' };
+};
+
+export const loadConsigneeOrders = async (organizationId: string, consigneeId: string): Promise<OrderRow[]> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'organizations', organizationId, 'orders'),
+    where('consigneeId', '==', consigneeId)
+  ));
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data(), createdAt: d.data().createdAt?.toDate?.() || new Date() } as OrderRow))
+    .sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+};
+
+/**
+ * Order count, declared value and latest order date per consignee ID
+ */
+export const summarizeConsigneeOrders = (orders: Array<Pick<OrderRow, 'consigneeId' | 'value' | 'date'>>) => {
+  const totals = new Map<string, ConsigneeTotals>();
+  for (const order of orders) {
+    if (!order.consigneeId) continue;
+    const entry = totals.get(order.consigneeId) || { orderCount: 0, totalValue: 0 };
+    entry.orderCount++;
+    entry.totalValue += order.value || 0;
+    if (order.date && (!entry.lastOrderDate || order.date > entry.lastOrderDate)) entry.lastOrderDate = order.date;
+    totals.set(order.consigneeId, entry);
+  }
+  return totals;
+};
+
+/**
+ * Link orders created before the directory (or typed too differently to
+ * auto-link at import) to the entry their consignee clearly matches.
+ * Orders without a clear match are left for a person to link.
+ */
+export const linkUnlinkedOrders = async (
+  organizationId: string,
+  directory: Consignee[]
+): Promise<{ linked: number; unmatched: number }> => {
+  const snapshot = await getDocs(collection(db, 'organizations', organizationId, 'orders'));
+  const unlinked = snapshot.docs.filter(d => !d.data().consigneeId && d.data().consignee);
+
+  let linked = 0;
+  let batch = writeBatch(db);
+  let pending = 0;
+  for (const orderDoc of unlinked) {
+    const match = autoLinkConsignee(orderDoc.data().consignee, directory);
+    if (!match) continue;
+    batch.update(orderDoc.ref, { consigneeId: match.consignee.id });
+    linked++;
+    // Firestore batches hold at most 500 writes
+    if (++pending === 450) {
+      await batch.commit();
+      batch = writeBatch(db);
+      pending = 0;
+    }
+  }
+  if (pending > 0) await batch.commit();
+
+  return { linked, unmatched: unlinked.length - linked };
+};
+
+/**
+ * consigneeId → entry, for exports
+ */
+export const loadConsigneeIndex = async (organizationId: string): Promise<Map<string, Consignee>> =>
+  new Map((await listConsignees(organizationId)).map(consignee => [consignee.id, consignee]));
+
+/**
+ * Fold `sources` into `target`: their names become variants, identity data
+ * the target lacks is copied over, every order pointing at a source (plus
+ * `orderIds`) is relinked to the target with an audit entry, and the sources
+ * are deleted. Deleting entries is owner-only in the rules.
+ */
+export const mergeConsignees = async (
+  organizationId: string,
+  target: Consignee,
+  sources: Consignee[],
+  actor: AuditActor,
+  orderIds: string[] = [],
+  extraNames: string[] = []
+): Promise<void> => {
+  const known = new Set([target.name, ...target.nameVariants].map(normalizeConsigneeName));
+  const variants: string[] = [];
+  for (const name of [...sources.flatMap(source => [source.name, ...source.nameVariants]), ...extraNames]) {
+    const key = normalizeConsigneeName(name);
+    if (!key || known.has(key)) continue;
+    known.add(key);
+    variants.push(name.trim());
+  }
+
+  const identity: Partial<ConsigneeInput> = {};
+  for (const field of ['phone', 'dui', 'nit', 'address'] as const) {
+    const value = target[field] || sources.find(source => source[field])?.[field];
+    if (value && !target[field]) identity[field] = value;
+  }
+
+  const sourceIds = sources.map(source => source.id).filter(id => id !== target.id);
+  const ordersRef = collection(db, 'organizations', organizationId, 'orders');
+  const linkedTo = new Map<string, string | null>(); // orderId → consigneeId before the merge
+  // `in` takes at most 30 values
+  for (let i = 0; i < sourceIds.length; i += 30) {
+    const snapshot = await getDocs(query(ordersRef, where('consigneeId', 'in', sourceIds.slice(i, i + 30))));
+    snapshot.docs.forEach(d => linkedTo.set(d.id, d.data().consigneeId ?? null));
+  }
+  const unread = orderIds.filter(id => !linkedTo.has(id));
+  for (let i = 0; i < unread.length; i += 30) {
+    const snapshot = await getDocs(query(ordersRef, where(documentId(), 'in', unread.slice(i, i + 30))));
+    snapshot.docs.forEach(d => linkedTo.set(d.id, d.data().consigneeId ?? null));
+  }
+
+  // Two writes per order (update + audit entry), under the 500-write batch limit
+  const relinked = [...linkedTo].filter(([, from]) => from !== target.id);
+  for (let i = 0; i < relinked.length; i += 200) {
+    const batch = writeBatch(db);
+    const at = new Date();
+    relinked.slice(i, i + 200).forEach(([orderId, from]) => {
+      batch.update(doc(ordersRef, orderId), { consigneeId: target.id, updatedAt: at });
+      addAuditEntries(batch, organizationId, orderId, [{ field: 'consigneeId', from, to: target.id }], actor, 'consignee-merge', at);
+    });
+    await batch.commit();
+  }
+
+  // Entries go last so a failed relink never leaves orders pointing at a deleted entry
+  const batch = writeBatch(db);
+  batch.update(doc(consigneesRef(organizationId), target.id), {
+    ...identity,
+    ...(variants.length > 0 ? { nameVariants: arrayUnion(...variants) } : {}),
+    updatedAt: new Date(),
+  });
+  sourceIds.forEach(id => batch.delete(doc(consigneesRef(organizationId), id)));
+  await batch.commit();
+};
@@ -0,0 +1,133 @@
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import ExcelJS from 'exceljs';
+import { db } from './firebase';
+import { getValidAccessToken } from './orderExportService';
+import { loadConsigneeIndex } from './consigneeService';
+import { getTranslationDictionary } from './translationDictionaryService';
+import { updateOrderWithAudit } from './orderAuditService';
+import type { AuditActor } from './orderAuditService';
+import {
+  applySheetChanges,
+  diffSheetAgainstOrders,
+  parseDesarrolloSheets,
+  readWorkbookGrids,
+} from '../utils/desarrolloImport';
+import type { SheetChange, SheetGrid, SheetImportResult } from '../utils/desarrolloImport';
+import type { OrderRow } from '../components/OrderManagement';
+
+/**
+ * Desarrollo Import Service
+ * Reads a corrected Desarrollo form back - from Google Sheets or an uploaded
+ * .xlsx - and applies the changes the user approves to the orders, each one
+ * recorded in the order's audit trail as a sheet import.
+ */
+
+export interface SheetExportRecord {
+  spreadsheetId: string;
+  sheetUrl: string;
+  orderCount: number;
+  exportedAt: Date;
+}
+
+/**
+ * Google Sheets this organization exported, newest first
+ */
+export const listRecentSheetExports = async (organizationId: string, max = 10): Promise<SheetExportRecord[]> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'exportHistory'),
+    where('organizationId', '==', organizationId),
+    where('type', '==', 'desarrollo'),
+  ));
+  return snapshot.docs
+    .map(d => ({
+      spreadsheetId: d.data().spreadsheetId,
+      sheetUrl: d.data().sheetUrl,
+      orderCount: d.data().orderCount || 0,
+      exportedAt: d.data().exportedAt?.toDate?.() || new Date(0),
+    }))
+    .filter(record => record.spreadsheetId)
+    .sort((a, b) => b.exportedAt.getTime() - a.exportedAt.getTime())
+    .slice(0, max);
+};
+
+/**
+ * Spreadsheet ID from a Google Sheets URL, or the ID itself
+ */
+export const spreadsheetIdFromUrl = (input: string): string | null => {
+  const trimmed = input.trim();
+  const match = trimmed.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+  if (match) return match[1];
+  return /^[a-zA-Z0-9_-]{20,}$/.test(trimmed) ? trimmed : null;
+};
+
+/**
+ * Every tab of a Google Sheet as raw values (formulas evaluated by Sheets)
+ */
+export const readGoogleSheetGrids = async (organizationId: string, spreadsheetId: string): Promise<SheetGrid[]> => {
+  const accessToken = await getValidAccessToken(organizationId);
+  const headers = { Authorization: `Bearer ${accessToken}` };
+  const base = `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`;
+
+  const metaResponse = await fetch(`${base}?fields=sheets.properties.title`, { headers });
+  if (!metaResponse.ok) {
+    const error = await metaResponse.json().catch(() => ({}));
+    throw new Error(error.error?.message || 'Could not open the Google Sheet');
+  }
+  const meta = await metaResponse.json();
+  const titles: string[] = (meta.sheets || []).map((sheet: { properties: { title: string } }) => sheet.properties.title);
+  if (titles.length === 0) return [];
+
+  const params = new URLSearchParams({ valueRenderOption: 'UNFORMATTED_VALUE' });
+  for (const title of titles) params.append('ranges', `'${title.replace(/'/g, "''")}'!A1:K`);
+  const valuesResponse = await fetch(`${base}/values:batchGet?${params}`, { headers });
+  if (!valuesResponse.ok) {
+    const error = await valuesResponse.json().catch(() => ({}));
+    throw new Error(error.error?.message || 'Could not read the Google Sheet');
+  }
+  const { valueRanges } = await valuesResponse.json();
+  return titles.map((name, i) => ({ name, rows: valueRanges?.[i]?.values || [] }));
+};
+
+/**
+ * Every worksheet of an uploaded .xlsx
+ */
+export const readXlsxGrids = async (file: File): Promise<SheetGrid[]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  return readWorkbookGrids(workbook);
+};
+
+/**
+ * Match the form's customer blocks to `orders` and list what changed
+ */
+export const diffImportedSheet = async (
+  organizationId: string,
+  grids: SheetGrid[],
+  orders: OrderRow[],
+): Promise<SheetImportResult> => {
+  const blocks = parseDesarrolloSheets(grids);
+  if (blocks.length === 0) {
+    throw new Error('No Desarrollo customer rows found - is this a Desarrollo export?');
+  }
+  const [consignees, dictionary] = await Promise.all([
+    loadConsigneeIndex(organizationId),
+    getTranslationDictionary(organizationId),
+  ]);
+  return diffSheetAgainstOrders(blocks, orders, consignees, dictionary);
+};
+
+/**
+ * Apply the approved changes to one order. Returns the fields written.
+ */
+export const applyImportedChanges = async (
+  organizationId: string,
+  order: OrderRow,
+  approved: SheetChange[],
+  actor: AuditActor,
+): Promise<Partial<OrderRow>> => {
+  const updates = applySheetChanges(order, approved);
+  if (Object.keys(updates).length > 0) {
+    await updateOrderWithAudit(organizationId, order.id, order, updates, actor, 'sheet-import');
+  }
+  return updates;
+};
@@ -0,0 +1,108 @@
+import { addDoc, collection, doc, getDoc } from 'firebase/firestore';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { db, storage } from './firebase';
+import { loadDesarrolloContext } from './orderExcelExportService';
+import { recordUntranslatedWords } from './translationDictionaryService';
+import { buildDesarrolloDocument } from '../utils/desarrolloLayout';
+import type { DesarrolloDocument, ExportProfile } from '../utils/desarrolloLayout';
+import { renderDesarrolloPdf } from '../utils/desarrolloPdf';
+import type { OrderRow } from '../components/OrderManagement';
+import type { Organization } from '../types';
+import { countOrderStatuses } from '../utils/orderLifecycle';
+
+/**
+ * Desarrollo PDF Export Service
+ * The print-ready PDF of the Desarrollo form (utils/desarrolloPdf), downloaded
+ * from Order Management or uploaded to Storage for a WhatsApp /export pdf.
+ */
+
+const recordExport = async (
+  organizationId: string,
+  orders: OrderRow[],
+  document: DesarrolloDocument,
+  exportedBy: string | undefined,
+  details: Record<string, unknown>,
+) => {
+  try {
+    const orgSnap = await getDoc(doc(db, 'organizations', organizationId));
+    const org = orgSnap.data() as Organization | undefined;
+    await addDoc(collection(db, 'exportHistory'), {
+      ...details,
+      organizationId,
+      organizationName: org?.organizationName || '',
+      orderCount: orders.length,
+      orderStatuses: countOrderStatuses(orders),
+      customerNames: document.customerNames,
+      totalValue: document.grandTotalValue,
+      dictionaryVersion: document.dictionaryVersion,
+      untranslatedWords: document.untranslatedWords,
+      exportedBy: exportedBy || 'unknown',
+      exportedAt: new Date(),
+      type: 'desarrollo-pdf',
+    });
+  } catch (historyError) {
+    console.warn('Failed to save export history:', historyError);
+  }
+  await recordUntranslatedWords(organizationId, document.untranslatedWords);
+};
+
+const buildPdf = async (orders: OrderRow[], organizationId: string, profile?: ExportProfile) => {
+  const { valuation, consignees, dictionary } = await loadDesarrolloContext(orders, organizationId);
+  const document = buildDesarrolloDocument(orders, valuation, consignees, profile, dictionary);
+  return { document, bytes: await renderDesarrolloPdf(document) };
+};
+
+const pdfFileName = (orders: OrderRow[]) =>
+  `Desarrollo_${new Date().toISOString().split('T')[0]}_${orders.length}orders.pdf`;
+
+/**
+ * Build the Desarrollo PDF for `orders` and download it
+ */
+export const exportOrdersToPdf = async (
+  orders: OrderRow[],
+  organizationId: string,
+  exportedBy?: string,
+  profile?: ExportProfile,
+): Promise<{ success: boolean; fileName?: string; untranslatedWords?: string[]; error?: string }> => {
+  try {
+    if (!orders || orders.length === 0) {
+      return { success: false, error: 'No orders to export' };
+    }
+
+    const { document, bytes } = await buildPdf(orders, organizationId, profile);
+    const fileName = pdfFileName(orders);
+    const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'application/pdf' }));
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    await recordExport(organizationId, orders, document, exportedBy, { fileName });
+    return { success: true, fileName, untranslatedWords: document.untranslatedWords };
+  } catch (error) {
+    console.error('PDF export failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' };
+  }
+};
+
+/**
+ * Build the Desarrollo PDF and store it where Twilio can fetch it for a
+ * WhatsApp attachment. Returns the download URL.
+ */
+export const uploadOrdersPdf = async (
+  orders: OrderRow[],
+  organizationId: string,
+  requestId: string,
+  exportedBy?: string,
+  profile?: ExportProfile,
+): Promise<string> => {
+  const { document, bytes } = await buildPdf(orders, organizationId, profile);
+  const fileName = pdfFileName(orders);
+  const storageRef = ref(storage, `exports/org_${organizationId}/${requestId}/${fileName}`);
+  await uploadBytes(storageRef, bytes, { contentType: 'application/pdf' });
+  const pdfUrl = await getDownloadURL(storageRef);
+
+  await recordExport(organizationId, orders, document, exportedBy, { fileName, pdfUrl });
+  return pdfUrl;
+};
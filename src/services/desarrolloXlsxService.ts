@@ -0,0 +1,77 @@
+import { addDoc, collection, doc, getDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { loadDesarrolloContext } from './orderExcelExportService';
+import { recordUntranslatedWords } from './translationDictionaryService';
+import { buildDesarrolloDocument } from '../utils/desarrolloLayout';
+import type { ExportProfile } from '../utils/desarrolloLayout';
+import { writeDesarrolloWorkbook } from '../utils/desarrolloXlsx';
+import type { OrderRow } from '../components/OrderManagement';
+import type { Organization } from '../types';
+import { countOrderStatuses } from '../utils/orderLifecycle';
+
+/**
+ * Desarrollo .xlsx Export Service
+ * Downloads the CONTROL/Desarrollo form as an Excel file built in the browser
+ * (utils/desarrolloXlsx), for organizations without a connected Google account.
+ */
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = window.document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Build the Desarrollo form for `orders` and download it as .xlsx
+ */
+export const exportOrdersToXlsx = async (
+  orders: OrderRow[],
+  organizationId: string,
+  exportedBy?: string,
+  profile?: ExportProfile,
+): Promise<{ success: boolean; fileName?: string; untranslatedWords?: string[]; error?: string }> => {
+  try {
+    if (!orders || orders.length === 0) {
+      return { success: false, error: 'No orders to export' };
+    }
+
+    const { valuation, consignees, dictionary } = await loadDesarrolloContext(orders, organizationId);
+    const document = buildDesarrolloDocument(orders, valuation, consignees, profile, dictionary);
+    const buffer = await writeDesarrolloWorkbook(document).xlsx.writeBuffer();
+
+    const timestamp = new Date().toISOString().split('T')[0];
+    const fileName = `Desarrollo_${timestamp}_${orders.length}orders.xlsx`;
+    downloadBlob(new Blob([buffer], { type: XLSX_MIME }), fileName);
+
+    try {
+      const orgSnap = await getDoc(doc(db, 'organizations', organizationId));
+      const org = orgSnap.data() as Organization | undefined;
+      await addDoc(collection(db, 'exportHistory'), {
+        fileName, organizationId,
+        organizationName: org?.organizationName || '',
+        orderCount: orders.length,
+        orderStatuses: countOrderStatuses(orders),
+        customerNames: document.customerNames,
+        totalValue: document.grandTotalValue,
+        dictionaryVersion: document.dictionaryVersion,
+        untranslatedWords: document.untranslatedWords,
+        exportedBy: exportedBy || 'unknown',
+        exportedAt: new Date(),
+        type: 'desarrollo-xlsx',
+      });
+    } catch (historyError) {
+      console.warn('Failed to save export history:', historyError);
+    }
+    await recordUntranslatedWords(organizationId, document.untranslatedWords);
+
+    return { success: true, fileName, untranslatedWords: document.untranslatedWords };
+  } catch (error) {
+    console.error('XLSX export failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' };
+  }
+};
@@ -0,0 +1,98 @@
+import { addDoc, collection, doc, getDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { loadDesarrolloContext } from './orderExcelExportService';
+import { buildDucaDeclaration, ducaToJson, ducaToXml } from '../utils/ducaDeclaration';
+import type { DucaFormat, DucaOptions } from '../utils/ducaDeclaration';
+import type { ValuationContext } from '../utils/desarrolloLayout';
+import type { OrderRow } from '../components/OrderManagement';
+import type { Consignee, Organization, TranslationDictionary } from '../types';
+import { countOrderStatuses } from '../utils/orderLifecycle';
+
+/**
+ * DUCA Export Service
+ * Downloads the electronic declaration (utils/ducaDeclaration) for loading
+ * into SIDUNEA. The context is loaded once so the export dialog can validate
+ * as the user changes options.
+ */
+
+export interface DucaContext {
+  valuation: ValuationContext;
+  consignees: Map<string, Consignee>;
+  dictionary: TranslationDictionary;
+  organizationName: string;
+}
+
+/**
+ * Valuation, consignee directory, translation dictionary and organization name for `orders`. Throws
+ * like the Desarrollo exports when orders are unconverted or unreviewed.
+ */
+export const loadDucaContext = async (orders: OrderRow[], organizationId: string): Promise<DucaContext> => {
+  const [{ valuation, consignees, dictionary }, orgSnap] = await Promise.all([
+    loadDesarrolloContext(orders, organizationId),
+    getDoc(doc(db, 'organizations', organizationId)),
+  ]);
+  const org = orgSnap.data() as Organization | undefined;
+  return { valuation, consignees, dictionary, organizationName: org?.organizationName || '' };
+};
+
+const MIME_TYPES: Record<DucaFormat, string> = {
+  xml: 'application/xml',
+  json: 'application/json',
+};
+
+/**
+ * Build the declaration for orders that already passed validateDucaOrders and download it
+ */
+export const exportDucaDeclaration = async (
+  orders: OrderRow[],
+  organizationId: string,
+  context: DucaContext,
+  options: DucaOptions,
+  format: DucaFormat,
+  exportedBy?: string,
+): Promise<{ success: boolean; fileName?: string; error?: string }> => {
+  try {
+    if (!orders || orders.length === 0) {
+      return { success: false, error: 'No orders to export' };
+    }
+
+    const declaration = buildDucaDeclaration(orders, context.consignees, context.valuation, {
+      declarant: context.organizationName,
+      ...options,
+    }, context.dictionary);
+    const content = format === 'xml' ? ducaToXml(declaration) : ducaToJson(declaration);
+
+    const timestamp = new Date().toISOString().split('T')[0];
+    const fileName = `${options.type}_${timestamp}_${orders.length}orders.${format}`;
+    const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    try {
+      await addDoc(collection(db, 'exportHistory'), {
+        fileName, organizationId,
+        organizationName: context.organizationName,
+        orderCount: orders.length,
+        orderStatuses: countOrderStatuses(orders),
+        customerNames: [...new Set(declaration.shipments.map(shipment => shipment.consignee.name))],
+        totalValue: declaration.totals.fobValue,
+        cifValue: declaration.totals.cifValue,
+        declarationType: options.type,
+        dictionaryVersion: context.dictionary.version,
+        exportedBy: exportedBy || 'unknown',
+        exportedAt: new Date(),
+        type: 'duca',
+      });
+    } catch (historyError) {
+      console.warn('Failed to save export history:', historyError);
+    }
+
+    return { success: true, fileName };
+  } catch (error) {
+    console.error('DUCA export failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' };
+  }
+};
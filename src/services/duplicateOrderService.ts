@@ -0,0 +1,40 @@
+import { collection, deleteField, doc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from './firebase';
+import type { ExistingOrder } from '../utils/duplicateDetection';
+
+/**
+ * Orders new imports are checked against for duplicates. Only recent orders:
+ * a screenshot re-sent after half a year is far more likely a new purchase.
+ */
+export const DUPLICATE_LOOKBACK_DAYS = 180;
+
+export const loadDuplicateCandidates = async (organizationId: string): Promise<ExistingOrder[]> => {
+  const since = new Date(Date.now() - DUPLICATE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const snapshot = await getDocs(query(
+    collection(db, 'organizations', organizationId, 'orders'),
+    where('createdAt', '>=', since)
+  ));
+  return snapshot.docs.map(d => {
+    const data = d.data();
+    return {
+      id: d.id,
+      packageNumber: data.packageNumber || '',
+      consignee: data.consignee || '',
+      screenshotHashes: data.screenshotHashes || [],
+      orderNumber: data.orderNumber || '',
+      merchantTrackingNumber: data.merchantTrackingNumber || '',
+      company: data.company || '',
+      duplicateOf: data.duplicateOf,
+    };
+  });
+};
+
+/**
+ * Operator confirmed the order is not a duplicate - drop the flag for good
+ */
+export const dismissDuplicateFlag = async (organizationId: string, orderId: string): Promise<void> => {
+  await updateDoc(doc(db, 'organizations', organizationId, 'orders', orderId), {
+    duplicateOf: deleteField(),
+    duplicateDismissed: true,
+  });
+};
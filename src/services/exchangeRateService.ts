@@ -0,0 +1,76 @@
+import { collection, deleteDoc, doc, getDocs, orderBy, query, setDoc, writeBatch } from 'firebase/firestore';
+import { db } from './firebase';
+import type { ExchangeRate } from '../types';
+
+/**
+ * Per-organization exchange rates (organizations/{orgId}/exchangeRates).
+ *
+ * One document per currency and effective date ({currency}_{effectiveDate}),
+ * so saving the same pair again corrects it instead of adding a duplicate.
+ */
+
+const ratesCollection = (organizationId: string) =>
+  collection(db, 'organizations', organizationId, 'exchangeRates');
+
+const rateDocId = (rate: Pick<ExchangeRate, 'currency' | 'effectiveDate'>) =>
+  `${rate.currency}_${rate.effectiveDate}`;
+
+export const listExchangeRates = async (organizationId: string): Promise<ExchangeRate[]> => {
+  const snapshot = await getDocs(query(ratesCollection(organizationId), orderBy('effectiveDate', 'desc')));
+  return snapshot.docs.map(d => {
+    const data = d.data();
+    return {
+      id: d.id,
+      currency: data.currency,
+      rate: data.rate,
+      effectiveDate: data.effectiveDate,
+      source: data.source || 'manual',
+      createdBy: data.createdBy,
+      createdAt: data.createdAt?.toDate?.() || undefined,
+    };
+  });
+};
+
+export const saveExchangeRate = async (
+  organizationId: string,
+  rate: Omit<ExchangeRate, 'id' | 'source' | 'createdAt' | 'createdBy'>,
+  createdBy: string
+): Promise<void> => {
+  await setDoc(doc(ratesCollection(organizationId), rateDocId(rate)), {
+    currency: rate.currency,
+    rate: rate.rate,
+    effectiveDate: rate.effectiveDate,
+    source: 'manual',
+    createdBy,
+    createdAt: new Date(),
+  });
+};
+
+/**
+ * Import parsed CSV rows in one batch (Firestore allows 500 writes per batch)
+ */
+export const importExchangeRates = async (
+  organizationId: string,
+  rates: Omit<ExchangeRate, 'id' | 'source' | 'createdAt' | 'createdBy'>[],
+  createdBy: string
+): Promise<number> => {
+  for (let i = 0; i < rates.length; i += 500) {
+    const batch = writeBatch(db);
+    rates.slice(i, i + 500).forEach(rate => {
+      batch.set(doc(ratesCollection(organizationId), rateDocId(rate)), {
+        currency: rate.currency,
+        rate: rate.rate,
+        effectiveDate: rate.effectiveDate,
+        source: 'import',
+        createdBy,
+        createdAt: new Date(),
+      });
+    });
+    await batch.commit();
+  }
+  return rates.length;
+};
+
+export const deleteExchangeRate = async (organizationId: string, rateId: string): Promise<void> => {
+  await deleteDoc(doc(ratesCollection(organizationId), rateId));
+};
@@ -0,0 +1,96 @@
+import { collection, doc, onSnapshot, query, runTransaction, updateDoc, where } from 'firebase/firestore';
+import type { Unsubscribe } from 'firebase/firestore';
+import { db } from './firebase';
+
+/**
+ * Desarrollo exports requested from WhatsApp (/export).
+ *
+ * The Cloud Function only queues the request; the sheet is built here with the
+ * organization's Google connection, or the PDF rendered here and uploaded to
+ * Storage (/export pdf). When the request is marked completed or failed, the
+ * notifyExportRequest function sends the result back on WhatsApp.
+ */
+
+export type ExportRequestStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface ExportRequest {
+  id: string;
+  orderIds: string[];
+  packageNumbers: string[];
+  status: ExportRequestStatus;
+  requestedBy: string;
+  requestedByPhone?: string;
+  source: 'whatsapp';
+  format?: 'sheet' | 'pdf'; // Missing on requests queued before PDF exports = sheet
+  createdAt: Date;
+}
+
+const requestsRef = (organizationId: string) =>
+  collection(db, 'organizations', organizationId, 'exportRequests');
+
+/**
+ * Listen for export requests waiting to be run
+ */
+export const subscribeToPendingExportRequests = (
+  organizationId: string,
+  onRequests: (requests: ExportRequest[]) => void
+): Unsubscribe => {
+  const q = query(requestsRef(organizationId), where('status', '==', 'pending'));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const requests = snapshot.docs
+        .map(d => ({
+          id: d.id,
+          ...d.data(),
+          createdAt: d.data().createdAt?.toDate() || new Date(),
+        } as ExportRequest))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      onRequests(requests);
+    },
+    (error) => console.error('Error listening for export requests:', error)
+  );
+};
+
+/**
+ * Claim a pending request so only one open tab runs it.
+ * Returns false if another tab already took it.
+ */
+export const claimExportRequest = async (
+  organizationId: string,
+  requestId: string,
+  claimedBy: string
+): Promise<boolean> => {
+  const ref = doc(requestsRef(organizationId), requestId);
+  return runTransaction(db, async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists() || snap.data().status !== 'pending') return false;
+    tx.update(ref, { status: 'processing', claimedBy, claimedAt: new Date(), updatedAt: new Date() });
+    return true;
+  });
+};
+
+export const completeExportRequest = async (
+  organizationId: string,
+  requestId: string,
+  result: { sheetUrl: string } | { pdfUrl: string }
+): Promise<void> => {
+  await updateDoc(doc(requestsRef(organizationId), requestId), {
+    status: 'completed',
+    ...result,
+    completedAt: new Date(),
+    updatedAt: new Date(),
+  });
+};
+
+export const failExportRequest = async (
+  organizationId: string,
+  requestId: string,
+  error: string
+): Promise<void> => {
+  await updateDoc(doc(requestsRef(organizationId), requestId), {
+    status: 'failed',
+    error: error.slice(0, 500),
+    updatedAt: new Date(),
+  });
+};
@@ -0,0 +1,166 @@
+import { collection, doc, getDocs, orderBy, query, writeBatch } from 'firebase/firestore';
+import type { WriteBatch } from 'firebase/firestore';
+import { db } from './firebase';
+import type { OrderAuditEntry, OrderAuditSource } from '../types';
+
+/**
+ * Order audit trail - organizations/{orgId}/orders/{orderId}/audit
+ *
+ * Every edit is written in the same batch as its audit entries, so an order
+ * can't change without a record of who changed which field. Entries are never
+ * updated or deleted (see firestore.rules); undoing a change appends a
+ * 'revert' entry instead.
+ */
+
+export interface AuditActor {
+  uid: string;
+  name?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+const auditRef = (organizationId: string, orderId: string) =>
+  collection(db, 'organizations', organizationId, 'orders', orderId, 'audit');
+
+// Firestore rejects undefined, and a missing field reads the same as null
+const toStored = (value: unknown) => (value === undefined ? null : value);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(toStored(a)) === JSON.stringify(toStored(b));
+
+// Bookkeeping written alongside edits - status moves are already kept in statusHistory
+const UNAUDITED_FIELDS = new Set([
+  'status', 'statusHistory', 'statusTimestamps', 'statusUpdatedAt', 'statusUpdatedBy',
+  'extractionIssues', 'humanReviewed', 'reviewedBy', 'reviewedAt', 'updatedAt',
+]);
+
+/**
+ * Fields in `updates` whose value differs from `before`
+ */
+export const diffOrderFields = (before: object, updates: object): FieldChange[] =>
+  Object.entries(updates)
+    .filter(([field]) => !UNAUDITED_FIELDS.has(field))
+    .filter(([field, to]) => !sameValue((before as Record<string, unknown>)[field], to))
+    .map(([field, to]) => ({ field, from: toStored((before as Record<string, unknown>)[field]), to: toStored(to) }));
+
+/**
+ * Queue one audit entry per change on `batch` - for writes that touch many
+ * orders at once instead of going through updateOrderWithAudit
+ */
+export const addAuditEntries = (
+  batch: WriteBatch,
+  organizationId: string,
+  orderId: string,
+  changes: FieldChange[],
+  actor: AuditActor,
+  source: OrderAuditSource,
+  at = new Date()
+): void => {
+  for (const change of changes) {
+    batch.set(doc(auditRef(organizationId, orderId)), {
+      action: 'update',
+      ...change,
+      source,
+      by: actor.uid,
+      ...(actor.name ? { byName: actor.name } : {}),
+      at,
+    });
+  }
+};
+
+/**
+ * Apply `updates` to an order and record one audit entry per changed field.
+ * Returns the changes recorded.
+ */
+export const updateOrderWithAudit = async (
+  organizationId: string,
+  orderId: string,
+  before: object,
+  updates: object,
+  actor: AuditActor,
+  source: OrderAuditSource = 'web'
+): Promise<FieldChange[]> => {
+  const changes = diffOrderFields(before, updates);
+
+  const batch = writeBatch(db);
+  const at = new Date();
+  batch.update(doc(db, 'organizations', organizationId, 'orders', orderId), { ...updates, updatedAt: at });
+  addAuditEntries(batch, organizationId, orderId, changes, actor, source, at);
+  await batch.commit();
+  return changes;
+};
+
+/**
+ * First entry of a new order's trail (which import created it)
+ */
+export const recordOrderCreated = async (
+  organizationId: string,
+  orderId: string,
+  actor: AuditActor,
+  source: OrderAuditSource
+): Promise<void> => {
+  const batch = writeBatch(db);
+  batch.set(doc(auditRef(organizationId, orderId)), {
+    action: 'create',
+    source,
+    by: actor.uid,
+    ...(actor.name ? { byName: actor.name } : {}),
+    at: new Date(),
+  });
+  await batch.commit();
+};
+
+export const loadOrderAudit = async (organizationId: string, orderId: string): Promise<OrderAuditEntry[]> => {
+  const snapshot = await getDocs(query(auditRef(organizationId, orderId), orderBy('at', 'desc')));
+  return snapshot.docs.map(d => ({
+    id: d.id,
+    ...d.data(),
+    at: d.data().at?.toDate?.() || new Date(),
+  } as OrderAuditEntry));
+};
+
+/**
+ * Put one changed field back to its value before `entry`.
+ * Later changes to other fields are kept. Returns the field and restored value.
+ */
+export const revertOrderChange = async (
+  organizationId: string,
+  orderId: string,
+  current: object,
+  entry: OrderAuditEntry,
+  actor: AuditActor
+): Promise<FieldChange> => {
+  if (entry.action === 'create' || !entry.field) {
+    throw new Error('Only field changes can be reverted');
+  }
+  const change: FieldChange = {
+    field: entry.field,
+    from: toStored((current as Record<string, unknown>)[entry.field]),
+    to: toStored(entry.from),
+  };
+
+  const batch = writeBatch(db);
+  const at = new Date();
+  batch.update(doc(db, 'organizations', organizationId, 'orders', orderId), { [change.field]: change.to, updatedAt: at });
+  batch.set(doc(auditRef(organizationId, orderId)), {
+    action: 'revert',
+    ...change,
+    revertOf: entry.id,
+    source: 'web',
+    by: actor.uid,
+    ...(actor.name ? { byName: actor.name } : {}),
+    at,
+  });
+  await batch.commit();
+  return change;
+};
+
+/**
+ * Whether the field still holds the value `entry` set - if not, reverting
+ * would also throw away a later change
+ */
+export const isLatestValue = (entry: OrderAuditEntry, current: object): boolean =>
+  !!entry.field && sameValue((current as Record<string, unknown>)[entry.field], entry.to);
@@ -3,6 +3,9 @@ import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { db, storage } from './firebase';
 import type { OrderRow } from '../components/OrderManagement';
 import type { Organization } from '../types';
+import { assertOrdersConverted, formatConversion } from '../utils/currency';
+import { assertOrdersReviewed } from '../utils/extractionReview';
+import { countOrderStatuses } from '../utils/orderLifecycle';
 
 /**
  * Order Export Service
@@ -495,6 +498,10 @@ const buildOrderDocumentRequests = async (orders: OrderRow[], accessToken: strin
     if (displayValue) {
       insertText(`VALOR: $${Number(displayValue).toFixed(2)}\n`);
     }
+    // Non-USD screenshots: original amount and the rate used
+    for (const conversion of order.currencyConversions || []) {
+      insertText(`${formatConversion(conversion)}\n`);
+    }
 
     // 5. Screenshots — normalized to ~6"×8", 1 per page.
     // Page break after every image if more remain.
@@ -534,6 +541,8 @@ export const exportOrdersToGoogleDocs = async (
     if (orders.length === 0) {
       return { success: false, error: 'No orders to export' };
     }
+    assertOrdersConverted(orders);
+    assertOrdersReviewed(orders);
 
     // Sort orders alphabetically by customer name (first name, then last name)
     // Example: "James Allen" comes before "James Brown"
@@ -572,6 +581,7 @@ export const exportOrdersToGoogleDocs = async (
         organizationId,
         organizationName: org.organizationName,
         orderCount: sortedOrders.length,
+        orderStatuses: countOrderStatuses(sortedOrders),
         customerNames: [...new Set(sortedOrders.map(o => o.consignee).filter(Boolean))], // Unique customer names (sorted)
         packageNumbers: sortedOrders.map(o => o.packageNumber).filter(Boolean),
         screenshotUrls: sortedOrders.flatMap(o => o.screenshotUrls || []), // All screenshots
@@ -2,6 +2,8 @@ import { doc, getDoc, updateDoc, collection, addDoc } from 'firebase/firestore';
 import { db } from './firebase';
 import type { OrderRow } from '../components/OrderManagement';
 import type { Organization } from '../types';
+import { customsCategoryForItem } from '../utils/hsClassifier';
+import { countOrderStatuses } from '../utils/orderLifecycle';
 
 /**
  * Order Sheets Export Service
@@ -94,19 +96,6 @@ const getValidAccessToken = async (organizationId: string): Promise<string> => {
   return org.googleAccessToken;
 };
 
-/**
- * Map company name to category (matching Excel export)
- */
-const categorizeCompany = (company: string): string => {
-  if (!company) return '';
-
-  const lower = company.toLowerCase();
-  if (lower.includes('amazon')) return 'APARATOS ELÉCTRICOS DEL HOGAR';
-  if (lower.includes('shein')) return 'PRENDAS DE VESTIR Y ACCESORIOS PARA DAMA';
-  if (lower.includes('temu')) return 'OTROS_ARTICULOS_IMPORTADOS';
-  return '';
-};
-
 /**
  * Build sheet rows from orders (ONE ROW PER ITEM + SUBTOTAL ROW PER ORDER)
  * Customer name and package number only shown on first row of each order
@@ -126,7 +115,7 @@ const buildLineItemSheetRows = (orders: OrderRow[]): any[][] => {
         order.consignee || '',                    // A: Consignatario
         order.packageNumber || '',                // B: No de PK
         orderQuantity,                            // C: Cant.
-        categorizeCompany(order.company || ''),   // D: Categoria
+        'OTROS_ARTICULOS_IMPORTADOS',             // D: Categoria (no items to classify)
         'No item details',                        // E: Descripcion
         '',                                       // F: Usado (empty)
         'X',                                      // G: Nuevo (X)
@@ -164,7 +153,7 @@ const buildLineItemSheetRows = (orders: OrderRow[]): any[][] => {
           isFirstRow ? (order.consignee || '').toUpperCase() : '',  // A: Consignatario (only first row, uppercase)
           isFirstRow ? (order.packageNumber || '') : '',            // B: No de PK (only first row)
           item.quantity || 0,                                       // C: Cant.
-          categorizeCompany(order.company || ''),                   // D: Categoria
+          customsCategoryForItem(item),                             // D: Categoria (from HS code)
           description.toUpperCase(),                                // E: Descripcion (uppercase)
           '',                                                       // F: Usado (empty)
           'X',                                                      // G: Nuevo (X)
@@ -758,6 +747,7 @@ export const exportOrdersToGoogleSheets = async (
         organizationId,
         organizationName: org.organizationName,
         orderCount: sortedOrders.length,
+        orderStatuses: countOrderStatuses(sortedOrders),
         lineItemCount: rows.length,
         customerNames: [...new Set(sortedOrders.map(o => o.consignee).filter(Boolean))],
         packageNumbers: sortedOrders.map(o => o.packageNumber).filter(Boolean),
@@ -0,0 +1,41 @@
+import { doc, runTransaction } from 'firebase/firestore';
+import { db } from './firebase';
+import { buildStatusTransition, type OrderStatusUpdate } from '../utils/orderLifecycle';
+import type { OrderStatus } from '../types';
+
+export interface StatusChangeResult {
+  updated: Array<{ id: string } & OrderStatusUpdate>;
+  skipped: Array<{ id: string; reason: string }>; // Move not allowed from the order's status, or order gone
+}
+
+/**
+ * Move orders to `to`, one transaction per order so a concurrent change
+ * (another tab, a WhatsApp /mark) is checked against the latest status.
+ * Orders that can't make the move are skipped, not failed.
+ */
+export const transitionOrderStatus = async (
+  organizationId: string,
+  orderIds: string[],
+  to: OrderStatus,
+  actor: { uid: string; name?: string }
+): Promise<StatusChangeResult> => {
+  const result: StatusChangeResult = { updated: [], skipped: [] };
+
+  for (const id of orderIds) {
+    const ref = doc(db, 'organizations', organizationId, 'orders', id);
+    try {
+      const update = await runTransaction(db, async (tx) => {
+        const snap = await tx.get(ref);
+        if (!snap.exists()) throw new Error('Order not found');
+        const fields = buildStatusTransition(snap.data(), to, { ...actor, source: 'web' });
+        tx.update(ref, { ...fields });
+        return fields;
+      });
+      result.updated.push({ id, ...update });
+    } catch (error) {
+      result.skipped.push({ id, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+};
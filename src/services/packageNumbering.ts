@@ -1,56 +1,135 @@
 import { collection, query, where, orderBy, getDocs, limit } from 'firebase/firestore';
-import { db } from './firebase';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebase';
 
 /**
  * Sequential Package Numbering Service
  * Generates sequential package numbers: Paquete #1, Paquete #2, etc.
+ *
+ * Organization numbers come from the transactional counter behind the
+ * `packageNumberApi` Cloud Function - the same counter the WhatsApp worker
+ * uses - so web and WhatsApp uploads can never issue the same number.
+ * Every number is logged (reserved → assigned / voided) so gaps can be
+ * explained to customs.
  */
 
+export type PackageNumberSource = 'web' | 'bulk-upload' | 'word-doc' | 'manual';
+
+export interface PackageNumberReservation {
+  reservationId: string; // Entry in organizations/{orgId}/packageNumberLog
+  packageNumber: string;
+  sequence: number;
+  year: number;
+}
+
+export interface PackageCounterConfig {
+  prefix: string; // Supports {YYYY} / {YY} tokens
+  padding: number;
+  resetYearly: boolean;
+  current: number; // Last issued sequence
+  year: number | null;
+}
+
+const callPackageNumberApi = async <T>(payload: Record<string, unknown>): Promise<T> => {
+  if (!functions) {
+    throw new Error('Firebase Functions not initialized');
+  }
+  const call = httpsCallable<Record<string, unknown>, T>(functions, 'packageNumberApi');
+  const result = await call(payload);
+  return result.data;
+};
+
 /**
- * Get the next sequential package number for an organization
- * Format: "Paquete #1", "Paquete #2", etc.
+ * Reserve `count` consecutive package numbers for the signed-in user's organization.
+ * Call assignPackageNumber once the order exists, or voidPackageNumber if it never will.
  */
-export const getNextPackageNumber = async (organizationId: string): Promise<{
-  packageNumber: string;
-  sequenceNumber: number;
-}> => {
-  try {
-    // Query for the highest sequence number in this organization
-    const docsRef = collection(db, 'docs');
-    const q = query(
-      docsRef,
-      where('organizationId', '==', organizationId),
-      where('sequenceNumber', '!=', null),
-      orderBy('sequenceNumber', 'desc'),
-      limit(1)
-    );
+export const reservePackageNumbers = async (
+  count: number,
+  source: PackageNumberSource = 'web'
+): Promise<PackageNumberReservation[]> => {
+  const { reservations } = await callPackageNumberApi<{ reservations: PackageNumberReservation[] }>({
+    action: 'reserve',
+    count,
+    source,
+  });
+  return reservations;
+};
 
-    const querySnapshot = await getDocs(q);
+/**
+ * Link a reserved number to the order that now carries it
+ */
+export const assignPackageNumber = async (reservationId: string, orderId: string): Promise<void> => {
+  await callPackageNumberApi({ action: 'assign', reservationId, orderId });
+};
 
-    let nextSequence = 1;
+/**
+ * Void a number that will not be used (failed import, deleted order)
+ * Returns false if the number was never logged (issued before the counter existed)
+ */
+export const voidPackageNumber = async (
+  target: { reservationId?: string; packageNumber?: string },
+  reason: string
+): Promise<boolean> => {
+  const { voided } = await callPackageNumberApi<{ voided: boolean }>({ action: 'void', ...target, reason });
+  return voided;
+};
 
-    if (!querySnapshot.empty) {
-      const lastDoc = querySnapshot.docs[0];
-      const lastSequence = lastDoc.data().sequenceNumber as number;
-      nextSequence = lastSequence + 1;
-    }
+/**
+ * Read the organization's numbering config (prefix, padding, yearly reset)
+ */
+export const getPackageCounterConfig = async (): Promise<PackageCounterConfig> => {
+  const { config } = await callPackageNumberApi<{ config: PackageCounterConfig }>({ action: 'getConfig' });
+  return config;
+};
 
-    return {
-      packageNumber: `Paquete #${nextSequence}`,
-      sequenceNumber: nextSequence
-    };
-  } catch (error) {
-    console.error('Error getting next package number:', error);
+/**
+ * Change the organization's numbering config (owners/admins only)
+ */
+export const updatePackageCounterConfig = async (
+  changes: Partial<Pick<PackageCounterConfig, 'prefix' | 'padding' | 'resetYearly'>>
+): Promise<PackageCounterConfig> => {
+  const { config } = await callPackageNumberApi<{ config: PackageCounterConfig }>({ action: 'setConfig', ...changes });
+  return config;
+};
 
-    // Fallback: generate based on timestamp
-    const timestamp = Date.now();
-    const fallbackSequence = timestamp % 10000;
+/**
+ * A sequence formatted with `config`, as the counter would issue it
+ * Example: ("{YYYY}-", padding 4, 7, 2026) → "2026-0007"
+ */
+export const previewPackageNumber = (
+  config: Pick<PackageCounterConfig, 'prefix' | 'padding'>,
+  sequence: number,
+  year: number
+): string => {
+  const prefix = config.prefix
+    .replace(/\{YYYY\}/g, String(year))
+    .replace(/\{YY\}/g, String(year).slice(-2));
+  const digits = config.padding > 0 ? String(sequence).padStart(config.padding, '0') : String(sequence);
+  return `${prefix}${digits}`;
+};
 
-    return {
-      packageNumber: `Paquete #${fallbackSequence}`,
-      sequenceNumber: fallbackSequence
-    };
+/**
+ * Get the next sequential package number for an organization
+ * Format: "Paquete #1", "Paquete #2", etc. (or the organization's configured prefix)
+ *
+ * The organization is resolved server-side from the signed-in user; the
+ * argument is kept for existing callers.
+ */
+export const getNextPackageNumber = async (organizationId: string): Promise<{
+  packageNumber: string;
+  sequenceNumber: number;
+  reservationId: string;
+}> => {
+  if (!organizationId) {
+    throw new Error('No organization ID available for package numbering');
   }
+
+  const [reservation] = await reservePackageNumbers(1);
+  return {
+    packageNumber: reservation.packageNumber,
+    sequenceNumber: reservation.sequence,
+    reservationId: reservation.reservationId
+  };
 };
 
 /**
@@ -60,41 +139,30 @@ export const getNextPackageNumberForImporter = async (importerId: string): Promi
   packageNumber: string;
   sequenceNumber: number;
 }> => {
-  try {
-    const docsRef = collection(db, 'docs');
-    const q = query(
-      docsRef,
-      where('importerId', '==', importerId),
-      where('sequenceNumber', '!=', null),
-      orderBy('sequenceNumber', 'desc'),
-      limit(1)
-    );
-
-    const querySnapshot = await getDocs(q);
-
-    let nextSequence = 1;
-
-    if (!querySnapshot.empty) {
-      const lastDoc = querySnapshot.docs[0];
-      const lastSequence = lastDoc.data().sequenceNumber as number;
-      nextSequence = lastSequence + 1;
-    }
-
-    return {
-      packageNumber: `Paquete #${nextSequence}`,
-      sequenceNumber: nextSequence
-    };
-  } catch (error) {
-    console.error('Error getting next package number:', error);
-
-    const timestamp = Date.now();
-    const fallbackSequence = timestamp % 10000;
-
-    return {
-      packageNumber: `Paquete #${fallbackSequence}`,
-      sequenceNumber: fallbackSequence
-    };
+  // No fallback number on failure - a made-up number could collide with a real one
+  const docsRef = collection(db, 'docs');
+  const q = query(
+    docsRef,
+    where('importerId', '==', importerId),
+    where('sequenceNumber', '!=', null),
+    orderBy('sequenceNumber', 'desc'),
+    limit(1)
+  );
+
+  const querySnapshot = await getDocs(q);
+
+  let nextSequence = 1;
+
+  if (!querySnapshot.empty) {
+    const lastDoc = querySnapshot.docs[0];
+    const lastSequence = lastDoc.data().sequenceNumber as number;
+    nextSequence = lastSequence + 1;
   }
+
+  return {
+    packageNumber: `Paquete #${nextSequence}`,
+    sequenceNumber: nextSequence
+  };
 };
 
 /**
@@ -106,10 +174,10 @@ export const formatPackageNumber = (sequenceNumber: number): string => {
 
 /**
  * Parse a package number to get the sequence number
- * Example: "Paquete #42" → 42
+ * Example: "Paquete #42" → 42, "2026-0042" → 42
  */
 export const parsePackageNumber = (packageNumber: string): number | null => {
-  const match = packageNumber.match(/Paquete #(\d+)/i);
+  const match = packageNumber.match(/(\d+)\s*$/);
   if (match && match[1]) {
     return parseInt(match[1], 10);
   }
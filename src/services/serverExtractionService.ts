@@ -0,0 +1,135 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+import { withRetry } from '../utils/retry';
+import { normalizeCurrency } from '../utils/currency';
+import type { ExtractedOrderData, PackageItem } from '../types';
+
+/**
+ * Screenshot extraction on the server (`extractScreenshotBatch`).
+ *
+ * Why: prior to this, every user's browser called Gemini directly. Users on
+ * slower networks (Julio in El Salvador) saw transient failures, rate limits,
+ * and dropped items that headquarters users never hit. Moving extraction to a
+ * Cloud Function puts every user on the same runtime — same region, same retry
+ * policy, same quota pool — so the SaaS behaves identically regardless of
+ * location. The function also charges each screenshot to the organization's
+ * monthly AI quota and refuses batches past the plan's hard limit.
+ */
+
+export type ServerExtractionResult = { ok: true; data: ExtractedOrderData } | { ok: false; error: string };
+
+export interface ServerExtractionOptions {
+  onProgress?: (completed: number, total: number) => void;
+  forceReextract?: boolean; // Ignore the server's extraction cache
+  lenient?: boolean; // Word-doc imports: accept any screenshot with products and prices
+}
+
+// What the Cloud Functions extractor returns (functions/src/services/geminiService.ts)
+interface ServerExtractedOrder {
+  customerName?: string | null;
+  trackingNumber?: string | null;
+  orderNumber?: string | null;
+  seller?: string | null;
+  orderDate?: string | null;
+  shippingCarrier?: string | null;
+  carriers?: string[] | null;
+  items?: PackageItem[];
+  orderTotal?: number | null;
+  currency?: string | null;
+  fieldConfidence?: ExtractedOrderData['fieldConfidence'];
+  fromCache?: boolean;
+}
+
+const CHUNK_SIZE = 10;
+
+/**
+ * Server extraction in the shape the web extractor produced, so callers can
+ * use either
+ */
+const toExtractedOrderData = (raw: ServerExtractedOrder): ExtractedOrderData => {
+  const items = raw.items || [];
+  const carriers = raw.carriers?.length ? raw.carriers : raw.shippingCarrier ? [raw.shippingCarrier] : undefined;
+  return {
+    customerName: raw.customerName || undefined,
+    trackingNumber: raw.trackingNumber || undefined,
+    trackingNumberLast4: raw.trackingNumber ? raw.trackingNumber.slice(-4) : undefined,
+    orderNumber: raw.orderNumber || undefined,
+    orderDate: raw.orderDate || undefined,
+    seller: raw.seller || undefined,
+    company: raw.seller || undefined,
+    carriers,
+    items,
+    orderTotal: raw.orderTotal || items.reduce((sum, item) => sum + (item.totalValue || 0), 0),
+    totalPieces: items.reduce((sum, item) => sum + (item.quantity || 0), 0),
+    currency: normalizeCurrency(raw.currency),
+    fieldConfidence: raw.fieldConfidence,
+    fromCache: raw.fromCache,
+  };
+};
+
+/**
+ * Callable errors for a batch refused by the monthly AI quota (the per-minute
+ * rate limit uses the same code but carries no usage)
+ */
+export const isAiQuotaExceeded = (error: unknown): boolean => {
+  const { code, details } = (error ?? {}) as { code?: string; details?: { usage?: unknown } };
+  return code === 'functions/resource-exhausted' && Boolean(details?.usage);
+};
+
+/**
+ * Extract screenshots on the server in chunks. Returns one entry per input
+ * image, in the same order. Throws if the organization is out of AI quota.
+ */
+export const extractScreenshotsViaServer = async (
+  images: Array<{ base64: string; contentType: string }>,
+  options: ServerExtractionOptions = {}
+): Promise<ServerExtractionResult[]> => {
+  if (!functions) throw new Error('Cloud Functions not initialized — check Firebase config.');
+  const extract = httpsCallable<
+    { images: Array<{ base64: string; mimeType: string; clientIdx: number }>; lenient: boolean; forceReextract: boolean },
+    { results: Array<{ clientIdx: number; ok: true; data: ServerExtractedOrder } | { clientIdx: number; ok: false; error: string }> }
+  >(functions, 'extractScreenshotBatch');
+
+  const out: ServerExtractionResult[] = new Array(images.length);
+  let completed = 0;
+
+  for (let i = 0; i < images.length; i += CHUNK_SIZE) {
+    const slice = images.slice(i, i + CHUNK_SIZE);
+    const payload = slice.map((img, j) => ({
+      base64: img.base64,
+      mimeType: img.contentType,
+      clientIdx: i + j,
+    }));
+
+    // Wrap the callable invocation itself in retry — if the function gateway
+    // returns 429/5xx (rare), retry the whole batch once.
+    const response = await withRetry(
+      () => extract({ images: payload, lenient: options.lenient ?? true, forceReextract: options.forceReextract ?? false }),
+      { label: `extractScreenshotBatch [${i}-${i + slice.length - 1}]`, maxAttempts: 2 }
+    );
+
+    for (const r of response.data.results) {
+      out[r.clientIdx] = 'error' in r
+        ? { ok: false, error: r.error }
+        : { ok: true, data: toExtractedOrderData(r.data) };
+    }
+
+    completed += slice.length;
+    options.onProgress?.(completed, images.length);
+  }
+
+  return out;
+};
+
+/**
+ * One screenshot - throws when it could not be read
+ */
+export const extractScreenshotViaServer = async (
+  base64: string,
+  contentType: string,
+  options: Omit<ServerExtractionOptions, 'onProgress'> = {}
+): Promise<ExtractedOrderData> => {
+  const [result] = await extractScreenshotsViaServer([{ base64, contentType }], options);
+  if ('error' in result) throw new Error(result.error);
+  return result.data;
+};
@@ -0,0 +1,118 @@
+import { collection, deleteDoc, doc, getDocs, setDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { createConsignee, listConsignees, mergeConsignees } from './consigneeService';
+import { detectSplitShipments } from '../utils/splitDetection';
+import type { SplitDetectionOptions, SplitFinding } from '../utils/splitDetection';
+import type { AuditActor } from './orderAuditService';
+import type { OrderRow } from '../components/OrderManagement';
+import type { Consignee, SplitReview } from '../types';
+
+/**
+ * Split shipment findings and the importer's decisions on them
+ * (organizations/{orgId}/splitReviews/{findingId}).
+ *
+ * Findings are recomputed from the orders each time (utils/splitDetection);
+ * only the decisions are stored. Acknowledging records that the importer
+ * looked and declares the orders as they are; merging folds the consignees
+ * into one directory entry so the export declares them as one person.
+ */
+
+const reviewsRef = (organizationId: string) => collection(db, 'organizations', organizationId, 'splitReviews');
+
+export const loadSplitReviews = async (organizationId: string): Promise<Map<string, SplitReview>> => {
+  const snapshot = await getDocs(reviewsRef(organizationId));
+  return new Map(snapshot.docs.map(d => [d.id, {
+    id: d.id,
+    ...d.data(),
+    at: d.data().at?.toDate?.() || new Date(),
+  } as SplitReview]));
+};
+
+export interface SplitScan {
+  findings: SplitFinding[];
+  reviews: Map<string, SplitReview>;
+  directory: Consignee[];
+}
+
+/**
+ * Findings over `orders` (normally every order of the organization) with the decisions already taken
+ */
+export const scanForSplits = async (
+  organizationId: string,
+  orders: OrderRow[],
+  options?: SplitDetectionOptions
+): Promise<SplitScan> => {
+  const [directory, reviews] = await Promise.all([listConsignees(organizationId), loadSplitReviews(organizationId)]);
+  const findings = detectSplitShipments(orders, new Map(directory.map(c => [c.id, c])), options);
+  return { findings, reviews, directory };
+};
+
+/**
+ * Undecided findings that include any of `orderIds` - checked before a customs export
+ */
+export const openFindingsForOrders = async (
+  organizationId: string,
+  orders: OrderRow[],
+  orderIds: string[]
+): Promise<SplitFinding[]> => {
+  const { findings, reviews } = await scanForSplits(organizationId, orders);
+  const selected = new Set(orderIds);
+  return findings.filter(finding => !reviews.has(finding.id) && finding.orderIds.some(id => selected.has(id)));
+};
+
+const saveReview = async (organizationId: string, review: Omit<SplitReview, 'id'>, findingId: string) => {
+  // Firestore rejects undefined
+  const data = Object.fromEntries(Object.entries(review).filter(([, value]) => value !== undefined));
+  await setDoc(doc(reviewsRef(organizationId), findingId), data);
+};
+
+export const acknowledgeSplitFinding = async (
+  organizationId: string,
+  finding: SplitFinding,
+  actor: AuditActor,
+  note?: string
+): Promise<void> => {
+  await saveReview(organizationId, {
+    status: 'acknowledged',
+    orderIds: finding.orderIds,
+    note: note?.trim() || undefined,
+    by: actor.uid,
+    byName: actor.name,
+    at: new Date(),
+  }, finding.id);
+};
+
+/**
+ * Merge every consignee in the finding into one directory entry - the
+ * existing `targetId`, or a new entry called `targetName` - and link all of
+ * the finding's orders to it (owner only)
+ */
+export const mergeSplitFinding = async (
+  organizationId: string,
+  finding: SplitFinding,
+  target: { consigneeId?: string; name: string },
+  directory: Consignee[],
+  actor: AuditActor
+): Promise<Consignee> => {
+  const targetEntry = directory.find(c => c.id === target.consigneeId)
+    || await createConsignee(organizationId, { name: target.name.trim(), nameVariants: [] }, actor.uid);
+  const sources = directory.filter(c => finding.consigneeIds.includes(c.id) && c.id !== targetEntry.id);
+
+  await mergeConsignees(organizationId, targetEntry, sources, actor, finding.orderIds, finding.names);
+  await saveReview(organizationId, {
+    status: 'merged',
+    orderIds: finding.orderIds,
+    mergedInto: targetEntry.id,
+    by: actor.uid,
+    byName: actor.name,
+    at: new Date(),
+  }, finding.id);
+  return targetEntry;
+};
+
+/**
+ * Reopen a finding (owner only)
+ */
+export const reopenSplitFinding = async (organizationId: string, findingId: string): Promise<void> => {
+  await deleteDoc(doc(reviewsRef(organizationId), findingId));
+};
@@ -0,0 +1,100 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, setDoc, writeBatch } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { db } from './firebase';
+import type { TariffTable } from '../types';
+import { DEFAULT_TARIFF_TABLE, validateTariffTable } from '../utils/tariffTable';
+
+/**
+ * Published tariff tables.
+ *
+ * Each version is stored once at tariffTables/{version} and never edited, so
+ * a duty quote can always be traced back to the exact rates it used.
+ * appConfig/tariff points at the active version. Only master admins write.
+ */
+
+const ACTIVE_POINTER = () => doc(db, 'appConfig', 'tariff');
+
+let cachedTable: TariffTable | null = null;
+
+const toTable = (data: DocumentData): TariffTable => ({
+  version: data.version,
+  effectiveDate: data.effectiveDate,
+  source: data.source,
+  defaultRate: data.defaultRate,
+  rates: data.rates || [],
+  publishedBy: data.publishedBy,
+  publishedAt: data.publishedAt?.toDate?.() || undefined,
+});
+
+/**
+ * Tariff table duty quotes should use. Falls back to the bundled table when
+ * nothing has been published (or Firestore can't be reached).
+ */
+export const getActiveTariffTable = async (forceRefresh = false): Promise<TariffTable> => {
+  if (cachedTable && !forceRefresh) return cachedTable;
+
+  try {
+    const pointer = await getDoc(ACTIVE_POINTER());
+    const activeVersion = pointer.exists() ? pointer.data().activeVersion : null;
+    if (activeVersion) {
+      const snap = await getDoc(doc(db, 'tariffTables', activeVersion));
+      if (snap.exists()) {
+        cachedTable = toTable(snap.data());
+        return cachedTable;
+      }
+    }
+  } catch (error) {
+    console.warn('Could not load tariff table, using bundled rates:', error);
+    return DEFAULT_TARIFF_TABLE;
+  }
+
+  cachedTable = DEFAULT_TARIFF_TABLE;
+  return cachedTable;
+};
+
+/**
+ * All published versions, newest first
+ */
+export const listTariffVersions = async (): Promise<TariffTable[]> => {
+  const snapshot = await getDocs(query(collection(db, 'tariffTables'), orderBy('publishedAt', 'desc')));
+  return snapshot.docs.map(d => toTable(d.data()));
+};
+
+/**
+ * Publish a new version and make it active. Versions are immutable - publishing
+ * an existing version number is rejected.
+ */
+export const publishTariffTable = async (table: TariffTable, publishedBy: string): Promise<void> => {
+  const errors = validateTariffTable(table);
+  if (errors.length > 0) {
+    throw new Error(errors.slice(0, 5).join('\n'));
+  }
+
+  const versionRef = doc(db, 'tariffTables', table.version);
+  if ((await getDoc(versionRef)).exists()) {
+    throw new Error(`Version ${table.version} already exists - use a new version number`);
+  }
+
+  const batch = writeBatch(db);
+  batch.set(versionRef, {
+    version: table.version,
+    effectiveDate: table.effectiveDate,
+    source: table.source || '',
+    defaultRate: table.defaultRate,
+    rates: table.rates,
+    publishedBy,
+    publishedAt: new Date(),
+  });
+  batch.set(ACTIVE_POINTER(), { activeVersion: table.version, updatedBy: publishedBy, updatedAt: new Date() });
+  await batch.commit();
+
+  cachedTable = null;
+};
+
+/**
+ * Switch back to a previously published version
+ */
+export const setActiveTariffVersion = async (version: string, updatedBy: string): Promise<void> => {
+  await setDoc(ACTIVE_POINTER(), { activeVersion: version, updatedBy, updatedAt: new Date() });
+  cachedTable = null;
+};
@@ -0,0 +1,157 @@
+import { collection, doc, getDocs, increment, limit, orderBy, query, runTransaction, writeBatch } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { db } from './firebase';
+import type { TranslationDictionary, UntranslatedWord } from '../types';
+import {
+  BUILTIN_DICTIONARY,
+  mergeDictionaries,
+  translateToSpanish,
+  validateDictionaryEntries,
+} from '../utils/translationDictionary';
+import type { DictionaryEntries } from '../utils/translationDictionary';
+
+/**
+ * Per-organization translation dictionaries.
+ *
+ * Every save is a new numbered version at
+ * organizations/{orgId}/translationDictionaries/{version}, never edited, and
+ * the highest version is the one exports use. Restoring an old version saves
+ * its entries again as a new one. Words exports leave in English are counted
+ * at organizations/{orgId}/untranslatedWords/{word} until someone adds them.
+ */
+
+const versionsRef = (organizationId: string) =>
+  collection(db, 'organizations', organizationId, 'translationDictionaries');
+
+const untranslatedRef = (organizationId: string) =>
+  collection(db, 'organizations', organizationId, 'untranslatedWords');
+
+const toDictionary = (data: DocumentData): TranslationDictionary => ({
+  version: data.version,
+  phrases: data.phrases || {},
+  words: data.words || {},
+  keepWords: data.keepWords || [],
+  flaggedWords: data.flaggedWords || [],
+  note: data.note || undefined,
+  updatedAt: data.updatedAt?.toDate?.() || undefined,
+  updatedBy: data.updatedBy,
+});
+
+/**
+ * The organization's latest saved version (its own entries only), or null
+ */
+export const getOrgDictionary = async (organizationId: string): Promise<TranslationDictionary | null> => {
+  const snapshot = await getDocs(query(versionsRef(organizationId), orderBy('version', 'desc'), limit(1)));
+  return snapshot.empty ? null : toDictionary(snapshot.docs[0].data());
+};
+
+/**
+ * Dictionary exports should use: the organization's latest version merged over
+ * the built-in one. Falls back to the built-in dictionary when Firestore can't
+ * be reached.
+ */
+export const getTranslationDictionary = async (organizationId?: string): Promise<TranslationDictionary> => {
+  if (!organizationId) return BUILTIN_DICTIONARY;
+  try {
+    return mergeDictionaries(BUILTIN_DICTIONARY, await getOrgDictionary(organizationId));
+  } catch (error) {
+    console.warn('Could not load translation dictionary, using built-in:', error);
+    return BUILTIN_DICTIONARY;
+  }
+};
+
+/**
+ * All saved versions, newest first
+ */
+export const listDictionaryVersions = async (organizationId: string): Promise<TranslationDictionary[]> => {
+  const snapshot = await getDocs(query(versionsRef(organizationId), orderBy('version', 'desc')));
+  return snapshot.docs.map(d => toDictionary(d.data()));
+};
+
+/**
+ * Save `entries` as the next version. Returns the new version number.
+ */
+export const saveDictionaryVersion = async (
+  organizationId: string,
+  entries: DictionaryEntries,
+  updatedBy: string,
+  note?: string,
+): Promise<number> => {
+  const errors = validateDictionaryEntries(entries);
+  if (errors.length > 0) throw new Error(errors.slice(0, 5).join('\n'));
+
+  const latest = await getOrgDictionary(organizationId);
+  const version = (latest?.version || 0) + 1;
+
+  // Two owners saving at once would both pick the same number - the
+  // transaction makes the second one fail instead of overwriting
+  await runTransaction(db, async (transaction) => {
+    const versionRef = doc(versionsRef(organizationId), String(version));
+    if ((await transaction.get(versionRef)).exists()) {
+      throw new Error('Someone else just saved the dictionary - reload and try again');
+    }
+    transaction.set(versionRef, {
+      version,
+      phrases: entries.phrases,
+      words: entries.words,
+      keepWords: entries.keepWords,
+      flaggedWords: entries.flaggedWords,
+      note: note || '',
+      updatedBy,
+      updatedAt: new Date(),
+    });
+  });
+  return version;
+};
+
+/**
+ * Count the words an export left in English. Never throws - the export
+ * already succeeded.
+ */
+export const recordUntranslatedWords = async (organizationId: string, words: string[]): Promise<void> => {
+  if (words.length === 0) return;
+  try {
+    const batch = writeBatch(db);
+    for (const word of words.slice(0, 400)) {
+      batch.set(doc(untranslatedRef(organizationId), word), {
+        word,
+        count: increment(1),
+        lastSeenAt: new Date(),
+      }, { merge: true });
+    }
+    await batch.commit();
+  } catch (error) {
+    console.warn('Failed to record untranslated words:', error);
+  }
+};
+
+/**
+ * Reported words the current dictionary still doesn't cover, most frequent first
+ */
+export const listUntranslatedWords = async (
+  organizationId: string,
+  dictionary: TranslationDictionary,
+): Promise<UntranslatedWord[]> => {
+  const snapshot = await getDocs(untranslatedRef(organizationId));
+  return snapshot.docs
+    .map(d => ({
+      word: d.id,
+      count: d.data().count || 0,
+      lastSeenAt: d.data().lastSeenAt?.toDate?.() || new Date(0),
+    }))
+    .filter(entry => {
+      const found = new Set<string>();
+      translateToSpanish(entry.word, dictionary, found);
+      return found.size > 0;
+    })
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word));
+};
+
+/**
+ * Drop words from the report (added to the dictionary, or not worth adding)
+ */
+export const dismissUntranslatedWords = async (organizationId: string, words: string[]): Promise<void> => {
+  const batch = writeBatch(db);
+  words.forEach(word => batch.delete(doc(untranslatedRef(organizationId), word)));
+  await batch.commit();
+};
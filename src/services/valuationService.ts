@@ -0,0 +1,86 @@
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import type { ValuationSettings } from '../types';
+import { DEFAULT_VALUATION_SETTINGS } from '../utils/customsValuation';
+
+/**
+ * Per-organization customs valuation settings (freight rate cards, insurance,
+ * handling fee), stored on the organization document as `valuationSettings`.
+ */
+
+export const getValuationSettings = async (organizationId?: string): Promise<ValuationSettings> => {
+  if (!organizationId) return DEFAULT_VALUATION_SETTINGS;
+  try {
+    const orgSnap = await getDoc(doc(db, 'organizations', organizationId));
+    const settings = orgSnap.exists() ? orgSnap.data().valuationSettings : undefined;
+    return settings ? { ...DEFAULT_VALUATION_SETTINGS, ...settings } : DEFAULT_VALUATION_SETTINGS;
+  } catch (error) {
+    console.warn('Could not load valuation settings, using defaults:', error);
+    return DEFAULT_VALUATION_SETTINGS;
+  }
+};
+
+/**
+ * Returns a list of problems (empty = OK)
+ */
+export const validateValuationSettings = (settings: ValuationSettings): string[] => {
+  const errors: string[] = [];
+  if (!(settings.insuranceRate >= 0 && settings.insuranceRate <= 0.2)) {
+    errors.push('Insurance must be between 0% and 20%');
+  }
+  if (!(settings.handlingFee >= 0)) errors.push('Handling fee can\'t be negative');
+
+  const couriers = new Set<string>();
+  settings.rateCards.forEach(card => {
+    const name = card.courier.trim();
+    if (!name) errors.push('Every rate card needs a courier name');
+    if (couriers.has(name.toLowerCase())) errors.push(`Duplicate rate card for ${name}`);
+    couriers.add(name.toLowerCase());
+    if (card.bands.length === 0) errors.push(`${name || 'Rate card'}: add at least one weight band`);
+    card.bands.forEach((band, i) => {
+      if (!(band.maxWeightLb > 0)) errors.push(`${name} band ${i + 1}: max weight must be above 0`);
+      if (band.flatRate === undefined && band.ratePerLb === undefined) {
+        errors.push(`${name} band ${i + 1}: set a per-lb rate or a flat rate`);
+      }
+      if ((band.flatRate ?? 0) < 0 || (band.ratePerLb ?? 0) < 0) {
+        errors.push(`${name} band ${i + 1}: rates can't be negative`);
+      }
+    });
+  });
+  if (settings.defaultCourier && !couriers.has(settings.defaultCourier.toLowerCase())) {
+    errors.push(`Default courier ${settings.defaultCourier} has no rate card`);
+  }
+  return errors;
+};
+
+export const saveValuationSettings = async (
+  organizationId: string,
+  settings: ValuationSettings,
+  updatedBy: string
+): Promise<void> => {
+  const errors = validateValuationSettings(settings);
+  if (errors.length > 0) throw new Error(errors.join('\n'));
+
+  // Firestore rejects undefined values - drop unset optional fields
+  const rateCards = settings.rateCards.map(card => ({
+    courier: card.courier.trim(),
+    bands: card.bands.map(band => ({
+      maxWeightLb: band.maxWeightLb,
+      ...(band.ratePerLb !== undefined ? { ratePerLb: band.ratePerLb } : {}),
+      ...(band.flatRate !== undefined ? { flatRate: band.flatRate } : {}),
+    })),
+    ...(card.minimumCharge ? { minimumCharge: card.minimumCharge } : {}),
+  }));
+
+  await updateDoc(doc(db, 'organizations', organizationId), {
+    valuationSettings: {
+      rateCards,
+      defaultCourier: settings.defaultCourier || null,
+      insuranceRate: settings.insuranceRate,
+      handlingFee: settings.handlingFee,
+      updatedAt: new Date(),
+      updatedBy,
+    },
+    updatedAt: new Date(),
+  });
+};
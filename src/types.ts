@@ -51,6 +51,12 @@ export interface Organization {
   currentMonthExtractions?: number; // Extractions in current billing month
   currentMonthCost?: number; // Cost for current billing month
   usageResetAt?: Date; // When current month usage was last reset
+  usagePeriod?: string; // YYYY-MM the current month counters belong to
+  aiOverSoftLimit?: boolean; // Past the tier's soft limit this month
+  aiOverageExtractions?: number; // Extractions beyond the soft limit this month
+
+  // Customs valuation (freight rate card, insurance, handling fee)
+  valuationSettings?: ValuationSettings;
 }
 
 // User (for authentication and access control)
@@ -75,6 +81,23 @@ export interface User {
   gestorNumber?: string; // Operator's customs gestor ID, e.g. "3145"
 }
 
+// Monthly AI extraction usage against the subscription tier's limits (aiUsageApi)
+export interface AiUsageSummary {
+  organizationId: string;
+  organizationName: string;
+  tier: SubscriptionTier;
+  period: string; // YYYY-MM
+  used: number;
+  cost: number; // USD this month
+  softLimit: number; // Past this the organization is flagged for overage
+  hardLimit: number | null; // Extractions are refused past this (null = no cap)
+  remaining: number | null;
+  overSoftLimit: boolean;
+  overageExtractions: number;
+  totalExtractions: number;
+  resetsAt: string; // ISO start of the next period
+}
+
 // Organization Invite
 export interface OrganizationInvite {
   id: string;
@@ -124,6 +147,35 @@ export interface Customer {
   createdAt: Date;
 }
 
+// Consignee directory entry (organizations/{orgId}/consignees) - the people
+// orders are declared for. Not the legacy Customer above, which belongs to packages.
+export interface Consignee {
+  id: string;
+  name: string; // Canonical name used on exports
+  nameVariants: string[]; // Other spellings seen on imports and matched to this entry
+  phone?: string;
+  dui?: string; // Documento Único de Identidad, 00000000-0
+  nit?: string; // Número de Identificación Tributaria, 0000-000000-000-0
+  address?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt?: Date;
+  createdBy?: string; // User ID
+}
+
+// Importer's decision on a possible split shipment (organizations/{orgId}/splitReviews/{findingId}).
+// The finding ID is derived from its order IDs, so a new order joining the group reopens it.
+export interface SplitReview {
+  id: string;
+  status: 'acknowledged' | 'merged';
+  orderIds: string[];
+  note?: string;
+  mergedInto?: string; // Consignee ID the group was merged into
+  by: string; // User ID
+  byName?: string;
+  at: Date;
+}
+
 // Package Item (contents of the package)
 export interface PackageItem {
   name: string;
@@ -132,11 +184,40 @@ export interface PackageItem {
   quantity: number;
   unitValue: number; // Value per unit in USD
   totalValue: number; // quantity * unitValue
+  currency?: string; // Source currency when the screenshot wasn't in USD
+  originalUnitValue?: number; // unitValue in the source currency
+  originalTotalValue?: number; // totalValue in the source currency
+  exchangeRate?: number; // USD per 1 unit of the source currency used for unitValue/totalValue
   hsCode?: string; // Harmonized System Code (8-10 digits)
+  hsCodeSource?: HsCodeSource; // Where hsCode came from
+  hsCodeConfidence?: number; // 0-1, from the classifier
+  hsCodeNeedsReview?: boolean; // Low-confidence code waiting in the HS review queue
   weight?: number; // in kg
   category?: string;
 }
 
+export type HsCodeSource = 'dictionary' | 'ai' | 'manual';
+
+// Exchange rate table entry (organizations/{orgId}/exchangeRates)
+export interface ExchangeRate {
+  id?: string;
+  currency: string; // ISO 4217, e.g. "MXN"
+  rate: number; // USD per 1 unit of currency
+  effectiveDate: string; // YYYY-MM-DD - applies from this date until the next entry
+  source: 'manual' | 'import';
+  createdBy?: string;
+  createdAt?: Date;
+}
+
+// A conversion applied to an order (one per source currency)
+export interface CurrencyConversion {
+  currency: string;
+  rate: number;
+  effectiveDate: string; // Of the rate used
+  originalAmount: number;
+  usdAmount: number;
+}
+
 // Screenshot (unified storage for WhatsApp and manual uploads)
 export interface Screenshot {
   id: string;
@@ -239,12 +320,42 @@ export interface ExtractedOrderData {
   items: PackageItem[];
   orderTotal?: number;
   totalPieces?: number; // Total pieces count (accounting for quantity multiples)
+  currency?: string; // ISO 4217 code of the prices on the screenshot (USD if not shown)
+  conversion?: CurrencyConversion; // Set once the amounts above have been converted to USD
+  exchangeRateMissing?: boolean; // Non-USD prices with no exchange rate for the date - amounts NOT converted
+
+  // Extraction quality
+  fieldConfidence?: FieldConfidence; // Model's own 0-1 confidence per field
+  fromCache?: boolean; // Served from the extraction cache - no Gemini call was made
 
   // Tax split detection
   isTaxSplit?: boolean; // True if this appears to be a tax split scenario
   taxSplitReason?: string; // Why it was flagged as tax split
 }
 
+// Fields the extraction reports a confidence for
+export type ExtractionField = 'trackingNumber' | 'orderNumber' | 'seller' | 'orderDate' | 'items' | 'orderTotal';
+
+export type FieldConfidence = Partial<Record<ExtractionField, number>>;
+
+// Problem found by the post-extraction consistency checks
+export interface ExtractionIssue {
+  code: 'items-total-mismatch' | 'missing-tracking' | 'zero-price' | 'no-items' | 'not-an-order' | 'low-confidence';
+  severity: 'warning' | 'error';
+  message: string;
+  field?: ExtractionField;
+}
+
+// Why an order was flagged as a possible duplicate of another
+export type DuplicateReason = 'screenshot' | 'tracking' | 'orderNumber';
+
+export interface DuplicateMatch {
+  orderId: string; // The original order
+  packageNumber: string;
+  consignee: string;
+  reasons: DuplicateReason[];
+}
+
 // Per-screenshot breakdown for document
 export interface ScreenshotBreakdown {
   screenshotNumber: number; // 1, 2, 3, etc.
@@ -263,6 +374,47 @@ export type PackageStatus =
   | 'delivered' // Delivered to customer
   | 'on-hold'; // On hold for issues
 
+// Order lifecycle for organizations/{orgId}/orders (see utils/orderLifecycle)
+export type OrderStatus =
+  | 'pending-review' // Extraction not yet checked
+  | 'reviewed' // Extraction checked, waiting for the package
+  | 'received' // Package received at warehouse
+  | 'customs-pending' // Declared, awaiting clearance
+  | 'customs-cleared' // Cleared by customs
+  | 'ready-pickup' // Ready for customer pickup
+  | 'delivered' // Delivered to customer
+  | 'on-hold'; // On hold for issues
+
+export type OrderStatusSource = 'web' | 'whatsapp';
+
+// One status change, appended to the order's statusHistory
+export interface OrderStatusChange {
+  from: OrderStatus;
+  to: OrderStatus;
+  at: string; // ISO
+  by: string; // User ID
+  byName?: string;
+  source: OrderStatusSource;
+}
+
+// Where a change to an order came from
+export type OrderAuditSource = 'web' | 'whatsapp' | 'word-import' | 'ai-reextract' | 'sheet-import' | 'consignee-merge';
+
+// Append-only entry in organizations/{orgId}/orders/{orderId}/audit
+// One entry per changed field; 'create' entries have no field, 'revert' entries point at the change they undid
+export interface OrderAuditEntry {
+  id: string;
+  action: 'create' | 'update' | 'revert';
+  field?: string;
+  from?: unknown; // null when the field was unset
+  to?: unknown;
+  source: OrderAuditSource;
+  by: string; // User ID
+  byName?: string;
+  at: Date;
+  revertOf?: string; // Audit entry ID
+}
+
 // Main Package
 export interface Package {
   id: string;
@@ -324,6 +476,88 @@ export interface CustomsDeclaration {
   permitsObtained?: boolean;
   estimatedDuty: number;
   estimatedVAT: number;
+  tariffVersion?: string; // Tariff table version the duty was calculated with
+  dutyLines?: ItemDutyLine[]; // Per-item rate actually applied
+  freight?: number; // Freight from the organization's rate card (USD)
+  insurance?: number; // Insurance (USD)
+  cifValue?: number; // Customs value: declared (FOB) + freight + insurance
+}
+
+// Tariff (SAC / DAI) - El Salvador import duty rates by HS code
+export type TariffMatchLevel = 'subheading' | 'heading' | 'chapter' | 'default';
+
+export interface TariffRate {
+  code: string; // HS digits only: chapter "61", heading "6109", subheading "610910" or longer
+  description: string;
+  rate: number; // DAI as a fraction (0.15 = 15%)
+}
+
+export interface TariffTable {
+  version: string; // e.g. "SAC-2026.1"
+  effectiveDate: string; // YYYY-MM-DD
+  source?: string; // Where the rates were taken from
+  defaultRate: number; // Used when neither the code nor its chapter is in the table
+  rates: TariffRate[];
+  publishedBy?: string;
+  publishedAt?: Date;
+}
+
+export interface ItemDutyLine {
+  itemName: string;
+  hsCode?: string;
+  value: number; // Declared (FOB) value
+  freight: number; // Share of the package freight, pro-rata by value
+  insurance: number;
+  cif: number; // value + freight + insurance
+  rate: number; // DAI rate
+  matchedCode?: string; // Table entry the rate came from
+  matchLevel: TariffMatchLevel;
+  duty: number; // DAI on CIF
+  vat: number; // 13% IVA on CIF + DAI
+}
+
+// Customs valuation - per-organization freight rate card
+export interface FreightBand {
+  maxWeightLb: number; // Band applies up to and including this weight
+  ratePerLb?: number; // Charged per pound in this band...
+  flatRate?: number; // ...or a fixed price for the band
+}
+
+export interface CourierRateCard {
+  courier: string; // Matched case-insensitively against the package carrier
+  bands: FreightBand[];
+  minimumCharge?: number;
+}
+
+export interface ValuationSettings {
+  rateCards: CourierRateCard[];
+  defaultCourier?: string; // Card used when the carrier has none of its own
+  insuranceRate: number; // Fraction of FOB (0.015 = 1.5%)
+  handlingFee: number; // Flat fee per package, USD
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// English -> Spanish dictionary for export item descriptions. Version 0 is the
+// built-in one (utils/translationDictionary); an organization's own versions are
+// saved at organizations/{orgId}/translationDictionaries/{version} and only hold
+// its overrides, merged over the built-in entries when used.
+export interface TranslationDictionary {
+  version: number;
+  phrases: Record<string, string>; // Multi-word English phrase -> Spanish, matched first
+  words: Record<string, string>; // Single English word -> Spanish
+  keepWords: string[]; // Words left as they are (brands, sizes) and never reported untranslated
+  flaggedWords: string[]; // Words customs rejects in descriptions; removed from the output
+  note?: string;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// A word an export left in English (organizations/{orgId}/untranslatedWords/{word})
+export interface UntranslatedWord {
+  word: string;
+  count: number; // Exports it appeared in
+  lastSeenAt: Date;
 }
 
 // SMS Notification
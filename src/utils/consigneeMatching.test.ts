@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { Consignee } from '../types';
+import { autoLinkConsignee, findConsigneeMatches } from './consigneeMatching';
+
+const entry = (id: string, name: string, nameVariants: string[] = []): Consignee => ({
+  id,
+  name,
+  nameVariants,
+  createdAt: new Date('2026-01-01'),
+});
+
+describe('autoLinkConsignee', () => {
+  it('links spelling variants of the same person', () => {
+    const directory = [entry('maria', 'María López')];
+    expect(autoLinkConsignee('maria lopez', directory)?.consignee.id).toBe('maria');
+    expect(autoLinkConsignee('Maria Lopes', directory)?.consignee.id).toBe('maria');
+    expect(autoLinkConsignee('Maria Lopez', [entry('maria', 'Maria Lopez Hernandez')])?.consignee.id).toBe('maria');
+  });
+
+  it.each([
+    ['Mario Lopez', 'Maria Lopez'],
+    ['Jose Perez', 'Josue Perez'],
+  ])('only suggests %s for %s - the first names differ', (typed, stored) => {
+    const directory = [entry('stored', stored)];
+    expect(autoLinkConsignee(typed, directory)).toBeNull();
+    expect(findConsigneeMatches(typed, directory).map(match => match.consignee.id)).toEqual(['stored']);
+  });
+
+  it('never links a lone first name', () => {
+    expect(autoLinkConsignee('Ana', [entry('ana', 'Ana Garcia')])).toBeNull();
+  });
+});
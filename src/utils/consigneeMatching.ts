@@ -0,0 +1,127 @@
+import type { Consignee } from '../types';
+
+/**
+ * Fuzzy matching of typed consignee names against the organization's directory.
+ *
+ * Names are compared token by token after folding case and accents, so
+ * "maria lopez", "María López" and "Maria Lopes" land on the same entry, and
+ * "Maria Lopez" still matches a directory entry "Maria Lopez Hernandez".
+ * A lone first name never auto-links - "Ana" could be anyone - and neither does
+ * a different first name: "Mario Lopez" is only suggested for "Maria Lopez".
+ * functions/src/utils/consigneeMatching.ts is the WhatsApp copy; keep the two
+ * scoring the same so both import paths link names alike.
+ */
+
+export const AUTO_LINK_SCORE = 0.88; // Link without asking
+export const SUGGEST_SCORE = 0.7; // Offer as "did you mean"
+
+export interface ConsigneeMatch {
+  consignee: Consignee;
+  score: number; // 0-1
+  matchedName: string; // The name or variant that matched
+}
+
+export const normalizeConsigneeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+const stringSimilarity = (a: string, b: string): number =>
+  a === b ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+/**
+ * Similarity of two names, 0-1
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const na = normalizeConsigneeName(a);
+  const nb = normalizeConsigneeName(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  const [shorter, longer] = [na.split(' '), nb.split(' ')].sort((x, y) => x.length - y.length);
+  const tokenScore = shorter.reduce(
+    (sum, token) => sum + Math.max(...longer.map(other => stringSimilarity(token, other))),
+    0
+  ) / shorter.length;
+  // Extra names on one side (a second surname) cost a little; a single name can only suggest
+  const coverage = shorter.length === 1 ? 0.8 : 0.9 + 0.1 * (shorter.length / longer.length);
+
+  return Math.max(tokenScore * coverage, stringSimilarity(na, nb) * (shorter.length === 1 ? 0.8 : 1));
+};
+
+/**
+ * Directory entries resembling `name`, best first (only those at or above SUGGEST_SCORE)
+ */
+export const findConsigneeMatches = (name: string, consignees: Consignee[], limit = 3): ConsigneeMatch[] =>
+  consignees
+    .map(consignee => {
+      const best = [consignee.name, ...(consignee.nameVariants || [])]
+        .map(candidate => ({ candidate, score: nameSimilarity(name, candidate) }))
+        .sort((x, y) => y.score - x.score)[0];
+      return { consignee, score: best.score, matchedName: best.candidate };
+    })
+    .filter(match => match.score >= SUGGEST_SCORE)
+    .sort((x, y) => y.score - x.score)
+    .slice(0, limit);
+
+const firstName = (name: string): string => normalizeConsigneeName(name).split(' ')[0];
+
+/**
+ * The entry to link without asking, if one matches clearly
+ */
+export const autoLinkConsignee = (name: string, consignees: Consignee[]): ConsigneeMatch | null => {
+  const [best, runnerUp] = findConsigneeMatches(name, consignees, 2);
+  if (!best || best.score < AUTO_LINK_SCORE) return null;
+  // One letter apart can be a different person ("Mario"/"Maria") - a person picks
+  if (firstName(name) !== firstName(best.matchedName)) return null;
+  // Two entries scoring alike (e.g. two "Maria Lopez ..."): let a person pick
+  if (runnerUp && best.score < 1 && runnerUp.score >= best.score - 0.02) return null;
+  return best;
+};
+
+/**
+ * DUI check digit: weights 9..2 over the first eight digits
+ */
+export const isValidDui = (dui: string): boolean => {
+  const digits = dui.replace(/\D/g, '');
+  if (digits.length !== 9) return false;
+  const sum = [...digits.slice(0, 8)].reduce((total, d, i) => total + Number(d) * (9 - i), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[8]);
+};
+
+export const formatDui = (dui: string): string => {
+  const digits = dui.replace(/\D/g, '');
+  return digits.length === 9 ? `${digits.slice(0, 8)}-${digits[8]}` : dui.trim();
+};
+
+/**
+ * NIT is 14 digits (0000-000000-000-0); since 2021 a person's DUI is also accepted
+ */
+export const isValidNit = (nit: string): boolean => {
+  const digits = nit.replace(/\D/g, '');
+  return digits.length === 14 || (digits.length === 9 && isValidDui(digits));
+};
+
+export const formatNit = (nit: string): string => {
+  const digits = nit.replace(/\D/g, '');
+  if (digits.length === 14) {
+    return `${digits.slice(0, 4)}-${digits.slice(4, 10)}-${digits.slice(10, 13)}-${digits[13]}`;
+  }
+  return digits.length === 9 ? formatDui(digits) : nit.trim();
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { conversionDateFor, normalizeCurrency } from './currency';
+import {
+  conversionDateFor as serverConversionDateFor,
+  normalizeCurrency as serverNormalizeCurrency,
+} from '../../functions/src/services/exchangeRates';
+
+describe('normalizeCurrency', () => {
+  it.each([
+    '$', 'US$', 'USD$', 'dollar', 'Dolares', 'MX$', 'MEX$', 'pesos', 'PESO', '€', 'euro', 'EUROS',
+    '¥', '￥', 'RMB', 'yuan', '£', 'C$', 'CA$', 'Q', 'MXN', 'jpy', '', 'soles',
+  ])('reads %j the same on the web and over WhatsApp', raw => {
+    expect(serverNormalizeCurrency(raw)).toBe(normalizeCurrency(raw));
+  });
+
+  it('maps local spellings to ISO codes', () => {
+    expect(normalizeCurrency('Q')).toBe('GTQ');
+    expect(normalizeCurrency('￥')).toBe('CNY');
+    expect(normalizeCurrency('Dolares')).toBe('USD');
+  });
+});
+
+describe('conversionDateFor', () => {
+  it('uses the order date read from the screenshot', () => {
+    expect(conversionDateFor('2026-01-02', '2026-01-20')).toBe('2026-01-02');
+    expect(serverConversionDateFor('2026-01-02', '2026-01-20')).toBe('2026-01-02');
+  });
+
+  it('falls back when the order date is missing, malformed or in the future', () => {
+    expect(conversionDateFor(undefined, '2026-01-20')).toBe('2026-01-20');
+    expect(conversionDateFor('Jan 2, 2026', '2026-01-20')).toBe('2026-01-20');
+    expect(conversionDateFor('2026-02-01', '2026-01-20')).toBe('2026-01-20');
+  });
+});
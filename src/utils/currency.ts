@@ -0,0 +1,199 @@
+import type { CurrencyConversion, ExchangeRate, ExtractedOrderData, PackageItem } from '../types';
+
+/**
+ * Currency conversion for extracted orders.
+ *
+ * Customs values everything in USD. Screenshots from Shein MX, Temu EU or
+ * AliExpress show MXN, EUR, CNY... Extraction records the source currency and
+ * the amounts are converted with the organization's exchange-rate table: the
+ * rate whose effective date is the latest one on or before the order date
+ * (the date read from the screenshot, or the upload date when it has none).
+ * Rates are USD per one unit of the foreign currency (MXN 0.0550 = 1 MXN is
+ * $0.055). The original amounts are kept on the items.
+ */
+
+export const BASE_CURRENCY = 'USD';
+
+// Symbols and local spellings the screenshots use → ISO 4217
+// (functions/src/services/exchangeRates.ts has the same table - keep them identical)
+const CURRENCY_ALIASES: Record<string, string> = {
+  '$': 'USD',
+  'US$': 'USD',
+  'USD$': 'USD',
+  'DOLLAR': 'USD',
+  'DOLARES': 'USD',
+  'MX$': 'MXN',
+  'MEX$': 'MXN',
+  'PESOS': 'MXN',
+  'PESO': 'MXN',
+  '€': 'EUR',
+  'EURO': 'EUR',
+  'EUROS': 'EUR',
+  '¥': 'CNY',
+  '￥': 'CNY',
+  'RMB': 'CNY',
+  'YUAN': 'CNY',
+  '£': 'GBP',
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  'Q': 'GTQ',
+};
+
+export const COMMON_CURRENCIES = ['USD', 'MXN', 'EUR', 'CNY', 'GBP', 'CAD', 'GTQ', 'HNL', 'CRC', 'COP', 'JPY'];
+
+/**
+ * ISO code from whatever the extraction returned. Unknown/empty → USD.
+ */
+export const normalizeCurrency = (raw: string | null | undefined): string => {
+  const value = (raw || '').trim().toUpperCase();
+  if (!value) return BASE_CURRENCY;
+  if (CURRENCY_ALIASES[value]) return CURRENCY_ALIASES[value];
+  return /^[A-Z]{3}$/.test(value) ? value : BASE_CURRENCY;
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Date to convert an extraction at: the order date it read (YYYY-MM-DD, not
+ * after `fallback`), otherwise `fallback` - usually the upload date
+ */
+export const conversionDateFor = (orderDate: string | null | undefined, fallback: string): string =>
+  orderDate && /^\d{4}-\d{2}-\d{2}$/.test(orderDate) && orderDate <= fallback ? orderDate : fallback;
+
+/**
+ * Rate in force on a date (YYYY-MM-DD): latest effectiveDate on or before it
+ */
+export const findExchangeRate = (
+  rates: ExchangeRate[],
+  currency: string,
+  onDate: string
+): ExchangeRate | undefined =>
+  rates
+    .filter(r => r.currency === currency && r.effectiveDate <= onDate)
+    .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate))[0];
+
+/**
+ * Convert an extraction to USD. Items keep their original amounts; if no rate
+ * covers the date the data comes back unconverted with exchangeRateMissing set.
+ */
+export const convertExtractedOrder = (
+  data: ExtractedOrderData,
+  rates: ExchangeRate[],
+  onDate: string
+): ExtractedOrderData => {
+  const currency = normalizeCurrency(data.currency);
+  if (currency === BASE_CURRENCY || data.conversion) return { ...data, currency };
+
+  const rate = findExchangeRate(rates, currency, onDate);
+  if (!rate) {
+    return { ...data, currency, items: data.items.map(item => ({ ...item, currency })), exchangeRateMissing: true };
+  }
+
+  const items: PackageItem[] = data.items.map(item => ({
+    ...item,
+    currency,
+    originalUnitValue: item.unitValue,
+    originalTotalValue: item.totalValue,
+    exchangeRate: rate.rate,
+    unitValue: round2((item.unitValue || 0) * rate.rate),
+    totalValue: round2((item.totalValue || 0) * rate.rate),
+  }));
+  const originalAmount = data.orderTotal || 0;
+
+  return {
+    ...data,
+    currency,
+    items,
+    orderTotal: round2(originalAmount * rate.rate),
+    conversion: {
+      currency,
+      rate: rate.rate,
+      effectiveDate: rate.effectiveDate,
+      originalAmount,
+      usdAmount: round2(originalAmount * rate.rate),
+    },
+  };
+};
+
+/**
+ * Order-level summary: one entry per currency and rate
+ */
+export const mergeConversions = (conversions: CurrencyConversion[]): CurrencyConversion[] => {
+  const merged = new Map<string, CurrencyConversion>();
+  for (const c of conversions) {
+    const key = `${c.currency}|${c.rate}|${c.effectiveDate}`;
+    const existing = merged.get(key);
+    merged.set(key, existing
+      ? {
+        ...existing,
+        originalAmount: round2(existing.originalAmount + c.originalAmount),
+        usdAmount: round2(existing.usdAmount + c.usdAmount),
+      }
+      : { ...c });
+  }
+  return [...merged.values()];
+};
+
+/**
+ * "MXN 1,250.00 × 0.0550 = $68.75 (tasa 2026-10-01)"
+ */
+export const formatConversion = (c: CurrencyConversion): string =>
+  `${c.currency} ${c.originalAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` +
+  ` × ${c.rate} = $${c.usdAmount.toFixed(2)} (tasa ${c.effectiveDate})`;
+
+/**
+ * Note for a single converted item
+ */
+export const formatItemConversion = (item: PackageItem): string | undefined => {
+  if (!item.currency || item.currency === BASE_CURRENCY || item.originalTotalValue === undefined) return undefined;
+  return `${item.currency} ${item.originalTotalValue.toFixed(2)} × ${item.exchangeRate} = $${item.totalValue.toFixed(2)}`;
+};
+
+/**
+ * Parse an exchange-rate CSV: currency,effectiveDate,rate (header optional).
+ * Returns the rates and the problems found, line by line.
+ */
+export const parseExchangeRateCsv = (text: string): { rates: Omit<ExchangeRate, 'source'>[]; errors: string[] } => {
+  const rates: Omit<ExchangeRate, 'source'>[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const [rawCurrency, rawDate, rawRate] = trimmed.split(/[,;\t]/).map(part => part.trim().replace(/^"|"$/g, ''));
+    if (index === 0 && /currency|moneda/i.test(rawCurrency)) return; // Header
+
+    const currency = (rawCurrency || '').toUpperCase();
+    const rate = parseFloat(rawRate);
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      errors.push(`Line ${index + 1}: "${rawCurrency}" is not a 3-letter currency code`);
+    } else if (currency === BASE_CURRENCY) {
+      errors.push(`Line ${index + 1}: USD is the base currency and needs no rate`);
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(rawDate || '')) {
+      errors.push(`Line ${index + 1}: effective date must be YYYY-MM-DD`);
+    } else if (!(rate > 0)) {
+      errors.push(`Line ${index + 1}: rate must be a positive number (USD per 1 ${currency})`);
+    } else {
+      rates.push({ currency, effectiveDate: rawDate, rate });
+    }
+  });
+
+  return { rates, errors };
+};
+
+export const exchangeRatesToCsv = (rates: ExchangeRate[]): string =>
+  ['currency,effectiveDate,rate', ...rates.map(r => `${r.currency},${r.effectiveDate},${r.rate}`)].join('\n');
+
+/**
+ * Exports must not present unconverted foreign amounts as USD
+ */
+export const assertOrdersConverted = (orders: { packageNumber: string; exchangeRateMissing?: string[] }[]): void => {
+  const unconverted = orders.filter(o => o.exchangeRateMissing && o.exchangeRateMissing.length > 0);
+  if (unconverted.length === 0) return;
+  const currencies = [...new Set(unconverted.flatMap(o => o.exchangeRateMissing || []))];
+  throw new Error(
+    `${unconverted.length} order(s) are still priced in ${currencies.join(', ')} with no exchange rate ` +
+    `(${unconverted.slice(0, 5).map(o => o.packageNumber).join(', ')}${unconverted.length > 5 ? '…' : ''}). ` +
+    'Add the rate in Settings → Exchange Rates, then click each flagged value in Order Management to convert it.'
+  );
+};
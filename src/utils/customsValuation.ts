@@ -0,0 +1,168 @@
+import type {
+  CourierRateCard,
+  CustomsDeclaration,
+  ItemDutyLine,
+  PackageItem,
+  TariffTable,
+  ValuationSettings,
+} from '../types';
+import { DEFAULT_TARIFF_TABLE, lookupTariffRate } from './tariffTable';
+
+/**
+ * CIF customs valuation for El Salvador.
+ *
+ * Customs values a package at CIF: declared (FOB) value + freight + insurance.
+ * DAI is charged on CIF and the 13% IVA on CIF + DAI. Freight comes from the
+ * organization's rate card (courier + weight band) and is spread over the
+ * items in proportion to their value; the handling fee is per package and is
+ * not part of the customs base.
+ */
+
+const VAT_RATE = 0.13; // 13% IVA
+export const DUTY_FREE_THRESHOLD = 300; // USD, personal packages (compared against FOB)
+export const KG_TO_LB = 2.20462;
+
+export const DEFAULT_VALUATION_SETTINGS: ValuationSettings = {
+  rateCards: [],
+  insuranceRate: 0.015, // Presumed insurance when the shipper declares none
+  handlingFee: 0,
+};
+
+export interface ShipmentDetails {
+  weightLb: number;
+  courier?: string;
+}
+
+export interface CustomsValuation {
+  fobValue: number;
+  freight: number;
+  insurance: number;
+  cifValue: number;
+  isDutyFree: boolean;
+  importDuty: number; // DAI
+  vat: number; // IVA
+  handlingFee: number;
+  totalFees: number; // DAI + IVA + handling fee
+  tariffVersion: string;
+  courier?: string; // Rate card actually used
+  warnings: string[]; // e.g. no rate card / no weight → freight 0
+  lines: ItemDutyLine[];
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Order weights are free text ("4.5 kg", "10 lb", "3"). Bare numbers are pounds.
+ */
+export const parseWeightLb = (weight: string | number | undefined): number => {
+  if (typeof weight === 'number') return weight;
+  const match = (weight || '').trim().match(/^(\d+(?:[.,]\d+)?)\s*(kg|kgs|lb|lbs)?$/i);
+  if (!match) return 0;
+  const value = parseFloat(match[1].replace(',', '.'));
+  return match[2]?.toLowerCase().startsWith('kg') ? value * KG_TO_LB : value;
+};
+
+/**
+ * Package weight from item weights (kg) when no package weight is recorded
+ */
+export const itemsWeightLb = (items: PackageItem[]): number =>
+  items.reduce((sum, item) => sum + (item.weight || 0), 0) * KG_TO_LB;
+
+const findRateCard = (settings: ValuationSettings, courier?: string): CourierRateCard | undefined => {
+  const byName = (name?: string) =>
+    name ? settings.rateCards.find(card => card.courier.toLowerCase() === name.toLowerCase()) : undefined;
+  return byName(courier) || byName(settings.defaultCourier) || settings.rateCards[0];
+};
+
+/**
+ * Freight for a weight on a courier's card. Above the last band, the last
+ * band's per-pound rate keeps applying.
+ */
+export const calculateFreight = (card: CourierRateCard, weightLb: number): number => {
+  if (weightLb <= 0 || card.bands.length === 0) return 0;
+  const bands = [...card.bands].sort((a, b) => a.maxWeightLb - b.maxWeightLb);
+  const band = bands.find(b => weightLb <= b.maxWeightLb) || bands[bands.length - 1];
+  const freight = band.flatRate !== undefined && weightLb <= band.maxWeightLb
+    ? band.flatRate
+    : (band.ratePerLb || 0) * weightLb;
+  return Math.max(freight, card.minimumCharge || 0);
+};
+
+/**
+ * Value a package at CIF and compute DAI, IVA and the handling fee per item
+ */
+export const valuePackage = (
+  items: PackageItem[],
+  options: {
+    purpose?: CustomsDeclaration['purpose'];
+    tariff?: TariffTable;
+    settings?: ValuationSettings;
+    shipment?: ShipmentDetails;
+  } = {}
+): CustomsValuation => {
+  const purpose = options.purpose || 'personal';
+  const tariff = options.tariff || DEFAULT_TARIFF_TABLE;
+  const settings = options.settings || DEFAULT_VALUATION_SETTINGS;
+  const warnings: string[] = [];
+
+  const fobValue = items.reduce((sum, item) => sum + (item.totalValue || 0), 0);
+  const isDutyFree = purpose === 'personal' && fobValue < DUTY_FREE_THRESHOLD;
+
+  // Freight from the rate card
+  let freight = 0;
+  const card = findRateCard(settings, options.shipment?.courier);
+  if (!card) {
+    warnings.push('No freight rate card configured - freight valued at $0');
+  } else if (!options.shipment || options.shipment.weightLb <= 0) {
+    warnings.push('Package weight missing - freight valued at $0');
+  } else {
+    freight = calculateFreight(card, options.shipment.weightLb);
+  }
+  const insurance = fobValue * settings.insuranceRate;
+
+  const lines: ItemDutyLine[] = items.map(item => {
+    const value = item.totalValue || 0;
+    const share = fobValue > 0 ? value / fobValue : 1 / items.length;
+    const lineFreight = freight * share;
+    const lineInsurance = value * settings.insuranceRate;
+    const cif = value + lineFreight + lineInsurance;
+
+    const lookup = lookupTariffRate(tariff, item.hsCode);
+    const rate = isDutyFree ? 0 : lookup.rate;
+    const duty = cif * rate;
+    return {
+      itemName: item.name,
+      hsCode: item.hsCode,
+      value: round2(value),
+      freight: round2(lineFreight),
+      insurance: round2(lineInsurance),
+      cif: round2(cif),
+      rate,
+      matchedCode: lookup.matchedCode,
+      matchLevel: lookup.matchLevel,
+      duty: round2(duty),
+      vat: round2((cif + duty) * VAT_RATE),
+    };
+  });
+
+  const cifValue = fobValue + freight + insurance;
+  const importDuty = lines.reduce((sum, line) => sum + line.duty, 0);
+  const vat = (cifValue + importDuty) * VAT_RATE;
+  const handlingFee = settings.handlingFee || 0;
+
+  return {
+    fobValue: round2(fobValue),
+    freight: round2(freight),
+    insurance: round2(insurance),
+    cifValue: round2(cifValue),
+    isDutyFree,
+    importDuty: round2(importDuty),
+    vat: round2(vat),
+    handlingFee: round2(handlingFee),
+    totalFees: round2(importDuty + vat + handlingFee),
+    tariffVersion: tariff.version,
+    courier: card?.courier,
+    warnings,
+    lines,
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { OrderRow } from '../components/OrderManagement';
+import { applySheetChanges } from './desarrolloImport';
+import type { SheetChange } from './desarrolloImport';
+
+const order: OrderRow = {
+  id: 'order-1',
+  packageNumber: 'Paquete #1',
+  date: '2026-01-08',
+  consignee: 'Maria Lopez',
+  pieces: 3,
+  weight: '2 lb',
+  trackingNumber: '',
+  company: '',
+  value: 50,
+  parcelComp: '',
+  screenshotUrls: [],
+  createdAt: new Date('2026-01-08'),
+  items: [
+    { name: 'Cable', quantity: 2, unitValue: 10, totalValue: 20 },
+    { name: 'Mouse', quantity: 1, unitValue: 30, totalValue: 30 },
+  ],
+};
+
+describe('applySheetChanges', () => {
+  it('recomputes pieces and value from edited items', () => {
+    const approved: SheetChange[] = [
+      { id: 'q', kind: 'edit', itemIndex: 0, field: 'quantity', label: 'Cable quantity', from: 2, to: 3 },
+      { id: 't', kind: 'edit', itemIndex: 0, field: 'totalValue', label: 'Cable total', from: 20, to: 30.5 },
+      { id: 'r', kind: 'remove-item', itemIndex: 1, label: 'Mouse' },
+    ];
+    const updates = applySheetChanges(order, approved);
+    expect(updates.items).toHaveLength(1);
+    expect(updates.pieces).toBe(3);
+    expect(updates.value).toBe(30.5);
+  });
+
+  it('keeps an approved order-level value over the item sum', () => {
+    const approved: SheetChange[] = [
+      { id: 'q', kind: 'edit', itemIndex: 1, field: 'quantity', label: 'Mouse quantity', from: 1, to: 2 },
+      { id: 'v', kind: 'edit', field: 'value', label: 'Order value', from: 50, to: 75 },
+    ];
+    const updates = applySheetChanges(order, approved);
+    expect(updates.pieces).toBe(4);
+    expect(updates.value).toBe(75);
+  });
+
+  it('leaves items, pieces and value alone without item changes', () => {
+    expect(applySheetChanges(order, [])).toEqual({});
+  });
+});
@@ -0,0 +1,370 @@
+import type ExcelJS from 'exceljs';
+import { NO_ITEM_DETAILS, declaredConsignee, declaredPackageNumber } from './desarrolloLayout';
+import { declaredDescription } from './translationDictionary';
+import { SUGGEST_SCORE, nameSimilarity, normalizeConsigneeName } from './consigneeMatching';
+import { applyHsClassification, classifyItemLocally } from './hsClassifier';
+import type { OrderRow } from '../components/OrderManagement';
+import type { Consignee, PackageItem, TranslationDictionary } from '../types';
+
+/**
+ * Reads a Desarrollo form back - the Google Sheet from exportOrdersToGoogleSheet
+ * or an .xlsx of the same layout - after gestores corrected it by hand, and
+ * turns their corrections into per-field changes on the orders.
+ *
+ * Customer blocks are found by the layout, not by position: a block starts
+ * at a row with a consignee or package number, runs to its TOTAL row, and
+ * rows inserted or deleted inside it become added or removed items. Blocks
+ * are matched to orders by package number and consignee. Nothing is applied
+ * here; the caller shows the changes for approval and applies the accepted
+ * ones with applySheetChanges.
+ */
+
+export type SheetCellValue = string | number | undefined;
+
+export interface SheetGrid {
+  name: string;
+  rows: SheetCellValue[][];
+}
+
+export interface SheetRowItem {
+  quantity: number;
+  description: string;
+  unitValue: number;
+  totalValue: number;
+}
+
+export interface SheetBlock {
+  sheet: string;
+  row: number; // A1 row of the block's first line
+  consignee: string;
+  packageNumber: string;
+  items: SheetRowItem[];
+}
+
+// Columns of the form (0-indexed): C consignee, D package, E quantity, F description, I unit value, J total
+const COL = { consignee: 2, packageNumber: 3, quantity: 4, description: 5, subtotal: 7, unitValue: 8, total: 9 };
+
+const text = (value: SheetCellValue): string => (value === undefined ? '' : String(value)).trim();
+
+const numberValue = (value: SheetCellValue): number => {
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(text(value).replace(/[$,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+/**
+ * Customer blocks on every page of the form. Pages without the column
+ * headers (a stray tab, a notes sheet) are skipped.
+ */
+export const parseDesarrolloSheets = (sheets: SheetGrid[]): SheetBlock[] => {
+  const blocks: SheetBlock[] = [];
+
+  for (const sheet of sheets) {
+    const headerRow = sheet.rows.findIndex(row => /^no\.? de pk/i.test(text(row?.[COL.packageNumber])));
+    if (headerRow < 0) continue;
+
+    let current: SheetBlock | null = null;
+    for (let r = headerRow + 2; r < sheet.rows.length; r++) {
+      const row = sheet.rows[r] || [];
+      if ([COL.subtotal, COL.unitValue].some(col => text(row[col]).toUpperCase() === 'SUBTOTAL')) break;
+      if (text(row[COL.unitValue]).toUpperCase() === 'TOTAL') {
+        current = null;
+        continue;
+      }
+
+      const consignee = text(row[COL.consignee]);
+      const packageNumber = text(row[COL.packageNumber]);
+      if (consignee || packageNumber) {
+        current = { sheet: sheet.name, row: r + 1, consignee, packageNumber, items: [] };
+        blocks.push(current);
+      }
+
+      const hasItem = [COL.quantity, COL.description, COL.unitValue, COL.total].some(col => text(row[col]) !== '');
+      if (hasItem && current) {
+        current.items.push({
+          quantity: numberValue(row[COL.quantity]),
+          description: text(row[COL.description]),
+          unitValue: numberValue(row[COL.unitValue]),
+          totalValue: numberValue(row[COL.total]),
+        });
+      }
+    }
+  }
+
+  return blocks;
+};
+
+/**
+ * Cell values of an uploaded .xlsx, formulas replaced by their cached results
+ */
+export const readWorkbookGrids = (workbook: ExcelJS.Workbook): SheetGrid[] =>
+  workbook.worksheets.map(worksheet => {
+    const rows: SheetCellValue[][] = [];
+    worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+      const values: SheetCellValue[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+        const value = cell.value;
+        if (typeof value === 'number' || typeof value === 'string') {
+          values[colNumber - 1] = value;
+        } else if (value && typeof value === 'object') {
+          if ('result' in value) {
+            const result = value.result;
+            values[colNumber - 1] = typeof result === 'number' || typeof result === 'string' ? result : undefined;
+          } else if ('richText' in value) {
+            values[colNumber - 1] = value.richText.map(run => run.text).join('');
+          } else if ('text' in value) {
+            values[colNumber - 1] = String(value.text);
+          }
+        }
+      });
+      rows[rowNumber - 1] = values;
+    });
+    return { name: worksheet.name, rows };
+  });
+
+// ── Matching and diff ────────────────────────────────────────────────────────
+
+export type SheetChangeField = 'quantity' | 'description' | 'unitValue' | 'totalValue' | 'pieces' | 'value';
+
+export interface SheetChange {
+  id: string; // Unique within the order, for approval checkboxes
+  kind: 'edit' | 'add-item' | 'remove-item';
+  itemIndex?: number; // Index in order.items; unset for pieces/value and added items
+  field?: SheetChangeField;
+  label: string;
+  from?: string | number;
+  to?: string | number;
+  row?: SheetRowItem; // The sheet row behind an added item
+}
+
+export interface SheetOrderDiff {
+  orderId: string;
+  packageNumber: string;
+  consignee: string;
+  sheet: string;
+  row: number;
+  changes: SheetChange[];
+}
+
+export interface UnmatchedBlock {
+  sheet: string;
+  row: number;
+  packageNumber: string;
+  consignee: string;
+  reason: string;
+}
+
+export interface SheetImportResult {
+  diffs: SheetOrderDiff[]; // Only orders with at least one change
+  unchangedCount: number;
+  unmatched: UnmatchedBlock[];
+}
+
+const sameNumber = (a: number, b: number): boolean => Math.abs(a - b) < 0.005;
+
+const sameText = (a: string, b: string): boolean =>
+  a.replace(/\s+/g, ' ').trim().toLowerCase() === b.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const FIELD_LABELS: Record<SheetChangeField, string> = {
+  quantity: 'quantity',
+  description: 'description',
+  unitValue: 'unit value',
+  totalValue: 'total',
+  pieces: 'Pieces',
+  value: 'Value',
+};
+
+const itemChanges = (
+  item: PackageItem,
+  row: SheetRowItem,
+  index: number,
+  dictionary?: TranslationDictionary,
+): SheetChange[] => {
+  const label = (field: SheetChangeField) => `Item ${index + 1} ${FIELD_LABELS[field]}`;
+  const edit = (field: SheetChangeField, from: string | number, to: string | number): SheetChange =>
+    ({ id: `${index}:${field}`, kind: 'edit', itemIndex: index, field, label: label(field), from, to });
+
+  const changes: SheetChange[] = [];
+  if (!sameNumber(item.quantity || 0, row.quantity)) changes.push(edit('quantity', item.quantity || 0, row.quantity));
+  const description = declaredDescription(item, dictionary);
+  if (!sameText(description, row.description)) changes.push(edit('description', description, row.description));
+  if (!sameNumber(item.unitValue || 0, row.unitValue)) changes.push(edit('unitValue', item.unitValue || 0, row.unitValue));
+  if (!sameNumber(item.totalValue || 0, row.totalValue)) changes.push(edit('totalValue', item.totalValue || 0, row.totalValue));
+  return changes;
+};
+
+/**
+ * Field-level changes between an order and its block on the sheet. Pass the
+ * dictionary the sheet was exported with so descriptions compare as written.
+ */
+export const diffBlockAgainstOrder = (
+  block: SheetBlock,
+  order: OrderRow,
+  dictionary?: TranslationDictionary,
+): SheetChange[] => {
+  const items = order.items || [];
+
+  // Exported as a single NO ITEM DETAILS row: edits there are the order's pieces and value
+  if (items.length === 0 && block.items.length === 1 && sameText(block.items[0].description, NO_ITEM_DETAILS)) {
+    const [row] = block.items;
+    const changes: SheetChange[] = [];
+    if (!sameNumber(order.pieces || 0, row.quantity)) {
+      changes.push({ id: 'pieces', kind: 'edit', field: 'pieces', label: 'Pieces', from: order.pieces || 0, to: row.quantity });
+    }
+    if (!sameNumber(order.value || 0, row.totalValue)) {
+      changes.push({ id: 'value', kind: 'edit', field: 'value', label: 'Value', from: order.value || 0, to: row.totalValue });
+    }
+    return changes;
+  }
+
+  const changes: SheetChange[] = [];
+  block.items.forEach((row, i) => {
+    if (i < items.length) {
+      changes.push(...itemChanges(items[i], row, i, dictionary));
+    } else {
+      changes.push({
+        id: `add:${i}`,
+        kind: 'add-item',
+        label: `New item: ${row.quantity} × ${row.description || 'no description'} @ $${row.unitValue.toFixed(2)}`,
+        to: row.totalValue,
+        row,
+      });
+    }
+  });
+  for (let i = block.items.length; i < items.length; i++) {
+    changes.push({
+      id: `remove:${i}`,
+      kind: 'remove-item',
+      itemIndex: i,
+      label: `Remove item ${i + 1}: ${declaredDescription(items[i], dictionary)}`,
+      from: items[i].totalValue || 0,
+    });
+  }
+  return changes;
+};
+
+const findOrderForBlock = (
+  block: SheetBlock,
+  orders: OrderRow[],
+  consignees?: Map<string, Consignee>,
+): { order?: OrderRow; reason?: string } => {
+  if (!block.packageNumber) return { reason: 'No package number' };
+  const candidates = orders.filter(order =>
+    declaredPackageNumber(order.packageNumber).toLowerCase() === block.packageNumber.toLowerCase()
+  );
+  if (candidates.length === 0) return { reason: `No order with package number ${block.packageNumber}` };
+
+  const exact = candidates.find(order =>
+    normalizeConsigneeName(declaredConsignee(order, consignees)) === normalizeConsigneeName(block.consignee)
+  );
+  if (exact) return { order: exact };
+
+  const scored = candidates
+    .map(order => ({ order, score: nameSimilarity(declaredConsignee(order, consignees), block.consignee) }))
+    .sort((a, b) => b.score - a.score);
+  if (scored[0].score >= SUGGEST_SCORE) return { order: scored[0].order };
+  return {
+    reason: `Package ${block.packageNumber} belongs to ${declaredConsignee(scored[0].order, consignees) || 'another consignee'}`,
+  };
+};
+
+/**
+ * Match every block to an order and diff it. `orders` is normally every order
+ * of the organization, since a sheet can be months old.
+ */
+export const diffSheetAgainstOrders = (
+  blocks: SheetBlock[],
+  orders: OrderRow[],
+  consignees?: Map<string, Consignee>,
+  dictionary?: TranslationDictionary,
+): SheetImportResult => {
+  const result: SheetImportResult = { diffs: [], unchangedCount: 0, unmatched: [] };
+  const seen = new Set<string>();
+
+  for (const block of blocks) {
+    const { order, reason } = findOrderForBlock(block, orders, consignees);
+    const unmatched = { sheet: block.sheet, row: block.row, packageNumber: block.packageNumber, consignee: block.consignee };
+    if (!order) {
+      result.unmatched.push({ ...unmatched, reason: reason || 'No matching order' });
+      continue;
+    }
+    if (seen.has(order.id)) {
+      result.unmatched.push({ ...unmatched, reason: `Package ${block.packageNumber} appears more than once` });
+      continue;
+    }
+    seen.add(order.id);
+
+    const changes = diffBlockAgainstOrder(block, order, dictionary);
+    if (changes.length === 0) {
+      result.unchangedCount++;
+    } else {
+      result.diffs.push({
+        orderId: order.id,
+        packageNumber: order.packageNumber,
+        consignee: declaredConsignee(order, consignees),
+        sheet: block.sheet,
+        row: block.row,
+        changes,
+      });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Order fields after applying the approved changes. A corrected description
+ * becomes the item's customs description; added items are classified like
+ * freshly extracted ones. Item changes recompute the order's pieces and value
+ * unless an approved order-level edit sets them.
+ */
+export const applySheetChanges = (
+  order: OrderRow,
+  approved: SheetChange[],
+): Partial<Pick<OrderRow, 'items' | 'pieces' | 'value'>> => {
+  const updates: Partial<Pick<OrderRow, 'items' | 'pieces' | 'value'>> = {};
+
+  for (const change of approved) {
+    if (change.kind === 'edit' && change.itemIndex === undefined && (change.field === 'pieces' || change.field === 'value')) {
+      updates[change.field] = Number(change.to) || 0;
+    }
+  }
+
+  const itemLevel = approved.filter(change => change.kind !== 'edit' || change.itemIndex !== undefined);
+  if (itemLevel.length === 0) return updates;
+
+  const removed = new Set(itemLevel.filter(change => change.kind === 'remove-item').map(change => change.itemIndex));
+  const items = (order.items || []).flatMap((item, i): PackageItem[] => {
+    if (removed.has(i)) return [];
+    const edited = { ...item };
+    for (const change of itemLevel) {
+      if (change.kind !== 'edit' || change.itemIndex !== i) continue;
+      if (change.field === 'description') edited.customsDescription = String(change.to || '');
+      else if (change.field === 'quantity') edited.quantity = Number(change.to) || 0;
+      else if (change.field === 'unitValue') edited.unitValue = Number(change.to) || 0;
+      else if (change.field === 'totalValue') edited.totalValue = Number(change.to) || 0;
+    }
+    return [edited];
+  });
+
+  for (const change of itemLevel) {
+    if (change.kind !== 'add-item' || !change.row) continue;
+    const item: PackageItem = {
+      name: change.row.description || 'Item',
+      ...(change.row.description ? { customsDescription: change.row.description } : {}),
+      quantity: change.row.quantity,
+      unitValue: change.row.unitValue,
+      totalValue: change.row.totalValue,
+    };
+    items.push(applyHsClassification(item, classifyItemLocally(item)));
+  }
+
+  updates.items = items;
+  if (updates.pieces === undefined) {
+    updates.pieces = items.reduce((sum, item) => sum + (item.quantity || 0), 0);
+  }
+  if (updates.value === undefined) {
+    updates.value = Math.round(items.reduce((sum, item) => sum + (item.totalValue || 0), 0) * 100) / 100;
+  }
+  return updates;
+};
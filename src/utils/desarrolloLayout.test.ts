@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { OrderRow } from '../components/OrderManagement';
+import { ROWS_PER_PAGE, buildDesarrolloDocument } from './desarrolloLayout';
+import { writeDesarrolloWorkbook } from './desarrolloXlsx';
+
+// 20 customers with 3 items each: 5 grid rows per customer, so 10 per page
+const orders = Array.from({ length: 20 }, (_, i): OrderRow => ({
+  id: `order-${i + 1}`,
+  packageNumber: `PK-${i + 1}`,
+  date: '2026-01-08',
+  consignee: `Cliente ${String(i + 1).padStart(2, '0')}`,
+  pieces: 3,
+  weight: '2 lb',
+  trackingNumber: '',
+  company: '',
+  value: 30,
+  parcelComp: '',
+  screenshotUrls: [],
+  createdAt: new Date('2026-01-08'),
+  items: [1, 2, 3].map(n => ({ name: `Item ${n}`, quantity: 1, unitValue: 10, totalValue: 10, category: 'other' })),
+}));
+
+describe('buildDesarrolloDocument', () => {
+  const document = buildDesarrolloDocument(orders);
+
+  it('splits customers over 68-row pages, the last one with the grand total', () => {
+    expect(document.sheetNames).toEqual(['Hoja 1', 'Hoja 2']);
+    expect(document.pages.map(page => page.rows.length)).toEqual([ROWS_PER_PAGE, ROWS_PER_PAGE + 1]);
+    expect(document.grandTotalValue).toBe(600);
+  });
+
+  it('uses a single CONTROL sheet when everything fits on one page', () => {
+    const single = buildDesarrolloDocument(orders.slice(0, 3));
+    expect(single.sheetNames).toEqual(['CONTROL']);
+    expect(single.pages).toHaveLength(1);
+    expect(single.pages[0].rows).toHaveLength(ROWS_PER_PAGE);
+  });
+});
+
+describe('writeDesarrolloWorkbook', () => {
+  const workbook = writeDesarrolloWorkbook(buildDesarrolloDocument(orders));
+
+  it('writes one worksheet per page with its print area', () => {
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(['Hoja 1', 'Hoja 2']);
+    expect(workbook.worksheets.map(sheet => sheet.pageSetup.printArea)).toEqual(['A1:K68', 'A1:K69']);
+  });
+
+  it('puts the SUBTOTAL row at row 64 on every page, summing the customer totals', () => {
+    const customerTotals = [14, 19, 24, 29, 34, 39, 44, 49, 54, 59].map(row => `J${row}`).join('+');
+    for (const sheet of workbook.worksheets) {
+      expect(sheet.getCell('I64').value).toBe('SUBTOTAL');
+      expect(sheet.getCell('J64').value).toEqual({ formula: customerTotals });
+    }
+    expect(workbook.worksheets[0].getCell('J14').value).toEqual({ formula: 'SUM(J11:J13)' });
+  });
+
+  it('writes the grand total as a value below the last SUBTOTAL', () => {
+    const last = workbook.worksheets[1];
+    expect(last.getCell('I65').value).toBe('TOTAL');
+    expect(last.getCell('J65').value).toBe(600);
+  });
+
+  it('merges the two header rows', () => {
+    const sheet = workbook.worksheets[0];
+    expect(sheet.getCell('C10').master.address).toBe('C9');
+    expect(sheet.getCell('F10').master.address).toBe('F9');
+    expect(sheet.getCell('H9').master.address).toBe('G9');
+    expect(sheet.getCell('G10').isMerged).toBe(false);
+  });
+});
@@ -0,0 +1,670 @@
+import type { OrderRow } from '../components/OrderManagement';
+import type { Consignee, PackageItem, TariffTable, TranslationDictionary, ValuationSettings } from '../types';
+import { valuePackage, parseWeightLb } from './customsValuation';
+import { formatConversion, formatItemConversion } from './currency';
+import { declaredDescription } from './translationDictionary';
+
+/**
+ * Layout of the CONTROL/Desarrollo customs form: customer blocks, 68-row
+ * pages and every cell of each page. Cells are described as Google Sheets API
+ * CellData, which services/orderExcelExportService.ts sends as is and
+ * services/desarrolloXlsxService.ts translates into an .xlsx workbook.
+ * Nothing here touches Firestore, so a form can be built offline.
+ */
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const ROWS_PER_PAGE = 68;
+const OVERHEAD_ROWS = 15; // title(7) + blank(1) + headers(2) + subtotal(1) + blank(2) + sig(2)
+export const GRID_ROWS_PER_PAGE = ROWS_PER_PAGE - OVERHEAD_ROWS; // 53
+
+// The SUBTOTAL row is always at the same 0-indexed position on every sheet:
+// title(7) + blank(1) + headers(2) + grid(53) = row 63  → A1 row 64
+const SUBTOTAL_ROW_0 = 63;
+const SUBTOTAL_ROW_A1 = SUBTOTAL_ROW_0 + 1; // 64
+
+// Column widths in pixels
+export const COLUMN_WIDTHS_PX: Record<number, number> = {
+  0: 70,   // A
+  1: 21,   // B
+  2: 192,  // C — Consignatario
+  3: 113,  // D — No de PK
+  4: 43,   // E — Cant.
+  5: 410,  // F — Descripcion
+  6: 71,   // G — Usado
+  7: 119,  // H — Nuevo
+  8: 96,   // I — Valor Unit.
+  9: 168,  // J — Total
+  10: 70,  // K — IVA
+};
+
+export const ROW_HEIGHT_PX = 21;
+
+// Single row written for an order without line items
+export const NO_ITEM_DETAILS = 'NO ITEM DETAILS';
+
+// Google Sheets formatting constants
+const SOLID_BLACK = {
+  style: 'SOLID' as const,
+  colorStyle: { rgbColor: { red: 0, green: 0, blue: 0 } },
+};
+
+const ALL_BORDERS = {
+  top: SOLID_BLACK,
+  bottom: SOLID_BLACK,
+  left: SOLID_BLACK,
+  right: SOLID_BLACK,
+};
+
+const FONT_NORMAL = {
+  fontFamily: 'Calibri',
+  fontSize: 11,
+  foregroundColorStyle: { rgbColor: { red: 0, green: 0, blue: 0 } },
+};
+
+const FONT_BOLD = { ...FONT_NORMAL, bold: true };
+
+const CURRENCY_FORMAT = { type: 'NUMBER' as const, pattern: '"$"#,##0.00' };
+
+// ── Data structures ──────────────────────────────────────────────────────────
+
+interface CustomerBlock {
+  consignee: string;
+  identityNote?: string; // DUI/NIT from the consignee directory, shown as a cell note on the name
+  packageNumber: string;
+  items: {
+    quantity: number;
+    description: string;
+    unitValue: number;
+    totalValue: number;
+    iva: number;
+    conversionNote?: string; // Original currency amount and rate, shown as a cell note on the USD total
+  }[];
+  totalQuantity: number;
+  totalValue: number;
+  conversionNote?: string;
+}
+
+export interface ValuationContext {
+  tariff: TariffTable;
+  settings: ValuationSettings;
+}
+
+/**
+ * IVA per line for column K - CIF valuation with the order's weight and first carrier
+ */
+const lineIva = (order: OrderRow, items: PackageItem[], valuation?: ValuationContext): number[] => {
+  if (!valuation) return items.map(() => 0);
+  const result = valuePackage(items, {
+    tariff: valuation.tariff,
+    settings: valuation.settings,
+    shipment: { weightLb: parseWeightLb(order.weight), courier: order.carriers?.[0] },
+  });
+  return result.lines.map(line => line.vat);
+};
+
+// ── Build customer blocks from orders ────────────────────────────────────────
+
+/**
+ * Declared name for an order: the directory entry's name when the order is
+ * linked, so every spelling of one person exports the same way
+ */
+export const declaredConsignee = (order: OrderRow, consignees?: Map<string, Consignee>): string =>
+  ((order.consigneeId && consignees?.get(order.consigneeId)?.name) || order.consignee || '').trim().toUpperCase();
+
+/**
+ * Package identifier as printed in column D. Keeps the original identifier from
+ * the Machote — could be a pure number ("5"), a warehouse code ("W12345"), or
+ * anything else Julio uses for control interno. Strips only the "Paquete #" prefix.
+ */
+export const declaredPackageNumber = (packageNumber: string | undefined): string =>
+  (packageNumber || '').replace(/^Paquete\s*#?\s*/i, '').trim() || '0';
+
+const identityNote = (order: OrderRow, consignees?: Map<string, Consignee>): string | undefined => {
+  const entry = order.consigneeId ? consignees?.get(order.consigneeId) : undefined;
+  const parts = [entry?.dui && `DUI ${entry.dui}`, entry?.nit && `NIT ${entry.nit}`].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+};
+
+const buildCustomerBlocks = (
+  orders: OrderRow[],
+  valuation?: ValuationContext,
+  consignees?: Map<string, Consignee>,
+  dictionary?: TranslationDictionary,
+  untranslated?: Set<string>,
+): CustomerBlock[] => {
+  const sorted = [...orders].sort((a, b) =>
+    declaredConsignee(a, consignees).localeCompare(declaredConsignee(b, consignees))
+  );
+
+  return sorted.map((order) => {
+    const pkgNum = declaredPackageNumber(order.packageNumber);
+
+    if (!order.items || order.items.length === 0) {
+      const [iva] = lineIva(order, [{ name: NO_ITEM_DETAILS, quantity: order.pieces || 0, unitValue: order.value || 0, totalValue: order.value || 0 }], valuation);
+      return {
+        consignee: declaredConsignee(order, consignees),
+        identityNote: identityNote(order, consignees),
+        packageNumber: pkgNum,
+        items: [{
+          quantity: order.pieces || 0,
+          description: NO_ITEM_DETAILS,
+          unitValue: order.value || 0,
+          totalValue: order.value || 0,
+          iva,
+        }],
+        totalQuantity: order.pieces || 0,
+        totalValue: order.value || 0,
+      };
+    }
+
+    const ivaByLine = lineIva(order, order.items, valuation);
+    const items = order.items.map((item, i) => ({
+      quantity: item.quantity || 0,
+      description: declaredDescription(item, dictionary, untranslated),
+      unitValue: item.unitValue || 0,
+      totalValue: item.totalValue || 0,
+      iva: ivaByLine[i],
+      conversionNote: formatItemConversion(item),
+    }));
+
+    const itemsTotal = order.items.reduce((sum, item) => sum + (item.totalValue || 0), 0);
+    const totalItemQuantity = order.items.reduce((sum, item) => sum + (item.quantity || 0), 0);
+
+    const totalQuantity = (order.pieces && order.pieces !== totalItemQuantity)
+      ? order.pieces
+      : totalItemQuantity;
+
+    // Per-customer total = sum of extracted line items. The Desarrollo grand total must
+    // equal the sum of every item across every screenshot — never trust an upstream
+    // OCR/manual total here. (order.value is kept for sanity-check / display only.)
+    const totalValue = itemsTotal;
+
+    return {
+      consignee: declaredConsignee(order, consignees),
+      identityNote: identityNote(order, consignees),
+      packageNumber: pkgNum,
+      items,
+      totalQuantity,
+      totalValue,
+      conversionNote: order.currencyConversions?.length
+        ? `Convertido a USD: ${order.currencyConversions.map(formatConversion).join('; ')}`
+        : undefined,
+    };
+  });
+};
+
+// ── Pagination ───────────────────────────────────────────────────────────────
+
+const customerRowCount = (block: CustomerBlock): number =>
+  block.items.length + 1 + 1; // items + TOTAL row + blank separator
+
+const paginateCustomers = (blocks: CustomerBlock[]): CustomerBlock[][] => {
+  const pages: CustomerBlock[][] = [];
+  let currentPage: CustomerBlock[] = [];
+  let currentPageRows = 0;
+
+  for (const block of blocks) {
+    const rows = customerRowCount(block);
+    if (currentPageRows + rows > GRID_ROWS_PER_PAGE && currentPage.length > 0) {
+      pages.push(currentPage);
+      currentPage = [];
+      currentPageRows = 0;
+    }
+    currentPage.push(block);
+    currentPageRows += rows;
+  }
+
+  if (currentPage.length > 0) {
+    pages.push(currentPage);
+  }
+
+  return pages;
+};
+
+// ── Google Sheets cell helpers ───────────────────────────────────────────────
+
+const makeCell = (opts?: {
+  value?: string | number;
+  formula?: string;
+  bold?: boolean;
+  hAlign?: string;
+  vAlign?: string;
+  borders?: Record<string, typeof SOLID_BLACK>;
+  numberFormat?: typeof CURRENCY_FORMAT;
+  wrapText?: boolean;
+  clip?: boolean;
+  textRotation?: number;
+  note?: string;
+}): Record<string, unknown> => {
+  if (!opts) return {};
+
+  const cell: Record<string, unknown> = {};
+  const fmt: Record<string, unknown> = {};
+
+  if (opts.note) {
+    cell.note = opts.note;
+  }
+
+  // Value
+  if (opts.formula) {
+    cell.userEnteredValue = { formulaValue: opts.formula };
+  } else if (typeof opts.value === 'number') {
+    cell.userEnteredValue = { numberValue: opts.value };
+  } else if (opts.value !== undefined) {
+    cell.userEnteredValue = { stringValue: opts.value };
+  }
+
+  // Font
+  fmt.textFormat = opts.bold ? { ...FONT_BOLD } : { ...FONT_NORMAL };
+
+  // Alignment
+  fmt.horizontalAlignment = opts.hAlign || 'LEFT';
+  fmt.verticalAlignment = opts.vAlign || 'BOTTOM';
+  if (opts.wrapText) fmt.wrapStrategy = 'WRAP';
+  else if (opts.clip) fmt.wrapStrategy = 'CLIP';
+  if (opts.textRotation) fmt.textRotation = { angle: opts.textRotation };
+
+  // Borders
+  if (opts.borders) fmt.borders = opts.borders;
+
+  // Number format
+  if (opts.numberFormat) fmt.numberFormat = opts.numberFormat;
+
+  cell.userEnteredFormat = fmt;
+  return cell;
+};
+
+const emptyRow = (): Record<string, unknown> => ({
+  values: Array.from({ length: 11 }, () => ({})),
+});
+
+const makeRow = (cells: Record<number, Record<string, unknown>>): Record<string, unknown> => {
+  const values: Record<string, unknown>[] = [];
+  for (let col = 0; col < 11; col++) {
+    values.push(cells[col] || {});
+  }
+  return { values };
+};
+
+const emptyGridRow = (): Record<string, unknown> => {
+  const cells: Record<number, Record<string, unknown>> = {};
+  for (let col = 2; col <= 10; col++) {
+    cells[col] = makeCell({ borders: ALL_BORDERS });
+  }
+  return makeRow(cells);
+};
+
+// ── Write column headers (every page) ────────────────────────────────────────
+
+const writeHeaders = (
+  rows: Record<string, unknown>[],
+  merges: Record<string, unknown>[],
+  currentRow: number,
+  sheetId: number,
+): number => {
+  const startRow = currentRow;
+  const topOnly = { top: SOLID_BLACK, left: SOLID_BLACK, right: SOLID_BLACK };
+  const bottomOnly = { bottom: SOLID_BLACK, left: SOLID_BLACK, right: SOLID_BLACK };
+
+  // Row 1: main headers (merged vertically with row 2 for most columns)
+  rows.push(makeRow({
+    2: makeCell({ value: 'Consignatario Persona Natural', bold: true, hAlign: 'CENTER', vAlign: 'MIDDLE', wrapText: true, borders: topOnly }),
+    3: makeCell({ value: 'No de PK', bold: true, hAlign: 'CENTER', vAlign: 'MIDDLE', wrapText: true, borders: topOnly }),
+    4: makeCell({ value: 'Cant.', bold: true, hAlign: 'CENTER', vAlign: 'MIDDLE', wrapText: true, borders: topOnly, textRotation: 90 }),
+    5: makeCell({ value: 'Descripcion', bold: true, hAlign: 'CENTER', vAlign: 'MIDDLE', wrapText: true, borders: topOnly }),
+    6: makeCell({ value: 'Mercancias', bold: true, hAlign: 'CENTER', vAlign: 'MIDDLE', borders: { left: SOLID_BLACK, top: SOLID_BLACK, bottom: SOLID_BLACK } }),
+    7: makeCell({ borders: { right: SOLID_BLACK, top: SOLID_BLACK, bottom: SOLID_BLACK } }),
+    8: makeCell({ value: 'Valor Unit. $', bold: true, hAlign: 'CENTER', vAlign: 'MIDDLE', wrapText: true, borders: topOnly }),
+    9: makeCell({ value: 'Total', bold: true, hAlign: 'CENTER', vAlign: 'MIDDLE', wrapText: true, borders: topOnly }),
+    10: makeCell({ value: 'IVA o 30%', bold: true, hAlign: 'CENTER', vAlign: 'MIDDLE', wrapText: true, borders: topOnly }),
+  }));
+  currentRow++;
+
+  // Row 2: sub-headers (Usado / Nuevo) + bottom borders on merged cells
+  rows.push(makeRow({
+    2: makeCell({ borders: bottomOnly }),
+    3: makeCell({ borders: bottomOnly }),
+    4: makeCell({ borders: bottomOnly }),
+    5: makeCell({ borders: bottomOnly }),
+    6: makeCell({ value: 'Usado', hAlign: 'CENTER', wrapText: true, borders: ALL_BORDERS }),
+    7: makeCell({ value: 'Nuevo', hAlign: 'CENTER', wrapText: true, borders: ALL_BORDERS }),
+    8: makeCell({ borders: bottomOnly }),
+    9: makeCell({ borders: bottomOnly }),
+    10: makeCell({ borders: bottomOnly }),
+  }));
+  currentRow++;
+
+  // Vertical merges for C, D, E, F, I, J, K
+  for (const col of [2, 3, 4, 5, 8, 9, 10]) {
+    merges.push({
+      sheetId,
+      startRowIndex: startRow,
+      endRowIndex: startRow + 2,
+      startColumnIndex: col,
+      endColumnIndex: col + 1,
+    });
+  }
+
+  // Horizontal merge G+H on row 1
+  merges.push({
+    sheetId,
+    startRowIndex: startRow,
+    endRowIndex: startRow + 1,
+    startColumnIndex: 6,
+    endColumnIndex: 8,
+  });
+
+  return currentRow;
+};
+
+// ── Build rows for a single page/sheet ───────────────────────────────────────
+
+// Rows and merges are Sheets API shapes (CellData / GridRange)
+export interface PageData {
+  rows: Record<string, unknown>[];
+  merges: Record<string, unknown>[];
+}
+
+export interface ExportProfile {
+  gestorNumber?: string;
+  displayName?: string;
+}
+
+const buildPageData = (
+  page: CustomerBlock[],
+  pageIndex: number,
+  totalPages: number,
+  sheetId: number,
+  allSheetNames: string[],
+  profile?: ExportProfile,
+  grandTotalValue?: number,
+): PageData => {
+  const gestorLabel = profile?.gestorNumber
+    ? `Gestor ${profile.gestorNumber}`
+    : 'Gestor';
+  const rows: Record<string, unknown>[] = [];
+  const merges: Record<string, unknown>[] = [];
+  const isLastPage = pageIndex === totalPages - 1;
+
+  const r1 = (idx: number) => idx + 1; // 0-indexed → A1 row number
+
+  let currentRow = 0;
+
+  // ── Title block (7 rows) ─────────────────────────────────────────────
+
+  // Row 1: registro + Gestor
+  rows.push(makeRow({
+    2: makeCell({ value: 'No. de registro de mercancías:' }),
+    9: makeCell({ value: gestorLabel }),
+  }));
+  currentRow++;
+
+  // Row 2: codigo + hojas
+  rows.push(makeRow({
+    2: makeCell({ value: 'Codigo de aduana: 3' }),
+    9: makeCell({ value: `No. de hojas ${pageIndex + 1} de ${totalPages}` }),
+  }));
+  currentRow++;
+
+  // Row 3: blank
+  rows.push(emptyRow());
+  currentRow++;
+
+  // Row 4: DIRECCIÓN (centered in F)
+  rows.push(makeRow({
+    5: makeCell({ value: 'DIRECCIÓN GENERAL DE ADUANAS', bold: true, hAlign: 'CENTER' }),
+  }));
+  currentRow++;
+
+  // Row 5: DIVISIÓN (centered in F)
+  rows.push(makeRow({
+    5: makeCell({ value: 'DIVISIÓN DE OPERACIONES', bold: true, hAlign: 'CENTER' }),
+  }));
+  currentRow++;
+
+  // Row 6: blank
+  rows.push(emptyRow());
+  currentRow++;
+
+  // Row 7: ANEXO (centered)
+  rows.push(makeRow({
+    5: makeCell({
+      value: 'ANEXO A LA DECLARACIÓN DE MERCANCÍAS PARA PEQUEÑOS ENVÍOS Y DECLARACIÓN DE EQUIPAJE',
+      bold: true,
+      hAlign: 'CENTER',
+    }),
+  }));
+  currentRow++;
+
+  // Row 8: blank between title and headers
+  rows.push(emptyRow());
+  currentRow++;
+
+  // ── Column headers (2 rows) ──────────────────────────────────────────
+
+  currentRow = writeHeaders(rows, merges, currentRow, sheetId);
+
+  // ── Customer data rows ───────────────────────────────────────────────
+
+  let dataRowsWritten = 0;
+  const customerTotalJRows: number[] = [];
+
+  for (const block of page) {
+    const firstItemRow = currentRow;
+
+    for (let i = 0; i < block.items.length; i++) {
+      const item = block.items[i];
+      const cells: Record<number, Record<string, unknown>> = {};
+
+      if (i === 0) {
+        cells[2] = makeCell({ value: block.consignee, borders: ALL_BORDERS, note: block.identityNote });
+        cells[3] = makeCell({ value: block.packageNumber, bold: true, borders: ALL_BORDERS });
+      } else {
+        cells[2] = makeCell({ borders: ALL_BORDERS });
+        cells[3] = makeCell({ borders: ALL_BORDERS });
+      }
+
+      cells[4] = makeCell({ value: item.quantity, borders: ALL_BORDERS });
+      cells[5] = makeCell({ value: item.description, borders: ALL_BORDERS, clip: true });
+      cells[6] = makeCell({ borders: ALL_BORDERS });
+      cells[7] = makeCell({ value: 'X', borders: ALL_BORDERS });
+      cells[8] = makeCell({ value: item.unitValue, borders: ALL_BORDERS, numberFormat: CURRENCY_FORMAT });
+      cells[9] = makeCell({
+        value: item.totalValue, borders: ALL_BORDERS, numberFormat: CURRENCY_FORMAT, note: item.conversionNote,
+      });
+      cells[10] = makeCell({ value: item.iva, borders: ALL_BORDERS, numberFormat: CURRENCY_FORMAT });
+
+      rows.push(makeRow(cells));
+      currentRow++;
+      dataRowsWritten++;
+    }
+
+    // TOTAL row
+    const totalCells: Record<number, Record<string, unknown>> = {
+      2: makeCell({ borders: ALL_BORDERS }),
+      3: makeCell({ borders: ALL_BORDERS }),
+      4: makeCell({ formula: `=SUM(E${firstItemRow + 1}:E${currentRow})`, bold: true, borders: ALL_BORDERS }),
+      5: makeCell({ borders: ALL_BORDERS }),
+      6: makeCell({ borders: ALL_BORDERS }),
+      7: makeCell({ borders: ALL_BORDERS }),
+      8: makeCell({ value: 'TOTAL', bold: true, borders: ALL_BORDERS }),
+      10: makeCell({
+        formula: `=SUM(K${firstItemRow + 1}:K${currentRow})`,
+        bold: true, borders: ALL_BORDERS, numberFormat: CURRENCY_FORMAT,
+      }),
+    };
+
+    // SUM formula so the displayed total always matches the displayed item values.
+    totalCells[9] = makeCell({
+      formula: `=SUM(J${firstItemRow + 1}:J${currentRow})`,
+      bold: true, borders: ALL_BORDERS, numberFormat: CURRENCY_FORMAT, note: block.conversionNote,
+    });
+
+    rows.push(makeRow(totalCells));
+    customerTotalJRows.push(currentRow);
+    currentRow++;
+    dataRowsWritten++;
+
+    // Blank separator
+    rows.push(emptyGridRow());
+    currentRow++;
+    dataRowsWritten++;
+  }
+
+  // ── Pad remaining grid space with empty bordered rows ────────────────
+
+  while (dataRowsWritten < GRID_ROWS_PER_PAGE) {
+    rows.push(emptyGridRow());
+    currentRow++;
+    dataRowsWritten++;
+  }
+
+  // ── SUBTOTAL row ─────────────────────────────────────────────────────
+
+  const subtotalFormula = customerTotalJRows.length > 0
+    ? customerTotalJRows.map(r => `J${r1(r)}`).join('+')
+    : '0';
+  const ivaSubtotalFormula = customerTotalJRows.length > 0
+    ? customerTotalJRows.map(r => `K${r1(r)}`).join('+')
+    : '0';
+
+  rows.push(makeRow({
+    2: makeCell({ borders: ALL_BORDERS }),
+    3: makeCell({ borders: ALL_BORDERS }),
+    4: makeCell({ borders: ALL_BORDERS }),
+    5: makeCell({ borders: ALL_BORDERS }),
+    6: makeCell({ borders: ALL_BORDERS }),
+    7: makeCell({
+      value: 'SUBTOTAL', bold: true,
+      borders: ALL_BORDERS,
+    }),
+    8: makeCell({ value: 'SUBTOTAL', bold: true, borders: ALL_BORDERS }),
+    9: makeCell({
+      formula: `=${subtotalFormula}`, bold: true,
+      borders: ALL_BORDERS,
+      numberFormat: CURRENCY_FORMAT,
+    }),
+    10: makeCell({
+      formula: `=${ivaSubtotalFormula}`, bold: true,
+      borders: ALL_BORDERS,
+      numberFormat: CURRENCY_FORMAT,
+    }),
+  }));
+  currentRow++;
+
+  // ── Grand TOTAL (last page, multi-page only) ─────────────────────────
+
+  if (isLastPage && totalPages > 1) {
+    // Multi-sheet grand TOTAL: written as a STATIC value (pre-summed at export time)
+    // rather than a cross-sheet formula like `='Hoja 1'!J64+'Hoja 2'!J64+...`. Reason:
+    // cross-sheet references are the part most likely to break when the customer
+    // downloads the Google Sheet as xlsx and opens it in Excel. Per-sheet subtotals
+    // and per-customer totals stay as formulas (single-sheet ranges always survive).
+    void allSheetNames;
+    void SUBTOTAL_ROW_A1;
+
+    rows.push(makeRow({
+      8: makeCell({
+        value: 'TOTAL', bold: true,
+        borders: { left: SOLID_BLACK, top: SOLID_BLACK, bottom: SOLID_BLACK },
+      }),
+      9: makeCell({
+        value: grandTotalValue ?? 0,
+        bold: true,
+        borders: { right: SOLID_BLACK, top: SOLID_BLACK, bottom: SOLID_BLACK },
+        numberFormat: CURRENCY_FORMAT,
+      }),
+    }));
+    currentRow++;
+  }
+
+  // ── Signature block (blank + name + line + labels) ───────────────────
+  //
+  // Layout (both sides symmetric, Firma side blank for handwritten signature):
+  //   row N:    (blank)            (blank)
+  //   row N+1:  Jamari McNabb      (blank for signature)   ← printed name / signing space
+  //   row N+2:  __________         __________               ← signature lines (text)
+  //   row N+3:  Nombre             Firma                    ← labels
+  //
+  // The signature line is rendered as an underscore string of FIXED length (20 chars)
+  // on both sides so the Nombre and Firma lines visually match. Using a cell bottom
+  // border instead would inherit the cell width (Nombre col 2 is 192px, Firma col 8
+  // is 96px → mismatched lines). The name cell is bottom-aligned and the underscore
+  // cell is top-aligned to keep the visible gap between them minimal.
+
+  const SIG_LINE = '____________________';
+
+  rows.push(emptyRow());
+  currentRow++;
+
+  const displayName = profile?.displayName?.trim() || '';
+  rows.push(makeRow({
+    2: makeCell({ value: displayName, vAlign: 'BOTTOM' }),
+    8: makeCell({ value: '', vAlign: 'BOTTOM' }),
+  }));
+  currentRow++;
+
+  rows.push(makeRow({
+    2: makeCell({ value: SIG_LINE, vAlign: 'TOP' }),
+    8: makeCell({ value: SIG_LINE, vAlign: 'TOP' }),
+  }));
+  currentRow++;
+
+  rows.push(makeRow({
+    2: makeCell({ value: 'Nombre' }),
+    8: makeCell({ value: 'Firma' }),
+  }));
+  currentRow++;
+
+  return { rows, merges };
+};
+
+// ── Whole form, independent of where it is written ──────────────────────────
+
+export interface DesarrolloDocument {
+  sheetNames: string[];
+  pages: PageData[];
+  customerNames: string[];
+  grandTotalValue: number;
+  dictionaryVersion: number; // Translation dictionary the descriptions came from (0 = built-in)
+  untranslatedWords: string[]; // Words of item names the dictionary left in English
+}
+
+/**
+ * The complete Desarrollo form for `orders`. Valuation and the consignee
+ * directory are passed in (services/orderExcelExportService loadDesarrolloContext).
+ */
+export const buildDesarrolloDocument = (
+  orders: OrderRow[],
+  valuation?: ValuationContext,
+  consignees?: Map<string, Consignee>,
+  profile?: ExportProfile,
+  dictionary?: TranslationDictionary,
+): DesarrolloDocument => {
+  const untranslated = new Set<string>();
+  const blocks = buildCustomerBlocks(orders, valuation, consignees, dictionary, untranslated);
+  const pages = paginateCustomers(blocks);
+
+  console.log(
+    `Desarrollo export: ${orders.length} orders → ${blocks.length} customers → ${pages.length} page(s)`,
+  );
+
+  // Sheet tab names: "Hoja 1", "Hoja 2", ... (or just "CONTROL" for single page)
+  const sheetNames = pages.length === 1
+    ? ['CONTROL']
+    : pages.map((_, i) => `Hoja ${i + 1}`);
+
+  // Grand total is pre-computed from line items so it survives the Google
+  // Sheets → xlsx → Excel pipeline without relying on cross-sheet formula references.
+  const grandTotalValue = blocks.reduce((sum, b) => sum + b.totalValue, 0);
+
+  return {
+    sheetNames,
+    pages: pages.map((page, i) => buildPageData(page, i, pages.length, i, sheetNames, profile, grandTotalValue)),
+    customerNames: [...new Set(blocks.map(b => b.consignee).filter(Boolean))],
+    grandTotalValue,
+    dictionaryVersion: dictionary?.version ?? 0,
+    untranslatedWords: [...untranslated].sort(),
+  };
+};
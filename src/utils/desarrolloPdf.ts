@@ -0,0 +1,215 @@
+import { PDFDocument, StandardFonts, degrees, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import { COLUMN_WIDTHS_PX, ROW_HEIGHT_PX } from './desarrolloLayout';
+import type { DesarrolloDocument, PageData } from './desarrolloLayout';
+
+/**
+ * Renders a Desarrollo form (utils/desarrolloLayout) as a print-ready PDF.
+ *
+ * Each page of the form is drawn on its own Letter page from the same rows
+ * buildPageData lays out for Google Sheets, so the page breaks are exactly
+ * the ones paginateCustomers chose - printing from Sheets sometimes moved
+ * them. Gestor, "No. de hojas X de Y" and the signature block come with
+ * every page. Cell formulas are evaluated here since a PDF has none.
+ */
+
+const PAGE_WIDTH = 612; // Letter, points
+const PAGE_HEIGHT = 792;
+const MARGIN = 24;
+const CELL_PADDING_PX = 3;
+// Helvetica is wider than the Calibri the sheet uses - a smaller size keeps descriptions in their cells
+const FONT_SIZE_PX = 12;
+
+// Same shapes desarrolloXlsx reads from PageData
+interface SheetsCell {
+  userEnteredValue?: { stringValue?: string; numberValue?: number; formulaValue?: string };
+  userEnteredFormat?: {
+    textFormat?: { bold?: boolean };
+    horizontalAlignment?: string;
+    verticalAlignment?: string;
+    wrapStrategy?: 'WRAP' | 'CLIP';
+    textRotation?: { angle: number };
+    borders?: Partial<Record<'top' | 'bottom' | 'left' | 'right', { style?: string }>>;
+    numberFormat?: { pattern: string };
+  };
+}
+interface SheetsRange { startRowIndex: number; endRowIndex: number; startColumnIndex: number; endColumnIndex: number }
+
+const COLUMN_COUNT = 11;
+const columnX: number[] = [0];
+for (let col = 0; col < COLUMN_COUNT; col++) columnX.push(columnX[col] + COLUMN_WIDTHS_PX[col]);
+
+const columnIndex = (letters: string): number => letters.charCodeAt(0) - 65;
+
+// Standard PDF fonts only cover WinAnsi; anything else (emoji, "≈") would throw
+const WIN_ANSI_EXTRAS = new Set([...'€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ']);
+const toWinAnsi = (text: string): string =>
+  [...text.normalize('NFC')].map(char => (char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRAS.has(char) ? char : '?')).join('');
+
+const formatCurrency = (value: number): string =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Values of one page with its formulas worked out. The layout only uses
+ * SUM over a single column range and sums of single cells, all on the same page.
+ */
+const evaluatePage = (rows: SheetsCell[][]): (string | number | undefined)[][] => {
+  const values: (string | number | undefined)[][] = rows.map(row => row.map(cell => {
+    const value = cell?.userEnteredValue;
+    return value?.numberValue ?? value?.stringValue;
+  }));
+
+  const numberAt = (ref: string): number => {
+    const match = /^([A-Z])(\d+)$/.exec(ref);
+    if (!match) return Number(ref) || 0;
+    const value = values[Number(match[2]) - 1]?.[columnIndex(match[1])];
+    return typeof value === 'number' ? value : 0;
+  };
+
+  const evaluate = (formula: string): number =>
+    formula.replace(/^=/, '').split('+').reduce((sum, term) => {
+      const range = /^SUM\(([A-Z])(\d+):([A-Z])(\d+)\)$/.exec(term.trim());
+      if (!range) return sum + numberAt(term.trim());
+      let total = 0;
+      for (let row = Number(range[2]); row <= Number(range[4]); row++) total += numberAt(`${range[1]}${row}`);
+      return sum + total;
+    }, 0);
+
+  // Customer totals come before the SUBTOTAL that adds them up, so one pass in row order is enough
+  rows.forEach((row, r) => row.forEach((cell, c) => {
+    const formula = cell?.userEnteredValue?.formulaValue;
+    if (formula) values[r][c] = evaluate(formula);
+  }));
+  return values;
+};
+
+const wrapLines = (text: string, font: PDFFont, size: number, width: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const clipText = (text: string, font: PDFFont, size: number, width: number): string => {
+  let clipped = text;
+  while (clipped.length > 0 && font.widthOfTextAtSize(clipped, size) > width) clipped = clipped.slice(0, -1);
+  return clipped;
+};
+
+const drawPage = (page: PDFPage, data: PageData, fonts: { normal: PDFFont; bold: PDFFont }) => {
+  const rows = data.rows.map(row => ((row.values as SheetsCell[]) || []));
+  const values = evaluatePage(rows);
+  const merges = data.merges as unknown as SheetsRange[];
+
+  const totalWidthPx = columnX[COLUMN_COUNT];
+  const scale = Math.min(
+    (PAGE_WIDTH - 2 * MARGIN) / totalWidthPx,
+    (PAGE_HEIGHT - 2 * MARGIN) / (rows.length * ROW_HEIGHT_PX)
+  );
+  const x = (px: number) => MARGIN + px * scale;
+  const y = (px: number) => PAGE_HEIGHT - MARGIN - px * scale; // px measured down from the top
+  const fontSize = FONT_SIZE_PX * scale;
+  const black = rgb(0, 0, 0);
+
+  const mergeAt = (r: number, c: number) =>
+    merges.find(m => r >= m.startRowIndex && r < m.endRowIndex && c >= m.startColumnIndex && c < m.endColumnIndex);
+
+  rows.forEach((row, r) => row.forEach((cell, c) => {
+    const format = cell?.userEnteredFormat;
+    if (!format) return;
+    const top = r * ROW_HEIGHT_PX;
+    const bottom = top + ROW_HEIGHT_PX;
+
+    // Borders - each cell draws its own sides, as in the sheet
+    const borders = format.borders || {};
+    const line = (x1: number, y1: number, x2: number, y2: number) =>
+      page.drawLine({ start: { x: x(x1), y: y(y1) }, end: { x: x(x2), y: y(y2) }, thickness: 0.5, color: black });
+    if (borders.top?.style === 'SOLID') line(columnX[c], top, columnX[c + 1], top);
+    if (borders.bottom?.style === 'SOLID') line(columnX[c], bottom, columnX[c + 1], bottom);
+    if (borders.left?.style === 'SOLID') line(columnX[c], top, columnX[c], bottom);
+    if (borders.right?.style === 'SOLID') line(columnX[c + 1], top, columnX[c + 1], bottom);
+
+    const value = values[r][c];
+    if (value === undefined || value === '') return;
+    const merge = mergeAt(r, c);
+    if (merge && (merge.startRowIndex !== r || merge.startColumnIndex !== c)) return;
+
+    // Text box: the whole merged range for a merge's first cell
+    const boxLeft = columnX[c];
+    const boxRight = columnX[merge ? merge.endColumnIndex : c + 1];
+    const boxTop = top;
+    const boxBottom = merge ? merge.endRowIndex * ROW_HEIGHT_PX : bottom;
+    const font = format.textFormat?.bold ? fonts.bold : fonts.normal;
+    const text = toWinAnsi(typeof value === 'number' && format.numberFormat ? formatCurrency(value) : String(value));
+
+    if (format.textRotation) {
+      const width = font.widthOfTextAtSize(text, fontSize) / scale;
+      page.drawText(text, {
+        x: x((boxLeft + boxRight) / 2 + FONT_SIZE_PX / 3),
+        y: y((boxTop + boxBottom) / 2 + width / 2),
+        size: fontSize,
+        font,
+        color: black,
+        rotate: degrees(format.textRotation.angle),
+      });
+      return;
+    }
+
+    // Text overflows into empty neighbours like in Sheets (title rows); grid cells stay inside
+    const innerWidth = boxRight - boxLeft - 2 * CELL_PADDING_PX;
+    const lines = format.wrapStrategy === 'WRAP'
+      ? wrapLines(text, font, fontSize, innerWidth * scale)
+      : [format.wrapStrategy === 'CLIP' || format.borders ? clipText(text, font, fontSize, innerWidth * scale) : text];
+    const lineHeightPx = FONT_SIZE_PX * 1.15;
+    const blockHeightPx = lines.length * lineHeightPx;
+    const firstBaselinePx = format.verticalAlignment === 'MIDDLE'
+      ? (boxTop + boxBottom) / 2 - blockHeightPx / 2 + FONT_SIZE_PX * 0.85
+      : format.verticalAlignment === 'TOP'
+        ? boxTop + CELL_PADDING_PX + FONT_SIZE_PX * 0.85
+        : boxBottom - CELL_PADDING_PX - FONT_SIZE_PX * 0.2 - (lines.length - 1) * lineHeightPx; // Clear of descenders
+
+    lines.forEach((textLine, i) => {
+      const widthPx = font.widthOfTextAtSize(textLine, fontSize) / scale;
+      const leftPx = format.horizontalAlignment === 'CENTER'
+        ? (boxLeft + boxRight) / 2 - widthPx / 2
+        : format.horizontalAlignment === 'RIGHT'
+          ? boxRight - CELL_PADDING_PX - widthPx
+          : boxLeft + CELL_PADDING_PX;
+      page.drawText(textLine, {
+        x: x(leftPx),
+        y: y(firstBaselinePx + i * lineHeightPx),
+        size: fontSize,
+        font,
+        color: black,
+      });
+    });
+  }));
+};
+
+/**
+ * The Desarrollo form as PDF bytes, one Letter page per form page
+ */
+export const renderDesarrolloPdf = async (document: DesarrolloDocument): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle('Anexo a la Declaración de Mercancías - Desarrollo');
+  pdf.setCreationDate(new Date());
+  const fonts = {
+    normal: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  for (const pageData of document.pages) {
+    drawPage(pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]), pageData, fonts);
+  }
+
+  return pdf.save();
+};
@@ -0,0 +1,109 @@
+import ExcelJS from 'exceljs';
+import { COLUMN_WIDTHS_PX, ROW_HEIGHT_PX } from './desarrolloLayout';
+import type { DesarrolloDocument } from './desarrolloLayout';
+
+/**
+ * Writes a Desarrollo form (utils/desarrolloLayout) into an .xlsx workbook,
+ * translating the Sheets API cells cell by cell so the file matches the
+ * Google Sheets export: same 68-row pages, SUBTOTAL rows, borders, widths
+ * and gestor label.
+ */
+
+// Shapes of the Sheets API structures in PageData that the translation reads
+interface SheetsBorder { style?: string }
+interface SheetsCell {
+  userEnteredValue?: { stringValue?: string; numberValue?: number; formulaValue?: string };
+  userEnteredFormat?: {
+    textFormat?: { fontFamily?: string; fontSize?: number; bold?: boolean };
+    horizontalAlignment?: string;
+    verticalAlignment?: string;
+    wrapStrategy?: 'WRAP' | 'CLIP';
+    textRotation?: { angle: number };
+    borders?: Partial<Record<'top' | 'bottom' | 'left' | 'right', SheetsBorder>>;
+    numberFormat?: { pattern: string };
+  };
+  note?: string;
+}
+interface SheetsRange { startRowIndex: number; endRowIndex: number; startColumnIndex: number; endColumnIndex: number }
+
+const H_ALIGN: Record<string, ExcelJS.Alignment['horizontal']> = { LEFT: 'left', CENTER: 'center', RIGHT: 'right' };
+const V_ALIGN: Record<string, ExcelJS.Alignment['vertical']> = { TOP: 'top', MIDDLE: 'middle', BOTTOM: 'bottom' };
+
+// Excel column width is in characters of the default font (~7px each plus 5px padding)
+const pxToWidth = (px: number): number => Math.max(1, Math.round(((px - 5) / 7) * 100) / 100);
+const pxToPoints = (px: number): number => px * 0.75;
+
+const writeCell = (cell: ExcelJS.Cell, source: SheetsCell) => {
+  const value = source.userEnteredValue;
+  if (value?.formulaValue) {
+    cell.value = { formula: value.formulaValue.replace(/^=/, '') } as ExcelJS.CellFormulaValue;
+  } else if (value?.numberValue !== undefined) {
+    cell.value = value.numberValue;
+  } else if (value?.stringValue !== undefined) {
+    cell.value = value.stringValue;
+  }
+
+  const format = source.userEnteredFormat;
+  if (format) {
+    cell.font = {
+      name: format.textFormat?.fontFamily || 'Calibri',
+      size: format.textFormat?.fontSize || 11,
+      bold: !!format.textFormat?.bold,
+      color: { argb: 'FF000000' },
+    };
+    cell.alignment = {
+      horizontal: H_ALIGN[format.horizontalAlignment || 'LEFT'],
+      vertical: V_ALIGN[format.verticalAlignment || 'BOTTOM'],
+      wrapText: format.wrapStrategy === 'WRAP',
+      // Excel has no clip: long descriptions would spill into the empty Usado column
+      shrinkToFit: format.wrapStrategy === 'CLIP',
+      ...(format.textRotation ? { textRotation: format.textRotation.angle } : {}),
+    };
+    if (format.borders) {
+      cell.border = Object.fromEntries(
+        Object.entries(format.borders)
+          .filter(([, border]) => border?.style === 'SOLID')
+          .map(([side]) => [side, { style: 'thin', color: { argb: 'FF000000' } }])
+      ) as Partial<ExcelJS.Borders>;
+    }
+    if (format.numberFormat) cell.numFmt = format.numberFormat.pattern;
+  }
+
+  if (source.note) cell.note = source.note;
+};
+
+/**
+ * The Desarrollo form as a workbook, one worksheet per page. Works offline.
+ */
+export const writeDesarrolloWorkbook = (document: DesarrolloDocument): ExcelJS.Workbook => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  document.pages.forEach((page, pageIndex) => {
+    const sheet = workbook.addWorksheet(document.sheetNames[pageIndex], {
+      views: [{ showGridLines: false }],
+      // Each worksheet is one printed page of the form
+      pageSetup: { orientation: 'portrait', fitToPage: true, fitToWidth: 1, fitToHeight: 1 },
+    });
+
+    for (const [col, widthPx] of Object.entries(COLUMN_WIDTHS_PX)) {
+      sheet.getColumn(Number(col) + 1).width = pxToWidth(widthPx);
+    }
+
+    page.rows.forEach((row, rowIndex) => {
+      const excelRow = sheet.getRow(rowIndex + 1);
+      excelRow.height = pxToPoints(ROW_HEIGHT_PX);
+      ((row.values as SheetsCell[]) || []).forEach((cell, colIndex) => {
+        if (cell && Object.keys(cell).length > 0) writeCell(excelRow.getCell(colIndex + 1), cell);
+      });
+    });
+
+    for (const merge of page.merges as unknown as SheetsRange[]) {
+      sheet.mergeCells(merge.startRowIndex + 1, merge.startColumnIndex + 1, merge.endRowIndex, merge.endColumnIndex);
+    }
+
+    sheet.pageSetup.printArea = `A1:K${page.rows.length}`;
+  });
+
+  return workbook;
+};
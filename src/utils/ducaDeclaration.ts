@@ -0,0 +1,286 @@
+import { KG_TO_LB, parseWeightLb, valuePackage } from './customsValuation';
+import { isValidDui, isValidNit } from './consigneeMatching';
+import type { OrderRow } from '../components/OrderManagement';
+import type { Consignee, TranslationDictionary } from '../types';
+import { declaredDescription } from './translationDictionary';
+import type { ValuationContext } from './desarrolloLayout';
+
+/**
+ * DUCA electronic declaration export.
+ *
+ * Builds the goods part of a Declaración Única Centroamericana - DUCA-F for
+ * regional imports, DUCA-T for goods in transit - from a selection of orders,
+ * in the field layout SIDUNEA World loads: one shipment per order with the
+ * consignee's identity, carrier, guide number and origin, and one line per
+ * item with its SAC/HS code, quantity, unit value and FOB/freight/insurance/CIF
+ * from the same valuation the Desarrollo form uses.
+ *
+ * Nothing is produced while any order is missing a mandatory field; the
+ * errors come back per order so they can be fixed on the order itself.
+ */
+
+export type DucaType = 'DUCA-F' | 'DUCA-T';
+export type DucaFormat = 'xml' | 'json';
+
+export interface DucaOptions {
+  type: DucaType;
+  customsOffice?: string; // Aduana de ingreso, e.g. "02" or "San Bartolo"
+  defaultOrigin?: string; // ISO country code for orders without one of their own
+  declarant?: string; // Organization name
+  issuedAt?: Date;
+}
+
+export interface DucaItem {
+  lineNumber: number;
+  hsCode: string; // Digits only
+  description: string;
+  quantity: number;
+  unitValue: number;
+  fobValue: number;
+  freight: number;
+  insurance: number;
+  cifValue: number;
+  originCountry: string;
+}
+
+export interface DucaShipment {
+  orderId: string;
+  packageNumber: string;
+  consignee: { name: string; dui?: string; nit?: string };
+  carrier: string;
+  guideNumber: string;
+  grossWeightKg?: number;
+  items: DucaItem[];
+  totals: { quantity: number; fobValue: number; freight: number; insurance: number; cifValue: number };
+}
+
+export interface DucaDeclaration {
+  type: DucaType;
+  issuedAt: string; // ISO date
+  customsOffice?: string;
+  declarant?: string;
+  shipments: DucaShipment[];
+  totals: { shipments: number; items: number; fobValue: number; cifValue: number };
+}
+
+export interface DucaOrderErrors {
+  orderId: string;
+  packageNumber: string;
+  consignee: string;
+  errors: string[];
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const hsDigits = (hsCode?: string): string => (hsCode || '').replace(/\D/g, '');
+
+export const normalizeCountryCode = (country?: string): string => (country || '').trim().toUpperCase();
+
+const isCountryCode = (country: string): boolean => /^[A-Z]{2}$/.test(country);
+
+const orderOrigin = (order: OrderRow, options: DucaOptions): string =>
+  normalizeCountryCode(order.origin) || normalizeCountryCode(options.defaultOrigin);
+
+const orderCarrier = (order: OrderRow): string => (order.carriers?.[0] || order.parcelComp || '').trim();
+
+const orderGuide = (order: OrderRow): string =>
+  (order.trackingNumber || order.merchantTrackingNumber || order.orderNumber || '').trim();
+
+const directoryEntry = (order: OrderRow, consignees: Map<string, Consignee>): Consignee | undefined =>
+  order.consigneeId ? consignees.get(order.consigneeId) : undefined;
+
+/**
+ * Mandatory DUCA fields missing or malformed on each order. Orders with no
+ * problems are left out, so an empty result means the file can be produced.
+ */
+export const validateDucaOrders = (
+  orders: OrderRow[],
+  consignees: Map<string, Consignee>,
+  options: DucaOptions,
+): DucaOrderErrors[] =>
+  orders.map(order => {
+    const errors: string[] = [];
+    const entry = directoryEntry(order, consignees);
+
+    if (!(entry?.name || order.consignee || '').trim()) errors.push('Consignee name missing');
+    if (!entry) {
+      errors.push('Consignee not linked to the directory - DUI/NIT unknown');
+    } else if (!entry.dui && !entry.nit) {
+      errors.push(`${entry.name} has no DUI or NIT in the consignee directory`);
+    } else if ((entry.dui && !isValidDui(entry.dui)) || (entry.nit && !isValidNit(entry.nit))) {
+      errors.push(`${entry.name} has an invalid DUI or NIT in the consignee directory`);
+    }
+
+    if (!orderCarrier(order)) errors.push('Carrier missing');
+    if (!orderGuide(order)) errors.push('Tracking number missing');
+
+    const origin = orderOrigin(order, options);
+    if (!origin) errors.push('Country of origin missing');
+    else if (!isCountryCode(origin)) errors.push(`Country of origin "${origin}" is not a 2-letter ISO code`);
+
+    if (!order.items || order.items.length === 0) {
+      errors.push('No line items - the declaration needs one line per item');
+    } else {
+      order.items.forEach((item, i) => {
+        const label = `Item ${i + 1} (${item.name || 'unnamed'})`;
+        const digits = hsDigits(item.hsCode);
+        if (!digits) errors.push(`${label}: HS code missing`);
+        else if (digits.length < 6) errors.push(`${label}: HS code ${item.hsCode} is shorter than a subheading`);
+        else if (item.hsCodeNeedsReview) errors.push(`${label}: HS code ${item.hsCode} is waiting in the HS review queue`);
+        if (!(item.quantity > 0)) errors.push(`${label}: quantity missing`);
+        if (!(item.unitValue > 0)) errors.push(`${label}: unit value missing`);
+      });
+    }
+
+    return {
+      orderId: order.id,
+      packageNumber: order.packageNumber,
+      consignee: entry?.name || order.consignee || '',
+      errors,
+    };
+  }).filter(result => result.errors.length > 0);
+
+/**
+ * The declaration for orders that passed validateDucaOrders
+ */
+export const buildDucaDeclaration = (
+  orders: OrderRow[],
+  consignees: Map<string, Consignee>,
+  valuation: ValuationContext,
+  options: DucaOptions,
+  dictionary?: TranslationDictionary,
+): DucaDeclaration => {
+  const shipments = orders.map((order): DucaShipment => {
+    const entry = directoryEntry(order, consignees);
+    const items = order.items || [];
+    const carrier = orderCarrier(order);
+    const weightLb = parseWeightLb(order.weight);
+    const { lines } = valuePackage(items, {
+      tariff: valuation.tariff,
+      settings: valuation.settings,
+      shipment: { weightLb, courier: carrier },
+    });
+    const origin = orderOrigin(order, options);
+
+    const ducaItems = items.map((item, i): DucaItem => ({
+      lineNumber: i + 1,
+      hsCode: hsDigits(item.hsCode),
+      description: declaredDescription(item, dictionary).toUpperCase(),
+      quantity: item.quantity,
+      unitValue: round2(item.unitValue),
+      fobValue: lines[i].value,
+      freight: lines[i].freight,
+      insurance: lines[i].insurance,
+      cifValue: lines[i].cif,
+      originCountry: origin,
+    }));
+
+    const sum = (key: keyof DucaItem) => round2(ducaItems.reduce((total, item) => total + (item[key] as number), 0));
+    return {
+      orderId: order.id,
+      packageNumber: order.packageNumber,
+      consignee: {
+        name: (entry?.name || order.consignee).trim().toUpperCase(),
+        ...(entry?.dui ? { dui: entry.dui } : {}),
+        ...(entry?.nit ? { nit: entry.nit } : {}),
+      },
+      carrier,
+      guideNumber: orderGuide(order),
+      ...(weightLb > 0 ? { grossWeightKg: round2(weightLb / KG_TO_LB) } : {}),
+      items: ducaItems,
+      totals: {
+        quantity: sum('quantity'),
+        fobValue: sum('fobValue'),
+        freight: sum('freight'),
+        insurance: sum('insurance'),
+        cifValue: sum('cifValue'),
+      },
+    };
+  });
+
+  return {
+    type: options.type,
+    issuedAt: (options.issuedAt || new Date()).toISOString(),
+    ...(options.customsOffice?.trim() ? { customsOffice: options.customsOffice.trim() } : {}),
+    ...(options.declarant?.trim() ? { declarant: options.declarant.trim() } : {}),
+    shipments,
+    totals: {
+      shipments: shipments.length,
+      items: shipments.reduce((total, shipment) => total + shipment.items.length, 0),
+      fobValue: round2(shipments.reduce((total, shipment) => total + shipment.totals.fobValue, 0)),
+      cifValue: round2(shipments.reduce((total, shipment) => total + shipment.totals.cifValue, 0)),
+    },
+  };
+};
+
+// ── Serialization ────────────────────────────────────────────────────────────
+
+export const ducaToJson = (declaration: DucaDeclaration): string => JSON.stringify(declaration, null, 2);
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const element = (tag: string, value: string | number | undefined, indent: string): string =>
+  value === undefined || value === '' ? '' : `${indent}<${tag}>${escapeXml(String(value))}</${tag}>\n`;
+
+const amount = (value: number): string => value.toFixed(2);
+
+/**
+ * SIDUNEA-style XML: Spanish element names as on the DUCA form, amounts in USD with two decimals
+ */
+export const ducaToXml = (declaration: DucaDeclaration): string => {
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += `<DUCA tipo="${declaration.type}">\n`;
+  xml += '  <Encabezado>\n';
+  xml += element('FechaEmision', declaration.issuedAt, '    ');
+  xml += element('AduanaIngreso', declaration.customsOffice, '    ');
+  xml += element('Declarante', declaration.declarant, '    ');
+  xml += element('Moneda', 'USD', '    ');
+  xml += element('TotalEnvios', declaration.totals.shipments, '    ');
+  xml += element('TotalItems', declaration.totals.items, '    ');
+  xml += element('TotalValorFOB', amount(declaration.totals.fobValue), '    ');
+  xml += element('TotalValorCIF', amount(declaration.totals.cifValue), '    ');
+  xml += '  </Encabezado>\n';
+  xml += '  <Envios>\n';
+
+  for (const shipment of declaration.shipments) {
+    xml += '    <Envio>\n';
+    xml += element('NumeroPaquete', shipment.packageNumber, '      ');
+    xml += '      <Consignatario>\n';
+    xml += element('Nombre', shipment.consignee.name, '        ');
+    xml += element('DUI', shipment.consignee.dui, '        ');
+    xml += element('NIT', shipment.consignee.nit, '        ');
+    xml += '      </Consignatario>\n';
+    xml += element('Transportista', shipment.carrier, '      ');
+    xml += element('NumeroGuia', shipment.guideNumber, '      ');
+    xml += element('PesoBrutoKg', shipment.grossWeightKg?.toFixed(2), '      ');
+    xml += '      <Items>\n';
+    for (const item of shipment.items) {
+      xml += '        <Item>\n';
+      xml += element('NumeroLinea', item.lineNumber, '          ');
+      xml += element('CodigoSAC', item.hsCode, '          ');
+      xml += element('Descripcion', item.description, '          ');
+      xml += element('PaisOrigen', item.originCountry, '          ');
+      xml += element('Cantidad', item.quantity, '          ');
+      xml += element('ValorUnitario', amount(item.unitValue), '          ');
+      xml += element('ValorFOB', amount(item.fobValue), '          ');
+      xml += element('Flete', amount(item.freight), '          ');
+      xml += element('Seguro', amount(item.insurance), '          ');
+      xml += element('ValorCIF', amount(item.cifValue), '          ');
+      xml += '        </Item>\n';
+    }
+    xml += '      </Items>\n';
+    xml += '      <Totales>\n';
+    xml += element('Cantidad', shipment.totals.quantity, '        ');
+    xml += element('ValorFOB', amount(shipment.totals.fobValue), '        ');
+    xml += element('Flete', amount(shipment.totals.freight), '        ');
+    xml += element('Seguro', amount(shipment.totals.insurance), '        ');
+    xml += element('ValorCIF', amount(shipment.totals.cifValue), '        ');
+    xml += '      </Totales>\n';
+    xml += '    </Envio>\n';
+  }
+
+  xml += '  </Envios>\n';
+  xml += '</DUCA>\n';
+  return xml;
+};
@@ -0,0 +1,187 @@
+import type { DuplicateMatch, DuplicateReason } from '../types';
+
+/**
+ * Duplicate screenshot / order detection.
+ *
+ * Screenshots get a 64-bit difference hash (dHash): the image is shrunk to
+ * 9x8 grayscale and each bit says whether a pixel is brighter than its right
+ * neighbour. Re-compressed or slightly re-cropped copies of the same screenshot
+ * (WhatsApp forwards, images pulled out of a Machote Word doc) land within a
+ * few bits of each other. functions/src/utils/duplicateDetection.ts computes the
+ * same hash server-side - keep the two in sync so web and WhatsApp orders match.
+ *
+ * Orders also match on tracking number, or on order number from the same store.
+ */
+
+export const HASH_WIDTH = 9;
+export const HASH_HEIGHT = 8;
+export const DUPLICATE_HASH_DISTANCE = 6; // Max differing bits (of 64) for "same screenshot"
+
+// Tokens shorter than this (e.g. Machote tracking last-4) are too ambiguous to match on
+const MIN_REFERENCE_LENGTH = 6;
+
+/**
+ * dHash from 9x8 grayscale values (row-major, 0-255) → 16 hex chars
+ */
+export const dHashFromGrayscale = (pixels: ArrayLike<number>): string => {
+  let hex = '';
+  let nibble = 0;
+  let bit = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (++bit % 4 === 0) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hex;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Shrink RGBA pixels to the 9x8 grayscale grid by averaging every source pixel
+ * into its cell. Canvas and server-side resizers sample differently, so the
+ * averaging is done by hand to keep web and WhatsApp hashes comparable.
+ */
+export const grayscaleGrid = (data: ArrayLike<number>, width: number, height: number): number[] => {
+  const sums = new Array<number>(HASH_WIDTH * HASH_HEIGHT).fill(0);
+  const counts = new Array<number>(HASH_WIDTH * HASH_HEIGHT).fill(0);
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(HASH_HEIGHT - 1, Math.floor(y * HASH_HEIGHT / height));
+    for (let x = 0; x < width; x++) {
+      const cell = row * HASH_WIDTH + Math.min(HASH_WIDTH - 1, Math.floor(x * HASH_WIDTH / width));
+      const i = (y * width + x) * 4;
+      sums[cell] += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      counts[cell]++;
+    }
+  }
+  return sums.map((sum, cell) => counts[cell] ? sum / counts[cell] : 0);
+};
+
+/**
+ * Perceptual hash of an image (data URL, object URL or Storage URL)
+ */
+export const hashImage = (src: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+      context.drawImage(img, 0, 0);
+      const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+      resolve(dHashFromGrayscale(grayscaleGrid(data, canvas.width, canvas.height)));
+    };
+    img.onerror = () => reject(new Error('Could not load image for hashing'));
+    img.src = src;
+  });
+
+/**
+ * Hashing is best-effort - a failure must never block an import
+ */
+export const tryHashImage = async (src: string): Promise<string | null> => {
+  try {
+    return await hashImage(src);
+  } catch (error) {
+    console.warn('Screenshot hash failed, duplicate check skipped for it:', error);
+    return null;
+  }
+};
+
+const splitReferences = (value?: string | null): string[] =>
+  (value || '')
+    .split(',')
+    .map(ref => ref.toUpperCase().replace(/[^A-Z0-9]/g, ''))
+    .filter(ref => ref.length >= MIN_REFERENCE_LENGTH);
+
+const normalizeSeller = (value?: string | null): string =>
+  (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const sameSeller = (a?: string | null, b?: string | null): boolean => {
+  const x = normalizeSeller(a);
+  const y = normalizeSeller(b);
+  return !x || !y || x.includes(y) || y.includes(x);
+};
+
+export interface DuplicateCandidate {
+  screenshotHashes?: string[];
+  orderNumber?: string;
+  merchantTrackingNumber?: string;
+  company?: string;
+}
+
+export interface ExistingOrder extends DuplicateCandidate {
+  id: string;
+  packageNumber: string;
+  consignee?: string;
+  duplicateOf?: DuplicateMatch;
+}
+
+/**
+ * First existing order the candidate duplicates, strongest evidence first.
+ * Orders already flagged as duplicates are skipped so the link always points
+ * at the original.
+ */
+export const findDuplicateOrder = (
+  candidate: DuplicateCandidate,
+  existing: ExistingOrder[]
+): DuplicateMatch | undefined => {
+  const hashes = candidate.screenshotHashes || [];
+  const orderNumbers = splitReferences(candidate.orderNumber);
+  const trackingNumbers = splitReferences(candidate.merchantTrackingNumber);
+
+  let best: DuplicateMatch | undefined;
+  for (const order of existing) {
+    if (order.duplicateOf) continue;
+    const reasons: DuplicateReason[] = [];
+
+    if (hashes.some(h => (order.screenshotHashes || []).some(o => hammingDistance(h, o) <= DUPLICATE_HASH_DISTANCE))) {
+      reasons.push('screenshot');
+    }
+    const theirTracking = splitReferences(order.merchantTrackingNumber);
+    if (trackingNumbers.some(t => theirTracking.includes(t))) {
+      reasons.push('tracking');
+    }
+    const theirOrderNumbers = splitReferences(order.orderNumber);
+    if (orderNumbers.some(n => theirOrderNumbers.includes(n)) && sameSeller(candidate.company, order.company)) {
+      reasons.push('orderNumber');
+    }
+
+    if (reasons.length > (best?.reasons.length || 0)) {
+      best = { orderId: order.id, packageNumber: order.packageNumber, consignee: order.consignee || '', reasons };
+    }
+  }
+  return best;
+};
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  screenshot: 'same screenshot',
+  tracking: 'same tracking number',
+  orderNumber: 'same order number',
+};
+
+export const describeDuplicate = (match: DuplicateMatch): string =>
+  `Possible duplicate of ${match.packageNumber}${match.consignee ? ` (${match.consignee})` : ''}: ` +
+  match.reasons.map(r => REASON_LABELS[r]).join(', ');
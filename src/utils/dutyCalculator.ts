@@ -1,77 +1,64 @@
-import type { PackageItem, CustomsDeclaration } from '../types';
-
-// El Salvador VAT rate
-const VAT_RATE = 0.13; // 13%
-
-// Duty-free threshold for personal packages
-const DUTY_FREE_THRESHOLD = 300; // USD
+import type { PackageItem, CustomsDeclaration, ItemDutyLine, TariffTable, ValuationSettings } from '../types';
+import { DEFAULT_TARIFF_TABLE, lookupTariffRate } from './tariffTable';
+import { valuePackage } from './customsValuation';
+import type { ShipmentDetails } from './customsValuation';
 
 /**
  * Calculate import duties for El Salvador
  * Packages under $300 USD are exempt from import tariffs but pay 13% VAT
  * Packages over $300 USD pay import duties + 13% VAT
+ * Both are charged on the CIF value (see customsValuation.ts)
  */
 export interface DutyCalculation {
   declaredValue: number;
   isDutyFree: boolean;
+  freight: number;
+  insurance: number;
+  cifValue: number;
   importDuty: number;
   vat: number;
+  handlingFee: number;
   totalFees: number;
+  tariffVersion: string; // Tariff table the rates came from
+  lines: ItemDutyLine[]; // Valuation, rate and duty applied to each item
+  warnings: string[];
 }
 
+/**
+ * Pass the active table from tariffService.getActiveTariffTable() and the
+ * organization's valuationSettings; without them the bundled tariff table is
+ * used and freight is valued at $0.
+ */
 export const calculateDuty = (
   items: PackageItem[],
-  purpose: CustomsDeclaration['purpose'] = 'personal'
+  purpose: CustomsDeclaration['purpose'] = 'personal',
+  tariff: TariffTable = DEFAULT_TARIFF_TABLE,
+  settings?: ValuationSettings,
+  shipment?: ShipmentDetails
 ): DutyCalculation => {
-  // Calculate total declared value
-  const declaredValue = items.reduce((sum, item) => sum + item.totalValue, 0);
-
-  // Check if duty-free (under $300 for personal use)
-  const isDutyFree = purpose === 'personal' && declaredValue < DUTY_FREE_THRESHOLD;
-
-  // Calculate import duty (0% if duty-free, otherwise varies by product category)
-  // For simplicity, we'll use a flat 15% rate for non-duty-free items
-  // In reality, this would be determined by HS codes
-  const importDutyRate = isDutyFree ? 0 : 0.15;
-  const importDuty = declaredValue * importDutyRate;
-
-  // Calculate VAT (13% on declared value + import duty)
-  const vatBase = declaredValue + importDuty;
-  const vat = vatBase * VAT_RATE;
-
-  // Total fees
-  const totalFees = importDuty + vat;
+  const valuation = valuePackage(items, { purpose, tariff, settings, shipment });
 
   return {
-    declaredValue,
-    isDutyFree,
-    importDuty: Math.round(importDuty * 100) / 100,
-    vat: Math.round(vat * 100) / 100,
-    totalFees: Math.round(totalFees * 100) / 100
+    declaredValue: valuation.fobValue,
+    isDutyFree: valuation.isDutyFree,
+    freight: valuation.freight,
+    insurance: valuation.insurance,
+    cifValue: valuation.cifValue,
+    importDuty: valuation.importDuty,
+    vat: valuation.vat,
+    handlingFee: valuation.handlingFee,
+    totalFees: valuation.totalFees,
+    tariffVersion: valuation.tariffVersion,
+    lines: valuation.lines,
+    warnings: valuation.warnings,
   };
 };
 
 /**
- * Get duty rate by HS code (simplified)
- * In a real implementation, this would query an HS code database
+ * Get duty rate by HS code from a tariff table (bundled table by default)
  */
-export const getDutyRateByHSCode = (hsCode: string): number => {
-  // This is a simplified example
-  // In reality, you'd have a comprehensive HS code database
-  const firstTwoDigits = hsCode.substring(0, 2);
-
-  // Example rates (not exhaustive)
-  const rates: Record<string, number> = {
-    '61': 0.15, // Clothing
-    '62': 0.15, // Clothing
-    '64': 0.10, // Footwear
-    '85': 0.05, // Electronics
-    '84': 0.05, // Machinery
-    '95': 0.20, // Toys
-  };
-
-  return rates[firstTwoDigits] || 0.15; // Default 15%
-};
+export const getDutyRateByHSCode = (hsCode: string, tariff: TariffTable = DEFAULT_TARIFF_TABLE): number =>
+  lookupTariffRate(tariff, hsCode).rate;
 
 /**
  * Format currency for display
@@ -0,0 +1,176 @@
+import type { ExtractedOrderData, ExtractionField, ExtractionIssue, FieldConfidence } from '../types';
+
+/**
+ * Extraction quality scoring.
+ *
+ * Gemini reports its own confidence per field; on top of that the extraction
+ * is checked for consistency (items vs order total, missing tracking, zero
+ * prices). Orders scoring below EXTRACTION_REVIEW_THRESHOLD - or with any
+ * error-level issue - go to the Review screen and can't be exported until a
+ * person has compared them with the screenshot and marked them reviewed.
+ */
+
+export const EXTRACTION_REVIEW_THRESHOLD = 0.8;
+
+export interface ExtractionReview {
+  confidence: number; // 0-1, lowest field confidence minus penalties for issues
+  fieldConfidence: FieldConfidence;
+  issues: ExtractionIssue[];
+}
+
+export const FIELD_LABELS: Record<ExtractionField, string> = {
+  trackingNumber: 'Tracking',
+  orderNumber: 'Order #',
+  seller: 'Store',
+  orderDate: 'Order date',
+  items: 'Items',
+  orderTotal: 'Order total',
+};
+
+const ISSUE_PENALTY: Record<ExtractionIssue['severity'], number> = {
+  warning: 0.1,
+  error: 0.3,
+};
+
+// Discounts, taxes and shipping make the items sum differ from the total a little
+const TOTAL_TOLERANCE_RATIO = 0.1;
+const TOTAL_TOLERANCE_MIN = 1;
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * Field confidences from the model's "confidence" object - ignores anything
+ * that isn't a known field with a number
+ */
+export const parseFieldConfidence = (raw: unknown): FieldConfidence | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const result: FieldConfidence = {};
+  for (const field of Object.keys(FIELD_LABELS) as ExtractionField[]) {
+    const value = Number((raw as Record<string, unknown>)[field]);
+    if (Number.isFinite(value)) result[field] = clamp01(value);
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+/**
+ * Consistency checks that don't depend on the model's opinion of itself
+ */
+export const checkExtractionConsistency = (data: ExtractedOrderData): ExtractionIssue[] => {
+  const issues: ExtractionIssue[] = [];
+  const items = data.items || [];
+
+  if (items.length === 0) {
+    issues.push({ code: 'no-items', severity: 'error', field: 'items', message: 'No items were extracted' });
+  }
+
+  const zeroPriced = items.filter(item => !(item.unitValue > 0) || !(item.totalValue > 0));
+  if (zeroPriced.length > 0) {
+    issues.push({
+      code: 'zero-price',
+      severity: 'error',
+      field: 'items',
+      message: `${zeroPriced.length} item${zeroPriced.length === 1 ? '' : 's'} with a $0 price: ${zeroPriced.map(i => i.name).slice(0, 3).join(', ')}`,
+    });
+  }
+
+  const itemsTotal = items.reduce((sum, item) => sum + (item.totalValue || 0), 0);
+  const orderTotal = data.orderTotal || 0;
+  if (orderTotal > 0 && itemsTotal > 0) {
+    const difference = Math.abs(orderTotal - itemsTotal);
+    if (difference > Math.max(TOTAL_TOLERANCE_MIN, orderTotal * TOTAL_TOLERANCE_RATIO)) {
+      issues.push({
+        code: 'items-total-mismatch',
+        severity: 'warning',
+        field: 'orderTotal',
+        message: `Items add up to $${itemsTotal.toFixed(2)} but the order total is $${orderTotal.toFixed(2)}`,
+      });
+    }
+  }
+
+  if (!data.trackingNumber && !data.orderNumber) {
+    issues.push({
+      code: 'missing-tracking',
+      severity: 'warning',
+      field: 'trackingNumber',
+      message: 'No tracking or order number found',
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Score one screenshot's extraction
+ */
+export const scoreExtraction = (data: ExtractedOrderData): ExtractionReview => {
+  const fieldConfidence = data.fieldConfidence || {};
+  const issues = checkExtractionConsistency(data);
+
+  for (const [field, value] of Object.entries(fieldConfidence) as [ExtractionField, number][]) {
+    if (value < EXTRACTION_REVIEW_THRESHOLD) {
+      issues.push({
+        code: 'low-confidence',
+        severity: 'warning',
+        field,
+        message: `${FIELD_LABELS[field]} read with ${Math.round(value * 100)}% confidence`,
+      });
+    }
+  }
+
+  // Low-confidence fields already pull the base down - only penalize the checks
+  const base = Math.min(1, ...Object.values(fieldConfidence));
+  const penalty = issues
+    .filter(issue => issue.code !== 'low-confidence')
+    .reduce((sum, issue) => sum + ISSUE_PENALTY[issue.severity], 0);
+
+  return { confidence: clamp01(base - penalty), fieldConfidence, issues };
+};
+
+/**
+ * One order from several screenshots: the weakest screenshot decides
+ */
+export const mergeExtractionReviews = (reviews: ExtractionReview[]): ExtractionReview => {
+  const fieldConfidence: FieldConfidence = {};
+  for (const review of reviews) {
+    for (const [field, value] of Object.entries(review.fieldConfidence) as [ExtractionField, number][]) {
+      fieldConfidence[field] = Math.min(fieldConfidence[field] ?? 1, value);
+    }
+  }
+
+  return {
+    confidence: Math.min(1, ...reviews.map(r => r.confidence)),
+    fieldConfidence,
+    issues: reviews.flatMap((review, index) => review.issues.map(issue =>
+      reviews.length > 1 ? { ...issue, message: `Screenshot ${index + 1}: ${issue.message}` } : issue
+    )),
+  };
+};
+
+interface ReviewableOrder {
+  packageNumber: string;
+  extractionConfidence?: number;
+  extractionIssues?: ExtractionIssue[];
+  humanReviewed?: boolean;
+}
+
+/**
+ * Orders without a score (typed in by hand, older imports) never need review
+ */
+export const needsExtractionReview = (order: ReviewableOrder): boolean => {
+  if (order.humanReviewed || order.extractionConfidence === undefined) return false;
+  return order.extractionConfidence < EXTRACTION_REVIEW_THRESHOLD
+    || (order.extractionIssues || []).some(issue => issue.severity === 'error');
+};
+
+/**
+ * Exports only carry data someone has checked
+ */
+export const assertOrdersReviewed = (orders: ReviewableOrder[]): void => {
+  const pending = orders.filter(needsExtractionReview);
+  if (pending.length === 0) return;
+  throw new Error(
+    `${pending.length} order(s) need extraction review before export ` +
+    `(${pending.slice(0, 5).map(o => o.packageNumber).join(', ')}${pending.length > 5 ? '…' : ''}). ` +
+    'Open the Review tab, check each one against its screenshot and mark it reviewed.'
+  );
+};
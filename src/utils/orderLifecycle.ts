@@ -0,0 +1,143 @@
+import type { OrderStatus, OrderStatusChange, OrderStatusSource } from '../types';
+
+/**
+ * Order lifecycle for organizations/{orgId}/orders.
+ * Mirrors functions/src/utils/orderLifecycle.ts so WhatsApp /mark and the
+ * OrderManagement bulk actions allow exactly the same moves.
+ *
+ *   pending-review → reviewed → received → customs-pending → customs-cleared
+ *     → ready-pickup → delivered
+ *
+ * Any open order can go on hold; release goes back to the status it was held
+ * from (statusBeforeHold) or that status's next step. Delivered is final.
+ * Older orders with "draft" or no status read as pending-review.
+ */
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending-review',
+  'reviewed',
+  'received',
+  'customs-pending',
+  'customs-cleared',
+  'ready-pickup',
+  'delivered',
+  'on-hold',
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  'pending-review': 'Pending review',
+  'reviewed': 'Reviewed',
+  'received': 'Received',
+  'customs-pending': 'Customs pending',
+  'customs-cleared': 'Customs cleared',
+  'ready-pickup': 'Ready for pickup',
+  'delivered': 'Delivered',
+  'on-hold': 'On hold',
+};
+
+export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
+  'pending-review': 'bg-amber-500/20 text-amber-300',
+  'reviewed': 'bg-blue-500/20 text-blue-300',
+  'received': 'bg-indigo-500/20 text-indigo-300',
+  'customs-pending': 'bg-purple-500/20 text-purple-300',
+  'customs-cleared': 'bg-teal-500/20 text-teal-300',
+  'ready-pickup': 'bg-cyan-500/20 text-cyan-300',
+  'delivered': 'bg-green-500/20 text-green-300',
+  'on-hold': 'bg-red-500/20 text-red-300',
+};
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  'pending-review': ['reviewed', 'on-hold'],
+  'reviewed': ['pending-review', 'received', 'on-hold'],
+  'received': ['customs-pending', 'on-hold'],
+  'customs-pending': ['customs-cleared', 'on-hold'],
+  'customs-cleared': ['ready-pickup', 'delivered', 'on-hold'],
+  'ready-pickup': ['delivered', 'on-hold'],
+  'delivered': [],
+  'on-hold': [], // Depends on where the order was held from - see nextStatuses
+};
+
+/**
+ * Stored status as a lifecycle status (missing and legacy values are pending-review)
+ */
+export const normalizeOrderStatus = (value: unknown): OrderStatus =>
+  ORDER_STATUSES.includes(value as OrderStatus) ? value as OrderStatus : 'pending-review';
+
+export interface OrderStatusState {
+  status?: unknown;
+  statusBeforeHold?: unknown;
+  statusHistory?: unknown;
+}
+
+/**
+ * Status a held order was put on hold from. Holds placed before
+ * statusBeforeHold was stored fall back to the last hold in statusHistory.
+ */
+const heldFrom = (current: OrderStatusState): OrderStatus => {
+  if (current.statusBeforeHold) return normalizeOrderStatus(current.statusBeforeHold);
+  const history = Array.isArray(current.statusHistory) ? current.statusHistory as OrderStatusChange[] : [];
+  const hold = [...history].reverse().find(change => change.to === 'on-hold');
+  return normalizeOrderStatus(hold?.from);
+};
+
+/**
+ * Statuses the order can move to next
+ */
+export const nextStatuses = (current: OrderStatusState): OrderStatus[] => {
+  const from = normalizeOrderStatus(current.status);
+  if (from !== 'on-hold') return ORDER_TRANSITIONS[from];
+  const previous = heldFrom(current);
+  return [previous, ...ORDER_TRANSITIONS[previous].filter(status => status !== 'on-hold')];
+};
+
+export const canTransition = (current: OrderStatusState, to: OrderStatus): boolean =>
+  nextStatuses(current).includes(to);
+
+export interface OrderStatusUpdate {
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[];
+  statusTimestamps: Partial<Record<OrderStatus, string>>; // Latest time the order entered each status
+  statusUpdatedAt: string;
+  statusUpdatedBy: string;
+  statusBeforeHold?: OrderStatus; // Set when the move is onto hold
+}
+
+/**
+ * Fields to write for a move from the order's current status.
+ * Throws when the move isn't allowed.
+ */
+export const buildStatusTransition = (
+  current: OrderStatusState & { statusTimestamps?: unknown },
+  to: OrderStatus,
+  actor: { uid: string; name?: string; source: OrderStatusSource },
+  now = new Date()
+): OrderStatusUpdate => {
+  const from = normalizeOrderStatus(current.status);
+  if (!canTransition(current, to)) {
+    throw new Error(`Can't move an order from ${ORDER_STATUS_LABELS[from]} to ${ORDER_STATUS_LABELS[to]}`);
+  }
+  const at = now.toISOString();
+  const change: OrderStatusChange = { from, to, at, by: actor.uid, source: actor.source };
+  if (actor.name) change.byName = actor.name;
+  const history = Array.isArray(current.statusHistory) ? current.statusHistory as OrderStatusChange[] : [];
+  const timestamps = (current.statusTimestamps || {}) as Partial<Record<OrderStatus, string>>;
+  const update: OrderStatusUpdate = {
+    status: to,
+    statusHistory: [...history, change],
+    statusTimestamps: { ...timestamps, [to]: at },
+    statusUpdatedAt: at,
+    statusUpdatedBy: actor.uid,
+  };
+  if (to === 'on-hold') update.statusBeforeHold = from;
+  return update;
+};
+
+/**
+ * Count of orders per lifecycle status, for export history records
+ */
+export const countOrderStatuses = (orders: Array<{ status?: unknown }>): Partial<Record<OrderStatus, number>> =>
+  orders.reduce<Partial<Record<OrderStatus, number>>>((counts, order) => {
+    const status = normalizeOrderStatus(order.status);
+    counts[status] = (counts[status] || 0) + 1;
+    return counts;
+  }, {});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { detectSplitShipments } from './splitDetection';
+import type { SplitCandidateOrder } from './splitDetection';
+
+const asOf = new Date('2026-01-20T12:00:00Z');
+
+const order = (id: string, consignee: string, value: number): SplitCandidateOrder => ({
+  id,
+  packageNumber: `Paquete #${id}`,
+  date: '2026-01-10',
+  consignee,
+  value,
+});
+
+describe('detectSplitShipments', () => {
+  it('does not chain people through a bare first name', () => {
+    const orders = [
+      order('1', 'Ana', 90),
+      order('2', 'Ana Garcia', 90),
+      order('3', 'Ana Martinez', 90),
+      order('4', 'Ana Rivas', 90),
+    ];
+    expect(detectSplitShipments(orders, new Map(), { asOf })).toEqual([]);
+  });
+
+  it('links near-identical full names over the threshold', () => {
+    const orders = [order('1', 'Maria Lopez', 180), order('2', 'María Lopes', 180), order('3', 'Ana Rivas', 180)];
+    const [finding, ...rest] = detectSplitShipments(orders, new Map(), { asOf });
+    expect(rest).toEqual([]);
+    expect(finding.orderIds.sort()).toEqual(['1', '2']);
+    expect(finding.totalValue).toBe(360);
+    expect(finding.signals.map(signal => signal.kind)).toEqual(['name']);
+  });
+
+  it('groups every order under the exact same name, single names included', () => {
+    const orders = [order('1', 'Ana', 120), order('2', 'ana', 120), order('3', 'ANA', 120)];
+    const [finding] = detectSplitShipments(orders, new Map(), { asOf });
+    expect(finding.orderIds.sort()).toEqual(['1', '2', '3']);
+  });
+});
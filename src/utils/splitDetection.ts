@@ -0,0 +1,224 @@
+import type { Consignee } from '../types';
+import { nameSimilarity, normalizeConsigneeName } from './consigneeMatching';
+import { DUTY_FREE_THRESHOLD } from './customsValuation';
+
+/**
+ * Organization-wide split shipment detection.
+ *
+ * Importers sometimes spread one buyer's purchases over several consignees
+ * ("Maria Lopez", "Maria Lopes", her sister) or several shipments so each
+ * package stays under the duty-free threshold. Orders from a rolling window
+ * are linked when they share a directory consignee, a phone or address on
+ * their directory entries, a near-identical name, or a tracking/order number;
+ * every connected group whose combined value crosses the threshold is a
+ * finding. Each finding says which links put it together so the importer can
+ * judge it.
+ *
+ * The WhatsApp `customerPhone` on orders is the sender's number (usually the
+ * importer) - phone links only use the consignee directory.
+ */
+
+export const DEFAULT_SPLIT_WINDOW_DAYS = 30;
+export const NAME_SIGNAL_SCORE = 0.8; // Below this, a shared first name alone would link strangers
+
+export type SplitSignalKind = 'consignee' | 'phone' | 'address' | 'name' | 'tracking';
+
+export interface SplitCandidateOrder {
+  id: string;
+  packageNumber: string;
+  date: string; // YYYY-MM-DD
+  consignee: string;
+  consigneeId?: string;
+  value: number;
+  trackingNumber?: string;
+  merchantTrackingNumber?: string;
+  orderNumber?: string;
+  duplicateOf?: unknown;
+}
+
+export interface SplitSignal {
+  kind: SplitSignalKind;
+  detail: string; // e.g. the shared phone number or the two names compared
+  orderIds: string[];
+}
+
+export interface SplitFinding {
+  id: string; // Stable for the same set of orders (see findingId)
+  orderIds: string[];
+  names: string[]; // Distinct names declared on the orders
+  consigneeIds: string[];
+  totalValue: number;
+  largestOrderValue: number;
+  firstDate: string;
+  lastDate: string;
+  signals: SplitSignal[];
+}
+
+export interface SplitDetectionOptions {
+  windowDays?: number;
+  threshold?: number; // USD, combined FOB value
+  asOf?: Date;
+}
+
+/**
+ * FNV-1a over the sorted order IDs - short enough for a document ID
+ */
+export const findingId = (orderIds: string[]): string => {
+  let hash = 0x811c9dc5;
+  for (const char of [...orderIds].sort().join('|')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `split_${hash.toString(16).padStart(8, '0')}_${orderIds.length}`;
+};
+
+// El Salvador numbers are 8 digits; compare the local part so +503 and spacing don't matter
+const normalizePhone = (phone?: string): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 8 ? digits.slice(-8) : '';
+};
+
+const normalizeAddress = (address?: string): string => normalizeConsigneeName(address || '');
+
+const normalizeReference = (value?: string): string => {
+  const ref = (value || '').replace(/[\s-]/g, '').toUpperCase();
+  return ref.length >= 6 ? ref : ''; // Machote last-4 digits are too ambiguous
+};
+
+const windowStart = (asOf: Date, windowDays: number): string => {
+  const start = new Date(asOf);
+  start.setDate(start.getDate() - windowDays);
+  return start.toISOString().split('T')[0];
+};
+
+/**
+ * Possible split shipments among `orders`, largest combined value first
+ */
+export const detectSplitShipments = (
+  orders: SplitCandidateOrder[],
+  consignees: Map<string, Consignee>,
+  options: SplitDetectionOptions = {}
+): SplitFinding[] => {
+  const windowDays = options.windowDays ?? DEFAULT_SPLIT_WINDOW_DAYS;
+  const threshold = options.threshold ?? DUTY_FREE_THRESHOLD;
+  const asOf = options.asOf ?? new Date();
+  const from = windowStart(asOf, windowDays);
+  const to = asOf.toISOString().split('T')[0];
+
+  // Flagged duplicates repeat another order's value and tracking number
+  const inWindow = orders.filter(order => !order.duplicateOf && order.date >= from && order.date <= to);
+
+  const parent = new Map(inWindow.map(order => [order.id, order.id]));
+  const root = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+  const link = (orderIds: string[]) => orderIds.slice(1).forEach(id => parent.set(root(id), root(orderIds[0])));
+  const signals: SplitSignal[] = [];
+
+  // One signal per shared key, linking every order that has it
+  const linkByKey = (kind: SplitSignalKind, keyOf: (order: SplitCandidateOrder) => string[], describe: (key: string) => string) => {
+    const byKey = new Map<string, string[]>();
+    for (const order of inWindow) {
+      for (const key of new Set(keyOf(order).filter(Boolean))) {
+        byKey.set(key, [...(byKey.get(key) || []), order.id]);
+      }
+    }
+    for (const [key, orderIds] of byKey) {
+      if (orderIds.length < 2) continue;
+      link(orderIds);
+      signals.push({ kind, detail: describe(key), orderIds });
+    }
+  };
+
+  const entryOf = (order: SplitCandidateOrder) => (order.consigneeId ? consignees.get(order.consigneeId) : undefined);
+
+  linkByKey('consignee', order => [order.consigneeId || ''], id => consignees.get(id)?.name || 'Same directory entry');
+  linkByKey('phone', order => [normalizePhone(entryOf(order)?.phone)], phone => `Phone ${phone}`);
+  linkByKey('address', order => [normalizeAddress(entryOf(order)?.address)], address => `Address "${address}"`);
+  linkByKey(
+    'tracking',
+    order => [normalizeReference(order.trackingNumber), normalizeReference(order.merchantTrackingNumber), normalizeReference(order.orderNumber)],
+    ref => `Tracking/order # ${ref}`
+  );
+
+  // Names: orders under the same spelling belong together, then each pair of
+  // distinct spellings is compared once
+  const ordersByName = new Map<string, string[]>();
+  const spelling = new Map<string, string>(); // First spelling seen, for the explanation
+  const consigneeIdOf = new Map(inWindow.map(order => [order.id, order.consigneeId]));
+  for (const order of inWindow) {
+    const name = normalizeConsigneeName(order.consignee || '');
+    if (!name) continue;
+    ordersByName.set(name, [...(ordersByName.get(name) || []), order.id]);
+    if (!spelling.has(name)) spelling.set(name, order.consignee.trim());
+  }
+  for (const [name, orderIds] of ordersByName) {
+    if (orderIds.length < 2) continue;
+    link(orderIds);
+    // Orders already on one directory entry have the consignee signal
+    const entryIds = new Set(orderIds.map(id => consigneeIdOf.get(id)));
+    if (entryIds.size > 1 || entryIds.has(undefined)) {
+      signals.push({ kind: 'name', detail: `Same name "${spelling.get(name)}"`, orderIds });
+    }
+  }
+  // A bare first name ("Ana") scores 0.8 against every "Ana <surname>" and
+  // would chain strangers together - it only links by exact spelling above
+  const names = [...ordersByName.keys()].filter(name => name.includes(' '));
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const score = nameSimilarity(names[i], names[j]);
+      if (score < NAME_SIGNAL_SCORE) continue;
+      const orderIds = [...ordersByName.get(names[i])!, ...ordersByName.get(names[j])!];
+      link(orderIds);
+      signals.push({ kind: 'name', detail: `"${spelling.get(names[i])}" ≈ "${spelling.get(names[j])}" (${Math.round(score * 100)}%)`, orderIds });
+    }
+  }
+
+  const groups = new Map<string, SplitCandidateOrder[]>();
+  for (const order of inWindow) {
+    const key = root(order.id);
+    groups.set(key, [...(groups.get(key) || []), order]);
+  }
+
+  const findings: SplitFinding[] = [];
+  for (const [key, members] of groups) {
+    if (members.length < 2) continue;
+    const totalValue = members.reduce((sum, order) => sum + (order.value || 0), 0);
+    if (totalValue <= threshold) continue;
+
+    const orderIds = members.map(order => order.id);
+    const dates = members.map(order => order.date).sort();
+    findings.push({
+      id: findingId(orderIds),
+      orderIds,
+      names: [...new Set(members.map(order => (order.consignee || '').trim()).filter(Boolean))],
+      consigneeIds: [...new Set(members.map(order => order.consigneeId).filter((id): id is string => !!id))],
+      totalValue,
+      largestOrderValue: Math.max(...members.map(order => order.value || 0)),
+      firstDate: dates[0],
+      lastDate: dates[dates.length - 1],
+      signals: signals.filter(signal => root(signal.orderIds[0]) === key),
+    });
+  }
+
+  return findings.sort((a, b) => b.totalValue - a.totalValue);
+};
+
+const SIGNAL_LABELS: Record<SplitSignalKind, string> = {
+  consignee: 'Same consignee',
+  phone: 'Shared phone',
+  address: 'Shared address',
+  name: 'Similar names',
+  tracking: 'Shared tracking number',
+};
+
+/**
+ * Plain-language reasons, one per line
+ */
+export const explainFinding = (finding: SplitFinding, threshold = DUTY_FREE_THRESHOLD): string[] => [
+  `${finding.orderIds.length} orders between ${finding.firstDate} and ${finding.lastDate} add up to ` +
+    `$${finding.totalValue.toFixed(2)}, over the $${threshold} duty-free limit` +
+    (finding.largestOrderValue <= threshold ? ' although each one is under it.' : '.'),
+  ...finding.signals.map(signal => `${SIGNAL_LABELS[signal.kind]}: ${signal.detail} (${signal.orderIds.length} orders)`),
+];
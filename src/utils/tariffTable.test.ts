@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseTariffCsv, parseTariffJson, validateTariffTable } from './tariffTable';
+
+const json = (rates: unknown[], defaultRate: unknown = 0.15) =>
+  JSON.stringify({ version: 'TEST-1', effectiveDate: '2026-01-01', defaultRate, rates });
+
+describe('parseTariffJson', () => {
+  it('reads numbers as fractions, the way the JSON export writes them', () => {
+    const table = parseTariffJson(json([{ code: '61', rate: 0.15 }, { code: '8517', rate: 1 }, { code: '30', rate: 0.005 }]));
+    expect(table.rates.map(r => r.rate)).toEqual([0.15, 1, 0.005]);
+    expect(validateTariffTable(table)).toEqual([]);
+  });
+
+  it('reads only strings with a percent sign as percentages', () => {
+    const table = parseTariffJson(json([{ code: '61', rate: '15%' }, { code: '64', rate: '1%' }, { code: '42', rate: '0.1' }], '15%'));
+    expect(table.rates.map(r => r.rate)).toEqual([0.15, 0.01, 0.1]);
+    expect(table.defaultRate).toBe(0.15);
+  });
+
+  it('rejects a bare percentage instead of guessing', () => {
+    const table = parseTariffJson(json([{ code: '61', rate: 15 }]));
+    expect(table.rates[0].rate).toBe(15);
+    expect(validateTariffTable(table)).toEqual(['Row 1: rate for 61 must be between 0% and 100%']);
+  });
+});
+
+describe('parseTariffCsv', () => {
+  it('reads rates as percentages with or without the sign', () => {
+    const rates = parseTariffCsv('code,description,rate\n61,Punto,15\n64,Calzado,1%\n30,Farma,0.5');
+    expect(rates.map(r => r.rate)).toEqual([0.15, 0.01, 0.005]);
+  });
+});
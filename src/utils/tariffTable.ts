@@ -0,0 +1,218 @@
+import type { TariffMatchLevel, TariffRate, TariffTable } from '../types';
+
+/**
+ * Bundled SAC / DAI tariff table for El Salvador.
+ *
+ * Covers the chapters and headings that show up in personal e-commerce
+ * imports. It is only the starting point: master admins publish updated
+ * versions (JSON or CSV) from the dashboard, and the published version is what
+ * duty quotes use. Rates are fractions (0.15 = 15% DAI).
+ */
+export const DEFAULT_TARIFF_TABLE: TariffTable = {
+  version: 'SAC-DAI-2026.1',
+  effectiveDate: '2026-01-01',
+  source: 'Arancel Centroamericano de Importación (SAC), DAI column - e-commerce chapters',
+  defaultRate: 0.15,
+  rates: [
+    { code: '21', description: 'Preparaciones alimenticias diversas', rate: 0.15 },
+    { code: '30', description: 'Productos farmacéuticos', rate: 0 },
+    { code: '33', description: 'Perfumería, cosméticos y tocador', rate: 0.15 },
+    { code: '3301', description: 'Aceites esenciales', rate: 0 },
+    { code: '39', description: 'Plástico y sus manufacturas', rate: 0.10 },
+    { code: '3924', description: 'Artículos de plástico para el hogar', rate: 0.15 },
+    { code: '42', description: 'Manufacturas de cuero, bolsos y estuches', rate: 0.15 },
+    { code: '49', description: 'Libros e impresos', rate: 0 },
+    { code: '61', description: 'Prendas de vestir de punto', rate: 0.15 },
+    { code: '62', description: 'Prendas de vestir, excepto de punto', rate: 0.15 },
+    { code: '63', description: 'Demás artículos textiles confeccionados', rate: 0.15 },
+    { code: '64', description: 'Calzado', rate: 0.15 },
+    { code: '65', description: 'Sombreros y tocados', rate: 0.15 },
+    { code: '71', description: 'Joyería y bisutería', rate: 0.15 },
+    { code: '82', description: 'Herramientas y cuchillería', rate: 0.10 },
+    { code: '8211', description: 'Cuchillos', rate: 0.15 },
+    { code: '84', description: 'Máquinas y aparatos mecánicos', rate: 0.05 },
+    { code: '8415', description: 'Aires acondicionados', rate: 0.15 },
+    { code: '8418', description: 'Refrigeradores y congeladores', rate: 0.15 },
+    { code: '8443', description: 'Impresoras', rate: 0 },
+    { code: '8471', description: 'Computadoras y unidades de proceso', rate: 0 },
+    { code: '85', description: 'Máquinas y aparatos eléctricos', rate: 0.05 },
+    { code: '8504', description: 'Cargadores y transformadores', rate: 0.05 },
+    { code: '8516', description: 'Secadores de pelo, planchas y electrodomésticos', rate: 0.15 },
+    { code: '8517', description: 'Teléfonos celulares y equipo de telecomunicación', rate: 0 },
+    { code: '8518', description: 'Audífonos, bocinas y micrófonos', rate: 0.10 },
+    { code: '8523', description: 'Memorias y soportes de grabación', rate: 0 },
+    { code: '8528', description: 'Televisores y monitores', rate: 0.15 },
+    { code: '87', description: 'Vehículos y sus partes', rate: 0.10 },
+    { code: '8708', description: 'Partes y accesorios de vehículos', rate: 0.05 },
+    { code: '90', description: 'Instrumentos de óptica y médicos', rate: 0.05 },
+    { code: '9004', description: 'Gafas y anteojos de sol', rate: 0.15 },
+    { code: '91', description: 'Relojería', rate: 0.15 },
+    { code: '94', description: 'Muebles y lámparas', rate: 0.15 },
+    { code: '95', description: 'Juguetes, juegos y artículos de deporte', rate: 0.10 },
+    { code: '9504', description: 'Consolas y videojuegos', rate: 0.15 },
+    { code: '96', description: 'Manufacturas diversas', rate: 0.15 },
+  ],
+};
+
+export interface TariffLookup {
+  rate: number;
+  matchedCode?: string;
+  matchLevel: TariffMatchLevel;
+  description?: string;
+}
+
+/**
+ * HS code digits only ("6109.10.00" → "61091000")
+ */
+export const normalizeHsCode = (hsCode: string | undefined): string =>
+  (hsCode || '').replace(/\D/g, '');
+
+const matchLevelFor = (code: string): TariffMatchLevel =>
+  code.length <= 2 ? 'chapter' : code.length <= 4 ? 'heading' : 'subheading';
+
+/**
+ * Find the DAI rate for an HS code: the longest table code that prefixes it,
+ * falling back to the chapter and then to the table's default rate.
+ */
+export const lookupTariffRate = (table: TariffTable, hsCode: string | undefined): TariffLookup => {
+  const digits = normalizeHsCode(hsCode);
+  if (digits.length >= 2) {
+    const byCode = new Map(table.rates.map(r => [normalizeHsCode(r.code), r]));
+    for (let length = digits.length; length >= 2; length--) {
+      const entry = byCode.get(digits.slice(0, length));
+      if (entry) {
+        return {
+          rate: entry.rate,
+          matchedCode: entry.code,
+          matchLevel: matchLevelFor(normalizeHsCode(entry.code)),
+          description: entry.description,
+        };
+      }
+    }
+  }
+  return { rate: table.defaultRate, matchLevel: 'default' };
+};
+
+/**
+ * Check a table before it is published. Returns a list of problems (empty = OK).
+ */
+export const validateTariffTable = (table: TariffTable): string[] => {
+  const errors: string[] = [];
+  if (!table.version?.trim()) errors.push('Version is required');
+  if (table.version?.includes('/')) errors.push('Version can\'t contain "/"');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(table.effectiveDate || '')) errors.push('Effective date must be YYYY-MM-DD');
+  if (!(table.defaultRate >= 0 && table.defaultRate <= 1)) errors.push('Default rate must be between 0% and 100%');
+
+  const seen = new Set<string>();
+  table.rates.forEach((r, i) => {
+    const code = normalizeHsCode(r.code);
+    if (code.length < 2 || code.length % 2 !== 0) errors.push(`Row ${i + 1}: code "${r.code}" must have an even number of digits (2, 4, 6...)`);
+    if (seen.has(code)) errors.push(`Row ${i + 1}: duplicate code ${r.code}`);
+    if (!(r.rate >= 0 && r.rate <= 1)) errors.push(`Row ${i + 1}: rate for ${r.code} must be between 0% and 100%`);
+    seen.add(code);
+  });
+  return errors;
+};
+
+/**
+ * CSV rates are always percentages, with or without the sign ("1" and "1%" → 0.01),
+ * so a 1% or 0.5% rate can't be mistaken for a fraction
+ */
+const parsePercent = (value: string | undefined): number => {
+  const number = parseFloat((value ?? '').replace('%', ''));
+  return Number.isFinite(number) ? number / 100 : NaN;
+};
+
+/**
+ * JSON rates are fractions, as the JSON export writes them (0.15 = 15%). Only a
+ * string with a "%" sign is a percentage ("15%" → 0.15, "1%" → 0.01); a bare 15
+ * is left as is and fails validation instead of being guessed at.
+ */
+const parseRate = (value: unknown): number => {
+  if (typeof value === 'string' && value.includes('%')) return parsePercent(value);
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(number) ? number : NaN;
+};
+
+/**
+ * Parse a tariff table exported as JSON ({version, effectiveDate, defaultRate, rates: [...]})
+ */
+export const parseTariffJson = (text: string): TariffTable => {
+  const data = JSON.parse(text);
+  if (!data || !Array.isArray(data.rates)) {
+    throw new Error('JSON must contain a "rates" array');
+  }
+  return {
+    version: String(data.version || ''),
+    effectiveDate: String(data.effectiveDate || ''),
+    source: data.source ? String(data.source) : undefined,
+    defaultRate: parseRate(data.defaultRate ?? DEFAULT_TARIFF_TABLE.defaultRate),
+    rates: data.rates.map((r: { code?: unknown; description?: unknown; rate?: unknown }) => ({
+      code: normalizeHsCode(String(r.code ?? '')),
+      description: String(r.description ?? ''),
+      rate: parseRate(r.rate),
+    })),
+  };
+};
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+export const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { current += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else current += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+/**
+ * Parse tariff rates from CSV with a "code,description,rate" header, rate in
+ * percent. Version and effective date are entered separately when publishing.
+ */
+export const parseTariffCsv = (text: string): TariffRate[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.trim().startsWith('#'));
+  if (lines.length === 0) throw new Error('CSV is empty');
+
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const codeCol = header.findIndex(h => h === 'code' || h === 'hscode' || h === 'hs_code');
+  const descCol = header.findIndex(h => h === 'description' || h === 'descripcion');
+  const rateCol = header.findIndex(h => h === 'rate' || h === 'dai');
+  if (codeCol < 0 || rateCol < 0) {
+    throw new Error('CSV header must include "code" and "rate" columns');
+  }
+
+  return lines.slice(1).map(line => {
+    const fields = splitCsvLine(line);
+    return {
+      code: normalizeHsCode(fields[codeCol]),
+      description: descCol >= 0 ? fields[descCol] || '' : '',
+      rate: parsePercent(fields[rateCol]),
+    };
+  });
+};
+
+/**
+ * CSV for downloading the current table (same format parseTariffCsv reads)
+ */
+export const tariffRatesToCsv = (rates: TariffRate[]): string => {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return ['code,description,rate']
+    .concat(rates.map(r => `${r.code},${escape(r.description)},${Math.round(r.rate * 10000) / 100}%`))
+    .join('\n');
+};
@@ -0,0 +1,418 @@
+import type { PackageItem, TranslationDictionary } from '../types';
+import { splitCsvLine } from './tariffTable';
+
+/**
+ * English → Spanish dictionary for customs descriptions.
+ *
+ * The built-in dictionary below ships with the app. Each organization can
+ * add terms or override built-in ones from Settings; its entries are saved
+ * as numbered versions (services/translationDictionaryService) and merged
+ * over the built-in ones at export time, so new terms need no deploy. Words
+ * a translation leaves in English are reported back so the dictionary can
+ * grow from real orders.
+ */
+
+// ── Built-in dictionary ──────────────────────────────────────────────────────
+
+const BUILTIN_PHRASES: Record<string, string> = {
+  // Multi-word phrases (matched first, longest first)
+  'SCREEN PROTECTOR': 'PROTECTOR DE PANTALLA',
+  'PHONE CASE': 'FUNDA DE TELÉFONO',
+  'CELL PHONE': 'TELÉFONO CELULAR',
+  'SMART WATCH': 'RELOJ INTELIGENTE',
+  'SMART PHONE': 'TELÉFONO INTELIGENTE',
+  'POWER BANK': 'BATERÍA PORTÁTIL',
+  'MEMORY CARD': 'TARJETA DE MEMORIA',
+  'FLASH DRIVE': 'MEMORIA USB',
+  'HARD DRIVE': 'DISCO DURO',
+  'HOME GOODS': 'ARTÍCULOS PARA EL HOGAR',
+  'STUFFED ANIMAL': 'PELUCHE',
+  'ACTION FIGURE': 'FIGURA DE ACCIÓN',
+  'HAIR DRYER': 'SECADORA DE CABELLO',
+  'CURLING IRON': 'RIZADOR DE CABELLO',
+  'FLAT IRON': 'PLANCHA DE CABELLO',
+  'NAIL POLISH': 'ESMALTE DE UÑAS',
+  'BABY CLOTHES': 'ROPA DE BEBÉ',
+  'BABY SHOES': 'ZAPATOS DE BEBÉ',
+  'RUNNING SHOES': 'ZAPATOS PARA CORRER',
+  'HIGH HEELS': 'TACONES ALTOS',
+  'FLIP FLOPS': 'CHANCLETAS',
+  'SWIM SUIT': 'TRAJE DE BAÑO',
+  'SWIMSUIT': 'TRAJE DE BAÑO',
+  'BATHING SUIT': 'TRAJE DE BAÑO',
+  'TANK TOP': 'CAMISETA SIN MANGAS',
+  'LONG SLEEVE': 'MANGA LARGA',
+  'SHORT SLEEVE': 'MANGA CORTA',
+  'NO ITEM DETAILS': 'SIN DETALLES DE ARTÍCULO',
+  'STAINLESS STEEL': 'ACERO INOXIDABLE',
+  'ESSENTIAL OIL': 'ACEITE ESENCIAL',
+  'WATER BOTTLE': 'BOTELLA DE AGUA',
+  'TRAVEL BAG': 'BOLSA DE VIAJE',
+  'FANNY PACK': 'CANGURO',
+  'MAKE UP': 'MAQUILLAJE',
+  'MAKEUP': 'MAQUILLAJE',
+  'SKIN CARE': 'CUIDADO DE PIEL',
+  'SKINCARE': 'CUIDADO DE PIEL',
+  'HAIR CLIP': 'PINZA DE CABELLO',
+  'HAIR TIE': 'LIGA DE CABELLO',
+  'GIFT SET': 'SET DE REGALO',
+  'TOY SET': 'SET DE JUGUETE',
+  'TOOL SET': 'SET DE HERRAMIENTAS',
+  'BED SHEET': 'SÁBANA',
+  'BED SHEETS': 'SÁBANAS',
+  'PILLOW CASE': 'FUNDA DE ALMOHADA',
+  'SHOWER CURTAIN': 'CORTINA DE BAÑO',
+  'CUTTING BOARD': 'TABLA DE CORTAR',
+  'FRYING PAN': 'SARTÉN',
+  'COFFEE MUG': 'TAZA DE CAFÉ',
+  'WINE GLASS': 'COPA DE VINO',
+  'LED LIGHT': 'LUZ LED',
+  'LED LIGHTS': 'LUCES LED',
+  'FAIRY LIGHTS': 'LUCES DECORATIVAS',
+  'PACKING TAPE': 'CINTA DE EMBALAJE',
+  'DUCT TAPE': 'CINTA ADHESIVA',
+  'EXTENSION CORD': 'CABLE DE EXTENSIÓN',
+  'SURGE PROTECTOR': 'PROTECTOR DE VOLTAJE',
+  'CAR CHARGER': 'CARGADOR DE AUTO',
+  'WALL CHARGER': 'CARGADOR DE PARED',
+  'WIRELESS CHARGER': 'CARGADOR INALÁMBRICO',
+  'EAR BUDS': 'AUDÍFONOS',
+  'EARBUDS': 'AUDÍFONOS',
+  'EAR PODS': 'AUDÍFONOS',
+  'HEAD PHONES': 'AUDÍFONOS',
+  'HEADPHONES': 'AUDÍFONOS',
+  'BLUETOOTH SPEAKER': 'BOCINA BLUETOOTH',
+  'PORTABLE SPEAKER': 'BOCINA PORTÁTIL',
+};
+
+const BUILTIN_WORDS: Record<string, string> = {
+  // Electronics
+  'PHONE': 'TELÉFONO', 'LAPTOP': 'LAPTOP', 'TABLET': 'TABLETA',
+  'COMPUTER': 'COMPUTADORA', 'CHARGER': 'CARGADOR', 'CABLE': 'CABLE',
+  'ADAPTER': 'ADAPTADOR', 'BATTERY': 'BATERÍA', 'SPEAKER': 'BOCINA',
+  'CAMERA': 'CÁMARA', 'MONITOR': 'MONITOR', 'KEYBOARD': 'TECLADO',
+  'MOUSE': 'RATÓN', 'PRINTER': 'IMPRESORA', 'SCANNER': 'ESCÁNER',
+  'ROUTER': 'ROUTER', 'MODEM': 'MODEM', 'MICROPHONE': 'MICRÓFONO',
+  'HEADSET': 'AUDÍFONOS', 'CONTROLLER': 'CONTROL', 'CONSOLE': 'CONSOLA',
+  'REMOTE': 'CONTROL REMOTO', 'STYLUS': 'LÁPIZ DIGITAL',
+  'TRIPOD': 'TRÍPODE', 'DRONE': 'DRON', 'PROJECTOR': 'PROYECTOR',
+  // Clothing
+  'SHIRT': 'CAMISA', 'T-SHIRT': 'CAMISETA', 'TSHIRT': 'CAMISETA',
+  'PANTS': 'PANTALONES', 'JEANS': 'JEANS', 'DRESS': 'VESTIDO',
+  'JACKET': 'CHAQUETA', 'COAT': 'ABRIGO', 'SWEATER': 'SUÉTER',
+  'HOODIE': 'SUDADERA', 'SHORTS': 'PANTALONES CORTOS', 'SKIRT': 'FALDA',
+  'BLOUSE': 'BLUSA', 'SUIT': 'TRAJE', 'VEST': 'CHALECO',
+  'LEGGINGS': 'LEGGINGS', 'PAJAMAS': 'PIJAMAS', 'ROBE': 'BATA',
+  'UNIFORM': 'UNIFORME', 'COSTUME': 'DISFRAZ', 'SCARF': 'BUFANDA',
+  'GLOVES': 'GUANTES', 'TIE': 'CORBATA', 'APRON': 'DELANTAL',
+  // Underwear
+  'UNDERWEAR': 'ROPA INTERIOR', 'BRAS': 'SOSTENES', 'BRA': 'SOSTÉN',
+  'SOCKS': 'CALCETINES', 'BOXERS': 'BÓXERS', 'BRIEFS': 'CALZONCILLOS',
+  'PANTIES': 'PANTALETAS', 'THONG': 'TANGA',
+  // Shoes
+  'SHOES': 'ZAPATOS', 'SNEAKERS': 'TENIS', 'BOOTS': 'BOTAS',
+  'SANDALS': 'SANDALIAS', 'HEELS': 'TACONES', 'FLATS': 'ZAPATOS BAJOS',
+  'SLIPPERS': 'PANTUFLAS', 'LOAFERS': 'MOCASINES', 'CLEATS': 'TACOS',
+  // Accessories
+  'WATCH': 'RELOJ', 'WATCHES': 'RELOJES', 'SUNGLASSES': 'LENTES DE SOL',
+  'GLASSES': 'LENTES', 'BELT': 'CINTURÓN', 'BELTS': 'CINTURONES',
+  'WALLET': 'CARTERA', 'PURSE': 'BOLSO', 'BAG': 'BOLSA',
+  'BAGS': 'BOLSAS', 'BACKPACK': 'MOCHILA', 'HAT': 'SOMBRERO',
+  'HATS': 'SOMBREROS', 'CAP': 'GORRA', 'JEWELRY': 'JOYERÍA',
+  'NECKLACE': 'COLLAR', 'BRACELET': 'PULSERA', 'EARRINGS': 'ARETES',
+  'RING': 'ANILLO', 'RINGS': 'ANILLOS', 'PENDANT': 'DIJE',
+  'CHAIN': 'CADENA', 'CHAINS': 'CADENAS', 'BROOCH': 'BROCHE',
+  // Home & Kitchen
+  'PILLOW': 'ALMOHADA', 'BLANKET': 'COBIJA', 'TOWEL': 'TOALLA',
+  'TOWELS': 'TOALLAS', 'CURTAIN': 'CORTINA', 'CURTAINS': 'CORTINAS',
+  'RUG': 'ALFOMBRA', 'MAT': 'TAPETE', 'LAMP': 'LÁMPARA',
+  'CANDLE': 'VELA', 'CANDLES': 'VELAS', 'PLATE': 'PLATO',
+  'PLATES': 'PLATOS', 'CUP': 'TAZA', 'CUPS': 'TAZAS',
+  'BOWL': 'TAZÓN', 'BOWLS': 'TAZONES', 'POT': 'OLLA',
+  'PAN': 'SARTÉN', 'UTENSILS': 'UTENSILIOS', 'KNIFE': 'CUCHILLO',
+  'KNIVES': 'CUCHILLOS', 'FORK': 'TENEDOR', 'SPOON': 'CUCHARA',
+  'CONTAINER': 'RECIPIENTE', 'ORGANIZER': 'ORGANIZADOR', 'SHELF': 'ESTANTE',
+  'BASKET': 'CANASTA', 'VASE': 'FLORERO', 'FRAME': 'MARCO',
+  'MIRROR': 'ESPEJO', 'CLOCK': 'RELOJ', 'THERMOMETER': 'TERMÓMETRO',
+  'FAN': 'VENTILADOR', 'IRON': 'PLANCHA', 'BLENDER': 'LICUADORA',
+  'MIXER': 'BATIDORA', 'TOASTER': 'TOSTADORA',
+  // Beauty & Cosmetics
+  'LIPSTICK': 'LABIAL', 'FOUNDATION': 'BASE', 'MASCARA': 'RÍMEL',
+  'PERFUME': 'PERFUME', 'COLOGNE': 'COLONIA', 'LOTION': 'LOCIÓN',
+  'CREAM': 'CREMA', 'SHAMPOO': 'CHAMPÚ', 'CONDITIONER': 'ACONDICIONADOR',
+  'SOAP': 'JABÓN', 'BRUSH': 'CEPILLO', 'BRUSHES': 'CEPILLOS',
+  'DEODORANT': 'DESODORANTE', 'SUNSCREEN': 'PROTECTOR SOLAR',
+  'MOISTURIZER': 'HUMECTANTE', 'SERUM': 'SÉRUM', 'TONER': 'TÓNICO',
+  'CLEANSER': 'LIMPIADOR', 'EXFOLIATOR': 'EXFOLIANTE',
+  // Toys & Games
+  'TOY': 'JUGUETE', 'TOYS': 'JUGUETES', 'DOLL': 'MUÑECA',
+  'DOLLS': 'MUÑECAS', 'PUZZLE': 'ROMPECABEZAS', 'GAME': 'JUEGO',
+  'GAMES': 'JUEGOS', 'BALL': 'PELOTA', 'BLOCKS': 'BLOQUES',
+  'CARDS': 'CARTAS', 'DICE': 'DADOS', 'STICKERS': 'CALCOMANÍAS',
+  // Food & Drinks
+  'CHOCOLATE': 'CHOCOLATE', 'CANDY': 'DULCES', 'SNACKS': 'BOCADILLOS',
+  'COFFEE': 'CAFÉ', 'TEA': 'TÉ', 'SPICES': 'ESPECIAS',
+  'SAUCE': 'SALSA', 'CEREAL': 'CEREAL', 'COOKIES': 'GALLETAS',
+  'VITAMINS': 'VITAMINAS', 'SUPPLEMENTS': 'SUPLEMENTOS',
+  'PROTEIN': 'PROTEÍNA',
+  // Tools & Hardware
+  'TOOLS': 'HERRAMIENTAS', 'TOOL': 'HERRAMIENTA', 'DRILL': 'TALADRO',
+  'HAMMER': 'MARTILLO', 'SCREWDRIVER': 'DESTORNILLADOR', 'WRENCH': 'LLAVE',
+  'PLIERS': 'PINZAS', 'TAPE': 'CINTA', 'GLUE': 'PEGAMENTO',
+  'SCISSORS': 'TIJERAS', 'MEASURING': 'MEDICIÓN', 'LEVEL': 'NIVEL',
+  // Materials / Adjectives
+  'COTTON': 'ALGODÓN', 'LEATHER': 'CUERO', 'PLASTIC': 'PLÁSTICO',
+  'METAL': 'METAL', 'RUBBER': 'CAUCHO', 'WOODEN': 'MADERA',
+  'WOOD': 'MADERA', 'GLASS': 'VIDRIO', 'CERAMIC': 'CERÁMICA',
+  'SILK': 'SEDA', 'WOOL': 'LANA', 'NYLON': 'NYLON', 'LINEN': 'LINO',
+  'VELVET': 'TERCIOPELO', 'DENIM': 'MEZCLILLA', 'POLYESTER': 'POLIÉSTER',
+  'PORTABLE': 'PORTÁTIL', 'WIRELESS': 'INALÁMBRICO', 'WATERPROOF': 'IMPERMEABLE',
+  'RECHARGEABLE': 'RECARGABLE', 'ADJUSTABLE': 'AJUSTABLE', 'FOLDABLE': 'PLEGABLE',
+  'MAGNETIC': 'MAGNÉTICO', 'AUTOMATIC': 'AUTOMÁTICO', 'DIGITAL': 'DIGITAL',
+  'ELECTRIC': 'ELÉCTRICO', 'ELECTRONIC': 'ELECTRÓNICO',
+  'MINI': 'MINI', 'LARGE': 'GRANDE', 'SMALL': 'PEQUEÑO', 'MEDIUM': 'MEDIANO',
+  // General terms
+  'SET': 'SET', 'PACK': 'PAQUETE', 'PAIR': 'PAR', 'PIECE': 'PIEZA',
+  'PIECES': 'PIEZAS', 'BOX': 'CAJA', 'KIT': 'KIT', 'CASE': 'FUNDA',
+  'COVER': 'FUNDA', 'HOLDER': 'SOPORTE', 'STAND': 'SOPORTE',
+  'MOUNT': 'MONTAJE', 'RACK': 'ESTANTE', 'HOOK': 'GANCHO',
+  'STRAP': 'CORREA', 'BAND': 'BANDA', 'CLIP': 'CLIP',
+  // People / Sizes
+  'MEN': 'HOMBRES', "MEN'S": 'DE HOMBRE', 'WOMEN': 'MUJERES',
+  "WOMEN'S": 'DE MUJER', 'KIDS': 'NIÑOS', "KID'S": 'DE NIÑO',
+  'CHILDREN': 'NIÑOS', "CHILDREN'S": 'DE NIÑOS',
+  'BABY': 'BEBÉ', 'INFANT': 'INFANTIL', 'TODDLER': 'NIÑO PEQUEÑO',
+  'BOYS': 'NIÑOS', 'GIRLS': 'NIÑAS', 'UNISEX': 'UNISEX',
+  // Colors
+  'BLACK': 'NEGRO', 'WHITE': 'BLANCO', 'RED': 'ROJO', 'BLUE': 'AZUL',
+  'GREEN': 'VERDE', 'YELLOW': 'AMARILLO', 'PINK': 'ROSA',
+  'PURPLE': 'MORADO', 'ORANGE': 'NARANJA', 'BROWN': 'CAFÉ',
+  'GRAY': 'GRIS', 'GREY': 'GRIS', 'GOLD': 'DORADO', 'SILVER': 'PLATEADO',
+  'BEIGE': 'BEIGE', 'NAVY': 'AZUL MARINO', 'TEAL': 'VERDE AZULADO',
+  // Misc
+  'NEW': 'NUEVO', 'USED': 'USADO', 'REPLACEMENT': 'REPUESTO',
+  'ACCESSORIES': 'ACCESORIOS', 'ACCESSORY': 'ACCESORIO',
+  'ELECTRONICS': 'ELECTRÓNICOS', 'CLOTHING': 'ROPA',
+  'COSMETICS': 'COSMÉTICOS', 'FOOD': 'ALIMENTOS',
+  'BOOKS': 'LIBROS', 'BOOK': 'LIBRO', 'MEDICINE': 'MEDICINA',
+  'SIZE': 'TALLA', 'COLOR': 'COLOR', 'STYLE': 'ESTILO',
+  'TYPE': 'TIPO', 'MODEL': 'MODELO', 'BRAND': 'MARCA',
+  'WITH': 'CON', 'FOR': 'PARA', 'AND': 'Y', 'OR': 'O',
+  'THE': 'EL', 'OF': 'DE', 'IN': 'EN',
+};
+
+// Words to filter out of descriptions (inappropriate for customs forms)
+const BUILTIN_FLAGGED_WORDS = ['SEXY', 'EROTIC', 'ADULT', 'SENSUAL', 'PROVOCATIVE', 'SEDUCTIVE',
+  'LENCERÍA', 'LENCERIA', 'ÍNTIMO', 'INTIMO', 'INTIMATE', 'LINGERIE', 'THONG', 'TANGA'];
+
+export const BUILTIN_DICTIONARY: TranslationDictionary = {
+  version: 0,
+  phrases: BUILTIN_PHRASES,
+  words: BUILTIN_WORDS,
+  keepWords: [],
+  flaggedWords: BUILTIN_FLAGGED_WORDS,
+};
+
+// An organization's own entries, without version metadata
+export type DictionaryEntries = Pick<TranslationDictionary, 'phrases' | 'words' | 'keepWords' | 'flaggedWords'>;
+
+export const EMPTY_DICTIONARY_ENTRIES: DictionaryEntries = { phrases: {}, words: {}, keepWords: [], flaggedWords: [] };
+
+const normalizeTerm = (term: string): string => term.replace(/\s+/g, ' ').trim().toUpperCase();
+
+/**
+ * The dictionary an export uses: the organization's entries over the built-in ones
+ */
+export const mergeDictionaries = (
+  base: TranslationDictionary,
+  overrides?: TranslationDictionary | null,
+): TranslationDictionary => {
+  if (!overrides) return base;
+  return {
+    ...overrides,
+    phrases: { ...base.phrases, ...overrides.phrases },
+    words: { ...base.words, ...overrides.words },
+    keepWords: [...new Set([...base.keepWords, ...overrides.keepWords])],
+    flaggedWords: [...new Set([...base.flaggedWords, ...overrides.flaggedWords])],
+  };
+};
+
+// ── Translation ──────────────────────────────────────────────────────────────
+
+interface CompiledDictionary {
+  phrases: { regex: RegExp; spanish: string }[]; // Longest first for greedy matching
+  words: Record<string, string>;
+  flagged: RegExp[];
+  known: Set<string>; // Keep words and every word of a translation - never reported
+}
+
+const compiledDictionaries = new WeakMap<TranslationDictionary, CompiledDictionary>();
+
+// Terms are plain text - "C++" or "(USB" must not be read as a pattern. The
+// lookarounds act like \b but also hold at a term's punctuation ends.
+const escapeRegExp = (term: string): string => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termRegex = (term: string, flags: string): RegExp =>
+  new RegExp(`(?<!\\w)${escapeRegExp(term)}(?!\\w)`, flags);
+
+const compile = (dictionary: TranslationDictionary): CompiledDictionary => {
+  const cached = compiledDictionaries.get(dictionary);
+  if (cached) return cached;
+
+  const spanish = [...Object.values(dictionary.phrases), ...Object.values(dictionary.words)];
+  const compiled: CompiledDictionary = {
+    phrases: Object.keys(dictionary.phrases)
+      .sort((a, b) => b.length - a.length)
+      .map(phrase => ({
+        regex: termRegex(phrase, 'g'),
+        spanish: dictionary.phrases[phrase],
+      })),
+    words: dictionary.words,
+    flagged: dictionary.flaggedWords.filter(word => word.trim()).map(word => termRegex(word, 'gi')),
+    known: new Set([...dictionary.keepWords, ...spanish.flatMap(value => value.split(/\s+/))]),
+  };
+  compiledDictionaries.set(dictionary, compiled);
+  return compiled;
+};
+
+/** Strip flagged words from any description (customs or fallback) */
+export const filterFlaggedWords = (text: string, dictionary: TranslationDictionary = BUILTIN_DICTIONARY): string => {
+  let result = text;
+  for (const regex of compile(dictionary).flagged) {
+    result = result.replace(regex, '');
+  }
+  return result.replace(/\s{2,}/g, ' ').trim();
+};
+
+/**
+ * Translate an item description from English to Spanish.
+ * Uses phrase matching first (longest match wins), then word-by-word.
+ * Brand names, numbers, and unrecognized words pass through unchanged;
+ * plain English-looking words among them are collected in `untranslated`.
+ */
+export const translateToSpanish = (
+  text: string,
+  dictionary: TranslationDictionary = BUILTIN_DICTIONARY,
+  untranslated?: Set<string>,
+): string => {
+  const { phrases, words, flagged, known } = compile(dictionary);
+  let upper = text.toUpperCase();
+
+  // Filter out flagged words
+  for (const regex of flagged) {
+    upper = upper.replace(regex, '');
+  }
+  upper = upper.replace(/\s{2,}/g, ' ').trim();
+
+  // Phase 1: Replace known multi-word phrases
+  for (const { regex, spanish } of phrases) {
+    upper = upper.replace(regex, spanish);
+  }
+
+  // Phase 2: Replace remaining individual English words
+  upper = upper.replace(/[A-ZÀ-Ú'-]+/g, (word) => {
+    if (words[word]) return words[word];
+    if (untranslated && /^[A-Z]{3,}$/.test(word) && !known.has(word)) untranslated.add(word);
+    return word;
+  });
+
+  // Convert to title case (capitalize first letter of each word)
+  const titleCase = upper.toLowerCase().replace(/(?:^|\s)\S/g, (c) => c.toUpperCase());
+
+  // Truncate to max 5 words — customs needs short descriptions, not marketing copy
+  const titleWords = titleCase.split(/\s+/).filter(Boolean);
+  return titleWords.slice(0, 5).join(' ');
+};
+
+/**
+ * Spanish description declared for an item: the customs description from
+ * extraction when there is one, else the translated name
+ */
+export const declaredDescription = (
+  item: Pick<PackageItem, 'name' | 'customsDescription'>,
+  dictionary: TranslationDictionary = BUILTIN_DICTIONARY,
+  untranslated?: Set<string>,
+): string =>
+  filterFlaggedWords(
+    item.customsDescription?.trim() || translateToSpanish(item.name || 'Item', dictionary, untranslated),
+    dictionary,
+  );
+
+// ── Editing, CSV ─────────────────────────────────────────────────────────────
+
+/**
+ * Returns a list of problems (empty = OK)
+ */
+export const validateDictionaryEntries = (entries: DictionaryEntries): string[] => {
+  const errors: string[] = [];
+  for (const [english, spanish] of Object.entries(entries.phrases)) {
+    if (!spanish.trim()) errors.push(`Phrase "${english}" has no Spanish translation`);
+  }
+  for (const [english, spanish] of Object.entries(entries.words)) {
+    if (/\s/.test(english)) errors.push(`Word "${english}" has spaces - add it as a phrase`);
+    if (!spanish.trim()) errors.push(`Word "${english}" has no Spanish translation`);
+  }
+  for (const word of entries.keepWords) {
+    if (!word.trim() || /\s/.test(word.trim())) errors.push(`Keep word "${word}" must be a single word`);
+  }
+  for (const word of entries.flaggedWords) {
+    if (!/[\p{L}\p{N}]/u.test(word)) errors.push(`Flagged word "${word}" needs at least one letter or digit`);
+  }
+  return errors;
+};
+
+type CsvEntryType = 'phrase' | 'word' | 'keep' | 'flagged';
+
+/**
+ * CSV with "type,english,spanish" rows - type is phrase, word, keep (leave as
+ * is, e.g. brand names) or flagged (removed from descriptions)
+ */
+export const dictionaryToCsv = (entries: DictionaryEntries): string => {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = [
+    ...Object.entries(entries.phrases).map(([english, spanish]) => ['phrase', english, spanish]),
+    ...Object.entries(entries.words).map(([english, spanish]) => ['word', english, spanish]),
+    ...entries.keepWords.map(word => ['keep', word, '']),
+    ...entries.flaggedWords.map(word => ['flagged', word, '']),
+  ];
+  return ['type,english,spanish', ...rows.map(row => row.map(escape).join(','))].join('\n');
+};
+
+/**
+ * Parse a dictionary CSV (header optional). Rows identical to the built-in
+ * dictionary are dropped so a full export can be edited and imported back.
+ */
+export const parseDictionaryCsv = (text: string): { entries: DictionaryEntries; errors: string[] } => {
+  const entries: DictionaryEntries = { phrases: {}, words: {}, keepWords: [], flaggedWords: [] };
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const [rawType, rawEnglish, rawSpanish] = splitCsvLine(line);
+    if (index === 0 && rawType?.toLowerCase() === 'type') return; // Header
+    const type = (rawType || '').toLowerCase() as CsvEntryType;
+
+    const english = normalizeTerm(rawEnglish || '');
+    const spanish = normalizeTerm(rawSpanish || '');
+    if (!english) {
+      errors.push(`Line ${index + 1}: English term missing`);
+    } else if (type === 'phrase' || type === 'word') {
+      if (!spanish) {
+        errors.push(`Line ${index + 1}: "${english}" has no Spanish translation`);
+        return;
+      }
+      // A single word listed as a phrase (or the reverse) goes where it will match
+      const target = english.includes(' ') ? 'phrases' : 'words';
+      const builtin = BUILTIN_DICTIONARY.phrases[english] ?? BUILTIN_DICTIONARY.words[english];
+      if (builtin !== spanish) entries[target][english] = spanish;
+    } else if (type === 'keep') {
+      if (!BUILTIN_DICTIONARY.keepWords.includes(english)) entries.keepWords.push(english);
+    } else if (type === 'flagged') {
+      if (!BUILTIN_DICTIONARY.flaggedWords.includes(english)) entries.flaggedWords.push(english);
+    } else {
+      errors.push(`Line ${index + 1}: type must be phrase, word, keep or flagged`);
+    }
+  });
+
+  return { entries, errors };
+};